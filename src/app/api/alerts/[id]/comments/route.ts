@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { addAlertComment, alertCommentSchema } from '@/lib/alertTriage';
+
+// Adds a comment to an alert's audit trail. Body: { text, author? }
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = alertCommentSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid comment',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const event = await addAlertComment(session, params.id, parsed.data);
+    if (!event) {
+      return NextResponse.json({ error: `Alert ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ event }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Failed to add alert comment:', error);
+    return NextResponse.json({ error: 'Failed to add comment', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { alertUpdateSchema, getAlert, getAlertEvents, updateAlert } from '@/lib/alertTriage';
+
+// An alert with its audit trail (status changes, assignments, comments)
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    session = await getSession();
+    const alert = await getAlert(session, params.id);
+    if (!alert) {
+      return NextResponse.json({ error: `Alert ${params.id} not found` }, { status: 404 });
+    }
+    const events = await getAlertEvents(session, params.id);
+    return NextResponse.json({ alert, events });
+
+  } catch (error: any) {
+    console.error('Failed to fetch alert:', error);
+    return NextResponse.json({ error: 'Failed to fetch alert', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+// Triage an alert: change its status and/or assignee. Body: { status?, assignee?, author? }
+export async function PATCH(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = alertUpdateSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid alert update',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const alert = await updateAlert(session, params.id, parsed.data);
+    if (!alert) {
+      return NextResponse.json({ error: `Alert ${params.id} not found` }, { status: 404 });
+    }
+    const events = await getAlertEvents(session, params.id);
+    return NextResponse.json({ alert, events });
+
+  } catch (error: any) {
+    console.error('Failed to update alert:', error);
+    return NextResponse.json({ error: 'Failed to update alert', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
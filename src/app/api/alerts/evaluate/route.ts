@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { evaluateAlertRules, listAlerts } from '@/lib/alertEngine';
+
+// Runs all alert rules against the current graph and returns the updated alert list
+export async function POST() {
+  let session;
+  try {
+    session = await getSession();
+    const summary = await evaluateAlertRules(session);
+    const alerts = await listAlerts(session);
+    return NextResponse.json({ summary, alerts });
+
+  } catch (error: any) {
+    console.error('Failed to evaluate alert rules:', error);
+    return NextResponse.json({ error: 'Failed to evaluate alert rules', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -1,53 +1,39 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
 import { getSession } from '@/lib/neo4j'; // Adjust path if needed
+import { AlertFilters, listAlertAssignees, listAlerts } from '@/lib/alertEngine';
+import { ALERT_STATUSES, AlertSeverity, AlertStatus } from '@/lib/alertRules';
 
-export async function GET() {
+const SEVERITIES: AlertSeverity[] = ['High', 'Medium', 'Low'];
+
+// Alerts raised by the rule engine (see lib/alertRules.ts), most recently matched first.
+// Rules are evaluated after every import and on POST /api/alerts/evaluate.
+// Optional filters: ?status=, ?severity= and ?assignee= (use "unassigned" for none).
+export async function GET(request: NextRequest) {
   let session;
-  try {
-    // TODO: Implement actual Neo4j connection and query for alerts
-    // Example: Query for nodes labeled 'Alert' created recently
-    // session = await getSession();
-    // const result = await session.run(
-    //   `MATCH (a:Alert)
-    //    WHERE a.timestamp > datetime() - duration({days: 1})
-    //    RETURN a.id as id, a.description as description, a.severity as severity, a.timestamp as timestamp
-    //    ORDER BY a.timestamp DESC
-    //    LIMIT 10`
-    // );
-    // const alerts = result.records.map(record => record.toObject());
-    // await session.close();
+  const { searchParams } = new URL(request.url);
+  const status = searchParams.get('status');
+  const severity = searchParams.get('severity');
+  const assignee = searchParams.get('assignee');
+
+  if (status && !ALERT_STATUSES.includes(status as AlertStatus)) {
+    return NextResponse.json({ error: `Invalid status "${status}". Expected one of: ${ALERT_STATUSES.join(', ')}` }, { status: 400 });
+  }
+  if (severity && !SEVERITIES.includes(severity as AlertSeverity)) {
+    return NextResponse.json({ error: `Invalid severity "${severity}". Expected one of: ${SEVERITIES.join(', ')}` }, { status: 400 });
+  }
 
-    console.log("Fetching Alerts - returning mock data");
+  const filters: AlertFilters = {};
+  if (status) filters.status = status as AlertStatus;
+  if (severity) filters.severity = severity as AlertSeverity;
+  if (assignee) filters.assignee = assignee === 'unassigned' ? null : assignee;
 
-    // Mock Alert data
-    const mockAlerts = [
-      {
-        id: 'alert-1',
-        description: 'Potential malware propagation detected from host Server-01.',
-        severity: 'High',
-        timestamp: new Date(Date.now() - Math.random() * 1000 * 60 * 60 * 2).toISOString(), // Within last 2 hours
-      },
-      {
-        id: 'alert-2',
-        description: 'Unusual login activity detected for user admin@visium.com.',
-        severity: 'Medium',
-        timestamp: new Date(Date.now() - Math.random() * 1000 * 60 * 60 * 8).toISOString(), // Within last 8 hours
-      },
-      {
-        id: 'alert-3',
-        description: 'Data exfiltration pattern observed involving Asset-DB03.',
-        severity: 'High',
-        timestamp: new Date(Date.now() - Math.random() * 1000 * 60 * 60 * 24).toISOString(), // Within last 24 hours
-      },
-      {
-        id: 'alert-4',
-        description: 'New vulnerability CVE-2024-XXXX found on Workstation-42.',
-        severity: 'Low',
-        timestamp: new Date(Date.now() - Math.random() * 1000 * 60 * 60 * 12).toISOString(), // Within last 12 hours
-      },
-    ];
+  try {
+    session = await getSession();
+    const alerts = await listAlerts(session, filters);
+    const assignees = await listAlertAssignees(session);
+    console.log(`Fetched ${alerts.length} alerts`);
 
-    return NextResponse.json({ alerts: mockAlerts });
+    return NextResponse.json({ alerts, assignees });
 
   } catch (error) {
     console.error('Error fetching alerts:', error);
@@ -63,10 +49,8 @@ export async function GET() {
         { status: 500 }
     );
   } finally {
-    // Ensure session is closed if it was opened
-    // if (session) {
-    //   await session.close();
-    // }
+    if (session) {
+      await session.close();
+    }
   }
 }
-
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import {
+  DEFAULT_ATTACK_PATH_LENGTH, DEFAULT_ATTACK_PATH_LIMIT, MAX_ATTACK_PATH_LENGTH, MAX_ATTACK_PATH_LIMIT, analyzeAttackPaths,
+} from '@/lib/attackPaths';
+import { parseTimeWindow } from '@/lib/temporal';
+
+// Ranked attack paths from the tagged entry points to the tagged crown jewels:
+// ?limit= (paths returned), &maxLength= (hops), and the optional startTime/endTime
+// window of /api/graph-data
+export async function GET(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { window, error: windowError } = parseTimeWindow(searchParams);
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
+
+    const limitParam = searchParams.get('limit');
+    const limit = limitParam === null ? DEFAULT_ATTACK_PATH_LIMIT : Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_ATTACK_PATH_LIMIT) {
+      return NextResponse.json({ error: `limit must be an integer between 1 and ${MAX_ATTACK_PATH_LIMIT}.` }, { status: 400 });
+    }
+    const maxLengthParam = searchParams.get('maxLength');
+    const maxLength = maxLengthParam === null ? DEFAULT_ATTACK_PATH_LENGTH : Number(maxLengthParam);
+    if (!Number.isInteger(maxLength) || maxLength < 1 || maxLength > MAX_ATTACK_PATH_LENGTH) {
+      return NextResponse.json({ error: `maxLength must be an integer between 1 and ${MAX_ATTACK_PATH_LENGTH}.` }, { status: 400 });
+    }
+
+    session = await getSession();
+    const analysis = await analyzeAttackPaths(session, window, limit, maxLength);
+    return NextResponse.json(analysis);
+
+  } catch (error: any) {
+    console.error('Failed to analyze attack paths:', error);
+    return NextResponse.json({ error: 'Failed to analyze attack paths', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { attackTagSchema, getAttackTags, setAttackTag } from '@/lib/attackPaths';
+
+// Nodes tagged as entry points and crown jewels
+export async function GET() {
+  let session;
+  try {
+    session = await getSession();
+    const tags = await getAttackTags(session);
+    return NextResponse.json(tags);
+
+  } catch (error: any) {
+    console.error('Failed to fetch attack path tags:', error);
+    return NextResponse.json({ error: 'Failed to fetch attack path tags', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+// Tags or untags a node: { nodeId, role: 'entryPoint' | 'crownJewel', tagged }
+export async function PUT(request: Request) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = attackTagSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid tag update',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const updated = await setAttackTag(session, parsed.data);
+    if (!updated) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    const tags = await getAttackTags(session);
+    return NextResponse.json(tags);
+
+  } catch (error: any) {
+    console.error('Failed to update attack path tag:', error);
+    return NextResponse.json({ error: 'Failed to update attack path tag', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
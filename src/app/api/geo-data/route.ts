@@ -1,6 +1,12 @@
 import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/neo4j';
+import { notSystemNode } from '@/lib/graphLabels';
+import { EdgeData } from '@/lib/graphElements';
+import { fetchGraphPage, parseGraphPageRequest } from '@/lib/graphPages';
+import { aliveInWindow, ensureTemporalModel, windowParams } from '@/lib/temporal';
 
+// Nodes with coordinates (and the relationships between them), paginated like
+// /api/graph-data: pass `cursor` and `pageSize`, and follow `nextCursor` while `truncated`.
 export async function GET(request: Request) {
   let session;
   try {
@@ -9,81 +15,67 @@ export async function GET(request: Request) {
     const startTime = searchParams.get('startTime');
     const endTime = searchParams.get('endTime');
 
+    const { page, error: pageError } = parseGraphPageRequest(searchParams);
+    if (!page) {
+      return NextResponse.json({ error: pageError }, { status: 400 });
+    }
+
     // Try to get data from Neo4j
     session = await getSession();
+    await ensureTemporalModel(session);
 
-    // Build time filter clause if time parameters are provided
-    let timeFilter = '';
-    const params: any = {};
+    // Build time filter clause if time parameters are provided.
+    // Records alive during the window are kept, like in /api/graph-data; untimed ones are "always present".
+    let hasTimeFilter = false;
+    const timeFilterFor = (variable: string) => hasTimeFilter ? `AND ${aliveInWindow(variable)}` : '';
+    let params: any = {};
 
     if (startTime && endTime) {
       const startTimestamp = parseInt(startTime);
       const endTimestamp = parseInt(endTime);
 
       if (!isNaN(startTimestamp) && !isNaN(endTimestamp)) {
-        timeFilter = `AND (n.timestamp IS NULL OR (n.timestamp >= $startTime AND n.timestamp <= $endTime))`;
-        params.startTime = startTimestamp;
-        params.endTime = endTimestamp;
+        hasTimeFilter = true;
+        params = windowParams(startTimestamp, endTimestamp);
         console.log(`GeoData API: Filtering by time range: ${new Date(startTimestamp).toISOString()} - ${new Date(endTimestamp).toISOString()}`);
       }
     }
 
-    // Query for nodes with geographic coordinates
-    const nodeResult = await session.run(`
-      MATCH (n)
-      WHERE (n.latitude IS NOT NULL OR n.longitude IS NOT NULL OR n.lat IS NOT NULL OR n.lon IS NOT NULL)
-      ${timeFilter}
-      RETURN n
-      LIMIT 100
-    `, params);
-
-    // Query for relationships between these nodes
-    const relationshipTimeFilter = timeFilter.replace('n.timestamp', 'r.timestamp');
-    const relationshipResult = await session.run(`
-      MATCH (n)-[r]->(m)
-      WHERE (n.latitude IS NOT NULL OR n.lat IS NOT NULL) AND (m.latitude IS NOT NULL OR m.lat IS NOT NULL)
-      ${relationshipTimeFilter}
-      RETURN r, id(startNode(r)) as source, id(endNode(r)) as target
-      LIMIT 200
-    `, params);
+    // Nodes with geographic coordinates, and the relationships between them
+    const graphPage = await fetchGraphPage(
+      session,
+      page,
+      variable => `(${variable}.latitude IS NOT NULL OR ${variable}.longitude IS NOT NULL OR ${variable}.lat IS NOT NULL OR ${variable}.lon IS NOT NULL)
+        AND ${notSystemNode(variable)} ${timeFilterFor(variable)}`,
+      variable => `true ${timeFilterFor(variable)}`,
+      params
+    );
 
     // Process nodes
-    const nodes = nodeResult.records.map(record => {
-      const node = record.get('n');
-      return {
-        data: {
-          id: node.identity.toString(),
-          ...node.properties,
-          // Ensure we have a type property
-          type: node.properties.type || node.labels[0] || 'unknown'
-        }
-      };
-    });
+    const nodes = graphPage.elements.filter(el => el.group === 'nodes').map(el => ({
+      data: {
+        ...el.data,
+        // Ensure we have a type property
+        type: el.data.type || 'unknown'
+      }
+    }));
 
     // Process relationships
-    const edges = relationshipResult.records.map(record => {
-      const rel = record.get('r');
-      const source = record.get('source').toString();
-      const target = record.get('target').toString();
-
-      return {
-        data: {
-          id: rel.identity.toString(),
-          source: source,
-          target: target,
-          type: rel.type,
-          ...rel.properties
-        }
-      };
-    });
+    const edges = graphPage.elements.filter(el => el.group === 'edges').map(el => ({
+      data: {
+        ...el.data,
+        type: el.data.type || (el.data as EdgeData).label
+      }
+    }));
 
     // If no real data, return mock data
-    if (nodes.length === 0) {
+    if (graphPage.totalCount === 0) {
       console.log('No nodes with geographic data found in Neo4j, returning mock data');
       return NextResponse.json(generateMockGeoData());
     }
 
-    return NextResponse.json({ nodes, edges });
+    const { nextCursor, loadedCount, totalCount, truncated } = graphPage;
+    return NextResponse.json({ nodes, edges, nextCursor, loadedCount, totalCount, truncated });
   } catch (error) {
     console.error('Error fetching geo data from Neo4j:', error);
     // Return mock data as fallback
@@ -142,7 +134,7 @@ function generateMockGeoData() {
     });
   }
 
-  return { nodes, edges };
+  return { nodes, edges, nextCursor: null, loadedCount: nodes.length, totalCount: nodes.length, truncated: false };
 }
 
 
@@ -1,46 +1,10 @@
 import { NextResponse, NextRequest } from 'next/server';
 import { getSession } from '@/lib/neo4j'; // Assuming @ alias is configured or use relative path ../../lib/neo4j
-import neo4j from 'neo4j-driver';
-
-// Define interfaces for better type safety (optional but recommended)
-interface NodeData {
-  id: string;
-  label: string;
-  timestamp?: number; // Ensure timestamp is potentially available
-  [key: string]: any;
-}
-
-interface EdgeData {
-  id: string;
-  source: string;
-  target: string;
-  label?: string;
-  timestamp?: number; // Ensure timestamp is potentially available
-  [key: string]: any;
-}
-
-interface CytoscapeElement {
-  data: NodeData | EdgeData;
-  group: 'nodes' | 'edges';
-}
-
-// Helper to convert Neo4j Integer to JS number if needed
-function toNumber(value: any): number | null {
-  if (neo4j.isInt(value)) {
-    return value.toNumber();
-  }
-  if (typeof value === 'number') {
-    return value;
-  }
-  // Handle ISO string timestamps if stored that way
-  if (typeof value === 'string') {
-      const date = new Date(value);
-      if (!isNaN(date.getTime())) {
-          return date.getTime();
-      }
-  }
-  return null; // Or handle appropriately
-}
+import { getTimestampBounds } from '@/lib/timeUtils';
+import { notSystemNode } from '@/lib/graphLabels';
+import { toNumber } from '@/lib/graphElements';
+import { fetchGraphPage, parseGraphPageRequest } from '@/lib/graphPages';
+import { aliveInWindow, ensureTemporalModel, windowParams } from '@/lib/temporal';
 
 export async function GET(request: NextRequest) {
   let session;
@@ -53,20 +17,27 @@ export async function GET(request: NextRequest) {
   try {
     session = await getSession();
     console.log('Neo4j session obtained for GET /api/graph-data');
+    await ensureTemporalModel(session);
 
     // --- Handle request for min/max time range ---
     if (getRange) {
       console.log('Fetching min/max timestamp range');
+      // Nodes and relationships are aggregated separately so a graph without timed
+      // relationships still reports its node range. The range runs from the earliest
+      // start to the latest known end (or start, for records that are still alive).
+      // Untimed records are "always present" and don't contribute to the range.
       const rangeResult = await session.run(
-        `MATCH (n)
-         WHERE n.timestamp IS NOT NULL
-         WITH min(n.timestamp) as minNodeTs, max(n.timestamp) as maxNodeTs
-         MATCH ()-[r]-()
-         WHERE r.timestamp IS NOT NULL
-         WITH minNodeTs, maxNodeTs, min(r.timestamp) as minEdgeTs, max(r.timestamp) as maxEdgeTs
-         RETURN
-           min([minNodeTs, minEdgeTs]) as minTimestamp,
-           max([maxNodeTs, maxEdgeTs]) as maxTimestamp`
+        `CALL {
+           MATCH (n)
+           WHERE (n.valid_from IS NOT NULL OR n.valid_to IS NOT NULL) AND ${notSystemNode('n')}
+           RETURN min(coalesce(n.valid_from, n.valid_to)) as minNodeTs, max(coalesce(n.valid_to, n.valid_from)) as maxNodeTs
+         }
+         CALL {
+           MATCH ()-[r]->()
+           WHERE r.valid_from IS NOT NULL OR r.valid_to IS NOT NULL
+           RETURN min(coalesce(r.valid_from, r.valid_to)) as minEdgeTs, max(coalesce(r.valid_to, r.valid_from)) as maxEdgeTs
+         }
+         RETURN minNodeTs, maxNodeTs, minEdgeTs, maxEdgeTs`
       );
 
       let minTimestamp: number | null = null;
@@ -74,11 +45,13 @@ export async function GET(request: NextRequest) {
 
       if (rangeResult.records.length > 0) {
         const record = rangeResult.records[0];
-        // Timestamps might be ISO strings or numbers depending on how they were stored
-        const rawMin = record.get('minTimestamp');
-        const rawMax = record.get('maxTimestamp');
-        minTimestamp = typeof rawMin === 'string' ? new Date(rawMin).getTime() : toNumber(rawMin);
-        maxTimestamp = typeof rawMax === 'string' ? new Date(rawMax).getTime() : toNumber(rawMax);
+        const bounds = getTimestampBounds(
+          ['minNodeTs', 'maxNodeTs', 'minEdgeTs', 'maxEdgeTs'].map(key => toNumber(record.get(key)))
+        );
+        if (bounds) {
+          minTimestamp = bounds.min;
+          maxTimestamp = bounds.max;
+        }
       }
 
       // Handle cases where timestamps might be null (e.g., empty DB)
@@ -104,227 +77,57 @@ export async function GET(request: NextRequest) {
       return NextResponse.json({ minTimestamp, maxTimestamp });
     }
 
-    // --- Handle request for graph data within a time range (or all data) ---
+    // --- Handle request for a page of graph data within a time range (or all data) ---
+    // Nodes come in pages of `pageSize` (see graphPages.ts); the response says how many
+    // match in total and gives the cursor of the next page, so clients can tell the graph
+    // is incomplete and load the rest.
+    const { page, error: pageError } = parseGraphPageRequest(searchParams);
+    if (!page) {
+      return NextResponse.json({ error: pageError }, { status: 400 });
+    }
+
     let startTime: number | null = startTimeStr ? parseInt(startTimeStr, 10) : null;
     let endTime: number | null = endTimeStr ? parseInt(endTimeStr, 10) : null;
 
     // If requesting all data, skip timestamp validation
     if (getAllData) {
-      console.log('Fetching ALL graph data without time filtering');
-
-      // Build query to fetch all data
-      let query = `
-        MATCH (n)
-        WITH collect(n) as allNodes LIMIT toInteger($limit)
-        UNWIND allNodes as n
-        OPTIONAL MATCH (n)-[r]-(m)
-        WHERE m in allNodes // Ensure connected node is also in our collection
-        RETURN n, r, m
-      `;
-
-      const params: Record<string, any> = { limit: Math.floor(500) }; // Increased limit for all data
-
-      const result = await session.run(query, params);
-      console.log(`Query returned ${result.records.length} records for ALL data.`);
-
-      // Process results (same as below)
-      const nodes = new Map<string, CytoscapeElement>();
-      const edges = new Map<string, CytoscapeElement>();
-
-      result.records.forEach(record => {
-        const nodeN = record.get('n');
-        const rel = record.get('r');
-        const nodeM = record.get('m');
-
-        // Process nodes and edges (same as in the original code)
-        // Process node N
-        if (nodeN) {
-          const nodeId = nodeN.identity.toString();
-          if (!nodes.has(nodeId)) {
-            const nodeProps = { ...nodeN.properties };
-            const timestamp = toNumber(nodeProps.timestamp); // Convert timestamp
-            nodes.set(nodeId, {
-              group: 'nodes',
-              data: {
-                id: nodeId,
-                label: nodeProps.showname || (nodeN.labels && nodeN.labels.length > 0 ? nodeN.labels[0] : 'Node'),
-                ...nodeProps,
-                timestamp: timestamp ?? undefined, // Add processed timestamp
-              },
-            });
-          }
-        }
-
-        // Process node M
-        if (nodeM && nodeM !== null) {
-          const nodeId = nodeM.identity.toString();
-          if (!nodes.has(nodeId)) {
-            const nodeProps = { ...nodeM.properties };
-            const timestamp = toNumber(nodeProps.timestamp); // Convert timestamp
-            nodes.set(nodeId, {
-              group: 'nodes',
-              data: {
-                id: nodeId,
-                label: nodeProps.showname || (nodeM.labels && nodeM.labels.length > 0 ? nodeM.labels[0] : 'Node'),
-                ...nodeProps,
-                timestamp: timestamp ?? undefined, // Add processed timestamp
-              },
-            });
-          }
-        }
-
-        // Process relationship R
-        if (rel && rel !== null) {
-          const relId = rel.identity.toString();
-          if (!edges.has(relId)) {
-            const relProps = { ...rel.properties };
-            const timestamp = toNumber(relProps.timestamp); // Convert timestamp
-            edges.set(relId, {
-              group: 'edges',
-              data: {
-                id: relId,
-                source: rel.start.toString(),
-                target: rel.end.toString(),
-                label: rel.type,
-                ...relProps,
-                timestamp: timestamp ?? undefined, // Add processed timestamp
-              },
-            });
-          }
-        }
-      });
-
-      const elements = [...nodes.values(), ...edges.values()];
-      console.log(`Processed ${nodes.size} nodes and ${edges.size} edges for ALL data.`);
-
-      return NextResponse.json({ elements });
-    }
-
-    // For time-based queries, validate timestamps
-    if ((startTime !== null && isNaN(startTime)) || (endTime !== null && isNaN(endTime)) || (startTime !== null && endTime !== null && startTime >= endTime)) {
-        return NextResponse.json({ error: 'Invalid time range parameters' }, { status: 400 });
-    }
-
-    // Ensure we don't use future dates
-    const currentTime = Date.now();
-    if (startTime !== null && startTime > currentTime) {
-        console.log(`Correcting future startTime from ${new Date(startTime).toISOString()} to current time - 24h`);
-        startTime = currentTime - 24 * 60 * 60 * 1000;
-    }
-    if (endTime !== null && endTime > currentTime) {
-        console.log(`Correcting future endTime from ${new Date(endTime).toISOString()} to current time`);
-        endTime = currentTime;
-    }
-
-    // Convert JS milliseconds timestamps to ISO strings for Cypher comparison if timestamps are stored as strings
-    // Or use numerical comparison if timestamps are stored as numbers (e.g., epoch milliseconds)
-    // Assuming timestamps are stored as ISO strings based on the upload logic
-    const startTimeISO = startTime ? new Date(startTime).toISOString() : null;
-    const endTimeISO = endTime ? new Date(endTime).toISOString() : null;
-
-    console.log(`Fetching graph data with time range: ${startTimeISO} - ${endTimeISO}`);
-
-    // Build query based on time range
-    // This query fetches nodes and relationships created *within* the time range.
-    // Adjust logic if you need elements existing *before* startTime but connected within the range.
-    let query = '';
-    const params: Record<string, any> = { limit: Math.floor(100) }; // Explicitly cast to integer
-
-    if (startTimeISO && endTimeISO) {
-      query = `
-        MATCH (n)
-        WHERE n.timestamp >= $startTime AND n.timestamp <= $endTime
-        WITH collect(n) as nodesInTime LIMIT toInteger($limit)
-        UNWIND nodesInTime as n
-        OPTIONAL MATCH (n)-[r]-(m)
-        WHERE r.timestamp >= $startTime AND r.timestamp <= $endTime
-          AND m in nodesInTime // Ensure connected node is also within time range
-        RETURN n, r, m
-      `;
-      params.startTime = startTimeISO;
-      params.endTime = endTimeISO;
+      startTime = null;
+      endTime = null;
     } else {
-      // Default query if no time range specified (limited)
-      query = `
-        MATCH (n)
-        WITH n LIMIT toInteger($limit)
-        OPTIONAL MATCH (n)-[r]-(m)
-        RETURN n, r, m
-      `;
-    }
-
-    const result = await session.run(query, params);
-    console.log(`Query returned ${result.records.length} records.`);
-
-    const nodes = new Map<string, CytoscapeElement>();
-    const edges = new Map<string, CytoscapeElement>();
-
-    result.records.forEach(record => {
-      const nodeN = record.get('n');
-      const rel = record.get('r');
-      const nodeM = record.get('m');
-
-      // Process node N
-      if (nodeN) {
-        const nodeId = nodeN.identity.toString();
-        if (!nodes.has(nodeId)) {
-          const nodeProps = { ...nodeN.properties };
-          const timestamp = toNumber(nodeProps.timestamp); // Convert timestamp
-          nodes.set(nodeId, {
-            group: 'nodes',
-            data: {
-              id: nodeId,
-              label: nodeProps.showname || (nodeN.labels && nodeN.labels.length > 0 ? nodeN.labels[0] : 'Node'),
-              ...nodeProps,
-              timestamp: timestamp ?? undefined, // Add processed timestamp
-            },
-          });
-        }
+      // For time-based queries, validate timestamps
+      if ((startTime !== null && isNaN(startTime)) || (endTime !== null && isNaN(endTime)) || (startTime !== null && endTime !== null && startTime >= endTime)) {
+          return NextResponse.json({ error: 'Invalid time range parameters' }, { status: 400 });
       }
 
-      // Process node M
-      if (nodeM && nodeM !== null) {
-        const nodeId = nodeM.identity.toString();
-        if (!nodes.has(nodeId)) {
-          const nodeProps = { ...nodeM.properties };
-          const timestamp = toNumber(nodeProps.timestamp); // Convert timestamp
-          nodes.set(nodeId, {
-            group: 'nodes',
-            data: {
-              id: nodeId,
-              label: nodeProps.showname || (nodeM.labels && nodeM.labels.length > 0 ? nodeM.labels[0] : 'Node'),
-              ...nodeProps,
-              timestamp: timestamp ?? undefined, // Add processed timestamp
-            },
-          });
-        }
+      // Ensure we don't use future dates
+      const currentTime = Date.now();
+      if (startTime !== null && startTime > currentTime) {
+          console.log(`Correcting future startTime from ${new Date(startTime).toISOString()} to current time - 24h`);
+          startTime = currentTime - 24 * 60 * 60 * 1000;
       }
-
-      // Process relationship R
-      if (rel && rel !== null) {
-        const relId = rel.identity.toString();
-        if (!edges.has(relId)) {
-          const relProps = { ...rel.properties };
-          const timestamp = toNumber(relProps.timestamp); // Convert timestamp
-          edges.set(relId, {
-            group: 'edges',
-            data: {
-              id: relId,
-              source: rel.start.toString(),
-              target: rel.end.toString(),
-              label: rel.type,
-              ...relProps,
-              timestamp: timestamp ?? undefined, // Add processed timestamp
-            },
-          });
-        }
+      if (endTime !== null && endTime > currentTime) {
+          console.log(`Correcting future endTime from ${new Date(endTime).toISOString()} to current time`);
+          endTime = currentTime;
       }
-    });
+    }
+
+    // With a time range, nodes and relationships alive at some point in it are fetched
+    // (see temporal.ts), plus untimed ("always present") ones, which belong to every window.
+    const hasTimeRange = startTime !== null && endTime !== null;
+    const nodeFilter = (variable: string) =>
+      hasTimeRange ? `${notSystemNode(variable)} AND ${aliveInWindow(variable)}` : notSystemNode(variable);
+    const relationshipFilter = (variable: string) => hasTimeRange ? aliveInWindow(variable) : 'true';
+    const params = hasTimeRange ? windowParams(startTime!, endTime!) : {};
+
+    const formatTime = (time: number | null) => time ? new Date(time).toISOString() : null;
+    console.log(hasTimeRange
+      ? `Fetching graph data with time range: ${formatTime(startTime)} - ${formatTime(endTime)}`
+      : 'Fetching ALL graph data without time filtering');
 
-    const elements = [...nodes.values(), ...edges.values()];
-    console.log(`Processed ${nodes.size} nodes and ${edges.size} edges for Cytoscape.`);
+    const graphPage = await fetchGraphPage(session, page, nodeFilter, relationshipFilter, params);
+    console.log(`Processed ${graphPage.loadedCount} of ${graphPage.totalCount} nodes (${graphPage.elements.length} elements in this page).`);
 
-    return NextResponse.json({ elements });
+    return NextResponse.json(graphPage);
 
   } catch (error) {
     console.error('Error fetching graph data:', error);
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import {
+  getImportJob, importNdjsonChunk, markImportJobFailed, ImportJobConflictError, ImportJobValidationError
+} from '@/lib/importJobs';
+
+// Imports one chunk of an NDJSON file. The body is plain text, one record per line;
+// `offset` is the 0-based line number of the chunk's first line within the file.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const offset = parseInt(searchParams.get('offset') || '', 10);
+    if (isNaN(offset) || offset < 0) {
+      return NextResponse.json({ error: 'A non-negative "offset" query parameter is required' }, { status: 400 });
+    }
+
+    // The client joins exactly the chunk's lines with "\n", so blank lines keep their numbering
+    const lines = (await request.text()).split('\n');
+
+    session = await getSession();
+    const job = await getImportJob(session, params.id);
+    if (!job) {
+      return NextResponse.json({ error: `Import job ${params.id} not found` }, { status: 404 });
+    }
+
+    try {
+      const updated = await importNdjsonChunk(session, job, lines, offset);
+      return NextResponse.json({ job: updated });
+    } catch (error: any) {
+      if (error instanceof ImportJobValidationError) {
+        return NextResponse.json({ error: error.message, issues: error.issues, job: error.job }, { status: 400 });
+      }
+      if (error instanceof ImportJobConflictError) {
+        return NextResponse.json({ error: error.message, job: error.job }, { status: 409 });
+      }
+
+      // Batches already committed stay committed - record where the import stopped
+      console.error(`Import job ${job.id} failed:`, error);
+      const failed = await markImportJobFailed(session, job.id, error.message);
+      return NextResponse.json({ error: 'Failed to import chunk', details: error.message, job: failed }, { status: 500 });
+    }
+
+  } catch (error: any) {
+    console.error('Failed to import chunk:', error);
+    return NextResponse.json({ error: 'Failed to import chunk', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { completeImportJob, getImportJob, ImportJobConflictError } from '@/lib/importJobs';
+import { runPostImportAnalysis } from '@/lib/postImport';
+
+// Marks an import job as finished once the client has sent the last chunk. `lines` is the
+// number of lines in the file; the job must be running and have processed all of them.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const totalLines = parseInt(searchParams.get('lines') || '', 10);
+    if (isNaN(totalLines) || totalLines < 0) {
+      return NextResponse.json({ error: 'A non-negative "lines" query parameter is required' }, { status: 400 });
+    }
+
+    session = await getSession();
+    const existing = await getImportJob(session, params.id);
+    if (!existing) {
+      return NextResponse.json({ error: `Import job ${params.id} not found` }, { status: 404 });
+    }
+
+    let job;
+    try {
+      job = await completeImportJob(session, existing, totalLines);
+    } catch (error: any) {
+      if (error instanceof ImportJobConflictError) {
+        return NextResponse.json({ error: error.message, job: error.job }, { status: 409 });
+      }
+      throw error;
+    }
+    await runPostImportAnalysis(session);
+    console.log(`Import job ${params.id} completed - nodes:`, job.nodes, 'edges:', job.edges);
+    return NextResponse.json({ job });
+
+  } catch (error: any) {
+    console.error('Failed to complete import job:', error);
+    return NextResponse.json({ error: 'Failed to complete import job', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { getImportJob } from '@/lib/importJobs';
+
+// Current progress of an import job - used to resume a failed or interrupted import
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    session = await getSession();
+    const job = await getImportJob(session, params.id);
+
+    if (!job) {
+      return NextResponse.json({ error: `Import job ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ job });
+
+  } catch (error: any) {
+    console.error('Failed to fetch import job:', error);
+    return NextResponse.json({ error: 'Failed to fetch import job', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
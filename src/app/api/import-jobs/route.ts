@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { parseImportOptions } from '@/lib/datasetSchema';
+import { createImportJob } from '@/lib/importJobs';
+
+// Starts a streaming NDJSON import. The client then POSTs the file in chunks to
+// /api/import-jobs/[id]/chunks and finishes with /api/import-jobs/[id]/complete.
+export async function POST(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { options, error: optionsError } = parseImportOptions(searchParams);
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const fileName = typeof body.fileName === 'string' ? body.fileName : 'upload.ndjson';
+    const totalBytes = Number.isFinite(body.totalBytes) ? Math.max(0, Math.floor(body.totalBytes)) : 0;
+
+    session = await getSession();
+    const job = await createImportJob(session, { fileName, totalBytes, options });
+
+    console.log(`Created import job ${job.id} for ${fileName} (${totalBytes} bytes, ${options.mode} mode)`);
+    return NextResponse.json({ job }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Failed to create import job:', error);
+    return NextResponse.json({ error: 'Failed to create import job', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { defaultKpiWindow } from '@/lib/kpis';
+import { deleteKpiTile, evaluateKpiTile, kpiTileSchema, updateKpiTile } from '@/lib/kpiTiles';
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = kpiTileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid KPI tile',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const check = await evaluateKpiTile(session, { ...parsed.data, warning: null, critical: null }, defaultKpiWindow());
+    if (check.error) {
+      return NextResponse.json({ error: 'Invalid KPI tile', issues: [{ path: 'query', message: check.error }] }, { status: 400 });
+    }
+
+    const tile = await updateKpiTile(session, params.id, parsed.data);
+    if (!tile) {
+      return NextResponse.json({ error: `KPI tile ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ tile });
+
+  } catch (error: any) {
+    console.error('Failed to update KPI tile:', error);
+    return NextResponse.json({ error: 'Failed to update KPI tile', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    session = await getSession();
+    const deleted = await deleteKpiTile(session, params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: `KPI tile ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'KPI tile deleted' });
+
+  } catch (error: any) {
+    console.error('Failed to delete KPI tile:', error);
+    return NextResponse.json({ error: 'Failed to delete KPI tile', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
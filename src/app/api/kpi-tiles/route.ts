@@ -0,0 +1,66 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { defaultKpiWindow, parseKpiWindow } from '@/lib/kpis';
+import { createKpiTile, evaluateKpiTile, kpiTileSchema, listKpiTiles } from '@/lib/kpiTiles';
+
+// Custom KPI tiles with their values over ?start=&end= (same window as /api/kpis)
+export async function GET(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { window, error: windowError } = parseKpiWindow(searchParams);
+    if (!window) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
+
+    session = await getSession();
+    const tiles = await listKpiTiles(session);
+    const values = [];
+    for (const tile of tiles) {
+      values.push({ ...tile, ...(await evaluateKpiTile(session, tile, window)) });
+    }
+    return NextResponse.json({ tiles: values, window });
+
+  } catch (error: any) {
+    console.error('Failed to list KPI tiles:', error);
+    return NextResponse.json({ error: 'Failed to list KPI tiles', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+// Creates a tile after checking that its query runs and returns a number
+export async function POST(request: Request) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = kpiTileSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid KPI tile',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const check = await evaluateKpiTile(session, { ...parsed.data, warning: null, critical: null }, defaultKpiWindow());
+    if (check.error) {
+      return NextResponse.json({ error: 'Invalid KPI tile', issues: [{ path: 'query', message: check.error }] }, { status: 400 });
+    }
+
+    const tile = await createKpiTile(session, parsed.data);
+    console.log(`Created KPI tile ${tile.id}`);
+    return NextResponse.json({ tile }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Failed to create KPI tile:', error);
+    return NextResponse.json({ error: 'Failed to create KPI tile', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { KPI_NAMES, drillDownKpi, isKpiName, kpiTitle, parseKpiWindow } from '@/lib/kpis';
+
+// The graph elements behind one KPI over ?start=&end=, for the graph views
+export async function GET(request: Request, { params }: { params: { kpi: string } }) {
+  let session;
+  try {
+    if (!isKpiName(params.kpi)) {
+      return NextResponse.json({ error: `Unknown KPI "${params.kpi}". Expected one of: ${KPI_NAMES.join(', ')}.` }, { status: 404 });
+    }
+    const { searchParams } = new URL(request.url);
+    const { window, error: windowError } = parseKpiWindow(searchParams);
+    if (!window) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
+
+    session = await getSession();
+    const result = await drillDownKpi(session, params.kpi, window);
+    return NextResponse.json({ kpi: params.kpi, title: kpiTitle(params.kpi), window, ...result });
+
+  } catch (error: any) {
+    console.error('Failed to drill down KPI:', error);
+    return NextResponse.json({ error: 'Failed to drill down KPI', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -1,50 +1,28 @@
 import { NextResponse } from 'next/server';
-import { getSession } from '@/lib/neo4j'; // Adjust path if needed
+import { getSession } from '@/lib/neo4j';
+import { computeKpis, parseKpiWindow } from '@/lib/kpis';
 
-export async function GET() {
+// KPIs over ?start=&end= (epoch ms or ISO; default: the last 24 hours), each with its
+// value over the previous window of the same length
+export async function GET(request: Request) {
   let session;
   try {
-    // TODO: Implement actual Neo4j connection and query if needed for KPIs
-    // For now, returning mock data as the schema is unknown.
-    // session = await getSession();
-    // const result = await session.run(
-    //   `// Example Cypher query for KPIs
-    //    MATCH (t:Threat) WHERE t.status = 'active' RETURN count(t) as activeThreats
-    //    // Add more queries for other KPIs...`
-    // );
-    // const kpis = result.records.map(record => record.toObject());
-    // await session.close();
-
-    console.log("Fetching KPIs - returning mock data");
-
-    // Mock KPI data
-    const mockKpis = {
-      activeThreats: Math.floor(Math.random() * 20) + 5, // Random number 5-24
-      highRiskAssets: Math.floor(Math.random() * 10) + 1, // Random number 1-10
-      alertsLast24h: Math.floor(Math.random() * 50) + 10, // Random number 10-59
-      resolvedIncidents: Math.floor(Math.random() * 100) + 50, // Random number 50-149
-    };
+    const { searchParams } = new URL(request.url);
+    const { window, error: windowError } = parseKpiWindow(searchParams);
+    if (!window) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
 
-    return NextResponse.json(mockKpis);
+    session = await getSession();
+    const report = await computeKpis(session, window);
+    return NextResponse.json(report);
 
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching KPIs:', error);
-    let errorMessage = 'Internal Server Error';
-    if (error instanceof Error) {
-        errorMessage = error.message;
-        if (errorMessage.includes('Could not connect') || errorMessage.includes('ServiceUnavailable')) {
-            errorMessage = 'Failed to connect to Neo4j database for KPIs.';
-        }
-    }
-    return NextResponse.json(
-        { error: 'Failed to fetch KPIs', details: errorMessage },
-        { status: 500 }
-    );
+    return NextResponse.json({ error: 'Failed to fetch KPIs', details: error.message }, { status: 500 });
   } finally {
-    // Ensure session is closed if it was opened
-    // if (session) {
-    //   await session.close();
-    // }
+    if (session) {
+      await session.close();
+    }
   }
 }
-
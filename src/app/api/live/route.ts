@@ -0,0 +1,93 @@
+import { NextRequest } from 'next/server';
+import neo4j from 'neo4j-driver';
+import { getSession } from '@/lib/neo4j';
+import { NumberedLiveEvent, readLiveEvents } from '@/lib/liveUpdates';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing an idle stream
+const HEARTBEAT_MS = 25000;
+
+// How often the stream looks for new events
+const POLL_INTERVAL_MS = 2000;
+
+// Server-sent events stream behind live mode: graph changes, new alerts and risk
+// recomputations as they are written by any instance (see lib/liveUpdates.ts). Each event
+// carries its id, so a client resuming with ?since= (or the Last-Event-ID header
+// EventSource sends on reconnect) first receives what it missed.
+export async function GET(request: NextRequest) {
+  const { searchParams } = new URL(request.url);
+  const since = request.headers.get('last-event-id') ?? searchParams.get('since');
+  const sinceId = since !== null && /^\d+$/.test(since) ? Number(since) : null;
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      const send = (text: string) => {
+        try {
+          controller.enqueue(encoder.encode(text));
+        } catch {
+          cleanup(); // The stream was closed under us
+        }
+      };
+      const sendEvent = ({ id, event }: NumberedLiveEvent) => {
+        send(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      };
+
+      let lastId = sinceId;
+      let closed = false;
+      let pollTimer: ReturnType<typeof setTimeout> | null = null;
+
+      // Sends the events after the last one sent, then polls again (at once if there are more)
+      const poll = async () => {
+        let session;
+        let more = false;
+        try {
+          session = await getSession(neo4j.session.READ);
+          const result = await readLiveEvents(session, lastId);
+          if (closed) return;
+          result.events.forEach(sendEvent);
+          lastId = result.lastId;
+          more = result.more;
+        } catch (error) {
+          console.error('Failed to read live events:', error);
+        } finally {
+          if (session) {
+            await session.close();
+          }
+        }
+        if (!closed) pollTimer = setTimeout(poll, more ? 0 : POLL_INTERVAL_MS);
+      };
+
+      send('retry: 3000\n\n');
+      poll();
+      const heartbeat = setInterval(() => send(': heartbeat\n\n'), HEARTBEAT_MS);
+
+      cleanup = () => {
+        closed = true;
+        clearInterval(heartbeat);
+        if (pollTimer) clearTimeout(pollTimer);
+        cleanup = () => {};
+        try {
+          controller.close();
+        } catch {
+          // Already closed
+        }
+      };
+      request.signal.addEventListener('abort', () => cleanup());
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { expandNode, isNodeId, parseExpansionRequest } from '@/lib/neighbourhood';
+
+// Neighbours of a node for the "expand node" interaction:
+// ?hops=1-3, repeated &type= to follow only those relationship types, and the optional
+// startTime/endTime window of /api/graph-data
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    if (!isNodeId(params.id)) {
+      return NextResponse.json({ error: `Invalid node id "${params.id}"` }, { status: 400 });
+    }
+    const { searchParams } = new URL(request.url);
+    const { request: expansion, error: requestError } = parseExpansionRequest(searchParams);
+    if (!expansion) {
+      return NextResponse.json({ error: requestError }, { status: 400 });
+    }
+
+    session = await getSession();
+    const result = await expandNode(session, params.id, expansion);
+    if (!result) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json({ nodeId: params.id, hops: expansion.hops, types: expansion.types, ...result });
+
+  } catch (error: any) {
+    console.error('Failed to expand node:', error);
+    return NextResponse.json({ error: 'Failed to expand node', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { isNodeId, relationshipTypesAround } from '@/lib/neighbourhood';
+import { parseTimeWindow } from '@/lib/temporal';
+
+// Relationship types around a node (with counts), offered by the "expand by type" menu.
+// Takes the optional startTime/endTime window of /api/graph-data.
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    if (!isNodeId(params.id)) {
+      return NextResponse.json({ error: `Invalid node id "${params.id}"` }, { status: 400 });
+    }
+    const { searchParams } = new URL(request.url);
+    const { window, error: windowError } = parseTimeWindow(searchParams);
+    if (windowError) {
+      return NextResponse.json({ error: windowError }, { status: 400 });
+    }
+
+    session = await getSession();
+    const types = await relationshipTypesAround(session, params.id, window);
+    if (!types) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json({ nodeId: params.id, types });
+
+  } catch (error: any) {
+    console.error('Failed to fetch relationship types:', error);
+    return NextResponse.json({ error: 'Failed to fetch relationship types', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { isNodeId } from '@/lib/neighbourhood';
+import { getNodeDetails } from '@/lib/nodeDetails';
+
+// Everything the node details panel shows about a node: properties, neighbours by
+// relationship type, related alerts, risk breakdown and time history
+export async function GET(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    if (!isNodeId(params.id)) {
+      return NextResponse.json({ error: `Invalid node id "${params.id}"` }, { status: 400 });
+    }
+
+    session = await getSession();
+    const details = await getNodeDetails(session, params.id);
+    if (!details) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json(details);
+
+  } catch (error: any) {
+    console.error('Failed to fetch node details:', error);
+    return NextResponse.json({ error: 'Failed to fetch node details', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
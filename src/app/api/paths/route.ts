@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { PathSearchLimitError, findPaths, parsePathRequest } from '@/lib/paths';
+
+// Paths between two nodes:
+// ?source=&target= (node ids), &mode=shortest|all-shortest|k-shortest, &k=, &maxLength=,
+// repeated &type= to follow only those relationship types, and the optional
+// startTime/endTime window of /api/graph-data
+export async function GET(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { request: pathRequest, error: requestError } = parsePathRequest(searchParams);
+    if (!pathRequest) {
+      return NextResponse.json({ error: requestError }, { status: 400 });
+    }
+
+    session = await getSession();
+    const result = await findPaths(session, pathRequest);
+    if (!result) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json({
+      source: pathRequest.source,
+      target: pathRequest.target,
+      mode: pathRequest.mode,
+      ...result,
+    });
+
+  } catch (error: any) {
+    if (error instanceof PathSearchLimitError) {
+      return NextResponse.json({ error: error.message }, { status: 400 });
+    }
+    console.error('Failed to find paths:', error);
+    return NextResponse.json({ error: 'Failed to find paths', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import neo4j from 'neo4j-driver';
+import { getSession } from '@/lib/neo4j';
+import { findWriteClause } from '@/lib/cypherGuard';
+import { runGraphQuery } from '@/lib/queryRunner';
+
+// Ad-hoc Cypher from the query console. Runs read-only, with the row limit and timeout
+// of runGraphQuery. Nodes, relationships and paths come back as graph elements in the
+// same shape as /api/graph-data; scalar results come back as a table.
+export async function POST(request: Request) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const query = typeof body?.query === 'string' ? body.query.trim() : '';
+    if (!query) {
+      return NextResponse.json({ error: 'Request body must contain a non-empty "query" string' }, { status: 400 });
+    }
+
+    const writeClause = findWriteClause(query);
+    if (writeClause) {
+      return NextResponse.json({ error: 'Query rejected', details: writeClause }, { status: 400 });
+    }
+
+    session = await getSession(neo4j.session.READ);
+    console.log(`Running console query: ${query}`);
+    const result = await runGraphQuery(session, query);
+    console.log(`Console query returned ${result.recordCount} records, ${result.elements.length} elements`);
+
+    return NextResponse.json(result);
+
+  } catch (error: any) {
+    console.error('Failed to run console query:', error);
+    // Syntax errors, timeouts and write attempts are problems with the query, not the server
+    const isQueryError = typeof error.code === 'string' && error.code.startsWith('Neo.ClientError');
+    return NextResponse.json(
+      { error: 'Failed to run query', details: error.message },
+      { status: isQueryError ? 400 : 500 }
+    );
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { computeRiskScores, listRiskiestNodes } from '@/lib/riskScoring';
+
+// Recomputes and stores the risk scores of all nodes, then returns the top of the list
+export async function POST() {
+  let session;
+  try {
+    session = await getSession();
+    const summary = await computeRiskScores(session);
+    const risks = await listRiskiestNodes(session);
+    return NextResponse.json({ summary, risks });
+
+  } catch (error: any) {
+    console.error('Failed to compute risk scores:', error);
+    return NextResponse.json({ error: 'Failed to compute risk scores', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
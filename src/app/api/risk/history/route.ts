@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { MAX_RISK_SNAPSHOTS, getRiskSeries, getTopRiskSeries } from '@/lib/riskHistory';
+
+// Risk score series over the stored snapshots:
+//   ?uid=a&uid=b  - the given assets
+//   ?top=N        - the N currently highest-scored assets (default 10)
+// `points` limits the number of snapshots per series (default and max MAX_RISK_SNAPSHOTS).
+export async function GET(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const uids = searchParams.getAll('uid').filter(Boolean);
+    const top = Math.min(Math.max(parseInt(searchParams.get('top') ?? '10', 10) || 10, 1), 100);
+    const points = Math.min(Math.max(parseInt(searchParams.get('points') ?? '', 10) || MAX_RISK_SNAPSHOTS, 2), MAX_RISK_SNAPSHOTS);
+
+    session = await getSession();
+    const series = uids.length > 0
+      ? await getRiskSeries(session, uids, points)
+      : await getTopRiskSeries(session, top, points);
+    return NextResponse.json({ series });
+
+  } catch (error: any) {
+    console.error('Failed to fetch risk history:', error);
+    return NextResponse.json({ error: 'Failed to fetch risk history', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
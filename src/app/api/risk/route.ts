@@ -1,81 +1,26 @@
 import { NextResponse } from 'next/server';
-import { getSession } from '@/lib/neo4j'; // Adjust path if needed
+import { getSession } from '@/lib/neo4j';
+import { getRiskWeights, listRiskiestNodes } from '@/lib/riskScoring';
 
-export async function GET() {
+// Highest persisted risk scores. Scores are recomputed after every import and on
+// POST /api/risk/compute.
+export async function GET(request: Request) {
   let session;
   try {
-    // TODO: Implement actual Neo4j connection and query for risk scoring
-    // Example: Use GDS library or heuristics based on graph properties
-    // session = await getSession();
-    // const result = await session.run(
-    //   `// Example Cypher query using graph properties for risk
-    //    MATCH (n)
-    //    OPTIONAL MATCH (n)-[:HAS_VULNERABILITY]->(v:Vulnerability {severity: 'Critical'})
-    //    OPTIONAL MATCH (n)<-[:ATTACK]-(t:ThreatActor)
-    //    WITH n, count(DISTINCT v) as criticalVulns, count(DISTINCT t) as attackLinks
-    //    WHERE criticalVulns > 0 OR attackLinks > 0
-    //    RETURN n.id as id, n.name as name, n.type as type,
-    //           (criticalVulns * 10) + (attackLinks * 5) as riskScore // Simple heuristic
-    //    ORDER BY riskScore DESC
-    //    LIMIT 10`
-    // );
-    // const risks = result.records.map(record => record.toObject());
-    // await session.close();
+    const { searchParams } = new URL(request.url);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') ?? '20', 10) || 20, 1), 200);
 
-    console.log("Fetching Risk Data - returning mock data");
+    session = await getSession();
+    const risks = await listRiskiestNodes(session, limit);
+    const weights = await getRiskWeights(session);
+    return NextResponse.json({ risks, weights });
 
-    // Mock Risk data
-    const mockRisks = [
-      {
-        id: 'asset-db01',
-        name: 'Database Server DB01',
-        type: 'Server',
-        riskScore: 85,
-        reason: 'Connected to known threat actor, high centrality.'
-      },
-      {
-        id: 'user-admin',
-        name: 'admin@visium.com',
-        type: 'User',
-        riskScore: 72,
-        reason: 'Compromised credentials detected in recent alert.'
-      },
-      {
-        id: 'asset-ws15',
-        name: 'Workstation WS15',
-        type: 'Workstation',
-        riskScore: 65,
-        reason: 'Multiple medium severity vulnerabilities.'
-      },
-      {
-        id: 'asset-app03',
-        name: 'Application Server APP03',
-        type: 'Server',
-        riskScore: 50,
-        reason: 'Unusual outbound traffic patterns observed.'
-      },
-    ];
-
-    return NextResponse.json({ risks: mockRisks });
-
-  } catch (error) {
+  } catch (error: any) {
     console.error('Error fetching risk data:', error);
-    let errorMessage = 'Internal Server Error';
-    if (error instanceof Error) {
-        errorMessage = error.message;
-        if (errorMessage.includes('Could not connect') || errorMessage.includes('ServiceUnavailable')) {
-            errorMessage = 'Failed to connect to Neo4j database for risk data.';
-        }
-    }
-    return NextResponse.json(
-        { error: 'Failed to fetch risk data', details: errorMessage },
-        { status: 500 }
-    );
+    return NextResponse.json({ error: 'Failed to fetch risk data', details: error.message }, { status: 500 });
   } finally {
-    // Ensure session is closed if it was opened
-    // if (session) {
-    //   await session.close();
-    // }
+    if (session) {
+      await session.close();
+    }
   }
 }
-
@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath } from '@/lib/datasetSchema';
+import { computeRiskScores, getRiskWeights, riskWeightsSchema, saveRiskWeights } from '@/lib/riskScoring';
+
+export async function GET() {
+  let session;
+  try {
+    session = await getSession();
+    const weights = await getRiskWeights(session);
+    return NextResponse.json({ weights });
+
+  } catch (error: any) {
+    console.error('Failed to fetch risk weights:', error);
+    return NextResponse.json({ error: 'Failed to fetch risk weights', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+// Saves new factor weights and rescores the graph with them
+export async function PUT(request: Request) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = riskWeightsSchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid risk weights',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const weights = await saveRiskWeights(session, parsed.data);
+    const summary = await computeRiskScores(session);
+    return NextResponse.json({ weights, summary });
+
+  } catch (error: any) {
+    console.error('Failed to update risk weights:', error);
+    return NextResponse.json({ error: 'Failed to update risk weights', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
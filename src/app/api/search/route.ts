@@ -0,0 +1,29 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { ensureSearchIndex, parseSearchRequest, searchEntities } from '@/lib/entitySearch';
+
+// Entity search over the full-text index: ?q= (the search text), repeated &type= to keep
+// only those node types, and &limit=. Returns ranked results and type facets.
+export async function GET(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { request: searchRequest, error: requestError } = parseSearchRequest(searchParams);
+    if (!searchRequest) {
+      return NextResponse.json({ error: requestError }, { status: 400 });
+    }
+
+    session = await getSession();
+    await ensureSearchIndex(session);
+    const result = await searchEntities(session, searchRequest);
+    return NextResponse.json(result);
+
+  } catch (error: any) {
+    console.error('Failed to search entities:', error);
+    return NextResponse.json({ error: 'Failed to search entities', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
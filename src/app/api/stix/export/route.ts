@@ -0,0 +1,87 @@
+import { NextResponse, NextRequest } from 'next/server';
+import neo4j from 'neo4j-driver';
+import { getSession } from '@/lib/neo4j';
+import { notSystemNode } from '@/lib/graphLabels';
+import { graphToStixBundle } from '@/lib/stix';
+import { aliveInWindow, windowParams } from '@/lib/temporal';
+
+// Neo4j integers can't be serialised as JSON numbers directly
+function toPlainValue(value: any): any {
+  if (neo4j.isInt(value)) return value.toNumber();
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  return value;
+}
+
+function toPlainProperties(properties: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, toPlainValue(value)]));
+}
+
+// Exports the graph as a STIX 2.1 bundle. With startTime/endTime (epoch ms, as used by
+// /api/graph-data) only the records alive in that time window are exported; untimed
+// records are always present and included in every window.
+export async function GET(request: NextRequest) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const startTimeStr = searchParams.get('startTime');
+    const endTimeStr = searchParams.get('endTime');
+
+    let params: Record<string, any> = {};
+    let hasTimeFilter = false;
+    if (startTimeStr && endTimeStr) {
+      const startTime = parseInt(startTimeStr, 10);
+      const endTime = parseInt(endTimeStr, 10);
+      if (isNaN(startTime) || isNaN(endTime) || startTime >= endTime) {
+        return NextResponse.json({ error: 'Invalid time range parameters' }, { status: 400 });
+      }
+      hasTimeFilter = true;
+      params = windowParams(startTime, endTime);
+    }
+    const timeFilterFor = (variable: string) => hasTimeFilter ? `AND ${aliveInWindow(variable)}` : '';
+
+    session = await getSession();
+
+    const nodeResult = await session.run(
+      `MATCH (n)
+       WHERE n.uid IS NOT NULL AND ${notSystemNode('n')}
+       ${timeFilterFor('n')}
+       RETURN properties(n) AS properties`,
+      params
+    );
+    const edgeResult = await session.run(
+      `MATCH (a)-[r]->(b)
+       WHERE a.uid IS NOT NULL AND b.uid IS NOT NULL
+       AND ${notSystemNode('a')} AND ${notSystemNode('b')}
+       ${timeFilterFor('r')}
+       RETURN a.uid AS from, b.uid AS to, type(r) AS type, properties(r) AS properties`,
+      params
+    );
+
+    const bundle = graphToStixBundle(
+      nodeResult.records.map((record: any) => ({ properties: toPlainProperties(record.get('properties')) })),
+      edgeResult.records.map((record: any) => ({
+        from: record.get('from'),
+        to: record.get('to'),
+        type: record.get('type'),
+        properties: toPlainProperties(record.get('properties')),
+      }))
+    );
+
+    console.log(`Exported STIX bundle with ${bundle.objects.length} objects${hasTimeFilter ? ` (${startTimeStr} - ${endTimeStr})` : ''}`);
+
+    return NextResponse.json(bundle, {
+      status: 200,
+      headers: {
+        'Content-Disposition': `attachment; filename="graph-export-${new Date().toISOString().slice(0, 10)}.stix.json"`,
+      },
+    });
+
+  } catch (error: any) {
+    console.error('STIX export failed:', error);
+    return NextResponse.json({ error: 'Failed to export STIX bundle', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,111 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { findExistingUids, formatIssue, parseImportOptions, validateDatasetForImport } from '@/lib/datasetSchema';
+import { clearGraph, detectApoc, ensureUidIndex, importDataset } from '@/lib/datasetImport';
+import { runPostImportAnalysis } from '@/lib/postImport';
+import { dropDanglingEdges, externalEdgeUids, stixBundleToDataset } from '@/lib/stix';
+
+// Imports a STIX 2.1 bundle. The bundle is converted to a regular dataset and then
+// goes through the same validation and import as /api/upload-dataset.
+// With ?dryRun=true nothing is written and the validation result is returned instead.
+export async function POST(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { options, error: optionsError } = parseImportOptions(searchParams);
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+    const { mode } = options;
+    const dryRun = searchParams.get('dryRun') === 'true';
+    const importTimeISO = new Date().toISOString();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid STIX bundle. Request body is not valid JSON.' }, { status: 400 });
+    }
+
+    const converted = stixBundleToDataset(body);
+    if (!converted.dataset) {
+      return dryRun
+        ? NextResponse.json({ valid: false, issues: converted.issues, warnings: [], summary: null }, { status: 200 })
+        : NextResponse.json({ error: 'Invalid STIX bundle.', issues: converted.issues }, { status: 400 });
+    }
+
+    session = await getSession();
+    // A dry run only reads; the lookups below fall back to a scan until an import creates the index
+    if (!dryRun) await ensureUidIndex(session);
+
+    // References to objects outside the bundle are kept only if those objects were
+    // imported before (and aren't about to be deleted by a replace import)
+    const existingUids = mode === 'replace'
+      ? new Set<string>()
+      : await findExistingUids(session, externalEdgeUids(converted.dataset));
+    const { dataset: bundleDataset, warnings: edgeWarnings } = dropDanglingEdges(converted.dataset, existingUids);
+    const warnings = [...converted.warnings, ...edgeWarnings];
+
+    const validation = await validateDatasetForImport(session, bundleDataset, options);
+    if (dryRun) {
+      console.log(`STIX bundle validation (${mode}): ${validation.valid ? 'valid' : `${validation.issues.length} issue(s)`}, ${warnings.length} warning(s)`);
+      return NextResponse.json({
+        valid: validation.valid,
+        issues: validation.issues,
+        warnings,
+        summary: validation.dataset
+          ? { nodesCount: validation.dataset.nodes.length, edgesCount: validation.dataset.edges.length }
+          : null,
+      }, { status: 200 });
+    }
+    if (!validation.valid || !validation.dataset) {
+      console.warn(`Rejected STIX bundle with ${validation.issues.length} validation issue(s):`,
+        validation.issues.slice(0, 10).map(formatIssue));
+      return NextResponse.json({
+        error: 'Invalid STIX bundle. Fix the listed issues and upload again.',
+        issues: validation.issues,
+        warnings,
+      }, { status: 400 });
+    }
+    const dataset = validation.dataset;
+
+    console.log(`Importing STIX bundle in "${mode}" mode: ${dataset.nodes.length} nodes, ${dataset.edges.length} edges, ${warnings.length} warning(s)`);
+
+    const useApoc = await detectApoc(session);
+
+    if (mode === 'replace') {
+      await clearGraph(session);
+    }
+
+    const { nodes: nodeCounts, edges: edgeCounts } = await importDataset(session, dataset, {
+      options,
+      useApoc,
+      importTimeISO,
+    });
+
+    await runPostImportAnalysis(session);
+
+    console.log(`STIX import (${mode}) finished - nodes:`, nodeCounts, 'edges:', edgeCounts);
+
+    return NextResponse.json({
+      message: `STIX bundle imported successfully in ${mode} mode.`,
+      mode,
+      timestampPolicy: options.timestampPolicy,
+      warnings,
+      details: {
+        nodesCount: dataset.nodes.length,
+        edgesCount: dataset.edges.length,
+        nodes: nodeCounts,
+        edges: edgeCounts,
+      }
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('STIX import failed:', error);
+    return NextResponse.json({ error: 'Failed to import STIX bundle', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath, storedQuerySchema } from '@/lib/datasetSchema';
+import { deleteStoredQuery, updateStoredQuery } from '@/lib/storedQueries';
+
+export async function PUT(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = storedQuerySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid stored query',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const query = await updateStoredQuery(session, params.id, parsed.data);
+    if (!query) {
+      return NextResponse.json({ error: `Stored query ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ query });
+
+  } catch (error: any) {
+    console.error('Failed to update stored query:', error);
+    return NextResponse.json({ error: 'Failed to update stored query', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+export async function DELETE(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    session = await getSession();
+    const deleted = await deleteStoredQuery(session, params.id);
+    if (!deleted) {
+      return NextResponse.json({ error: `Stored query ${params.id} not found` }, { status: 404 });
+    }
+    return NextResponse.json({ message: 'Stored query deleted' });
+
+  } catch (error: any) {
+    console.error('Failed to delete stored query:', error);
+    return NextResponse.json({ error: 'Failed to delete stored query', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
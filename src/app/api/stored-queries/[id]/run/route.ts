@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import neo4j from 'neo4j-driver';
+import { getSession } from '@/lib/neo4j';
+import { findWriteClause } from '@/lib/cypherGuard';
+import { RUNNABLE_QUERY_LANGS, getStoredQuery } from '@/lib/storedQueries';
+import { runGraphQuery } from '@/lib/queryRunner';
+
+// Runs a stored query and returns its nodes and relationships as graph elements,
+// in the same shape as /api/graph-data. The session is read-only, and queries with
+// write clauses are rejected up front.
+export async function POST(request: Request, { params }: { params: { id: string } }) {
+  let session;
+  try {
+    session = await getSession(neo4j.session.READ);
+    const storedQuery = await getStoredQuery(session, params.id);
+    if (!storedQuery) {
+      return NextResponse.json({ error: `Stored query ${params.id} not found` }, { status: 404 });
+    }
+    if (!RUNNABLE_QUERY_LANGS.includes(storedQuery.lang.toLowerCase())) {
+      return NextResponse.json({
+        error: `Queries in "${storedQuery.lang}" can't be run. Supported: ${RUNNABLE_QUERY_LANGS.join(', ')}.`,
+      }, { status: 400 });
+    }
+    const writeClause = findWriteClause(storedQuery.query);
+    if (writeClause) {
+      return NextResponse.json({ error: 'Query rejected', details: writeClause }, { status: 400 });
+    }
+
+    console.log(`Running stored query ${storedQuery.id}: ${storedQuery.description ?? storedQuery.query}`);
+    const result = await runGraphQuery(session, storedQuery.query);
+    console.log(`Stored query ${storedQuery.id} returned ${result.recordCount} records, ${result.elements.length} elements`);
+
+    return NextResponse.json({ query: storedQuery, ...result });
+
+  } catch (error: any) {
+    console.error('Failed to run stored query:', error);
+    // Syntax errors and write attempts are problems with the query, not the server
+    const isQueryError = typeof error.code === 'string' && error.code.startsWith('Neo.ClientError');
+    return NextResponse.json(
+      { error: 'Failed to run stored query', details: error.message },
+      { status: isQueryError ? 400 : 500 }
+    );
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { formatIssuePath, storedQuerySchema } from '@/lib/datasetSchema';
+import { createStoredQuery, listStoredQueries } from '@/lib/storedQueries';
+
+// Saved queries: the ones shipped with uploaded datasets plus the user's own
+export async function GET() {
+  let session;
+  try {
+    session = await getSession();
+    const queries = await listStoredQueries(session);
+    return NextResponse.json({ queries });
+
+  } catch (error: any) {
+    console.error('Failed to list stored queries:', error);
+    return NextResponse.json({ error: 'Failed to list stored queries', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
+
+export async function POST(request: Request) {
+  let session;
+  try {
+    const body = await request.json().catch(() => null);
+    const parsed = storedQuerySchema.safeParse(body);
+    if (!parsed.success) {
+      return NextResponse.json({
+        error: 'Invalid stored query',
+        issues: parsed.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      }, { status: 400 });
+    }
+
+    session = await getSession();
+    const query = await createStoredQuery(session, parsed.data);
+
+    console.log(`Created stored query ${query.id}`);
+    return NextResponse.json({ query }, { status: 201 });
+
+  } catch (error: any) {
+    console.error('Failed to create stored query:', error);
+    return NextResponse.json({ error: 'Failed to create stored query', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
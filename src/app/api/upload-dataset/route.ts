@@ -1,166 +1,79 @@
 import { NextResponse } from 'next/server';
 import { getSession } from '@/lib/neo4j';
-import neo4j from 'neo4j-driver';
-
-interface NodeData {
-  uid: string;
-  type: string;
-  showname: string;
-  properties: Record<string, any>;
-  icon?: string;
-}
-
-interface EdgeData {
-  from: string;
-  to: string;
-  type: string;
-  properties: Record<string, any>;
-}
-
-interface Dataset {
-  nodes: NodeData[];
-  edges: EdgeData[];
-  // storedQueries are ignored for now during upload
-}
-
-// Helper function to generate a random timestamp within the default time range
-// This ensures uploaded data is visible in the default time slider range
-const getRandomTimestampISO = () => {
-  // Use fixed dates that match the default time range in the TimeSlider component
-  // This ensures uploaded data is always visible in the default time range
-  const endDate = new Date('2023-12-31T23:59:59.999Z');
-  const startDate = new Date('2023-12-30T00:00:00.000Z');
-
-  // Calculate the time range in milliseconds
-  const timeRangeMillis = endDate.getTime() - startDate.getTime();
-
-  // Generate a random offset within this range
-  const randomOffset = Math.random() * timeRangeMillis;
-
-  // Calculate the random timestamp
-  const randomTimestampMillis = startDate.getTime() + randomOffset;
-
-  // Convert to ISO string
-  const timestamp = new Date(randomTimestampMillis).toISOString();
-
-  console.log(`Generated timestamp within default range: ${timestamp}`);
-  return timestamp;
-};
+import { parseImportOptions, validateDatasetForImport, formatIssue } from '@/lib/datasetSchema';
+import { clearGraph, detectApoc, ensureUidIndex, importDataset } from '@/lib/datasetImport';
+import { saveDatasetQueries } from '@/lib/storedQueries';
+import { runPostImportAnalysis } from '@/lib/postImport';
 
+// Imports a whole JSON dataset in one request. Large exports should use the
+// streaming NDJSON path under /api/import-jobs instead.
 export async function POST(request: Request) {
   let session;
   try {
-    const dataset: Dataset = await request.json();
-
-    // Basic validation
-    if (!dataset || !Array.isArray(dataset.nodes) || !Array.isArray(dataset.edges)) {
-      return NextResponse.json({ error: 'Invalid dataset format. Missing nodes or edges array.' }, { status: 400 });
+    const { searchParams } = new URL(request.url);
+    const { options, error: optionsError } = parseImportOptions(searchParams);
+    if (!options) {
+      return NextResponse.json({ error: optionsError }, { status: 400 });
+    }
+    const { mode } = options;
+    const importTimeISO = new Date().toISOString();
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: 'Invalid dataset format. Request body is not valid JSON.' }, { status: 400 });
     }
 
     session = await getSession();
+    await ensureUidIndex(session);
+
+    // Validate everything up front so an invalid file never imports halfway
+    const validation = await validateDatasetForImport(session, body, options);
+    if (!validation.valid || !validation.dataset) {
+      console.warn(`Rejected dataset upload with ${validation.issues.length} validation issue(s):`,
+        validation.issues.slice(0, 10).map(formatIssue));
+      return NextResponse.json({
+        error: 'Invalid dataset. Fix the listed issues and upload again.',
+        issues: validation.issues,
+      }, { status: 400 });
+    }
+    const dataset = validation.dataset;
 
-    // --- Clear existing data --- (Consider making this optional)
-    await session.run('MATCH (n) DETACH DELETE n');
+    console.log(`Uploading dataset in "${mode}" mode (timestamps: ${options.timestampPolicy}): ${dataset.nodes.length} nodes, ${dataset.edges.length} edges`);
 
-    // --- Process and Create Nodes ---
-    if (dataset.nodes.length > 0) {
-      // Prepare nodes data for UNWIND, adding timestamps if missing
-      const nodesToCreate = dataset.nodes.map(node => {
-        const timestamp = node.properties?.timestamp || getRandomTimestampISO();
-        return {
-          uid: node.uid,
-          type: node.type,
-          showname: node.showname,
-          icon: node.icon || null,
-          properties: {
-            ...node.properties,
-            uid: node.uid,
-            type: node.type,
-            showname: node.showname,
-            icon: node.icon || null,
-            timestamp: timestamp // Ensure timestamp exists
-          }
-        };
-      });
+    // Pick the APOC or fallback queries once for the whole import
+    const useApoc = await detectApoc(session);
 
-      try {
-        // First try with APOC (preferred method for dynamic labels)
-        const createNodesQueryWithApoc = `
-          UNWIND $nodes AS nodeData
-          MERGE (n {uid: nodeData.uid})
-          CALL apoc.create.addLabels(n, [nodeData.type]) YIELD node
-          SET node += nodeData.properties
-          RETURN count(node) AS createdNodesCount
-        `;
-        await session.run(createNodesQueryWithApoc, { nodes: nodesToCreate });
-      } catch (error) {
-        console.warn("APOC not available for labels, falling back to generic Entity label", error);
-        // Fallback if APOC is not available - use a generic Entity label
-        const createNodesQueryFallback = `
-          UNWIND $nodes AS nodeData
-          MERGE (n:Entity {uid: nodeData.uid})
-          SET n += nodeData.properties
-          RETURN count(n) AS createdNodesCount
-        `;
-        await session.run(createNodesQueryFallback, { nodes: nodesToCreate });
-      }
+    // --- Clear existing data (replace mode only) ---
+    if (mode === 'replace') {
+      await clearGraph(session);
     }
 
-    // --- Process and Create Edges ---
-    if (dataset.edges.length > 0) {
-       // Prepare edges data for UNWIND, adding timestamps if missing
-      const edgesToCreate = dataset.edges.map(edge => {
-        const timestamp = edge.properties?.timestamp || getRandomTimestampISO();
-        return {
-          fromUid: edge.from,
-          toUid: edge.to,
-          type: edge.type,
-          properties: {
-            ...edge.properties,
-            timestamp: timestamp // Ensure timestamp exists
-          }
-        };
-      });
+    // --- Create/update nodes, then edges, one transaction per batch ---
+    const { nodes: nodeCounts, edges: edgeCounts } = await importDataset(session, dataset, {
+      options,
+      useApoc,
+      importTimeISO,
+    });
 
-      try {
-        // First try with APOC (preferred method for dynamic relationship types)
-        const createEdgesQueryWithApoc = `
-          UNWIND $edges AS edgeData
-          MATCH (fromNode {uid: edgeData.fromUid})
-          MATCH (toNode {uid: edgeData.toUid})
-          CALL apoc.create.relationship(fromNode, edgeData.type, edgeData.properties, toNode) YIELD rel
-          RETURN count(rel) AS createdEdgesCount
-        `;
-        await session.run(createEdgesQueryWithApoc, { edges: edgesToCreate });
-      } catch (error) {
-        console.warn("APOC not available for relationships, falling back to generic RELATED_TO type", error);
-        // Fallback if APOC is not available - use a generic RELATED_TO relationship type
-        const createEdgesQueryFallback = `
-          UNWIND $edges AS edgeData
-          MATCH (fromNode {uid: edgeData.fromUid})
-          MATCH (toNode {uid: edgeData.toUid})
-          MERGE (fromNode)-[r:RELATED_TO]->(toNode)
-          SET r += edgeData.properties,
-              r.original_type = edgeData.type // Store the original type as a property
-          RETURN count(r) AS createdEdgesCount
-        `;
-        await session.run(createEdgesQueryFallback, { edges: edgesToCreate });
-      }
-    }
+    // --- Keep the dataset's stored queries for the Saved Queries panel ---
+    const storedQueriesCount = await saveDatasetQueries(session, dataset.storedQueries ?? []);
 
-    // Calculate the time range used for the timestamps
-    const startDate = new Date('2023-12-30T00:00:00.000Z');
-    const endDate = new Date('2023-12-31T23:59:59.999Z');
+    await runPostImportAnalysis(session);
+
+    console.log(`Dataset upload (${mode}) finished - nodes:`, nodeCounts, 'edges:', edgeCounts, `stored queries: ${storedQueriesCount}`);
 
     return NextResponse.json({
-      message: 'Dataset uploaded successfully with timestamps ensured.',
+      message: `Dataset uploaded successfully in ${mode} mode.`,
+      mode,
+      timestampPolicy: options.timestampPolicy,
       details: {
         nodesCount: dataset.nodes.length,
         edgesCount: dataset.edges.length,
-        timeRange: {
-          start: startDate.toISOString(),
-          end: endDate.toISOString()
-        }
+        storedQueriesCount,
+        nodes: nodeCounts,
+        edges: edgeCounts,
       }
     }, { status: 200 });
 
@@ -173,4 +86,3 @@ export async function POST(request: Request) {
     }
   }
 }
-
@@ -0,0 +1,45 @@
+import { NextResponse } from 'next/server';
+import { getSession } from '@/lib/neo4j';
+import { parseImportOptions, validateDatasetForImport } from '@/lib/datasetSchema';
+
+// Dry-run validation of a dataset: nothing is written to Neo4j.
+// Returns every problem found, each with the JSON path of the offending value.
+export async function POST(request: Request) {
+  let session;
+  try {
+    const { searchParams } = new URL(request.url);
+    const { options, error } = parseImportOptions(searchParams);
+    if (!options) {
+      return NextResponse.json({ error }, { status: 400 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({
+        valid: false,
+        issues: [{ path: '', message: 'File is not valid JSON' }],
+      }, { status: 200 });
+    }
+
+    session = await getSession();
+    const { valid, issues, dataset } = await validateDatasetForImport(session, body, options);
+
+    console.log(`Dataset validation (${options.mode}): ${valid ? 'valid' : `${issues.length} issue(s)`}`);
+
+    return NextResponse.json({
+      valid,
+      issues,
+      summary: dataset ? { nodesCount: dataset.nodes.length, edgesCount: dataset.edges.length } : null,
+    }, { status: 200 });
+
+  } catch (error: any) {
+    console.error('Dataset validation failed:', error);
+    return NextResponse.json({ error: 'Failed to validate dataset', details: error.message }, { status: 500 });
+  } finally {
+    if (session) {
+      await session.close();
+    }
+  }
+}
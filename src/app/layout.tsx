@@ -4,6 +4,12 @@ import type { Metadata } from 'next';
 import { Inter } from 'next/font/google';
 import './globals.css';
 import { TimelineProvider } from '@/contexts/TimelineContext';
+import { GraphQueryProvider } from '@/contexts/GraphQueryContext';
+import { GraphDataProvider } from '@/contexts/GraphDataContext';
+import { GraphHighlightProvider } from '@/contexts/GraphHighlightContext';
+import { PathFinderProvider } from '@/contexts/PathFinderContext';
+import { AttackPathProvider } from '@/contexts/AttackPathContext';
+import { LiveUpdatesProvider } from '@/contexts/LiveUpdatesContext';
 
 const inter = Inter({ subsets: ['latin'] });
 
@@ -22,7 +28,19 @@ export default function RootLayout({
       <body className={inter.className}>
         <ChakraProvider theme={theme}>
           <TimelineProvider>
-            {children}
+            <LiveUpdatesProvider>
+              <GraphQueryProvider>
+                <GraphDataProvider>
+                  <GraphHighlightProvider>
+                    <PathFinderProvider>
+                      <AttackPathProvider>
+                        {children}
+                      </AttackPathProvider>
+                    </PathFinderProvider>
+                  </GraphHighlightProvider>
+                </GraphDataProvider>
+              </GraphQueryProvider>
+            </LiveUpdatesProvider>
           </TimelineProvider>
         </ChakraProvider>
       </body>
@@ -1,6 +1,8 @@
 "use client";
 
 import { useTimeline } from "@/contexts/TimelineContext";
+import { useLiveEvents, useLiveUpdates } from "@/contexts/LiveUpdatesContext";
+import { useGraphData } from "@/contexts/GraphDataContext";
 import {
   Box,
   Heading,
@@ -32,7 +34,7 @@ import {
   FaBolt,
   FaNetworkWired,
 } from "react-icons/fa";
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import dynamic from "next/dynamic";
 
 // Dynamic imports with loading states
@@ -59,6 +61,8 @@ const GeoMap = dynamic(
 );
 
 import UnifiedControlPanel from "@/components/dashboard/UnifiedControlPanel";
+import NodeDetailsPanel from "@/components/graph/NodeDetailsPanel";
+import EntitySearch from "@/components/dashboard/EntitySearch";
 import { FloatingActionButton, QuickAccessToolbar } from "@/components/ui/FloatingActionButton";
 import {
   GraphVisualizationSkeleton,
@@ -66,17 +70,20 @@ import {
 } from "@/components/ui/LoadingStates";
 
 export default function Home() {
-  const { startTime, endTime, isInitialized, handleDataRangeChange } = useTimeline();
+  const { startTime, endTime, isInitialized } = useTimeline();
+  const { isLive: isLiveMode, status: liveStatus, toggleLive } = useLiveUpdates();
+  const { elements: graphElements, selectedNodeIds } = useGraphData();
 
   // Enhanced state management
   const [isLoading, setIsLoading] = useState(true);
   const [isFullscreen, setIsFullscreen] = useState(false);
   const [activeTab, setActiveTab] = useState(0);
-  const [dataStats, setDataStats] = useState({ nodes: 0, edges: 0, lastUpdate: null as string | null });
-  const [isLiveMode, setIsLiveMode] = useState(true);
   const [currentTime, setCurrentTime] = useState<string>('');
   const [useSigmaGraph, setUseSigmaGraph] = useState(true); // Toggle between Cytoscape.js and Sigma.js - Default to Sigma.js
   const { isOpen: showStats, onToggle: toggleStats } = useDisclosure();
+  // The details panel shows the one selected node; closing it lasts until the selection changes
+  const [detailsClosed, setDetailsClosed] = useState(false);
+  const detailsNodeId = selectedNodeIds.length === 1 && !detailsClosed ? selectedNodeIds[0] : null;
 
   // Modern theme-aware colors with glassmorphism
   const bgColor = useColorModeValue('gray.50', 'gray.900');
@@ -99,20 +106,22 @@ export default function Home() {
   // Set current time on client side only to prevent hydration mismatch
   useEffect(() => {
     setCurrentTime(new Date().toLocaleTimeString());
-    const interval = setInterval(() => {
-      setCurrentTime(new Date().toLocaleTimeString());
-    }, 1000);
-    return () => clearInterval(interval);
   }, []);
 
-  // Enhanced data range handler with stats
-  const handleEnhancedDataRangeChange = (min: number, max: number) => {
-    handleDataRangeChange(min, max);
-    setDataStats(prev => ({
-      ...prev,
-      lastUpdate: new Date().toISOString(),
-    }));
-  };
+  // "Last updated" follows what the live stream delivers
+  useLiveEvents(['graph', 'reset', 'alerts', 'risk'], () => {
+    setCurrentTime(new Date().toLocaleTimeString());
+  });
+
+  useEffect(() => {
+    setDetailsClosed(false);
+  }, [selectedNodeIds]);
+
+  // Counts of the loaded graph, shared by every view
+  const dataStats = useMemo(() => ({
+    nodes: graphElements.filter(element => element.group === 'nodes').length,
+    edges: graphElements.filter(element => element.group === 'edges').length,
+  }), [graphElements]);
 
   // Fullscreen toggle
   const toggleFullscreen = () => {
@@ -150,7 +159,7 @@ export default function Home() {
           {/* Unified Control Panel */}
           <UnifiedControlPanel
             isLiveMode={isLiveMode}
-            onToggleLiveMode={() => setIsLiveMode(!isLiveMode)}
+            onToggleLiveMode={toggleLive}
           />
 
           {/* Main Content Area */}
@@ -195,23 +204,30 @@ export default function Home() {
               </VStack>
 
               <HStack spacing={3}>
-                <Badge
-                  colorScheme="cyber"
-                  variant="subtle"
-                  px={4}
-                  py={2}
-                  borderRadius="full"
-                  fontSize="sm"
-                  fontWeight="semibold"
-                  cursor="pointer"
-                  onClick={toggleStats}
-                  _hover={{ transform: 'scale(1.05)' }}
-                  transition="all 0.2s"
-                  animation={isLiveMode ? "glow 3s ease-in-out infinite" : "none"}
+                <EntitySearch />
+
+                <Tooltip
+                  label={{ open: 'Receiving live updates', connecting: 'Connecting to live updates…', paused: 'Live updates paused', error: 'Live updates unavailable' }[liveStatus]}
+                  hasArrow
                 >
-                  <Icon as={FaShieldAlt} mr={2} boxSize={4} />
-                  Live Monitoring
-                </Badge>
+                  <Badge
+                    colorScheme={isLiveMode && liveStatus === 'open' ? "cyber" : "gray"}
+                    variant="subtle"
+                    px={4}
+                    py={2}
+                    borderRadius="full"
+                    fontSize="sm"
+                    fontWeight="semibold"
+                    cursor="pointer"
+                    onClick={toggleStats}
+                    _hover={{ transform: 'scale(1.05)' }}
+                    transition="all 0.2s"
+                    animation={isLiveMode ? "glow 3s ease-in-out infinite" : "none"}
+                  >
+                    <Icon as={FaShieldAlt} mr={2} boxSize={4} />
+                    Live Monitoring
+                  </Badge>
+                </Tooltip>
 
                 <Tooltip label={`Switch to ${useSigmaGraph ? 'Cytoscape.js' : 'Sigma.js'} Graph`} hasArrow>
                   <Badge
@@ -310,98 +326,107 @@ export default function Home() {
               </CardHeader>
 
               <CardBody pt={0} h="calc(100% - 100px)">
-                <Tabs
-                  variant="soft-rounded"
-                  colorScheme="brand"
-                  size="sm"
-                  h="100%"
-                  display="flex"
-                  flexDirection="column"
-                  index={activeTab}
-                  onChange={setActiveTab}
-                >
-                  <TabList
-                    mb={4}
-                    bg="rgba(248, 250, 252, 0.8)"
-                    backdropFilter="blur(10px)"
-                    p={2}
-                    borderRadius="xl"
-                    border="1px solid"
-                    borderColor="gray.200"
+                <Flex h="100%" gap={4}>
+                  <Tabs
+                    variant="soft-rounded"
+                    colorScheme="brand"
+                    size="sm"
+                    h="100%"
+                    flex="1"
+                    minW={0}
+                    display="flex"
+                    flexDirection="column"
+                    index={activeTab}
+                    onChange={setActiveTab}
                   >
-                    <Tab
-                      fontWeight="semibold"
-                      fontSize="sm"
-                      borderRadius="lg"
-                      transition="all 0.2s"
-                      _selected={{
-                        color: 'white',
-                        bg: 'brand.500',
-                        shadow: 'md',
-                        transform: 'scale(1.02)'
-                      }}
-                    >
-                      <Icon as={FaBolt} mr={2} boxSize={4} />
-                      Graph Topology
-                    </Tab>
-                    <Tab
-                      fontWeight="semibold"
-                      fontSize="sm"
-                      borderRadius="lg"
-                      transition="all 0.2s"
-                      _selected={{
-                        color: 'white',
-                        bg: 'brand.500',
-                        shadow: 'md',
-                        transform: 'scale(1.02)'
-                      }}
+                    <TabList
+                      mb={4}
+                      bg="rgba(248, 250, 252, 0.8)"
+                      backdropFilter="blur(10px)"
+                      p={2}
+                      borderRadius="xl"
+                      border="1px solid"
+                      borderColor="gray.200"
                     >
-                      <Icon as={FaGlobe} mr={2} boxSize={4} />
-                      Geographic View
-                    </Tab>
-                  </TabList>
-
-                  <TabPanels flex="1" overflow="hidden">
-                    <TabPanel p={0} h="100%">
-                      <Box
-                        h="100%"
-                        borderRadius="xl"
-                        overflow="hidden"
-                        border="1px solid"
-                        borderColor="gray.200"
-                        bg="white"
-                        boxShadow="inner"
+                      <Tab
+                        fontWeight="semibold"
+                        fontSize="sm"
+                        borderRadius="lg"
+                        transition="all 0.2s"
+                        _selected={{
+                          color: 'white',
+                          bg: 'brand.500',
+                          shadow: 'md',
+                          transform: 'scale(1.02)'
+                        }}
                       >
-                        {useSigmaGraph ? (
-                          <SigmaGraphVisualization
-                            startTime={startTime}
-                            endTime={endTime}
-                            onDataRangeChange={handleEnhancedDataRangeChange}
-                          />
-                        ) : (
-                          <GraphVisualization
-                            startTime={startTime}
-                            endTime={endTime}
-                            onDataRangeChange={handleEnhancedDataRangeChange}
-                          />
-                        )}
-                      </Box>
-                    </TabPanel>
-                    <TabPanel p={0} h="100%">
-                      <Box
-                        h="100%"
-                        borderRadius="xl"
-                        overflow="hidden"
-                        border="1px solid"
-                        borderColor="gray.200"
-                        bg="white"
-                        boxShadow="inner"
+                        <Icon as={FaBolt} mr={2} boxSize={4} />
+                        Graph Topology
+                      </Tab>
+                      <Tab
+                        fontWeight="semibold"
+                        fontSize="sm"
+                        borderRadius="lg"
+                        transition="all 0.2s"
+                        _selected={{
+                          color: 'white',
+                          bg: 'brand.500',
+                          shadow: 'md',
+                          transform: 'scale(1.02)'
+                        }}
                       >
-                        <GeoMap isActive={activeTab === 1} />
-                      </Box>
-                    </TabPanel>
-                  </TabPanels>
-                </Tabs>
+                        <Icon as={FaGlobe} mr={2} boxSize={4} />
+                        Geographic View
+                      </Tab>
+                    </TabList>
+
+                    <TabPanels flex="1" overflow="hidden">
+                      <TabPanel p={0} h="100%">
+                        <Box
+                          h="100%"
+                          borderRadius="xl"
+                          overflow="hidden"
+                          border="1px solid"
+                          borderColor="gray.200"
+                          bg="white"
+                          boxShadow="inner"
+                        >
+                          {useSigmaGraph ? (
+                            <SigmaGraphVisualization
+                              startTime={startTime}
+                              endTime={endTime}
+                            />
+                          ) : (
+                            <GraphVisualization
+                              startTime={startTime}
+                              endTime={endTime}
+                            />
+                          )}
+                        </Box>
+                      </TabPanel>
+                      <TabPanel p={0} h="100%">
+                        <Box
+                          h="100%"
+                          borderRadius="xl"
+                          overflow="hidden"
+                          border="1px solid"
+                          borderColor="gray.200"
+                          bg="white"
+                          boxShadow="inner"
+                        >
+                          <GeoMap isActive={activeTab === 1} />
+                        </Box>
+                      </TabPanel>
+                    </TabPanels>
+                  </Tabs>
+
+                  {/* Details of the selected node, docked next to the views */}
+                  {detailsNodeId && (
+                    <Box w="360px" flexShrink={0} h="100%">
+                      <NodeDetailsPanel nodeId={detailsNodeId} onClose={() => setDetailsClosed(true)} />
+                    </Box>
+                  )}
+                </Flex>
               </CardBody>
             </Card>
           </Box>
@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Button,
+  Input,
+  Select,
+  Textarea,
+  Text,
+  HStack,
+  VStack,
+  Spinner,
+  Divider,
+  useToast,
+} from '@chakra-ui/react';
+import type { Alert } from '@/lib/alertEngine';
+import type { AlertEvent } from '@/lib/alertTriage';
+import { ALERT_STATUSES } from '@/lib/alertRules';
+
+// Name recorded as the author of triage changes; there are no user accounts yet
+const ANALYST_NAME_KEY = 'trucontext.analystName';
+
+export const STATUS_LABELS: Record<Alert['status'], string> = {
+  'new': 'New',
+  'acknowledged': 'Acknowledged',
+  'in-progress': 'In progress',
+  'resolved': 'Resolved',
+  'false-positive': 'False positive',
+};
+
+const describeEvent = (event: AlertEvent) => {
+  switch (event.type) {
+    case 'created':
+      return event.text || 'Alert raised';
+    case 'status':
+      return `Status ${STATUS_LABELS[event.from as Alert['status']] ?? event.from} → ${STATUS_LABELS[event.to as Alert['status']] ?? event.to}`;
+    case 'assignee':
+      return event.to ? `Assigned to ${event.to}` : `Unassigned${event.from ? ` from ${event.from}` : ''}`;
+    case 'comment':
+    default:
+      return event.text;
+  }
+};
+
+interface AlertDetailsProps {
+  alert: Alert;
+  onUpdated: (alert: Alert) => void;
+}
+
+// Triage controls and audit trail of one alert, shown under it in the AlertsList
+const AlertDetails: React.FC<AlertDetailsProps> = ({ alert, onUpdated }) => {
+  const [events, setEvents] = useState<AlertEvent[]>([]);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [saving, setSaving] = useState<boolean>(false);
+  const [analystName, setAnalystName] = useState<string>('');
+  const [assignee, setAssignee] = useState<string>(alert.assignee ?? '');
+  const [comment, setComment] = useState<string>('');
+  const toast = useToast();
+
+  useEffect(() => {
+    setAnalystName(localStorage.getItem(ANALYST_NAME_KEY) ?? '');
+  }, []);
+
+  useEffect(() => {
+    setAssignee(alert.assignee ?? '');
+  }, [alert.assignee]);
+
+  useEffect(() => {
+    const fetchEvents = async () => {
+      setLoading(true);
+      try {
+        const response = await fetch(`/api/alerts/${alert.id}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+        }
+        setEvents(data.events || []);
+      } catch (e: any) {
+        console.error("Failed to fetch alert history:", e);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    fetchEvents();
+  }, [alert.id]);
+
+  const handleAnalystNameChange = (name: string) => {
+    setAnalystName(name);
+    localStorage.setItem(ANALYST_NAME_KEY, name);
+  };
+
+  const showError = (title: string, e: any) => {
+    toast({
+      title,
+      description: e.message || "An unknown error occurred.",
+      status: "error",
+      duration: 5000,
+      isClosable: true,
+    });
+  };
+
+  const updateAlert = async (changes: { status?: Alert['status']; assignee?: string | null }) => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/alerts/${alert.id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ...changes, ...(analystName.trim() ? { author: analystName.trim() } : {}) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.issues?.[0]?.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+      setEvents(data.events || []);
+      onUpdated(data.alert);
+    } catch (e: any) {
+      console.error("Failed to update alert:", e);
+      showError("Error updating alert", e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const addComment = async () => {
+    setSaving(true);
+    try {
+      const response = await fetch(`/api/alerts/${alert.id}/comments`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text: comment, ...(analystName.trim() ? { author: analystName.trim() } : {}) }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.issues?.[0]?.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+      setEvents(current => [...current, data.event]);
+      setComment('');
+    } catch (e: any) {
+      console.error("Failed to add comment:", e);
+      showError("Error adding comment", e);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    // Clicks inside the details must not toggle the alert's selection
+    <VStack spacing={3} align="stretch" mt={3} onClick={(e) => e.stopPropagation()}>
+      <Divider />
+      <HStack>
+        <Text fontSize="xs" w="70px" flexShrink={0}>Your name</Text>
+        <Input size="xs" value={analystName} onChange={(e) => handleAnalystNameChange(e.target.value)} placeholder="Recorded in the audit trail" />
+      </HStack>
+      <HStack>
+        <Text fontSize="xs" w="70px" flexShrink={0}>Status</Text>
+        <Select
+          size="xs"
+          value={alert.status}
+          onChange={(e) => updateAlert({ status: e.target.value as Alert['status'] })}
+          isDisabled={saving}
+        >
+          {ALERT_STATUSES.map(status => (
+            <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+          ))}
+        </Select>
+      </HStack>
+      <HStack>
+        <Text fontSize="xs" w="70px" flexShrink={0}>Assignee</Text>
+        <Input size="xs" value={assignee} onChange={(e) => setAssignee(e.target.value)} placeholder="Unassigned" />
+        <Button
+          size="xs"
+          onClick={() => updateAlert({ assignee: assignee.trim() || null })}
+          isDisabled={saving || assignee.trim() === (alert.assignee ?? '')}
+        >
+          Save
+        </Button>
+        {analystName.trim() && alert.assignee !== analystName.trim() && (
+          <Button size="xs" variant="ghost" onClick={() => updateAlert({ assignee: analystName.trim() })} isDisabled={saving}>
+            Take
+          </Button>
+        )}
+      </HStack>
+
+      <Box>
+        <Text fontSize="xs" fontWeight="semibold" mb={1}>History</Text>
+        {loading ? (
+          <Spinner size="xs" />
+        ) : (
+          <VStack spacing={1} align="stretch" maxH="160px" overflowY="auto">
+            {events.map(event => (
+              <Box key={event.id} fontSize="xs">
+                <Text color="gray.500">
+                  {new Date(event.at).toLocaleString()} · {event.author || (event.type === 'created' ? 'rule engine' : 'unknown')}
+                </Text>
+                <Text whiteSpace="pre-wrap">{describeEvent(event)}</Text>
+              </Box>
+            ))}
+          </VStack>
+        )}
+      </Box>
+
+      <VStack spacing={1} align="stretch">
+        <Textarea size="xs" rows={2} value={comment} onChange={(e) => setComment(e.target.value)} placeholder="Add a comment" />
+        <HStack justify="flex-end">
+          <Button size="xs" colorScheme="brand" onClick={addComment} isDisabled={saving || !comment.trim()}>
+            Comment
+          </Button>
+        </HStack>
+      </VStack>
+    </VStack>
+  );
+};
+
+export default AlertDetails;
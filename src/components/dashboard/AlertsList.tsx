@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Box,
   List,
@@ -12,56 +12,157 @@ import {
   Tag,
   HStack,
   VStack,
-  Icon
+  Button,
+  Select,
+  Collapse,
 } from '@chakra-ui/react';
-import { MdWarning, MdInfoOutline, MdErrorOutline } from 'react-icons/md'; // Example icons
+import { MdWarning, MdInfoOutline, MdRefresh } from 'react-icons/md'; // Example icons
+import type { Alert } from '@/lib/alertEngine';
+import { ALERT_STATUSES } from '@/lib/alertRules';
+import { useGraphHighlight } from '@/contexts/GraphHighlightContext';
+import { useGraphData } from '@/contexts/GraphDataContext';
+import { useLiveEvents } from '@/contexts/LiveUpdatesContext';
+import AlertDetails, { STATUS_LABELS } from '@/components/dashboard/AlertDetails';
 
-interface Alert {
-  id: string;
-  description: string;
-  severity: 'High' | 'Medium' | 'Low';
-  timestamp: string;
+// Batches the alerts raised by consecutive import batches into one reload
+const LIVE_RELOAD_DELAY_MS = 1000;
+
+// Query-string filters for /api/alerts; empty string means "any"
+interface AlertListFilters {
+  status: string;
+  severity: string;
+  assignee: string;
 }
 
 const AlertsList: React.FC = () => {
   const [alerts, setAlerts] = useState<Alert[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
+  const [evaluating, setEvaluating] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedAlertId, setSelectedAlertId] = useState<string | null>(null);
+  const [filters, setFilters] = useState<AlertListFilters>({ status: '', severity: '', assignee: '' });
+  const [assignees, setAssignees] = useState<string[]>([]);
+  const { highlightElements, clearHighlight } = useGraphHighlight();
+  const { selectedNodeIds, selectNodes, clearSelection } = useGraphData();
+  const itemRefs = useRef<Map<string, HTMLLIElement>>(new Map());
   const toast = useToast();
 
-  useEffect(() => {
-    const fetchAlerts = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        const response = await fetch('/api/alerts');
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.details || `HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
-        setAlerts(data.alerts || []); // Ensure alerts is always an array
-      } catch (e: any) {
-        console.error("Failed to fetch alerts:", e);
-        const errorMessage = e.message || "An unknown error occurred while fetching alerts.";
-        setError(errorMessage);
-        toast({
-          title: "Error loading alerts",
-          description: errorMessage,
-          status: "error",
-          duration: 5000,
-          isClosable: true,
-        });
-      } finally {
-        setLoading(false);
+  const fetchAlerts = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const response = await fetch(`/api/alerts?${params.toString()}`);
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || errorData.error || `HTTP error! status: ${response.status}`);
       }
-    };
+      const data = await response.json();
+      setAlerts(data.alerts || []); // Ensure alerts is always an array
+      setAssignees(data.assignees || []);
+    } catch (e: any) {
+      console.error("Failed to fetch alerts:", e);
+      const errorMessage = e.message || "An unknown error occurred while fetching alerts.";
+      setError(errorMessage);
+      toast({
+        title: "Error loading alerts",
+        description: errorMessage,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [filters, toast]);
 
+  useEffect(() => {
     fetchAlerts();
-    // Optional: Set up polling
-    // const intervalId = setInterval(fetchAlerts, 30000); // Refresh every 30 seconds
-    // return () => clearInterval(intervalId);
-  }, [toast]);
+  }, [fetchAlerts]);
+
+  // Reload with the active filters when the live stream reports new alerts
+  const liveReloadRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useLiveEvents(['alerts'], () => {
+    if (liveReloadRef.current) clearTimeout(liveReloadRef.current);
+    liveReloadRef.current = setTimeout(fetchAlerts, LIVE_RELOAD_DELAY_MS);
+  });
+  useEffect(() => () => {
+    if (liveReloadRef.current) clearTimeout(liveReloadRef.current);
+  }, []);
+
+  // Run the detection rules again against the current graph
+  const evaluateRules = useCallback(async () => {
+    setEvaluating(true);
+    try {
+      const response = await fetch('/api/alerts/evaluate', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || `HTTP error! status: ${response.status}`);
+      }
+      await fetchAlerts(); // Reload with the active filters
+
+      const failedRules = data.summary.rules.filter((rule: { error?: string }) => rule.error);
+      toast({
+        title: `${data.summary.created} new alert${data.summary.created === 1 ? '' : 's'}, ${data.summary.updated} updated`,
+        description: failedRules.length > 0
+          ? `Rules that failed: ${failedRules.map((rule: { ruleId: string }) => rule.ruleId).join(', ')}`
+          : undefined,
+        status: failedRules.length > 0 ? "warning" : "success",
+        duration: 5000,
+        isClosable: true,
+      });
+    } catch (e: any) {
+      console.error("Failed to evaluate alert rules:", e);
+      toast({
+        title: "Error evaluating alert rules",
+        description: e.message || "An unknown error occurred.",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setEvaluating(false);
+    }
+  }, [fetchAlerts, toast]);
+
+  // Keep the list in sync after a triage change in AlertDetails
+  const handleAlertUpdated = (updated: Alert) => {
+    setAlerts(current => current.map(alert => (alert.id === updated.id ? updated : alert)));
+    if (updated.assignee && !assignees.includes(updated.assignee)) {
+      setAssignees(current => [...current, updated.assignee as string].sort());
+    }
+  };
+
+  // Clicking an alert highlights its matched subgraph and selects its nodes in every view;
+  // clicking it again clears both
+  const toggleAlert = (alert: Alert) => {
+    if (selectedAlertId === alert.id) {
+      setSelectedAlertId(null);
+      clearHighlight();
+      clearSelection();
+      return;
+    }
+    setSelectedAlertId(alert.id);
+    highlightElements({ title: alert.title, nodeIds: alert.matchedNodeIds, edgeIds: alert.matchedEdgeIds });
+    selectNodes(alert.matchedNodeIds);
+  };
+
+  // Alerts involving a selected node are marked, and the first one is brought into view
+  const involvesSelection = (alert: Alert) => alert.matchedNodeIds.some(id => selectedNodeIds.includes(id));
+
+  useEffect(() => {
+    if (selectedAlertId && alerts.some(alert => alert.id === selectedAlertId && involvesSelection(alert))) return;
+    const alert = alerts.find(involvesSelection);
+    if (alert) itemRefs.current.get(alert.id)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedNodeIds]);
+
+  const setItemRef = (id: string) => (item: HTMLLIElement | null) => {
+    if (item) itemRefs.current.set(id, item);
+    else itemRefs.current.delete(id);
+  };
 
   const getSeverityProps = (severity: Alert['severity']) => {
     switch (severity) {
@@ -75,7 +176,27 @@ const AlertsList: React.FC = () => {
     }
   };
 
-  if (loading) {
+  const filterControls = (
+    <HStack spacing={2}>
+      <Select size="xs" value={filters.status} onChange={(e) => setFilters({ ...filters, status: e.target.value })}>
+        <option value="">All statuses</option>
+        {ALERT_STATUSES.map(status => <option key={status} value={status}>{STATUS_LABELS[status]}</option>)}
+      </Select>
+      <Select size="xs" value={filters.severity} onChange={(e) => setFilters({ ...filters, severity: e.target.value })}>
+        <option value="">All severities</option>
+        <option value="High">High</option>
+        <option value="Medium">Medium</option>
+        <option value="Low">Low</option>
+      </Select>
+      <Select size="xs" value={filters.assignee} onChange={(e) => setFilters({ ...filters, assignee: e.target.value })}>
+        <option value="">Anyone</option>
+        <option value="unassigned">Unassigned</option>
+        {assignees.map(name => <option key={name} value={name}>{name}</option>)}
+      </Select>
+    </HStack>
+  );
+
+  if (loading && alerts.length === 0) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="150px">
         <Spinner size="md" />
@@ -92,40 +213,67 @@ const AlertsList: React.FC = () => {
     );
   }
 
-  if (!alerts || alerts.length === 0) {
-    return (
+  return (
+    <VStack spacing={3} align="stretch">
+      {filterControls}
+      <HStack justify="flex-end">
+        <Button size="xs" variant="ghost" leftIcon={<MdRefresh />} onClick={evaluateRules} isLoading={evaluating}>
+          Run rules
+        </Button>
+      </HStack>
+
+      {alerts.length === 0 ? (
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="150px">
-            <Text>No recent alerts found.</Text>
+          <Text>No recent alerts found.</Text>
         </Box>
-    );
-  }
-
-  return (
-    <List spacing={3}>
-      {alerts.map((alert) => {
-        const severityProps = getSeverityProps(alert.severity);
-        return (
-          <ListItem key={alert.id} p={3} borderWidth="1px" borderRadius="md" shadow="sm">
-            <HStack justify="space-between">
-              <HStack>
-                <ListIcon as={severityProps.icon} color={`${severityProps.colorScheme}.500`} w={5} h={5} />
-                <VStack align="start" spacing={0}>
-                    <Text fontSize="sm">{alert.description}</Text>
-                    <Text fontSize="xs" color="gray.500">
-                        {new Date(alert.timestamp).toLocaleString()}
-                    </Text>
-                </VStack>
-              </HStack>
-              <Tag size="sm" colorScheme={severityProps.colorScheme}>
-                {alert.severity}
-              </Tag>
-            </HStack>
-          </ListItem>
-        );
-      })}
-    </List>
+      ) : (
+        <List spacing={3}>
+          {alerts.map((alert) => {
+            const severityProps = getSeverityProps(alert.severity);
+            const isSelected = selectedAlertId === alert.id;
+            const isRelated = !isSelected && involvesSelection(alert);
+            return (
+              <ListItem
+                key={alert.id}
+                ref={setItemRef(alert.id)}
+                p={3}
+                borderWidth="1px"
+                borderLeftWidth={isRelated ? '4px' : '1px'}
+                borderRadius="md"
+                shadow="sm"
+                cursor="pointer"
+                borderColor={isSelected ? `${severityProps.colorScheme}.400` : isRelated ? 'blue.400' : undefined}
+                bg={isSelected ? `${severityProps.colorScheme}.50` : undefined}
+                onClick={() => toggleAlert(alert)}
+              >
+                <HStack justify="space-between">
+                  <HStack>
+                    <ListIcon as={severityProps.icon} color={`${severityProps.colorScheme}.500`} w={5} h={5} />
+                    <VStack align="start" spacing={0}>
+                        <Text fontSize="sm">{alert.title}</Text>
+                        <Text fontSize="xs" color="gray.500">
+                            Last seen {new Date(alert.lastSeen).toLocaleString()}
+                            {alert.firstSeen !== alert.lastSeen && ` · first seen ${new Date(alert.firstSeen).toLocaleString()}`}
+                        </Text>
+                        <Text fontSize="xs" color="gray.500">
+                            {STATUS_LABELS[alert.status]} · {alert.assignee ?? 'Unassigned'}
+                        </Text>
+                    </VStack>
+                  </HStack>
+                  <Tag size="sm" colorScheme={severityProps.colorScheme}>
+                    {alert.severity}
+                  </Tag>
+                </HStack>
+                <Collapse in={isSelected} animateOpacity unmountOnExit>
+                  <AlertDetails alert={alert} onUpdated={handleAlertUpdated} />
+                </Collapse>
+              </ListItem>
+            );
+          })}
+        </List>
+      )}
+    </VStack>
   );
 };
 
 export default AlertsList;
-
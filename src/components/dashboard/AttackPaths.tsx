@@ -0,0 +1,207 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Spinner,
+  Tag,
+  TagLabel,
+  TagCloseButton,
+  Wrap,
+  WrapItem,
+  Tooltip,
+} from '@chakra-ui/react';
+import { MdRefresh } from 'react-icons/md';
+import type { AttackPath, AttackPathAnalysis, TaggedNode } from '@/lib/attackPaths';
+import { useAttackPaths } from '@/contexts/AttackPathContext';
+import { useGraphHighlight } from '@/contexts/GraphHighlightContext';
+import { useTimeline } from '@/contexts/TimelineContext';
+
+// Waits for the timeline to settle before analysing again
+const RECOMPUTE_DELAY_MS = 800;
+
+const scoreColorScheme = (score: number) => (score > 60 ? 'red' : score > 30 ? 'orange' : 'yellow');
+
+// Top attack paths from the tagged entry points to the tagged crown jewels within the
+// timeline window, recomputed when the tags or the window change. Paths can be overlaid
+// on the graph views, all at once or one at a time.
+const AttackPaths: React.FC = () => {
+  const { tags, setTag } = useAttackPaths();
+  const { highlightElements, clearHighlight } = useGraphHighlight();
+  const { startTime, endTime } = useTimeline();
+  const [analysis, setAnalysis] = useState<AttackPathAnalysis | null>(null);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [overlay, setOverlay] = useState<'all' | number | null>(null); // What's shown on the graph
+  const requestRef = useRef<number>(0); // Drops responses of superseded analyses
+
+  const analyze = useCallback(async () => {
+    const request = ++requestRef.current;
+    setLoading(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams();
+      if (startTime && endTime && startTime < endTime) {
+        params.set('startTime', String(startTime));
+        params.set('endTime', String(endTime));
+      }
+      const response = await fetch(`/api/attack-paths?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+      if (request === requestRef.current) setAnalysis(data);
+    } catch (e: any) {
+      if (request !== requestRef.current) return;
+      console.error("Failed to analyze attack paths:", e);
+      setError(e.message || "An unknown error occurred while analyzing attack paths.");
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [startTime, endTime]);
+
+  useEffect(() => {
+    if (tags.entryPoints.length === 0 || tags.crownJewels.length === 0) {
+      setAnalysis(null);
+      return;
+    }
+    const timer = setTimeout(analyze, RECOMPUTE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [analyze, tags]);
+
+  const showOverlay = useCallback((paths: AttackPath[], elements: AttackPathAnalysis['elements'], title: string) => {
+    highlightElements({
+      title,
+      nodeIds: Array.from(new Set(paths.flatMap(path => path.nodeIds))),
+      edgeIds: Array.from(new Set(paths.flatMap(path => path.edgeIds))),
+      elements,
+    });
+  }, [highlightElements]);
+
+  // Keep the overlay in step with a recomputed analysis
+  useEffect(() => {
+    if (overlay === null || !analysis) return;
+    if (analysis.paths.length === 0) {
+      clearHighlight();
+      return;
+    }
+    const index = overlay === 'all' || overlay >= analysis.paths.length ? null : overlay;
+    showOverlay(
+      index === null ? analysis.paths : [analysis.paths[index]],
+      analysis.elements,
+      index === null ? 'Attack paths' : `Attack path ${index + 1}`
+    );
+  }, [analysis, overlay]);
+
+  const toggleOverlay = (next: 'all' | number) => {
+    if (overlay === next) {
+      setOverlay(null);
+      clearHighlight();
+    } else {
+      setOverlay(next);
+    }
+  };
+
+  const renderTags = (nodes: TaggedNode[], role: 'entryPoint' | 'crownJewel', colorScheme: string) => (
+    <Wrap spacing={1}>
+      {nodes.length === 0 && <Text fontSize="xs" color="gray.400">None tagged</Text>}
+      {nodes.map(node => (
+        <WrapItem key={node.id}>
+          <Tag size="sm" colorScheme={colorScheme} borderRadius="full">
+            <TagLabel>{node.name}</TagLabel>
+            <TagCloseButton onClick={() => setTag(node.id, role, false)} />
+          </Tag>
+        </WrapItem>
+      ))}
+    </Wrap>
+  );
+
+  return (
+    <VStack spacing={3} align="stretch" fontSize="sm">
+      <Box>
+        <Text fontSize="xs" color="gray.500" mb={1}>Entry points</Text>
+        {renderTags(tags.entryPoints, 'entryPoint', 'orange')}
+      </Box>
+      <Box>
+        <Text fontSize="xs" color="gray.500" mb={1}>Crown jewels</Text>
+        {renderTags(tags.crownJewels, 'crownJewel', 'purple')}
+      </Box>
+
+      {(tags.entryPoints.length === 0 || tags.crownJewels.length === 0) && (
+        <Text fontSize="xs" color="gray.500">
+          Right-click nodes in the graph to tag at least one entry point and one crown jewel.
+        </Text>
+      )}
+
+      {tags.entryPoints.length > 0 && tags.crownJewels.length > 0 && (
+        <HStack>
+          <Button size="xs" leftIcon={<MdRefresh />} onClick={analyze} isLoading={loading}>
+            Recompute
+          </Button>
+          <Button
+            size="xs"
+            variant={overlay === 'all' ? 'solid' : 'outline'}
+            colorScheme="danger"
+            onClick={() => toggleOverlay('all')}
+            isDisabled={!analysis || analysis.paths.length === 0}
+          >
+            {overlay === 'all' ? 'Hide overlay' : 'Show on graph'}
+          </Button>
+        </HStack>
+      )}
+
+      {error && <Text fontSize="xs" color="red.500">{error}</Text>}
+      {loading && !analysis && <Spinner size="sm" />}
+      {analysis && analysis.truncatedPairs && (
+        <Text fontSize="xs" color="orange.600">Too many tagged pairs; only the first 100 were analysed.</Text>
+      )}
+      {analysis && analysis.limitedPairs > 0 && (
+        <Text fontSize="xs" color="orange.600">
+          {analysis.limitedPairs} pair{analysis.limitedPairs === 1 ? ' has' : 's have'} too many paths to enumerate; only the shortest was ranked.
+        </Text>
+      )}
+      {analysis && analysis.skippedPairs > 0 && (
+        <Text fontSize="xs" color="orange.600">
+          The analysis ran out of time; {analysis.skippedPairs} pair{analysis.skippedPairs === 1 ? ' was' : 's were'} not analysed.
+        </Text>
+      )}
+      {analysis && analysis.paths.length === 0 && !loading && (
+        <Text fontSize="xs" color="gray.500">No attack path found in the time window.</Text>
+      )}
+      {analysis && analysis.paths.length > 0 && (
+        <VStack spacing={1} align="stretch" maxHeight="260px" overflowY="auto">
+          {analysis.paths.map((path, index) => (
+            <Box
+              key={`${path.nodeIds.join('-')}:${path.edgeIds.join('-')}`}
+              p={2}
+              borderWidth="1px"
+              borderRadius="md"
+              cursor="pointer"
+              bg={overlay === index ? 'danger.50' : undefined}
+              borderColor={overlay === index ? 'danger.300' : 'gray.200'}
+              onClick={() => toggleOverlay(index)}
+            >
+              <HStack justify="space-between">
+                <Text fontSize="xs" fontWeight="semibold" noOfLines={1}>
+                  {path.entryPoint} → {path.crownJewel}
+                </Text>
+                <Tooltip label="Higher is easier for an attacker: vulnerable assets along the way raise it, extra hops lower it">
+                  <Tag size="sm" colorScheme={scoreColorScheme(path.score)}>{path.score}</Tag>
+                </Tooltip>
+              </HStack>
+              <Text fontSize="xs" color="gray.600" noOfLines={2}>
+                {path.hops.map(hop => (hop.maxCvss !== null ? `${hop.name} (CVSS ${hop.maxCvss.toFixed(1)})` : hop.name)).join(' → ')}
+              </Text>
+            </Box>
+          ))}
+        </VStack>
+      )}
+    </VStack>
+  );
+};
+
+export default AttackPaths;
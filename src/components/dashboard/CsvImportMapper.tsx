@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box, Input, FormControl, FormLabel, FormHelperText, VStack, Text, Select, SimpleGrid, Heading, useToast
+} from '@chakra-ui/react';
+import { CsvTable, parseCsv } from '@/lib/csv';
+import {
+  CsvSourceLines, EdgeColumnMapping, NodeColumnMapping, buildDatasetFromCsv, checkMapping, guessEdgeMapping, guessNodeMapping
+} from '@/lib/csvMapping';
+import { Dataset, DatasetIssue } from '@/lib/datasetSchema';
+
+export interface CsvMappingResult {
+  fileName: string;
+  dataset: Dataset;
+  issues: DatasetIssue[];  // Row problems found while mapping (e.g. non-numeric coordinates)
+  lines: CsvSourceLines;   // To point validation issues back at CSV lines
+}
+
+interface CsvImportMapperProps {
+  // Called with the mapped dataset whenever the files or mapping change, or null while incomplete
+  onChange: (result: CsvMappingResult | null) => void;
+}
+
+interface LoadedCsv {
+  name: string;
+  table: CsvTable;
+}
+
+const NODE_FIELDS: { key: Exclude<keyof NodeColumnMapping, 'typeConstant'>; label: string; required?: boolean }[] = [
+  { key: 'uid', label: 'uid', required: true },
+  { key: 'type', label: 'type' },
+  { key: 'showname', label: 'showname' },
+  { key: 'timestamp', label: 'timestamp' },
+  { key: 'latitude', label: 'latitude' },
+  { key: 'longitude', label: 'longitude' },
+];
+
+const EDGE_FIELDS: { key: Exclude<keyof EdgeColumnMapping, 'typeConstant'>; label: string; required?: boolean }[] = [
+  { key: 'from', label: 'from', required: true },
+  { key: 'to', label: 'to', required: true },
+  { key: 'type', label: 'type' },
+  { key: 'timestamp', label: 'timestamp' },
+];
+
+const readText = (file: File) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (e) => resolve(typeof e.target?.result === 'string' ? e.target.result : '');
+  reader.onerror = () => reject(new Error('Could not read the selected file.'));
+  reader.readAsText(file);
+});
+
+const ColumnSelect: React.FC<{
+  label: string;
+  required?: boolean;
+  headers: string[];
+  value: string;
+  onChange: (value: string) => void;
+}> = ({ label, required, headers, value, onChange }) => (
+  <FormControl isRequired={required}>
+    <FormLabel fontSize="xs" mb={0}>{label}</FormLabel>
+    <Select size="xs" value={value} onChange={(e) => onChange(e.target.value)}>
+      <option value="">{required ? 'Choose a column' : '(not mapped)'}</option>
+      {headers.map(header => (
+        <option key={header} value={header}>{header}</option>
+      ))}
+    </Select>
+  </FormControl>
+);
+
+const CsvImportMapper: React.FC<CsvImportMapperProps> = ({ onChange }) => {
+  const [assets, setAssets] = useState<LoadedCsv | null>(null);
+  const [connections, setConnections] = useState<LoadedCsv | null>(null);
+  const [nodeMapping, setNodeMapping] = useState<NodeColumnMapping | null>(null);
+  const [edgeMapping, setEdgeMapping] = useState<EdgeColumnMapping | null>(null);
+  const toast = useToast();
+
+  const loadCsv = async (event: React.ChangeEvent<HTMLInputElement>, kind: 'assets' | 'connections') => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+    try {
+      const table = parseCsv(await readText(file));
+      if (table.rows.length === 0) {
+        throw new Error('The file has no data rows.');
+      }
+      if (kind === 'assets') {
+        setAssets({ name: file.name, table });
+        setNodeMapping(guessNodeMapping(table.headers));
+      } else {
+        setConnections({ name: file.name, table });
+        setEdgeMapping(guessEdgeMapping(table.headers));
+      }
+    } catch (error: any) {
+      toast({
+        title: "Invalid CSV File",
+        description: `${file.name}: ${error.message}`,
+        status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+      event.target.value = ''; // Clear the input
+    }
+  };
+
+  const problems = nodeMapping ? checkMapping(nodeMapping, connections ? edgeMapping : null) : [];
+
+  // Re-map whenever a file or column choice changes
+  useEffect(() => {
+    if (!assets || !nodeMapping || checkMapping(nodeMapping, connections ? edgeMapping : null).length > 0) {
+      onChange(null);
+      return;
+    }
+    const { dataset, issues, lines } = buildDatasetFromCsv(
+      assets.table, nodeMapping, connections?.table ?? null, connections ? edgeMapping : null
+    );
+    onChange({ fileName: assets.name.replace(/\.csv$/i, '') + '-mapped.json', dataset, issues, lines });
+  }, [assets, connections, nodeMapping, edgeMapping, onChange]);
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <SimpleGrid columns={2} spacing={3}>
+        <FormControl isRequired>
+          <FormLabel htmlFor="assets-csv" fontSize="sm">Assets CSV</FormLabel>
+          <Input id="assets-csv" type="file" accept=".csv,text/csv" size="sm" p={1} onChange={(e) => loadCsv(e, 'assets')} />
+          {assets && <FormHelperText fontSize="xs">{assets.table.rows.length} rows</FormHelperText>}
+        </FormControl>
+        <FormControl>
+          <FormLabel htmlFor="connections-csv" fontSize="sm">Connections CSV</FormLabel>
+          <Input id="connections-csv" type="file" accept=".csv,text/csv" size="sm" p={1} onChange={(e) => loadCsv(e, 'connections')} />
+          {connections && <FormHelperText fontSize="xs">{connections.table.rows.length} rows</FormHelperText>}
+        </FormControl>
+      </SimpleGrid>
+
+      {assets && nodeMapping && (
+        <Box borderWidth="1px" borderRadius="md" p={2}>
+          <Heading size="xs" mb={2}>Asset columns</Heading>
+          <SimpleGrid columns={3} spacing={2}>
+            {NODE_FIELDS.map(field => (
+              <ColumnSelect
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                headers={assets.table.headers}
+                value={nodeMapping[field.key]}
+                onChange={(value) => setNodeMapping({ ...nodeMapping, [field.key]: value })}
+              />
+            ))}
+          </SimpleGrid>
+          {!nodeMapping.type && (
+            <FormControl mt={2}>
+              <FormLabel fontSize="xs" mb={0}>Node type for every row</FormLabel>
+              <Input
+                size="xs"
+                value={nodeMapping.typeConstant}
+                onChange={(e) => setNodeMapping({ ...nodeMapping, typeConstant: e.target.value })}
+              />
+            </FormControl>
+          )}
+        </Box>
+      )}
+
+      {connections && edgeMapping && (
+        <Box borderWidth="1px" borderRadius="md" p={2}>
+          <Heading size="xs" mb={2}>Connection columns</Heading>
+          <SimpleGrid columns={3} spacing={2}>
+            {EDGE_FIELDS.map(field => (
+              <ColumnSelect
+                key={field.key}
+                label={field.label}
+                required={field.required}
+                headers={connections.table.headers}
+                value={edgeMapping[field.key]}
+                onChange={(value) => setEdgeMapping({ ...edgeMapping, [field.key]: value })}
+              />
+            ))}
+          </SimpleGrid>
+          {!edgeMapping.type && (
+            <FormControl mt={2}>
+              <FormLabel fontSize="xs" mb={0}>Edge type for every row</FormLabel>
+              <Input
+                size="xs"
+                value={edgeMapping.typeConstant}
+                onChange={(e) => setEdgeMapping({ ...edgeMapping, typeConstant: e.target.value })}
+              />
+            </FormControl>
+          )}
+        </Box>
+      )}
+
+      {problems.map(problem => (
+        <Text key={problem} fontSize="xs" color="orange.500">{problem}</Text>
+      ))}
+      {assets && problems.length === 0 && (
+        <Text fontSize="xs" color="gray.500">
+          Unmapped columns are imported as properties. Problems name the CSV line of the row they were found in.
+        </Text>
+      )}
+    </VStack>
+  );
+};
+
+export default CsvImportMapper;
@@ -1,138 +1,579 @@
 "use client";
 
-import React, { useState, useCallback } from 'react';
-import { Box, Button, Input, FormControl, FormLabel, useToast, VStack, Text, Link, HStack } from '@chakra-ui/react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import {
+  Box, Button, Input, FormControl, FormLabel, FormHelperText, useToast, VStack, Text, Link, HStack,
+  RadioGroup, Radio, Stack, useDisclosure, Alert, AlertIcon, AlertTitle, AlertDescription,
+  List, ListItem, Code, Spinner, Select, Progress,
+  AlertDialog, AlertDialogOverlay, AlertDialogContent, AlertDialogHeader, AlertDialogBody, AlertDialogFooter
+} from '@chakra-ui/react';
 import { FiDownload, FiHelpCircle } from 'react-icons/fi';
+import { DatasetIssue, ImportMode, TimestampPolicy } from '@/lib/datasetSchema';
+import type { ImportJob } from '@/lib/importJobs';
+import {
+  NdjsonImportError, createImportJob, fetchImportJob, forgetJob, getResumableJobId, isNdjsonFile, rememberJob, runNdjsonImport
+} from '@/lib/ndjsonUpload';
+import CsvImportMapper, { CsvMappingResult } from './CsvImportMapper';
+import { CsvSourceLines, withCsvLines } from '@/lib/csvMapping';
+
+interface ImportCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number;
+}
+
+type SourceFormat = 'json' | 'csv';
+
+interface ValidationState {
+  valid: boolean;
+  issues: DatasetIssue[];
+  summary: { nodesCount: number; edgesCount: number } | null;
+  warnings?: string[];  // STIX objects or references that will be left out
+}
+
+// Long issue lists are truncated in the UI; the full list is logged to the console
+const MAX_VISIBLE_ISSUES = 50;
+
+const MODE_DESCRIPTIONS: Record<ImportMode, string> = {
+  'merge': 'Add new records and update existing ones (matched by uid, and by from/to/type/key for edges).',
+  'append-only': 'Only add records that do not exist yet. Existing records are left untouched.',
+  'replace': 'Delete ALL existing data in the database before importing this file.',
+};
+
+const TIMESTAMP_POLICY_DESCRIPTIONS: Record<TimestampPolicy, string> = {
+  'always-present': 'Records without a timestamp are visible in every time window.',
+  'import-time': 'New records without a timestamp are stamped with the time of this upload.',
+  'property': 'Records without a timestamp take it from the property below, or stay always present if it is missing.',
+};
+
+// STIX 2.1 bundles are JSON files too; they are converted by the STIX import route
+const isStixBundle = (content: unknown) =>
+  typeof content === 'object' && content !== null && (content as { type?: unknown }).type === 'bundle';
+
+// Summarise the per-record outcome returned by the upload API
+const formatCounts = (label: string, counts?: ImportCounts) => {
+  if (!counts) return '';
+  const parts = [`${counts.created} created`, `${counts.updated} updated`, `${counts.unchanged} unchanged`];
+  if (counts.skipped > 0) parts.push(`${counts.skipped} skipped`);
+  return `${label}: ${parts.join(', ')}.`;
+};
 
 const DatasetUploader: React.FC = () => {
+  const [sourceFormat, setSourceFormat] = useState<SourceFormat>('json');
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [fileContent, setFileContent] = useState<unknown>(null);
+  const [csvLines, setCsvLines] = useState<CsvSourceLines | null>(null); // Where mapped CSV records came from
+  const [validation, setValidation] = useState<ValidationState | null>(null);
+  const [isValidating, setIsValidating] = useState(false);
   const [isLoading, setIsLoading] = useState(false);
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [timestampPolicy, setTimestampPolicy] = useState<TimestampPolicy>('always-present');
+  const [timestampProperty, setTimestampProperty] = useState('first_seen');
+  const [importJob, setImportJob] = useState<ImportJob | null>(null); // Streaming import in progress or resumable
+  const { isOpen: isConfirmOpen, onOpen: onConfirmOpen, onClose: onConfirmClose } = useDisclosure();
+  const cancelRef = useRef<HTMLButtonElement>(null);
   const toast = useToast();
 
+  const resetSelection = () => {
+    setSelectedFile(null);
+    setFileContent(null);
+    setCsvLines(null);
+    setValidation(null);
+    setImportJob(null);
+  };
+
+  const handleSourceFormatChange = (value: string) => {
+    setSourceFormat(value as SourceFormat);
+    resetSelection();
+  };
+
+  // Mapped CSV rows become an in-memory JSON dataset, so validation and upload
+  // go through exactly the same routes as a JSON file
+  const handleCsvMapped = useCallback((result: CsvMappingResult | null) => {
+    if (!result) {
+      setSelectedFile(null);
+      setFileContent(null);
+      setCsvLines(null);
+      setValidation(null);
+      return;
+    }
+    setCsvLines(result.lines);
+    setSelectedFile(new File([JSON.stringify(result.dataset)], result.fileName, { type: 'application/json' }));
+    if (result.issues.length > 0) {
+      setFileContent(null);
+      setValidation({ valid: false, issues: result.issues, summary: null });
+    } else {
+      setFileContent(result.dataset);
+    }
+  }, []);
+
+  const isStreaming = !!selectedFile && isNdjsonFile(selectedFile);
+  const canResume = isStreaming && !!importJob && importJob.status !== 'completed' && !isLoading;
+
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files[0]) {
       const file = event.target.files[0];
-      if (file.type === 'application/json') {
+
+      // NDJSON files are streamed to the server in chunks instead of being read whole
+      if (isNdjsonFile(file)) {
         setSelectedFile(file);
-      } else {
+        setFileContent(null);
+        setValidation(null);
+        setImportJob(null);
+
+        // Offer to resume if an earlier import of this exact file didn't finish
+        const jobId = getResumableJobId(file);
+        if (jobId) {
+          fetchImportJob(jobId)
+            .then(job => {
+              if (job && job.status !== 'completed') {
+                setImportJob(job);
+              } else {
+                forgetJob(file);
+              }
+            })
+            .catch(error => console.warn('Could not look up previous import job:', error));
+        }
+        return;
+      }
+
+      if (file.type !== 'application/json' && !file.name.toLowerCase().endsWith('.json')) {
         toast({
           title: "Invalid File Type",
-          description: "Please select a JSON file (.json).",
+          description: "Please select a JSON (.json) or NDJSON (.ndjson, .jsonl) file.",
           status: "error",
           duration: 5000,
           isClosable: true,
         });
-        setSelectedFile(null);
+        resetSelection();
         event.target.value = ''; // Clear the input
+        return;
       }
+
+      setSelectedFile(file);
+      setFileContent(null);
+      setValidation(null);
+
+      const reader = new FileReader();
+      reader.onload = (e) => {
+        const content = e.target?.result;
+        try {
+          if (typeof content !== 'string') {
+            throw new Error('Failed to read file content.');
+          }
+          setFileContent(JSON.parse(content));
+        } catch (error: any) {
+          setValidation({
+            valid: false,
+            issues: [{ path: '', message: `File is not valid JSON: ${error.message}` }],
+            summary: null,
+          });
+        }
+      };
+      reader.onerror = () => {
+        toast({
+          title: "File Read Error",
+          description: "Could not read the selected file.",
+          status: "error",
+          duration: 5000,
+          isClosable: true,
+        });
+        resetSelection();
+      };
+      reader.readAsText(file);
     }
   };
 
-  const handleUpload = useCallback(async () => {
-    if (!selectedFile) {
-      toast({
-        title: "No File Selected",
-        description: "Please select a JSON file to upload.",
-        status: "warning",
-        duration: 3000,
-        isClosable: true,
-      });
-      return;
+  // Query string shared by the validate and upload endpoints
+  const importQuery = useMemo(() => {
+    const params = new URLSearchParams({ mode, timestampPolicy });
+    if (timestampPolicy === 'property') {
+      params.set('timestampProperty', timestampProperty.trim());
     }
+    return params.toString();
+  }, [mode, timestampPolicy, timestampProperty]);
 
-    setIsLoading(true);
-    const reader = new FileReader();
+  // Dry-run validation whenever the file or options change - edges may reference
+  // existing nodes in merge/append-only mode, so the result depends on the mode
+  useEffect(() => {
+    if (fileContent === null) return;
+    if (timestampPolicy === 'property' && !timestampProperty.trim()) {
+      setValidation(null);
+      setIsValidating(false);
+      return;
+    }
 
-    reader.onload = async (e) => {
+    let cancelled = false;
+    const validate = async () => {
+      setIsValidating(true);
       try {
-        const content = e.target?.result;
-        if (typeof content !== 'string') {
-          throw new Error('Failed to read file content.');
-        }
-        const jsonData = JSON.parse(content);
-
-        // Send data to the backend API
-        const response = await fetch('/api/upload-dataset', {
+        const validateUrl = isStixBundle(fileContent)
+          ? `/api/stix/import?dryRun=true&${importQuery}`
+          : `/api/upload-dataset/validate?${importQuery}`;
+        const response = await fetch(validateUrl, {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify(jsonData),
+          body: JSON.stringify(fileContent),
         });
-
         const result = await response.json();
 
         if (!response.ok) {
-          throw new Error(result.error || 'Failed to upload dataset');
+          throw new Error(result.details || result.error || 'Failed to validate dataset');
+        }
+        if (!cancelled) {
+          if (!result.valid) {
+            console.warn('Dataset validation issues:', result.issues);
+          }
+          const issues: DatasetIssue[] = result.issues || [];
+          setValidation({
+            valid: result.valid,
+            issues: csvLines ? withCsvLines(issues, csvLines) : issues,
+            summary: result.summary,
+            warnings: result.warnings,
+          });
         }
-
-        toast({
-          title: "Upload Successful",
-          description: "Dataset has been uploaded and processed with timestamps in the default time range.",
-          status: "success",
-          duration: 5000,
-          isClosable: true,
-        });
-        setSelectedFile(null); // Clear selection after successful upload
-
-        // Refresh the page to update the graph visualization with the new data
-        // This ensures the TimeSlider and GraphVisualization components are reinitialized
-        setTimeout(() => {
-          window.location.reload();
-        }, 1500);
-
       } catch (error: any) {
-        console.error("Upload error:", error);
-        toast({
-          title: "Upload Failed",
-          description: error.message || "An unexpected error occurred.",
-          status: "error",
-          duration: 9000,
-          isClosable: true,
-        });
+        console.error("Validation error:", error);
+        if (!cancelled) {
+          setValidation(null);
+          toast({
+            title: "Validation Failed",
+            description: error.message || "An unexpected error occurred.",
+            status: "error",
+            duration: 9000,
+            isClosable: true,
+          });
+        }
       } finally {
-        setIsLoading(false);
+        if (!cancelled) setIsValidating(false);
       }
     };
 
-    reader.onerror = () => {
+    validate();
+    return () => {
+      cancelled = true;
+    };
+  }, [fileContent, csvLines, importQuery, timestampPolicy, timestampProperty, toast]);
+
+  // Streaming NDJSON import: starts a new job, or continues `resumeJob` where it stopped
+  const handleStreamingUpload = useCallback(async (resumeJob?: ImportJob) => {
+    if (!selectedFile) return;
+
+    setIsLoading(true);
+    setValidation(null);
+    try {
+      const job = resumeJob ?? await createImportJob(selectedFile, importQuery);
+      rememberJob(selectedFile, job.id);
+      setImportJob(job);
+
+      const finished = await runNdjsonImport(selectedFile, job, setImportJob);
+      forgetJob(selectedFile);
+      setImportJob(finished);
+
       toast({
-        title: "File Read Error",
-        description: "Could not read the selected file.",
+        title: "Import Complete",
+        description: [formatCounts('Nodes', finished.nodes), formatCounts('Edges', finished.edges)].join(' '),
+        status: "success",
+        duration: 5000,
+        isClosable: true,
+      });
+
+      // Refresh the page to update the graph visualization with the new data
+      setTimeout(() => {
+        window.location.reload();
+      }, 1500);
+
+    } catch (error: any) {
+      console.error("Streaming import error:", error);
+      if (error instanceof NdjsonImportError) {
+        if (error.job) setImportJob(error.job);
+        if (error.issues.length > 0) {
+          setValidation({ valid: false, issues: error.issues, summary: null });
+        }
+      }
+      toast({
+        title: "Import Stopped",
+        description: `${error.message || "An unexpected error occurred."} Everything before the failing chunk was saved - fix the problem and resume.`,
         status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [selectedFile, importQuery, toast]);
+
+  const handleUpload = useCallback(async () => {
+    if (selectedFile && isNdjsonFile(selectedFile)) {
+      return handleStreamingUpload();
+    }
+
+    if (!selectedFile || fileContent === null) {
+      toast({
+        title: "No File Selected",
+        description: "Please select a JSON file to upload.",
+        status: "warning",
+        duration: 3000,
+        isClosable: true,
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      // Send data to the backend API
+      const uploadUrl = isStixBundle(fileContent) ? `/api/stix/import?${importQuery}` : `/api/upload-dataset?${importQuery}`;
+      const response = await fetch(uploadUrl, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(fileContent),
+      });
+
+      const result = await response.json();
+
+      if (!response.ok) {
+        // The server re-validates; show its issues if the graph changed since the dry run
+        if (Array.isArray(result.issues)) {
+          setValidation({ valid: false, issues: csvLines ? withCsvLines(result.issues, csvLines) : result.issues, summary: null });
+        }
+        throw new Error(result.error || 'Failed to upload dataset');
+      }
+
+      toast({
+        title: "Upload Successful",
+        description: [
+          formatCounts('Nodes', result.details?.nodes),
+          formatCounts('Edges', result.details?.edges),
+        ].filter(Boolean).join(' ') || result.message,
+        status: "success",
         duration: 5000,
         isClosable: true,
       });
+      resetSelection(); // Clear selection after successful upload
+
+      // Refresh the page to update the graph visualization with the new data
+      // This ensures the TimeSlider and GraphVisualization components are reinitialized
+      setTimeout(() => {
+        window.location.reload();
+      }, 1500);
+
+    } catch (error: any) {
+      console.error("Upload error:", error);
+      toast({
+        title: "Upload Failed",
+        description: error.message || "An unexpected error occurred.",
+        status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+    } finally {
       setIsLoading(false);
-    };
+    }
+  }, [selectedFile, fileContent, csvLines, importQuery, handleStreamingUpload, toast]);
 
-    reader.readAsText(selectedFile);
-  }, [selectedFile, toast]);
+  // Replacing wipes the whole database, so ask for confirmation first
+  const handleUploadClick = () => {
+    if (mode === 'replace') {
+      onConfirmOpen();
+    } else {
+      handleUpload();
+    }
+  };
+
+  const handleConfirmReplace = () => {
+    onConfirmClose();
+    handleUpload();
+  };
+
+  const canUpload = isStreaming
+    ? !isLoading
+    : !!selectedFile && !!validation?.valid && !isValidating && !isLoading;
+  const progressPercent = importJob && importJob.totalBytes > 0
+    ? Math.min(100, (importJob.bytesProcessed / importJob.totalBytes) * 100)
+    : 0;
 
   return (
     <Box p={4} borderWidth="1px" borderRadius="lg">
       <VStack spacing={4} align="stretch">
         <FormControl>
-          <FormLabel htmlFor="json-upload">Upload Dataset (JSON)</FormLabel>
-          <Input
-            id="json-upload"
-            type="file"
-            accept=".json"
-            onChange={handleFileChange}
-            p={1} // Adjust padding for better appearance
-          />
+          <FormLabel>Source Format</FormLabel>
+          <RadioGroup value={sourceFormat} onChange={handleSourceFormatChange}>
+            <Stack direction="row" spacing={4}>
+              <Radio value="json">JSON / NDJSON file</Radio>
+              <Radio value="csv">CSV spreadsheet export</Radio>
+            </Stack>
+          </RadioGroup>
         </FormControl>
+        {sourceFormat === 'json' ? (
+          <FormControl>
+            <FormLabel htmlFor="json-upload">Upload Dataset (JSON, NDJSON or STIX 2.1 bundle)</FormLabel>
+            <Input
+              id="json-upload"
+              type="file"
+              accept=".json,.ndjson,.jsonl"
+              onChange={handleFileChange}
+              p={1} // Adjust padding for better appearance
+            />
+          </FormControl>
+        ) : (
+          <CsvImportMapper onChange={handleCsvMapped} />
+        )}
         {selectedFile && (
           <Text fontSize="sm">Selected file: {selectedFile.name}</Text>
         )}
-        <Button
-          colorScheme="blue"
-          onClick={handleUpload}
-          isLoading={isLoading}
-          isDisabled={!selectedFile || isLoading}
-        >
-          Upload to Neo4j
-        </Button>
+        <FormControl>
+          <FormLabel>Import Mode</FormLabel>
+          <RadioGroup value={mode} onChange={(value) => setMode(value as ImportMode)}>
+            <Stack direction="row" spacing={4}>
+              <Radio value="merge">Merge</Radio>
+              <Radio value="append-only">Append only</Radio>
+              <Radio value="replace" colorScheme="red">Replace all</Radio>
+            </Stack>
+          </RadioGroup>
+          <FormHelperText color={mode === 'replace' ? 'red.500' : undefined}>
+            {MODE_DESCRIPTIONS[mode]}
+          </FormHelperText>
+        </FormControl>
+
+        <FormControl>
+          <FormLabel htmlFor="timestamp-policy">Untimed Records</FormLabel>
+          <Select
+            id="timestamp-policy"
+            size="sm"
+            value={timestampPolicy}
+            onChange={(e) => setTimestampPolicy(e.target.value as TimestampPolicy)}
+          >
+            <option value="always-present">Always present</option>
+            <option value="import-time">Stamp with import time</option>
+            <option value="property">Use a property</option>
+          </Select>
+          {timestampPolicy === 'property' && (
+            <Input
+              mt={2}
+              size="sm"
+              placeholder="e.g. first_seen or since"
+              value={timestampProperty}
+              onChange={(e) => setTimestampProperty(e.target.value)}
+            />
+          )}
+          <FormHelperText>{TIMESTAMP_POLICY_DESCRIPTIONS[timestampPolicy]}</FormHelperText>
+        </FormControl>
+
+        {isStreaming && !importJob && (
+          <Alert status="info" borderRadius="md">
+            <AlertIcon />
+            <AlertDescription fontSize="sm">
+              NDJSON files are streamed in chunks and validated as they are imported.
+              Put nodes before the edges that reference them.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {isStreaming && importJob && (
+          <Box>
+            <Progress
+              value={progressPercent}
+              size="sm"
+              borderRadius="md"
+              colorScheme={importJob.status === 'failed' ? 'red' : 'blue'}
+              isAnimated={isLoading}
+              hasStripe={isLoading}
+            />
+            <Text fontSize="xs" mt={1}>
+              {importJob.status === 'failed' && !isLoading ? 'Stopped' : importJob.status === 'completed' ? 'Completed' : 'Importing'} -
+              {' '}{importJob.linesProcessed.toLocaleString()} lines ({progressPercent.toFixed(0)}%).
+              {' '}{formatCounts('Nodes', importJob.nodes)} {formatCounts('Edges', importJob.edges)}
+            </Text>
+            {importJob.error && !isLoading && (
+              <Text fontSize="xs" color="red.500">{importJob.error}</Text>
+            )}
+            <Text fontSize="xs" color="gray.500">Job ID: <Code fontSize="xs">{importJob.id}</Code></Text>
+          </Box>
+        )}
+
+        {isValidating && (
+          <HStack spacing={2}>
+            <Spinner size="sm" />
+            <Text fontSize="sm">Validating dataset...</Text>
+          </HStack>
+        )}
+
+        {!isValidating && validation?.valid && validation.summary && (
+          <Alert status="success" borderRadius="md">
+            <AlertIcon />
+            <AlertDescription fontSize="sm">
+              {isStixBundle(fileContent) ? 'STIX bundle' : 'Dataset'} is valid: {validation.summary.nodesCount} nodes, {validation.summary.edgesCount} edges.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!isValidating && validation?.warnings && validation.warnings.length > 0 && (
+          <Alert status="warning" borderRadius="md" flexDirection="column" alignItems="flex-start">
+            <HStack>
+              <AlertIcon />
+              <AlertTitle fontSize="sm">
+                {validation.warnings.length} STIX object{validation.warnings.length === 1 ? '' : 's'} or reference{validation.warnings.length === 1 ? '' : 's'} will be skipped
+              </AlertTitle>
+            </HStack>
+            <List spacing={1} mt={2} maxH="150px" overflowY="auto" w="100%" fontSize="xs">
+              {validation.warnings.slice(0, MAX_VISIBLE_ISSUES).map((warning, index) => (
+                <ListItem key={index}>{warning}</ListItem>
+              ))}
+              {validation.warnings.length > MAX_VISIBLE_ISSUES && (
+                <ListItem fontStyle="italic">...and {validation.warnings.length - MAX_VISIBLE_ISSUES} more</ListItem>
+              )}
+            </List>
+          </Alert>
+        )}
+
+        {!isValidating && validation && !validation.valid && (
+          <Alert status="error" borderRadius="md" flexDirection="column" alignItems="flex-start">
+            <HStack>
+              <AlertIcon />
+              <AlertTitle fontSize="sm">
+                {validation.issues.length} problem{validation.issues.length === 1 ? '' : 's'} found - nothing was uploaded
+              </AlertTitle>
+            </HStack>
+            <List spacing={1} mt={2} maxH="200px" overflowY="auto" w="100%" fontSize="xs">
+              {validation.issues.slice(0, MAX_VISIBLE_ISSUES).map((issue, index) => (
+                <ListItem key={index}>
+                  {issue.path && <Code fontSize="xs" mr={1}>{issue.path}</Code>}
+                  {issue.message}
+                </ListItem>
+              ))}
+              {validation.issues.length > MAX_VISIBLE_ISSUES && (
+                <ListItem fontStyle="italic">
+                  ...and {validation.issues.length - MAX_VISIBLE_ISSUES} more (see browser console)
+                </ListItem>
+              )}
+            </List>
+          </Alert>
+        )}
+
+        {canResume ? (
+          <HStack>
+            <Button flex={1} colorScheme="blue" onClick={() => handleStreamingUpload(importJob!)}>
+              Resume from line {importJob!.linesProcessed.toLocaleString()}
+            </Button>
+            <Button flex={1} variant="outline" onClick={() => setImportJob(null)}>
+              Start over
+            </Button>
+          </HStack>
+        ) : (
+          <Button
+            colorScheme={mode === 'replace' ? 'red' : 'blue'}
+            onClick={handleUploadClick}
+            isLoading={isLoading}
+            isDisabled={!canUpload}
+          >
+            Upload to Neo4j
+          </Button>
+        )}
 
         <HStack spacing={4} mt={2} justify="center">
           <Link href="/dataset-upload-guide.md" target="_blank" display="inline-flex" alignItems="center">
@@ -143,8 +584,34 @@ const DatasetUploader: React.FC = () => {
             <FiDownload style={{ marginRight: '5px' }} />
             Sample Dataset
           </Link>
+          <Link href="/api/stix/export" download display="inline-flex" alignItems="center">
+            <FiDownload style={{ marginRight: '5px' }} />
+            Export STIX
+          </Link>
         </HStack>
       </VStack>
+
+      <AlertDialog isOpen={isConfirmOpen} leastDestructiveRef={cancelRef} onClose={onConfirmClose}>
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Replace all data?
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              This will permanently delete every node and relationship currently in the database
+              before importing {selectedFile?.name || 'the selected file'}. This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={onConfirmClose}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmReplace} ml={3}>
+                Replace
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
     </Box>
   );
 };
@@ -0,0 +1,183 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import { Button, HStack, Kbd, Text, useToast } from '@chakra-ui/react';
+import { FaSearch } from 'react-icons/fa';
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from '@/components/ui/command';
+import { DialogTitle } from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { isAliveInTimeWindow } from '@/lib/timeUtils';
+import type { SearchFacet, SearchResponse, SearchResult } from '@/lib/entitySearch';
+import { useGraphData } from '@/contexts/GraphDataContext';
+import { useTimeline } from '@/contexts/TimelineContext';
+import { useNodeExpansion } from '@/hooks/use-node-expansion';
+
+// Wait this long after the last keystroke before searching
+const SEARCH_DELAY_MS = 250;
+
+// Search box and ⌘K / Ctrl+K palette over /api/search. Picking a result loads the node
+// (with its neighbours) when it isn't in the graph yet, then selects it and has the
+// active view center and zoom on it.
+const EntitySearch: React.FC = () => {
+  const [isOpen, setIsOpen] = useState<boolean>(false);
+  const [text, setText] = useState<string>('');
+  const [types, setTypes] = useState<string[]>([]); // Facets picked; all types when empty
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [facets, setFacets] = useState<SearchFacet[]>([]);
+  const [searching, setSearching] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestRef = useRef<number>(0); // Bumped so only the latest search is shown
+  const { startTime, endTime } = useTimeline();
+  const { elements, addElements, focusNode } = useGraphData();
+  const { expand } = useNodeExpansion(startTime, endTime);
+  const toast = useToast();
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key.toLowerCase() === 'k' && (event.metaKey || event.ctrlKey)) {
+        event.preventDefault();
+        setIsOpen(open => !open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
+  useEffect(() => {
+    const query = text.trim();
+    const request = ++requestRef.current;
+    if (!query) {
+      setResults([]);
+      setFacets([]);
+      setSearching(false);
+      setError(null);
+      return;
+    }
+
+    setSearching(true);
+    const timeoutId = setTimeout(async () => {
+      try {
+        const params = new URLSearchParams({ q: query });
+        types.forEach(type => params.append('type', type));
+        const response = await fetch(`/api/search?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+        }
+        if (request !== requestRef.current) return;
+        const { results, facets } = data as SearchResponse;
+        setResults(results);
+        setFacets(facets);
+        setError(null);
+      } catch (e: any) {
+        console.error("Failed to search entities:", e);
+        if (request !== requestRef.current) return;
+        setResults([]);
+        setError(e.message || "An unknown error occurred while searching.");
+      } finally {
+        if (request === requestRef.current) setSearching(false);
+      }
+    }, SEARCH_DELAY_MS);
+    return () => clearTimeout(timeoutId);
+  }, [text, types]);
+
+  const toggleType = (type: string) => {
+    setTypes(previous => (previous.includes(type) ? previous.filter(t => t !== type) : [...previous, type]));
+  };
+
+  const handleSelect = async (result: SearchResult) => {
+    setIsOpen(false);
+    let node = elements.find(element => element.group === 'nodes' && element.data.id === result.id);
+    if (!node) {
+      const expanded = await expand(result.id, { hops: 1 });
+      if (!expanded) return;
+      addElements(expanded);
+      node = expanded.find(element => element.group === 'nodes' && element.data.id === result.id);
+    }
+    focusNode(result.id);
+
+    // Loaded, but the timeline window leaves it out of the views
+    if (node && !isAliveInTimeWindow(node.data, startTime, endTime)) {
+      toast({
+        title: `${result.label} is outside the time window`,
+        description: "Widen the timeline to see it in the graph.",
+        status: "info",
+        duration: 4000,
+        isClosable: true,
+      });
+    }
+  };
+
+  return (
+    <>
+      <Button
+        variant="outline"
+        size="sm"
+        borderRadius="full"
+        leftIcon={<FaSearch />}
+        onClick={() => setIsOpen(true)}
+        fontWeight="normal"
+        color="gray.500"
+      >
+        <HStack spacing={3}>
+          <Text>Search entities</Text>
+          <Kbd fontSize="xs">⌘K</Kbd>
+        </HStack>
+      </Button>
+
+      <CommandDialog open={isOpen} onOpenChange={setIsOpen} commandProps={{ shouldFilter: false }}>
+        <DialogTitle className="sr-only">Search entities</DialogTitle>
+        <CommandInput placeholder="Search by name, uid, type or any property…" value={text} onValueChange={setText} />
+        {facets.length > 0 && (
+          <div className="flex flex-wrap gap-1 border-b px-3 py-2">
+            {facets.map(facet => (
+              <button
+                key={facet.type}
+                type="button"
+                onClick={() => toggleType(facet.type)}
+                className={cn(
+                  "rounded-full border px-2 py-0.5 text-xs transition-colors",
+                  types.includes(facet.type) ? "border-primary bg-primary text-primary-foreground" : "hover:bg-accent"
+                )}
+              >
+                {facet.type} <span className="opacity-70">{facet.count}</span>
+              </button>
+            ))}
+          </div>
+        )}
+        <CommandList>
+          {text.trim() && !searching && (
+            <CommandEmpty>{error ?? 'No matching entities.'}</CommandEmpty>
+          )}
+          {searching && results.length === 0 && (
+            <div className="py-6 text-center text-sm text-muted-foreground">Searching…</div>
+          )}
+          {results.length > 0 && (
+            <CommandGroup heading="Entities">
+              {results.map(result => (
+                <CommandItem key={result.id} value={result.id} onSelect={() => handleSelect(result)}>
+                  <div className="flex min-w-0 flex-1 flex-col">
+                    <span className="truncate font-medium">{result.label}</span>
+                    <span className="truncate text-xs text-muted-foreground">
+                      {[result.uid, result.match && `${result.match.key}: ${result.match.value}`].filter(Boolean).join(' · ')}
+                    </span>
+                  </div>
+                  <span className="ml-auto shrink-0 rounded border px-1.5 py-0.5 text-xs text-muted-foreground">{result.type}</span>
+                </CommandItem>
+              ))}
+            </CommandGroup>
+          )}
+        </CommandList>
+      </CommandDialog>
+    </>
+  );
+};
+
+export default EntitySearch;
@@ -1,33 +1,116 @@
 "use client";
 
 import React, { useState, useEffect } from 'react';
-import { SimpleGrid, Stat, StatLabel, StatNumber, StatHelpText, Spinner, Text, Box, useToast } from '@chakra-ui/react';
+import {
+  SimpleGrid,
+  Stat,
+  StatLabel,
+  StatNumber,
+  StatHelpText,
+  StatArrow,
+  Spinner,
+  Text,
+  Box,
+  VStack,
+  Button,
+  Alert,
+  AlertIcon,
+  AlertDescription,
+  Tooltip,
+  HStack,
+  IconButton,
+  useToast,
+  useDisclosure,
+} from '@chakra-ui/react';
+import { FaEdit, FaPlus } from 'react-icons/fa';
+import type { KpiName, KpiReport } from '@/lib/kpis';
+import type { KpiTile, KpiTileFormat, KpiTileLevel, KpiTileValue } from '@/lib/kpiTiles';
+import KpiTileForm from '@/components/dashboard/KpiTileForm';
+import { useTimeline } from '@/contexts/TimelineContext';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+import { useLiveEvents } from '@/contexts/LiveUpdatesContext';
 
-interface KpiData {
-  activeThreats?: number;
-  highRiskAssets?: number;
-  alertsLast24h?: number;
-  resolvedIncidents?: number;
+// Wait for the time slider to settle before refetching
+const WINDOW_DEBOUNCE_MS = 500;
+
+type KpiColorScheme = 'danger' | 'warning' | 'brand' | 'cyber';
+
+interface KpiCard {
+  kpi: KpiName;
+  label: string;
+  description: string;
+  colorScheme: KpiColorScheme;
+  increaseIsGood: boolean;
 }
 
+// Custom tiles are colored by their thresholds
+const LEVEL_COLOR_SCHEMES: Record<KpiTileLevel, KpiColorScheme> = {
+  ok: 'cyber',
+  warning: 'warning',
+  critical: 'danger',
+};
+
+type CustomTile = KpiTile & KpiTileValue;
+
+const formatTileValue = (value: number, format: KpiTileFormat) => {
+  switch (format) {
+    case 'percent':
+      return `${(value * 100).toLocaleString(undefined, { maximumFractionDigits: 1 })}%`;
+    case 'decimal':
+      return value.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+    case 'number':
+    default:
+      return value.toLocaleString(undefined, { maximumFractionDigits: 0 });
+  }
+};
+
+const KPI_CARDS: KpiCard[] = [
+  { kpi: 'activeThreats', label: 'Active Threats', description: 'Threat actors, intrusion sets, campaigns and malware alive or active in the window (untimed ones count in every window)', colorScheme: 'danger', increaseIsGood: false },
+  { kpi: 'highRiskAssets', label: 'High-Risk Assets', description: 'Assets with a High risk level, alive or active in the window (untimed ones count in every window)', colorScheme: 'warning', increaseIsGood: false },
+  { kpi: 'alertsLast24h', label: 'Alerts', description: 'Alerts first raised in the window', colorScheme: 'brand', increaseIsGood: false },
+  { kpi: 'resolvedIncidents', label: 'Resolved', description: 'Alerts resolved in the window', colorScheme: 'cyber', increaseIsGood: true },
+];
+
 const KpiSummary: React.FC = () => {
-  const [kpis, setKpis] = useState<KpiData | null>(null);
+  const [report, setReport] = useState<KpiReport | null>(null);
+  const [tiles, setTiles] = useState<CustomTile[]>([]);
+  const [editingTile, setEditingTile] = useState<KpiTile | null>(null); // null while creating a new tile
+  const [reloadCount, setReloadCount] = useState<number>(0); // Bumped to refetch after a tile is saved or a live change
+  const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
+  const [drillingDown, setDrillingDown] = useState<KpiName | null>(null);
+  const { startTime, endTime, isInitialized } = useTimeline();
+  const { queryResult, showQueryResult, clearQueryResult } = useGraphQuery();
   const toast = useToast();
 
+  // KPIs count graph nodes and alerts; a burst of changes refetches once the debounce settles
+  useLiveEvents(['graph', 'reset', 'alerts', 'risk'], () => setReloadCount(count => count + 1));
+
+  // Until the timeline knows the data's range, the API falls back to the last 24 hours
+  const windowParams = isInitialized
+    ? new URLSearchParams({ start: String(startTime), end: String(endTime) }).toString()
+    : '';
+
   useEffect(() => {
     const fetchKpis = async () => {
       setLoading(true);
       setError(null);
       try {
-        const response = await fetch('/api/kpis');
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.details || `HTTP error! status: ${response.status}`);
+        const [response, tilesResponse] = await Promise.all([
+          fetch(`/api/kpis?${windowParams}`),
+          fetch(`/api/kpi-tiles?${windowParams}`),
+        ]);
+        for (const res of [response, tilesResponse]) {
+          if (!res.ok) {
+            const errorData = await res.json();
+            throw new Error(errorData.details || errorData.error || `HTTP error! status: ${res.status}`);
+          }
         }
-        const data: KpiData = await response.json();
-        setKpis(data);
+        const data: KpiReport = await response.json();
+        const tilesData = await tilesResponse.json();
+        setReport(data);
+        setTiles(tilesData.tiles || []);
       } catch (e: any) {
         console.error("Failed to fetch KPIs:", e);
         const errorMessage = e.message || "An unknown error occurred while fetching KPIs.";
@@ -44,13 +127,53 @@ const KpiSummary: React.FC = () => {
       }
     };
 
-    fetchKpis();
-    // Optionally, set up polling
-    // const intervalId = setInterval(fetchKpis, 60000); // Refresh every 60 seconds
-    // return () => clearInterval(intervalId);
-  }, [toast]);
+    const timeoutId = setTimeout(fetchKpis, WINDOW_DEBOUNCE_MS);
+    return () => clearTimeout(timeoutId);
+  }, [windowParams, reloadCount, toast]);
+
+  const openTileForm = (tile: KpiTile | null) => {
+    setEditingTile(tile);
+    onFormOpen();
+  };
 
-  if (loading) {
+  // Shows the nodes behind a KPI in the graph views
+  const drillDown = async (card: KpiCard) => {
+    if (!report) return;
+    setDrillingDown(card.kpi);
+    try {
+      const params = new URLSearchParams({ start: report.window.start, end: report.window.end });
+      const response = await fetch(`/api/kpis/${card.kpi}?${params.toString()}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || `HTTP error! status: ${response.status}`);
+      }
+      if (result.elements.length === 0) {
+        toast({ title: `Nothing to show for ${card.label}`, status: "info", duration: 3000, isClosable: true });
+        return;
+      }
+      showQueryResult({
+        queryId: `kpi:${card.kpi}`,
+        title: `${card.label} (${new Date(report.window.start).toLocaleString()} – ${new Date(report.window.end).toLocaleString()})`,
+        elements: result.elements,
+        recordCount: result.recordCount,
+        truncated: result.truncated,
+        droppedEdges: result.droppedEdges,
+      });
+    } catch (e: any) {
+      console.error("Failed to drill down KPI:", e);
+      toast({
+        title: `Error loading ${card.label}`,
+        description: e.message || "An unknown error occurred.",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setDrillingDown(null);
+    }
+  };
+
+  if (loading && !report) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="100px">
         <Spinner size="md" />
@@ -59,7 +182,7 @@ const KpiSummary: React.FC = () => {
     );
   }
 
-  if (error) {
+  if (error && !report) {
     return (
       <Box color="red.500" minHeight="100px">
         <Text>Error loading KPIs: {error}</Text>
@@ -67,190 +190,156 @@ const KpiSummary: React.FC = () => {
     );
   }
 
-  return (
-    <SimpleGrid columns={{ base: 1, sm: 2 }} spacing={3}>
-      <Stat
-        p={4}
-        bgGradient="linear(to-br, danger.50, danger.100)"
-        borderWidth="1px"
-        borderColor="danger.200"
-        borderRadius="xl"
-        shadow="sm"
-        transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
-        _hover={{
-          shadow: "lg",
-          transform: "translateY(-2px) scale(1.02)",
-          borderColor: "danger.300",
-          bgGradient: "linear(to-br, danger.100, danger.200)"
-        }}
-        position="relative"
-        overflow="hidden"
-      >
-        {/* Animated accent bar */}
-        <Box
-          position="absolute"
-          top="0"
-          left="0"
-          w="100%"
-          h="3px"
-          bgGradient="linear(to-r, danger.400, danger.600)"
-          borderTopRadius="xl"
-        />
-
-        <StatLabel fontSize="xs" fontWeight="bold" color="danger.600" mb={1}>
-          Active Threats
-        </StatLabel>
-        <StatNumber
-          fontSize="3xl"
-          fontWeight="black"
-          color="danger.700"
-          lineHeight="1"
-          mb={1}
+  // Shared look of the built-in and custom tiles
+  const renderStat = (stat: {
+    key: string;
+    color: KpiColorScheme;
+    label: string;
+    value: React.ReactNode;
+    helpText: React.ReactNode;
+    tooltip: string;
+    isActive?: boolean;
+    isBusy?: boolean;
+    onClick?: () => void;
+    action?: React.ReactNode;
+  }) => {
+    const { color } = stat;
+    return (
+      <Tooltip key={stat.key} label={stat.tooltip} openDelay={500}>
+        <Stat
+          p={4}
+          bgGradient={`linear(to-br, ${color}.50, ${color}.100)`}
+          borderWidth="1px"
+          borderColor={stat.isActive ? `${color}.500` : `${color}.200`}
+          borderRadius="xl"
+          shadow="sm"
+          cursor={stat.onClick ? "pointer" : undefined}
+          onClick={stat.onClick}
+          transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
+          _hover={{
+            shadow: "lg",
+            transform: "translateY(-2px) scale(1.02)",
+            borderColor: `${color}.300`,
+            bgGradient: `linear(to-br, ${color}.100, ${color}.200)`
+          }}
+          position="relative"
+          overflow="hidden"
         >
-          {kpis?.activeThreats ?? 'N/A'}
-        </StatNumber>
-        <StatHelpText fontSize="xs" color="danger.500" fontWeight="medium">
-          Currently monitored
-        </StatHelpText>
-      </Stat>
+          {/* Animated accent bar */}
+          <Box
+            position="absolute"
+            top="0"
+            left="0"
+            w="100%"
+            h="3px"
+            bgGradient={`linear(to-r, ${color}.400, ${color}.600)`}
+            borderTopRadius="xl"
+          />
 
-      <Stat
-        p={4}
-        bgGradient="linear(to-br, warning.50, warning.100)"
-        borderWidth="1px"
-        borderColor="warning.200"
-        borderRadius="xl"
-        shadow="sm"
-        transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
-        _hover={{
-          shadow: "lg",
-          transform: "translateY(-2px) scale(1.02)",
-          borderColor: "warning.300",
-          bgGradient: "linear(to-br, warning.100, warning.200)"
-        }}
-        position="relative"
-        overflow="hidden"
-      >
-        {/* Animated accent bar */}
-        <Box
-          position="absolute"
-          top="0"
-          left="0"
-          w="100%"
-          h="3px"
-          bgGradient="linear(to-r, warning.400, warning.600)"
-          borderTopRadius="xl"
-        />
+          <StatLabel fontSize="xs" fontWeight="bold" color={`${color}.600`} mb={1}>
+            <HStack justify="space-between" spacing={1}>
+              <Text as="span" noOfLines={1}>
+                {stat.label}
+                {stat.isBusy && <Spinner size="xs" ml={2} />}
+              </Text>
+              {stat.action}
+            </HStack>
+          </StatLabel>
+          <StatNumber
+            fontSize="3xl"
+            fontWeight="black"
+            color={`${color}.700`}
+            lineHeight="1"
+            mb={1}
+          >
+            {stat.value}
+          </StatNumber>
+          <StatHelpText fontSize="xs" color={`${color}.500`} fontWeight="medium" mb={0}>
+            {stat.helpText}
+          </StatHelpText>
+        </Stat>
+      </Tooltip>
+    );
+  };
 
-        <StatLabel fontSize="xs" fontWeight="bold" color="warning.600" mb={1}>
-          High-Risk Assets
-        </StatLabel>
-        <StatNumber
-          fontSize="3xl"
-          fontWeight="black"
-          color="warning.700"
-          lineHeight="1"
-          mb={1}
-        >
-          {kpis?.highRiskAssets ?? 'N/A'}
-        </StatNumber>
-        <StatHelpText fontSize="xs" color="warning.500" fontWeight="medium">
-          Require attention
-        </StatHelpText>
-      </Stat>
+  const renderCard = (card: KpiCard) => {
+    const value = report?.kpis[card.kpi];
+    const delta = value?.delta ?? 0;
+    const isImprovement = delta !== 0 && (delta > 0) === card.increaseIsGood;
 
-      <Stat
-        p={4}
-        bgGradient="linear(to-br, brand.50, brand.100)"
-        borderWidth="1px"
-        borderColor="brand.200"
-        borderRadius="xl"
-        shadow="sm"
-        transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
-        _hover={{
-          shadow: "lg",
-          transform: "translateY(-2px) scale(1.02)",
-          borderColor: "brand.300",
-          bgGradient: "linear(to-br, brand.100, brand.200)"
-        }}
-        position="relative"
-        overflow="hidden"
-      >
-        {/* Animated accent bar */}
-        <Box
-          position="absolute"
-          top="0"
-          left="0"
-          w="100%"
-          h="3px"
-          bgGradient="linear(to-r, brand.400, brand.600)"
-          borderTopRadius="xl"
-        />
+    return renderStat({
+      key: card.kpi,
+      color: card.colorScheme,
+      label: card.label,
+      value: value?.value ?? 'N/A',
+      helpText: value && delta !== 0 ? (
+        <>
+          <StatArrow type={delta > 0 ? 'increase' : 'decrease'} color={isImprovement ? 'green.500' : 'red.500'} />
+          {delta > 0 ? `+${delta}` : delta} vs previous period
+        </>
+      ) : (
+        'No change vs previous period'
+      ),
+      tooltip: `${card.description}. Click to show them in the graph.`,
+      isActive: queryResult?.queryId === `kpi:${card.kpi}`,
+      isBusy: drillingDown === card.kpi,
+      onClick: () => drillDown(card),
+    });
+  };
 
-        <StatLabel fontSize="xs" fontWeight="bold" color="brand.600" mb={1}>
-          Alerts (24h)
-        </StatLabel>
-        <StatNumber
-          fontSize="3xl"
-          fontWeight="black"
-          color="brand.700"
-          lineHeight="1"
-          mb={1}
-        >
-          {kpis?.alertsLast24h ?? 'N/A'}
-        </StatNumber>
-        <StatHelpText fontSize="xs" color="brand.500" fontWeight="medium">
-          Recent alerts
-        </StatHelpText>
-      </Stat>
+  const renderTile = (tile: CustomTile) => renderStat({
+    key: tile.id,
+    color: tile.level ? LEVEL_COLOR_SCHEMES[tile.level] : 'brand',
+    label: tile.title,
+    value: tile.value === null ? 'N/A' : formatTileValue(tile.value, tile.format),
+    helpText: tile.error ? <Text as="span" color="red.500" noOfLines={1}>{tile.error}</Text> : 'Custom KPI',
+    tooltip: tile.error ? `Query failed: ${tile.error}` : tile.query,
+    action: (
+      <IconButton
+        aria-label={`Edit ${tile.title}`}
+        icon={<FaEdit />}
+        size="xs"
+        variant="ghost"
+        onClick={() => openTileForm(tile)}
+      />
+    ),
+  });
 
-      <Stat
-        p={4}
-        bgGradient="linear(to-br, cyber.50, cyber.100)"
-        borderWidth="1px"
-        borderColor="cyber.200"
-        borderRadius="xl"
-        shadow="sm"
-        transition="all 0.3s cubic-bezier(0.4, 0, 0.2, 1)"
-        _hover={{
-          shadow: "lg",
-          transform: "translateY(-2px) scale(1.02)",
-          borderColor: "cyber.300",
-          bgGradient: "linear(to-br, cyber.100, cyber.200)"
-        }}
-        position="relative"
-        overflow="hidden"
-      >
-        {/* Animated accent bar */}
-        <Box
-          position="absolute"
-          top="0"
-          left="0"
-          w="100%"
-          h="3px"
-          bgGradient="linear(to-r, cyber.400, cyber.600)"
-          borderTopRadius="xl"
-        />
+  return (
+    <VStack spacing={2} align="stretch">
+      {queryResult?.queryId.startsWith('kpi:') && (
+        <Alert status="info" borderRadius="md" py={2}>
+          <AlertIcon />
+          <AlertDescription fontSize="xs" flex={1}>
+            Graph shows &quot;{queryResult.title}&quot; ({queryResult.elements.length} elements)
+          </AlertDescription>
+          <Button size="xs" onClick={clearQueryResult}>Full graph</Button>
+        </Alert>
+      )}
+      {report && (
+        <Text fontSize="xs" color="gray.500">
+          {new Date(report.window.start).toLocaleString()} – {new Date(report.window.end).toLocaleString()}
+          {loading && <Spinner size="xs" ml={2} />}
+        </Text>
+      )}
+      <SimpleGrid columns={{ base: 1, sm: 2 }} spacing={3}>
+        {KPI_CARDS.map(renderCard)}
+        {tiles.map(renderTile)}
+      </SimpleGrid>
+      <HStack justify="flex-end">
+        <Button size="xs" variant="ghost" leftIcon={<FaPlus />} onClick={() => openTileForm(null)}>
+          Add KPI
+        </Button>
+      </HStack>
 
-        <StatLabel fontSize="xs" fontWeight="bold" color="cyber.600" mb={1}>
-          Resolved
-        </StatLabel>
-        <StatNumber
-          fontSize="3xl"
-          fontWeight="black"
-          color="cyber.700"
-          lineHeight="1"
-          mb={1}
-        >
-          {kpis?.resolvedIncidents ?? 'N/A'}
-        </StatNumber>
-        <StatHelpText fontSize="xs" color="cyber.500" fontWeight="medium">
-          Incidents closed
-        </StatHelpText>
-      </Stat>
-    </SimpleGrid>
+      <KpiTileForm
+        isOpen={isFormOpen}
+        onClose={onFormClose}
+        tile={editingTile}
+        onSaved={() => setReloadCount(count => count + 1)}
+      />
+    </VStack>
   );
 };
 
 export default KpiSummary;
-
@@ -0,0 +1,220 @@
+"use client";
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Button, Input, FormControl, FormLabel, FormHelperText, Textarea, Select, VStack, HStack, Switch,
+  NumberInput, NumberInputField, useToast,
+  Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, ModalCloseButton,
+  AlertDialog, AlertDialogOverlay, AlertDialogContent, AlertDialogHeader, AlertDialogBody, AlertDialogFooter
+} from '@chakra-ui/react';
+import type { KpiTile, KpiTileFormat } from '@/lib/kpiTiles';
+
+interface TileForm {
+  title: string;
+  query: string;
+  format: KpiTileFormat;
+  warning: string;
+  critical: string;
+  higherIsWorse: boolean;
+}
+
+const EMPTY_FORM: TileForm = { title: '', query: '', format: 'number', warning: '', critical: '', higherIsWorse: true };
+
+const toForm = (tile: KpiTile): TileForm => ({
+  title: tile.title,
+  query: tile.query,
+  format: tile.format,
+  warning: tile.warning === null ? '' : String(tile.warning),
+  critical: tile.critical === null ? '' : String(tile.critical),
+  higherIsWorse: tile.higherIsWorse,
+});
+
+interface KpiTileFormProps {
+  isOpen: boolean;
+  onClose: () => void;
+  tile: KpiTile | null; // null while creating a new tile
+  onSaved: () => void;
+}
+
+// Create, edit and delete dialog for a custom KPI tile
+const KpiTileForm: React.FC<KpiTileFormProps> = ({ isOpen, onClose, tile, onSaved }) => {
+  const [form, setForm] = useState<TileForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [confirmDelete, setConfirmDelete] = useState(false);
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const toast = useToast();
+
+  useEffect(() => {
+    if (isOpen) setForm(tile ? toForm(tile) : EMPTY_FORM);
+  }, [isOpen, tile]);
+
+  const showError = (title: string, error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred.",
+      status: "error",
+      duration: 9000,
+      isClosable: true,
+    });
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(tile ? `/api/kpi-tiles/${tile.id}` : '/api/kpi-tiles', {
+        method: tile ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          title: form.title.trim(),
+          query: form.query.trim(),
+          format: form.format,
+          warning: form.warning === '' ? null : Number(form.warning),
+          critical: form.critical === '' ? null : Number(form.critical),
+          higherIsWorse: form.higherIsWorse,
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const issue = Array.isArray(result.issues) && result.issues.length > 0 ? `: ${result.issues[0].message}` : '';
+        throw new Error((result.details || result.error || 'Failed to save KPI tile') + issue);
+      }
+      onClose();
+      onSaved();
+    } catch (error: any) {
+      console.error("Error saving KPI tile:", error);
+      showError("Could not save KPI tile", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    setConfirmDelete(false);
+    if (!tile) return;
+    try {
+      const response = await fetch(`/api/kpi-tiles/${tile.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.details || result.error || 'Failed to delete KPI tile');
+      }
+      onClose();
+      onSaved();
+    } catch (error: any) {
+      console.error("Error deleting KPI tile:", error);
+      showError("Could not delete KPI tile", error);
+    }
+  };
+
+  return (
+    <>
+      <Modal isOpen={isOpen} onClose={onClose} size="lg">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{tile ? 'Edit KPI tile' : 'New KPI tile'}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <VStack spacing={3} align="stretch">
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Title</FormLabel>
+                <Input
+                  size="sm"
+                  value={form.title}
+                  onChange={(e) => setForm({ ...form, title: e.target.value })}
+                  placeholder="e.g. Unassigned high alerts"
+                />
+              </FormControl>
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Query</FormLabel>
+                <Textarea
+                  fontFamily="mono"
+                  fontSize="sm"
+                  rows={5}
+                  value={form.query}
+                  onChange={(e) => setForm({ ...form, query: e.target.value })}
+                  placeholder="MATCH (a:Alert {severity: 'High'}) WHERE a.assignee IS NULL RETURN count(a)"
+                />
+                <FormHelperText fontSize="xs">
+                  Read-only Cypher. The first column of the first row is the value. $start and $end hold the selected time window as ISO dates, $startTime and $endTime as epoch milliseconds.
+                </FormHelperText>
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Format</FormLabel>
+                <Select size="sm" value={form.format} onChange={(e) => setForm({ ...form, format: e.target.value as KpiTileFormat })}>
+                  <option value="number">Number</option>
+                  <option value="decimal">Decimal (2 places)</option>
+                  <option value="percent">Percent (value is a 0-1 ratio)</option>
+                </Select>
+              </FormControl>
+              <HStack spacing={3} align="end">
+                <FormControl>
+                  <FormLabel fontSize="sm">Warning at</FormLabel>
+                  <NumberInput size="sm" value={form.warning} onChange={(value) => setForm({ ...form, warning: value })}>
+                    <NumberInputField placeholder="None" />
+                  </NumberInput>
+                </FormControl>
+                <FormControl>
+                  <FormLabel fontSize="sm">Critical at</FormLabel>
+                  <NumberInput size="sm" value={form.critical} onChange={(value) => setForm({ ...form, critical: value })}>
+                    <NumberInputField placeholder="None" />
+                  </NumberInput>
+                </FormControl>
+              </HStack>
+              <FormControl display="flex" alignItems="center">
+                <Switch
+                  id="kpi-tile-higher-is-worse"
+                  size="sm"
+                  isChecked={form.higherIsWorse}
+                  onChange={(e) => setForm({ ...form, higherIsWorse: e.target.checked })}
+                />
+                <FormLabel htmlFor="kpi-tile-higher-is-worse" fontSize="sm" ml={2} mb={0}>
+                  Higher values are worse
+                </FormLabel>
+              </FormControl>
+            </VStack>
+          </ModalBody>
+          <ModalFooter>
+            {tile && (
+              <Button colorScheme="red" variant="ghost" mr="auto" onClick={() => setConfirmDelete(true)}>
+                Delete
+              </Button>
+            )}
+            <Button mr={3} onClick={onClose}>Cancel</Button>
+            <Button
+              colorScheme="brand"
+              onClick={handleSave}
+              isLoading={isSaving}
+              isDisabled={!form.title.trim() || !form.query.trim()}
+            >
+              Save
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <AlertDialog isOpen={confirmDelete} leastDestructiveRef={cancelRef} onClose={() => setConfirmDelete(false)}>
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete KPI tile?
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              &quot;{tile?.title}&quot; will be deleted. This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={() => setConfirmDelete(false)}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmDelete} ml={3}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default KpiTileForm;
@@ -0,0 +1,211 @@
+"use client";
+
+import React, { useState } from 'react';
+import {
+  Box,
+  VStack,
+  HStack,
+  Text,
+  Button,
+  Select,
+  Input,
+  Switch,
+  FormControl,
+  FormLabel,
+  NumberInput,
+  NumberInputField,
+  Spinner,
+  Tag,
+  useToast,
+} from '@chakra-ui/react';
+import type { FoundPath, PathMode, PathResult } from '@/lib/paths';
+import { usePathFinder } from '@/contexts/PathFinderContext';
+import { useGraphHighlight } from '@/contexts/GraphHighlightContext';
+import { useTimeline } from '@/contexts/TimelineContext';
+
+const MODE_LABELS: Record<PathMode, string> = {
+  'shortest': 'Shortest path',
+  'all-shortest': 'All shortest paths',
+  'k-shortest': 'K shortest paths',
+};
+
+// Finds paths between the two nodes picked with "Path from here" / "Path to here" in the
+// graph views' node menu, and highlights them in both views
+const PathFinder: React.FC = () => {
+  const { source, target, clearEndpoints } = usePathFinder();
+  const { highlightElements, clearHighlight } = useGraphHighlight();
+  const { startTime, endTime } = useTimeline();
+  const [mode, setMode] = useState<PathMode>('shortest');
+  const [k, setK] = useState<number>(3);
+  const [typesText, setTypesText] = useState<string>(''); // Comma-separated relationship types
+  const [inTimeWindow, setInTimeWindow] = useState<boolean>(true);
+  const [loading, setLoading] = useState<boolean>(false);
+  const [result, setResult] = useState<PathResult | null>(null);
+  const [selectedPath, setSelectedPath] = useState<number | null>(null); // null: all paths
+  const toast = useToast();
+
+  const labels = new Map((result?.elements ?? []).map(el => [String(el.data.id), String(el.data.label ?? el.data.id)]));
+  const describePath = (path: FoundPath) => path.nodeIds.map(id => labels.get(id) ?? id).join(' → ');
+
+  const showPaths = (found: PathResult, paths: FoundPath[], title: string) => {
+    highlightElements({
+      title,
+      nodeIds: Array.from(new Set(paths.flatMap(path => path.nodeIds))),
+      edgeIds: Array.from(new Set(paths.flatMap(path => path.edgeIds))),
+      elements: found.elements,
+    });
+  };
+
+  const findPaths = async () => {
+    if (!source || !target) return;
+    setLoading(true);
+    setResult(null);
+    setSelectedPath(null);
+    try {
+      const params = new URLSearchParams({ source: source.id, target: target.id, mode });
+      if (mode === 'k-shortest') params.set('k', String(k));
+      typesText.split(',').map(type => type.trim()).filter(Boolean).forEach(type => params.append('type', type));
+      if (inTimeWindow && startTime && endTime && startTime < endTime) {
+        params.set('startTime', String(startTime));
+        params.set('endTime', String(endTime));
+      }
+
+      const response = await fetch(`/api/paths?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const found = data as PathResult;
+      setResult(found);
+      if (found.paths.length === 0) {
+        clearHighlight();
+        return;
+      }
+      showPaths(found, found.paths, `Paths: ${source.label} → ${target.label}`);
+      if (found.truncated) {
+        toast({
+          title: "Too many paths",
+          description: `Only the first ${found.paths.length} shortest paths are shown.`,
+          status: "warning",
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+    } catch (e: any) {
+      console.error("Failed to find paths:", e);
+      toast({
+        title: "Error finding paths",
+        description: e.message || "An unknown error occurred while finding paths.",
+        status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Clicking a path highlights it alone; clicking it again goes back to all paths
+  const togglePath = (index: number) => {
+    if (!result || !source || !target) return;
+    const next = selectedPath === index ? null : index;
+    setSelectedPath(next);
+    showPaths(
+      result,
+      next === null ? result.paths : [result.paths[next]],
+      next === null ? `Paths: ${source.label} → ${target.label}` : `Path ${next + 1}: ${source.label} → ${target.label}`
+    );
+  };
+
+  const reset = () => {
+    clearEndpoints();
+    setResult(null);
+    setSelectedPath(null);
+    clearHighlight();
+  };
+
+  return (
+    <VStack spacing={3} align="stretch" fontSize="sm">
+      <VStack spacing={1} align="stretch">
+        <HStack>
+          <Text fontSize="xs" color="gray.500" width="40px">From</Text>
+          {source ? <Tag size="sm" colorScheme="brand">{source.label}</Tag> : <Text fontSize="xs" color="gray.400">—</Text>}
+        </HStack>
+        <HStack>
+          <Text fontSize="xs" color="gray.500" width="40px">To</Text>
+          {target ? <Tag size="sm" colorScheme="danger">{target.label}</Tag> : <Text fontSize="xs" color="gray.400">—</Text>}
+        </HStack>
+        {(!source || !target) && (
+          <Text fontSize="xs" color="gray.500">
+            Right-click nodes in the graph and choose &quot;Path from here&quot; and &quot;Path to here&quot;.
+          </Text>
+        )}
+      </VStack>
+
+      <HStack>
+        <Select size="sm" value={mode} onChange={e => setMode(e.target.value as PathMode)}>
+          {(Object.keys(MODE_LABELS) as PathMode[]).map(value => (
+            <option key={value} value={value}>{MODE_LABELS[value]}</option>
+          ))}
+        </Select>
+        {mode === 'k-shortest' && (
+          <NumberInput size="sm" min={1} max={10} value={k} onChange={(_, value) => setK(Number.isNaN(value) ? 1 : value)} width="80px">
+            <NumberInputField />
+          </NumberInput>
+        )}
+      </HStack>
+
+      <Input
+        size="sm"
+        placeholder="Relationship types, e.g. CONNECTS_TO, EXPLOITS (all if empty)"
+        value={typesText}
+        onChange={e => setTypesText(e.target.value)}
+      />
+
+      <FormControl display="flex" alignItems="center">
+        <FormLabel htmlFor="path-time-window" mb="0" fontSize="xs">
+          Only through records alive in the time window
+        </FormLabel>
+        <Switch id="path-time-window" size="sm" isChecked={inTimeWindow} onChange={e => setInTimeWindow(e.target.checked)} />
+      </FormControl>
+
+      <HStack>
+        <Button size="sm" colorScheme="brand" onClick={findPaths} isDisabled={!source || !target} isLoading={loading}>
+          Find paths
+        </Button>
+        <Button size="sm" variant="ghost" onClick={reset} isDisabled={!source && !target && !result}>
+          Clear
+        </Button>
+      </HStack>
+
+      {loading && <Spinner size="sm" />}
+      {result && result.paths.length === 0 && (
+        <Text fontSize="xs" color="gray.500">No path found between these nodes.</Text>
+      )}
+      {result && result.paths.length > 0 && (
+        <VStack spacing={1} align="stretch" maxHeight="200px" overflowY="auto">
+          {result.paths.map((path, index) => (
+            <Box
+              key={index}
+              p={2}
+              borderWidth="1px"
+              borderRadius="md"
+              cursor="pointer"
+              bg={selectedPath === index ? 'brand.50' : undefined}
+              borderColor={selectedPath === index ? 'brand.300' : 'gray.200'}
+              onClick={() => togglePath(index)}
+            >
+              <Text fontSize="xs" fontWeight="semibold">
+                Path {index + 1} · {path.length} hop{path.length === 1 ? '' : 's'}
+              </Text>
+              <Text fontSize="xs" color="gray.600" noOfLines={2}>{describePath(path)}</Text>
+            </Box>
+          ))}
+        </VStack>
+      )}
+    </VStack>
+  );
+};
+
+export default PathFinder;
@@ -0,0 +1,145 @@
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import {
+  Box, Button, Textarea, VStack, HStack, Text, Alert, AlertIcon, AlertDescription,
+  Table, Thead, Tbody, Tr, Th, Td, TableContainer,
+} from '@chakra-ui/react';
+import { FaPlay } from 'react-icons/fa';
+import type { QueryTable } from '@/lib/queryRunner';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+
+// queryId used for console results in the GraphQueryContext
+const CONSOLE_QUERY_ID = 'console';
+
+const formatCell = (value: any) => {
+  if (value === null) return 'null';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const QueryConsole: React.FC = () => {
+  const [query, setQuery] = useState('');
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [table, setTable] = useState<QueryTable | null>(null);
+  const [summary, setSummary] = useState<string | null>(null);
+  const { showQueryResult, consoleDraft } = useGraphQuery();
+
+  // A query opened here from elsewhere replaces the one being edited
+  useEffect(() => {
+    if (consoleDraft) setQuery(consoleDraft.query);
+  }, [consoleDraft]);
+
+  const handleRun = async () => {
+    if (!query.trim()) return;
+    setIsRunning(true);
+    setError(null);
+    setTable(null);
+    setSummary(null);
+    try {
+      const response = await fetch('/api/query-console', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ query }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to run query');
+      }
+
+      const notes = [`${result.recordCount} record${result.recordCount === 1 ? '' : 's'}`];
+      if (result.truncated) notes.push('truncated at the row limit');
+      if (result.droppedEdges > 0) notes.push(`${result.droppedEdges} relationships without their nodes left out`);
+
+      if (result.elements.length > 0) {
+        showQueryResult({
+          queryId: CONSOLE_QUERY_ID,
+          title: query.trim(),
+          elements: result.elements,
+          recordCount: result.recordCount,
+          truncated: result.truncated,
+          droppedEdges: result.droppedEdges,
+        });
+        notes.push('shown in the graph');
+      } else if (result.table) {
+        setTable(result.table);
+      }
+      setSummary(notes.join(', '));
+    } catch (error: any) {
+      console.error("Error running console query:", error);
+      setError(error.message || "An unexpected error occurred.");
+    } finally {
+      setIsRunning(false);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      handleRun();
+    }
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      <Textarea
+        fontFamily="mono"
+        fontSize="sm"
+        rows={4}
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        onKeyDown={handleKeyDown}
+        placeholder="MATCH (n)-[r]->(m) RETURN n, r, m LIMIT 50"
+      />
+      <HStack justify="space-between">
+        <Text fontSize="xs" color="gray.500">Read-only · Ctrl+Enter to run</Text>
+        <Button
+          size="xs"
+          colorScheme="brand"
+          leftIcon={<FaPlay />}
+          onClick={handleRun}
+          isLoading={isRunning}
+          isDisabled={!query.trim()}
+        >
+          Run
+        </Button>
+      </HStack>
+
+      {error && (
+        <Alert status="error" borderRadius="md" py={2}>
+          <AlertIcon />
+          <AlertDescription fontSize="xs">{error}</AlertDescription>
+        </Alert>
+      )}
+
+      {summary && <Text fontSize="xs" color="gray.500">{summary}</Text>}
+
+      {table && (
+        <Box borderWidth="1px" borderRadius="md" maxH="300px" overflow="auto">
+          <TableContainer>
+            <Table size="sm">
+              <Thead>
+                <Tr>
+                  {table.columns.map(column => <Th key={column}>{column}</Th>)}
+                </Tr>
+              </Thead>
+              <Tbody>
+                {table.rows.map((row, rowIndex) => (
+                  <Tr key={rowIndex}>
+                    {row.map((value, columnIndex) => (
+                      <Td key={columnIndex} fontSize="xs" fontFamily="mono">{formatCell(value)}</Td>
+                    ))}
+                  </Tr>
+                ))}
+              </Tbody>
+            </Table>
+          </TableContainer>
+        </Box>
+      )}
+    </VStack>
+  );
+};
+
+export default QueryConsole;
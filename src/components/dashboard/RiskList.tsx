@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import {
   Box,
   Table,
@@ -14,64 +14,217 @@ import {
   Text,
   useToast,
   Tag,
-  Tooltip
+  Tooltip,
+  Button,
+  HStack,
+  VStack,
+  Collapse,
+  NumberInput,
+  NumberInputField,
+  Progress,
 } from '@chakra-ui/react';
+import { MdRefresh, MdTune } from 'react-icons/md';
+import type { RiskFactorName, RiskItem, RiskWeights } from '@/lib/riskScoring';
+import type { RiskTrendPoint } from '@/lib/riskHistory';
+import RiskSparkline from '@/components/dashboard/RiskSparkline';
+import { useGraphData } from '@/contexts/GraphDataContext';
+import { useLiveEvents } from '@/contexts/LiveUpdatesContext';
 
-interface RiskItem {
-  id: string;
-  name: string;
-  type: string;
-  riskScore: number;
-  reason?: string;
-}
+const FACTOR_LABELS: Record<RiskFactorName, string> = {
+  vulnerabilities: 'Vulnerabilities',
+  threatProximity: 'Threat proximity',
+  centrality: 'Centrality',
+  alerts: 'Open alerts',
+};
 
 const RiskList: React.FC = () => {
   const [risks, setRisks] = useState<RiskItem[]>([]);
+  const [trends, setTrends] = useState<Record<string, RiskTrendPoint[]>>({}); // Keyed by uid
+  const [weights, setWeights] = useState<RiskWeights | null>(null);
+  const [draftWeights, setDraftWeights] = useState<RiskWeights | null>(null);
   const [loading, setLoading] = useState<boolean>(true);
+  const [computing, setComputing] = useState<boolean>(false);
+  const [showWeights, setShowWeights] = useState<boolean>(false);
   const [error, setError] = useState<string | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null); // Row whose breakdown is shown
+  const { selectedNodeIds, selectNodes, clearSelection } = useGraphData();
+  const rowRefs = useRef<Map<string, HTMLTableRowElement>>(new Map());
   const toast = useToast();
+  const selected = new Set(selectedNodeIds);
 
-  useEffect(() => {
-    const fetchRisks = async () => {
-      setLoading(true);
-      setError(null);
-      try {
-        const response = await fetch('/api/risk');
-        if (!response.ok) {
-          const errorData = await response.json();
-          throw new Error(errorData.details || `HTTP error! status: ${response.status}`);
-        }
-        const data = await response.json();
-        setRisks(data.risks || []); // Ensure risks is always an array
-      } catch (e: any) {
-        console.error("Failed to fetch risk data:", e);
-        const errorMessage = e.message || "An unknown error occurred while fetching risk data.";
-        setError(errorMessage);
-        toast({
-          title: "Error loading risk data",
-          description: errorMessage,
-          status: "error",
-          duration: 5000,
-          isClosable: true,
-        });
-      } finally {
-        setLoading(false);
+  // Trends are optional decoration: a failure leaves the column empty
+  const fetchTrends = async (items: RiskItem[]) => {
+    const params = new URLSearchParams();
+    items.forEach(item => {
+      if (item.uid) params.append('uid', item.uid);
+    });
+    if (!params.has('uid')) return;
+    try {
+      const response = await fetch(`/api/risk/history?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
       }
-    };
+      setTrends(Object.fromEntries((data.series || []).map((series: { uid: string; points: RiskTrendPoint[] }) => [series.uid, series.points])));
+    } catch (e: any) {
+      console.error("Failed to fetch risk trends:", e);
+    }
+  };
 
-    fetchRisks();
-    // Optional: Set up polling
-    // const intervalId = setInterval(fetchRisks, 120000); // Refresh every 2 minutes
-    // return () => clearInterval(intervalId);
+  const fetchRisks = useCallback(async () => {
+    setLoading(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/risk');
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.details || `HTTP error! status: ${response.status}`);
+      }
+      const data = await response.json();
+      setRisks(data.risks || []); // Ensure risks is always an array
+      setWeights(data.weights);
+      setDraftWeights(data.weights);
+      fetchTrends(data.risks || []);
+    } catch (e: any) {
+      console.error("Failed to fetch risk data:", e);
+      const errorMessage = e.message || "An unknown error occurred while fetching risk data.";
+      setError(errorMessage);
+      toast({
+        title: "Error loading risk data",
+        description: errorMessage,
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setLoading(false);
+    }
   }, [toast]);
 
+  useEffect(() => {
+    fetchRisks();
+  }, [fetchRisks]);
+
+  // Scores are recomputed after imports and on demand, possibly from another tab
+  useLiveEvents(['risk'], () => {
+    if (!computing) fetchRisks();
+  });
+
+  // Recomputes all scores; with `newWeights` the weights are saved first
+  const recompute = async (newWeights?: RiskWeights) => {
+    setComputing(true);
+    try {
+      const response = newWeights
+        ? await fetch('/api/risk/weights', {
+            method: 'PUT',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify(newWeights),
+          })
+        : await fetch('/api/risk/compute', { method: 'POST' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.issues?.[0]?.message || data.error || `HTTP error! status: ${response.status}`);
+      }
+      await fetchRisks();
+      toast({
+        title: `Risk scores computed for ${data.summary.scoredNodes} nodes`,
+        description: data.summary.betweennessSampled ? 'Betweenness was approximated from a sample of nodes.' : undefined,
+        status: "success",
+        duration: 4000,
+        isClosable: true,
+      });
+    } catch (e: any) {
+      console.error("Failed to compute risk scores:", e);
+      toast({
+        title: "Error computing risk scores",
+        description: e.message || "An unknown error occurred.",
+        status: "error",
+        duration: 5000,
+        isClosable: true,
+      });
+    } finally {
+      setComputing(false);
+    }
+  };
+
+  // Clicking a row shows its breakdown and selects the node in every view; clicking again
+  // clears both
+  const toggleItem = (item: RiskItem) => {
+    if (selectedId === item.id && selected.has(item.id)) {
+      setSelectedId(null);
+      clearSelection();
+      return;
+    }
+    setSelectedId(item.id);
+    selectNodes([item.id]);
+  };
+
+  // Bring the row of a node selected elsewhere (a graph, the map, an alert) into view
+  useEffect(() => {
+    const item = risks.find(risk => selectedNodeIds.includes(risk.id));
+    if (item) rowRefs.current.get(item.id)?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [selectedNodeIds]);
+
+  const setRowRef = (id: string) => (row: HTMLTableRowElement | null) => {
+    if (row) rowRefs.current.set(id, row);
+    else rowRefs.current.delete(id);
+  };
+
   const getRiskColorScheme = (score: number) => {
     if (score > 75) return 'red';
     if (score > 50) return 'orange';
     return 'yellow';
   };
 
-  if (loading) {
+  const weightsChanged = !!weights && !!draftWeights
+    && (Object.keys(weights) as RiskFactorName[]).some(factor => weights[factor] !== draftWeights[factor]);
+
+  const controls = (
+    <VStack spacing={2} align="stretch">
+      <HStack justify="flex-end">
+        <Button size="xs" variant="ghost" leftIcon={<MdTune />} onClick={() => setShowWeights(!showWeights)}>
+          Weights
+        </Button>
+        <Button size="xs" variant="ghost" leftIcon={<MdRefresh />} onClick={() => recompute()} isLoading={computing}>
+          Recompute
+        </Button>
+      </HStack>
+      <Collapse in={showWeights && !!draftWeights} animateOpacity>
+        {draftWeights && (
+          <VStack spacing={1} align="stretch" p={2} borderWidth="1px" borderRadius="md">
+            <Text fontSize="xs" color="gray.500">Relative weight of each factor (0-100)</Text>
+            {(Object.keys(FACTOR_LABELS) as RiskFactorName[]).map(factor => (
+              <HStack key={factor}>
+                <Text fontSize="xs" flex={1}>{FACTOR_LABELS[factor]}</Text>
+                <NumberInput
+                  size="xs"
+                  w="70px"
+                  min={0}
+                  max={100}
+                  value={draftWeights[factor]}
+                  onChange={(_, value) => setDraftWeights({ ...draftWeights, [factor]: Number.isNaN(value) ? 0 : value })}
+                >
+                  <NumberInputField />
+                </NumberInput>
+              </HStack>
+            ))}
+            <HStack justify="flex-end">
+              <Button size="xs" variant="ghost" onClick={() => setDraftWeights(weights)} isDisabled={!weightsChanged || computing}>
+                Reset
+              </Button>
+              <Button size="xs" colorScheme="brand" onClick={() => recompute(draftWeights)} isDisabled={!weightsChanged} isLoading={computing}>
+                Save & recompute
+              </Button>
+            </HStack>
+          </VStack>
+        )}
+      </Collapse>
+    </VStack>
+  );
+
+  if (loading && risks.length === 0) {
     return (
       <Box display="flex" justifyContent="center" alignItems="center" minHeight="150px">
         <Spinner size="md" />
@@ -90,43 +243,78 @@ const RiskList: React.FC = () => {
 
   if (!risks || risks.length === 0) {
     return (
+      <VStack spacing={3} align="stretch">
+        {controls}
         <Box display="flex" justifyContent="center" alignItems="center" minHeight="150px">
-            <Text>No prioritized risks found.</Text>
+          <Text>No prioritized risks found.</Text>
         </Box>
+      </VStack>
     );
   }
 
   return (
-    <TableContainer>
-      <Table variant="simple" size="sm">
-        <Thead>
-          <Tr>
-            <Th>Name</Th>
-            <Th>Type</Th>
-            <Th isNumeric>Risk Score</Th>
-            <Th>Reason</Th>
-          </Tr>
-        </Thead>
-        <Tbody>
-          {risks.map((item) => (
-            <Tr key={item.id}>
-              <Td>{item.name}</Td>
-              <Td>{item.type}</Td>
-              <Td isNumeric>
-                <Tag colorScheme={getRiskColorScheme(item.riskScore)}>{item.riskScore}</Tag>
-              </Td>
-              <Td>
-                <Tooltip label={item.reason} aria-label={`Reason for ${item.name}'s risk score`}>
-                  <Text isTruncated maxWidth="200px">{item.reason || 'N/A'}</Text>
-                </Tooltip>
-              </Td>
+    <VStack spacing={3} align="stretch">
+      {controls}
+      <TableContainer>
+        <Table variant="simple" size="sm">
+          <Thead>
+            <Tr>
+              <Th>Name</Th>
+              <Th>Type</Th>
+              <Th isNumeric>Risk Score</Th>
+              <Th>Trend</Th>
+              <Th>Reason</Th>
             </Tr>
-          ))}
-        </Tbody>
-      </Table>
-    </TableContainer>
+          </Thead>
+          <Tbody>
+            {risks.map((item) => (
+              <React.Fragment key={item.id}>
+                <Tr
+                  ref={setRowRef(item.id)}
+                  cursor="pointer"
+                  bg={selected.has(item.id) ? 'blue.50' : undefined}
+                  onClick={() => toggleItem(item)}
+                >
+                  <Td>{item.name}</Td>
+                  <Td>{item.type}</Td>
+                  <Td isNumeric>
+                    <Tag colorScheme={getRiskColorScheme(item.riskScore)}>{item.riskScore}</Tag>
+                  </Td>
+                  <Td>
+                    <RiskSparkline points={(item.uid && trends[item.uid]) || []} />
+                  </Td>
+                  <Td>
+                    <Tooltip label={item.reason} aria-label={`Reason for ${item.name}'s risk score`}>
+                      <Text isTruncated maxWidth="200px">{item.reason || 'N/A'}</Text>
+                    </Tooltip>
+                  </Td>
+                </Tr>
+                {selectedId === item.id && selected.has(item.id) && (
+                  <Tr>
+                    <Td colSpan={5}>
+                      <VStack spacing={2} align="stretch">
+                        {item.factors.map(factor => (
+                          <Box key={factor.factor}>
+                            <HStack justify="space-between" fontSize="xs">
+                              <Text fontWeight="semibold">{FACTOR_LABELS[factor.factor]}</Text>
+                              <Text>+{factor.points}</Text>
+                            </HStack>
+                            <Progress size="xs" value={factor.value * 100} colorScheme={getRiskColorScheme(factor.value * 100)} />
+                            <Text fontSize="xs" color="gray.500" whiteSpace="normal">{factor.detail}</Text>
+                          </Box>
+                        ))}
+                        {item.factors.length === 0 && <Text fontSize="xs">No risk factors found.</Text>}
+                      </VStack>
+                    </Td>
+                  </Tr>
+                )}
+              </React.Fragment>
+            ))}
+          </Tbody>
+        </Table>
+      </TableContainer>
+    </VStack>
   );
 };
 
 export default RiskList;
-
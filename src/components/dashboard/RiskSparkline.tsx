@@ -0,0 +1,96 @@
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import { HStack, Text } from '@chakra-ui/react';
+import { Line, LineChart, YAxis } from 'recharts';
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import type { RiskSeries, RiskTrendPoint } from '@/lib/riskHistory';
+
+// Rising risk is bad (red), falling is good (green)
+const TREND_COLORS = { up: '#e53e3e', down: '#38a169', flat: '#a0aec0' };
+
+const trendOf = (points: RiskTrendPoint[]) => {
+  if (points.length < 2) return { direction: 'flat' as const, delta: 0 };
+  const delta = points[points.length - 1].score - points[0].score;
+  return { direction: delta > 0 ? 'up' as const : delta < 0 ? 'down' as const : 'flat' as const, delta };
+};
+
+interface RiskSparklineProps {
+  points: RiskTrendPoint[];
+  width?: number;
+  height?: number;
+}
+
+// Tiny line chart of an asset's risk score over the stored snapshots
+const RiskSparkline: React.FC<RiskSparklineProps> = ({ points, width = 96, height = 28 }) => {
+  if (points.length < 2) {
+    return <Text fontSize="xs" color="gray.400">No trend yet</Text>;
+  }
+
+  const { direction, delta } = trendOf(points);
+  const config: ChartConfig = { score: { label: 'Risk score', color: TREND_COLORS[direction] } };
+  const data = points.map(point => ({ ...point, label: new Date(point.at).toLocaleString() }));
+
+  return (
+    <HStack spacing={1}>
+      <ChartContainer config={config} className="aspect-auto" style={{ width, height }}>
+        <LineChart data={data} margin={{ top: 2, right: 2, bottom: 2, left: 2 }}>
+          <YAxis hide domain={[0, 100]} />
+          <ChartTooltip
+            cursor={false}
+            content={<ChartTooltipContent indicator="line" labelFormatter={(_, payload) => payload?.[0]?.payload?.label} />}
+          />
+          <Line dataKey="score" type="monotone" stroke="var(--color-score)" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+        </LineChart>
+      </ChartContainer>
+      <Text fontSize="xs" color={TREND_COLORS[direction]}>
+        {delta > 0 ? `▲ +${delta}` : delta < 0 ? `▼ ${delta}` : '–'}
+      </Text>
+    </HStack>
+  );
+};
+
+// Series already fetched by uid, so hovering the same nodes again doesn't refetch
+const SERIES_CACHE_TTL_MS = 60 * 1000;
+const seriesCache = new Map<string, { series: RiskSeries; fetchedAt: number }>();
+
+// Fetches and draws the trend of one asset, e.g. inside the graph's node tooltip
+export const RiskTrend: React.FC<{ uid: string }> = ({ uid }) => {
+  const [series, setSeries] = useState<RiskSeries | null>(null);
+
+  useEffect(() => {
+    const cached = seriesCache.get(uid);
+    if (cached && Date.now() - cached.fetchedAt < SERIES_CACHE_TTL_MS) {
+      setSeries(cached.series);
+      return;
+    }
+
+    let cancelled = false;
+    setSeries(null);
+    const fetchSeries = async () => {
+      try {
+        const response = await fetch(`/api/risk/history?uid=${encodeURIComponent(uid)}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+        }
+        const fetched: RiskSeries | undefined = data.series?.[0];
+        if (!fetched) return;
+        seriesCache.set(uid, { series: fetched, fetchedAt: Date.now() });
+        if (!cancelled) setSeries(fetched);
+      } catch (e: any) {
+        console.error("Failed to fetch risk history:", e);
+      }
+    };
+
+    fetchSeries();
+    return () => {
+      cancelled = true;
+    };
+  }, [uid]);
+
+  if (!series || series.points.length < 2) return null;
+  return <RiskSparkline points={series.points} />;
+};
+
+export default RiskSparkline;
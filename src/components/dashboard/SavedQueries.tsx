@@ -0,0 +1,298 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Box, Button, Input, FormControl, FormLabel, Textarea, Select, VStack, HStack, Text, Badge, IconButton,
+  Tooltip, Spinner, useToast, useDisclosure, Alert, AlertIcon, AlertDescription,
+  Modal, ModalOverlay, ModalContent, ModalHeader, ModalBody, ModalFooter, ModalCloseButton,
+  AlertDialog, AlertDialogOverlay, AlertDialogContent, AlertDialogHeader, AlertDialogBody, AlertDialogFooter
+} from '@chakra-ui/react';
+import { FaPlay, FaEdit, FaTrash, FaPlus, FaSync } from 'react-icons/fa';
+import type { StoredQuery } from '@/lib/storedQueries';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+
+interface QueryForm {
+  description: string;
+  lang: string;
+  query: string;
+}
+
+const EMPTY_FORM: QueryForm = { description: '', lang: 'cypher', query: '' };
+
+const queryTitle = (query: StoredQuery) => query.description || query.query;
+
+const SavedQueries: React.FC = () => {
+  const [queries, setQueries] = useState<StoredQuery[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<StoredQuery | null>(null); // null while creating a new query
+  const [form, setForm] = useState<QueryForm>(EMPTY_FORM);
+  const [isSaving, setIsSaving] = useState(false);
+  const [pendingDelete, setPendingDelete] = useState<StoredQuery | null>(null);
+  const { isOpen: isFormOpen, onOpen: onFormOpen, onClose: onFormClose } = useDisclosure();
+  const cancelRef = useRef<HTMLButtonElement>(null);
+  const { queryResult, showQueryResult, clearQueryResult } = useGraphQuery();
+  const toast = useToast();
+
+  const showError = useCallback((title: string, error: any) => {
+    toast({
+      title,
+      description: error.message || "An unexpected error occurred.",
+      status: "error",
+      duration: 9000,
+      isClosable: true,
+    });
+  }, [toast]);
+
+  const fetchQueries = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      const response = await fetch('/api/stored-queries');
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to load saved queries');
+      }
+      setQueries(result.queries || []);
+    } catch (error: any) {
+      console.error("Error loading saved queries:", error);
+      showError("Could not load saved queries", error);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [showError]);
+
+  useEffect(() => {
+    fetchQueries();
+  }, [fetchQueries]);
+
+  const handleRun = async (query: StoredQuery) => {
+    setRunningId(query.id);
+    try {
+      const response = await fetch(`/api/stored-queries/${query.id}/run`, { method: 'POST' });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.details || result.error || 'Failed to run query');
+      }
+
+      showQueryResult({
+        queryId: query.id,
+        title: queryTitle(query),
+        elements: result.elements,
+        recordCount: result.recordCount,
+        truncated: result.truncated,
+        droppedEdges: result.droppedEdges,
+      });
+
+      const notes = [];
+      if (result.truncated) notes.push(`only the first ${result.elements.length} elements are shown`);
+      if (result.droppedEdges > 0) notes.push(`${result.droppedEdges} relationships without their nodes were left out`);
+      toast({
+        title: `Query returned ${result.recordCount} record${result.recordCount === 1 ? '' : 's'}`,
+        description: notes.length > 0 ? `Note: ${notes.join('; ')}.` : undefined,
+        status: result.elements.length === 0 || notes.length > 0 ? "warning" : "success",
+        duration: 5000,
+        isClosable: true,
+      });
+    } catch (error: any) {
+      console.error("Error running saved query:", error);
+      showError("Query Failed", error);
+    } finally {
+      setRunningId(null);
+    }
+  };
+
+  const openForm = (query: StoredQuery | null) => {
+    setEditing(query);
+    setForm(query ? { description: query.description ?? '', lang: query.lang, query: query.query } : EMPTY_FORM);
+    onFormOpen();
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const response = await fetch(editing ? `/api/stored-queries/${editing.id}` : '/api/stored-queries', {
+        method: editing ? 'PUT' : 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          query: form.query.trim(),
+          lang: form.lang,
+          ...(form.description.trim() ? { description: form.description.trim() } : {}),
+        }),
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        const issue = Array.isArray(result.issues) && result.issues.length > 0 ? `: ${result.issues[0].message}` : '';
+        throw new Error((result.details || result.error || 'Failed to save query') + issue);
+      }
+      onFormClose();
+      await fetchQueries();
+    } catch (error: any) {
+      console.error("Error saving query:", error);
+      showError("Could not save query", error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleConfirmDelete = async () => {
+    const query = pendingDelete;
+    setPendingDelete(null);
+    if (!query) return;
+    try {
+      const response = await fetch(`/api/stored-queries/${query.id}`, { method: 'DELETE' });
+      if (!response.ok) {
+        const result = await response.json().catch(() => ({}));
+        throw new Error(result.details || result.error || 'Failed to delete query');
+      }
+      if (queryResult?.queryId === query.id) {
+        clearQueryResult();
+      }
+      setQueries(current => current.filter(q => q.id !== query.id));
+    } catch (error: any) {
+      console.error("Error deleting query:", error);
+      showError("Could not delete query", error);
+    }
+  };
+
+  return (
+    <VStack spacing={3} align="stretch">
+      {queryResult && (
+        <Alert status="info" borderRadius="md" py={2}>
+          <AlertIcon />
+          <AlertDescription fontSize="xs" flex={1}>
+            Graph shows &quot;{queryResult.title}&quot; ({queryResult.elements.length} elements)
+          </AlertDescription>
+          <Button size="xs" onClick={clearQueryResult}>Full graph</Button>
+        </Alert>
+      )}
+
+      <HStack justify="space-between">
+        <Button size="xs" leftIcon={<FaPlus />} onClick={() => openForm(null)}>
+          New query
+        </Button>
+        <Tooltip label="Reload saved queries">
+          <IconButton aria-label="Reload saved queries" icon={<FaSync />} size="xs" variant="ghost" onClick={fetchQueries} />
+        </Tooltip>
+      </HStack>
+
+      {isLoading ? (
+        <HStack spacing={2} justify="center" py={2}>
+          <Spinner size="sm" />
+          <Text fontSize="sm">Loading saved queries...</Text>
+        </HStack>
+      ) : queries.length === 0 ? (
+        <Text fontSize="sm" color="gray.500" textAlign="center" py={2}>
+          No saved queries yet. Upload a dataset with storedQueries or create one.
+        </Text>
+      ) : (
+        <VStack spacing={2} align="stretch" maxH="300px" overflowY="auto">
+          {queries.map(query => (
+            <Box
+              key={query.id}
+              borderWidth="1px"
+              borderRadius="md"
+              p={2}
+              borderColor={queryResult?.queryId === query.id ? 'brand.500' : undefined}
+            >
+              <HStack align="start" spacing={2}>
+                <Box flex={1} minW={0}>
+                  <Text fontSize="sm" fontWeight="medium" noOfLines={2}>{queryTitle(query)}</Text>
+                  <HStack spacing={1} mt={1}>
+                    <Badge fontSize="2xs">{query.lang}</Badge>
+                    {query.source === 'dataset' && <Badge fontSize="2xs" colorScheme="purple">dataset</Badge>}
+                  </HStack>
+                </Box>
+                <Tooltip label="Run">
+                  <IconButton
+                    aria-label="Run query"
+                    icon={<FaPlay />}
+                    size="xs"
+                    colorScheme="brand"
+                    isLoading={runningId === query.id}
+                    isDisabled={runningId !== null}
+                    onClick={() => handleRun(query)}
+                  />
+                </Tooltip>
+                <Tooltip label="Edit">
+                  <IconButton aria-label="Edit query" icon={<FaEdit />} size="xs" variant="ghost" onClick={() => openForm(query)} />
+                </Tooltip>
+                <Tooltip label="Delete">
+                  <IconButton aria-label="Delete query" icon={<FaTrash />} size="xs" variant="ghost" onClick={() => setPendingDelete(query)} />
+                </Tooltip>
+              </HStack>
+            </Box>
+          ))}
+        </VStack>
+      )}
+
+      <Modal isOpen={isFormOpen} onClose={onFormClose} size="lg">
+        <ModalOverlay />
+        <ModalContent>
+          <ModalHeader>{editing ? 'Edit saved query' : 'New saved query'}</ModalHeader>
+          <ModalCloseButton />
+          <ModalBody>
+            <VStack spacing={3} align="stretch">
+              <FormControl>
+                <FormLabel fontSize="sm">Description</FormLabel>
+                <Input
+                  size="sm"
+                  value={form.description}
+                  onChange={(e) => setForm({ ...form, description: e.target.value })}
+                  placeholder="e.g. Critical vulnerabilities and affected assets"
+                />
+              </FormControl>
+              <FormControl>
+                <FormLabel fontSize="sm">Language</FormLabel>
+                <Select size="sm" value={form.lang} onChange={(e) => setForm({ ...form, lang: e.target.value })}>
+                  <option value="cypher">Cypher</option>
+                </Select>
+              </FormControl>
+              <FormControl isRequired>
+                <FormLabel fontSize="sm">Query</FormLabel>
+                <Textarea
+                  fontFamily="mono"
+                  fontSize="sm"
+                  rows={6}
+                  value={form.query}
+                  onChange={(e) => setForm({ ...form, query: e.target.value })}
+                  placeholder="MATCH (n)-[r]->(m) RETURN n, r, m"
+                />
+              </FormControl>
+            </VStack>
+          </ModalBody>
+          <ModalFooter>
+            <Button mr={3} onClick={onFormClose}>Cancel</Button>
+            <Button colorScheme="brand" onClick={handleSave} isLoading={isSaving} isDisabled={!form.query.trim()}>
+              Save
+            </Button>
+          </ModalFooter>
+        </ModalContent>
+      </Modal>
+
+      <AlertDialog isOpen={!!pendingDelete} leastDestructiveRef={cancelRef} onClose={() => setPendingDelete(null)}>
+        <AlertDialogOverlay>
+          <AlertDialogContent>
+            <AlertDialogHeader fontSize="lg" fontWeight="bold">
+              Delete saved query?
+            </AlertDialogHeader>
+            <AlertDialogBody>
+              &quot;{pendingDelete && queryTitle(pendingDelete)}&quot; will be deleted. This cannot be undone.
+            </AlertDialogBody>
+            <AlertDialogFooter>
+              <Button ref={cancelRef} onClick={() => setPendingDelete(null)}>
+                Cancel
+              </Button>
+              <Button colorScheme="red" onClick={handleConfirmDelete} ml={3}>
+                Delete
+              </Button>
+            </AlertDialogFooter>
+          </AlertDialogContent>
+        </AlertDialogOverlay>
+      </AlertDialog>
+    </VStack>
+  );
+};
+
+export default SavedQueries;
@@ -1,6 +1,6 @@
 "use client";
 
-import React, { useState } from 'react';
+import React, { useState, useEffect } from 'react';
 import {
   Box,
   VStack,
@@ -42,15 +42,24 @@ import {
   FaBolt,
   FaDatabase,
   FaInfoCircle,
+  FaTerminal,
+  FaRoute,
+  FaCrosshairs,
 } from "react-icons/fa";
 
 // Import existing components
 import DatasetUploader from "@/components/dashboard/DatasetUploader";
+import SavedQueries from "@/components/dashboard/SavedQueries";
+import QueryConsole from "@/components/dashboard/QueryConsole";
 import TimeSlider from "@/components/dashboard/TimeSlider";
 import AlertsList from "@/components/dashboard/AlertsList";
 import RiskList from "@/components/dashboard/RiskList";
 import KpiSummary from "@/components/dashboard/KpiSummary";
+import PathFinder from "@/components/dashboard/PathFinder";
+import AttackPaths from "@/components/dashboard/AttackPaths";
 import { useTimeline } from "@/contexts/TimelineContext";
+import { usePathFinder } from "@/contexts/PathFinderContext";
+import { useGraphQuery } from "@/contexts/GraphQueryContext";
 
 interface UnifiedControlPanelProps {
   isLiveMode: boolean;
@@ -67,8 +76,26 @@ const UnifiedControlPanel: React.FC<UnifiedControlPanelProps> = ({
   // Section collapse states
   const { isOpen: isExecutiveSummaryOpen, onToggle: toggleExecutiveSummary } = useDisclosure({ defaultIsOpen: true });
   const { isOpen: isDataManagementOpen, onToggle: toggleDataManagement } = useDisclosure({ defaultIsOpen: false });
+  const { isOpen: isSavedQueriesOpen, onToggle: toggleSavedQueries } = useDisclosure({ defaultIsOpen: false });
+  const { isOpen: isQueryConsoleOpen, onToggle: toggleQueryConsole, onOpen: openQueryConsole } = useDisclosure({ defaultIsOpen: false });
+  const { consoleDraft } = useGraphQuery();
   const { isOpen: isTimelineOpen, onToggle: toggleTimeline } = useDisclosure({ defaultIsOpen: true });
   const { isOpen: isAlertsOpen, onToggle: toggleAlerts } = useDisclosure({ defaultIsOpen: true });
+  const { isOpen: isPathFinderOpen, onToggle: togglePathFinder, onOpen: openPathFinder } = useDisclosure({ defaultIsOpen: false });
+  const { source: pathSource, target: pathTarget } = usePathFinder();
+  const { isOpen: isAttackPathsOpen, onToggle: toggleAttackPaths } = useDisclosure({ defaultIsOpen: false });
+
+  // Picking a path end from a node menu brings up the path finder
+  useEffect(() => {
+    if (pathSource || pathTarget) openPathFinder();
+  }, [pathSource, pathTarget, openPathFinder]);
+
+  // So does a query opened in the console from the node details panel
+  useEffect(() => {
+    if (!consoleDraft) return;
+    setIsCollapsed(false);
+    openQueryConsole();
+  }, [consoleDraft, openQueryConsole]);
   const { isOpen: isQuickActionsOpen, onToggle: toggleQuickActions } = useDisclosure({ defaultIsOpen: false });
 
   // Theme colors
@@ -285,6 +312,78 @@ const UnifiedControlPanel: React.FC<UnifiedControlPanelProps> = ({
           </Card>
         )}
 
+        {/* Saved Queries Section */}
+        {!isCollapsed && (
+          <Card
+            bg={cardBg}
+            backdropFilter="blur(10px)"
+            border="1px solid"
+            borderColor={borderColor}
+            borderRadius="xl"
+            transition="all 0.2s"
+            _hover={{ transform: 'translateY(-2px)', shadow: 'lg' }}
+          >
+            <CardHeader pb={2} cursor="pointer" onClick={toggleSavedQueries}>
+              <Flex align="center" justify="space-between">
+                <Flex align="center" gap={2}>
+                  <Icon as={FaDatabase} color="brand.500" boxSize={4} />
+                  <Heading size="xs" color={textColor}>
+                    Saved Queries
+                  </Heading>
+                </Flex>
+                <Icon
+                  as={isSavedQueriesOpen ? FaChevronLeft : FaChevronRight}
+                  color={mutedColor}
+                  boxSize={3}
+                  transform={isSavedQueriesOpen ? "rotate(90deg)" : "rotate(0deg)"}
+                  transition="transform 0.2s"
+                />
+              </Flex>
+            </CardHeader>
+            <Collapse in={isSavedQueriesOpen} animateOpacity>
+              <CardBody pt={0}>
+                <SavedQueries />
+              </CardBody>
+            </Collapse>
+          </Card>
+        )}
+
+        {/* Query Console Section */}
+        {!isCollapsed && (
+          <Card
+            bg={cardBg}
+            backdropFilter="blur(10px)"
+            border="1px solid"
+            borderColor={borderColor}
+            borderRadius="xl"
+            transition="all 0.2s"
+            _hover={{ transform: 'translateY(-2px)', shadow: 'lg' }}
+          >
+            <CardHeader pb={2} cursor="pointer" onClick={toggleQueryConsole}>
+              <Flex align="center" justify="space-between">
+                <Flex align="center" gap={2}>
+                  <Icon as={FaTerminal} color="brand.500" boxSize={4} />
+                  <Heading size="xs" color={textColor}>
+                    Query Console
+                  </Heading>
+                </Flex>
+                <Icon
+                  as={isQueryConsoleOpen ? FaChevronLeft : FaChevronRight}
+                  color={mutedColor}
+                  boxSize={3}
+                  transform={isQueryConsoleOpen ? "rotate(90deg)" : "rotate(0deg)"}
+                  transition="transform 0.2s"
+                />
+              </Flex>
+            </CardHeader>
+            <Collapse in={isQueryConsoleOpen} animateOpacity>
+              <CardBody pt={0}>
+                <QueryConsole />
+              </CardBody>
+            </Collapse>
+          </Card>
+        )}
+
         {/* Timeline Controls Section */}
         {!isCollapsed && (
           <Card
@@ -393,6 +492,78 @@ const UnifiedControlPanel: React.FC<UnifiedControlPanelProps> = ({
           </Card>
         )}
 
+        {/* Path Finder Section */}
+        {!isCollapsed && (
+          <Card
+            bg={cardBg}
+            backdropFilter="blur(10px)"
+            border="1px solid"
+            borderColor={borderColor}
+            borderRadius="xl"
+            transition="all 0.2s"
+            _hover={{ transform: 'translateY(-2px)', shadow: 'lg' }}
+          >
+            <CardHeader pb={2} cursor="pointer" onClick={togglePathFinder}>
+              <Flex align="center" justify="space-between">
+                <Flex align="center" gap={2}>
+                  <Icon as={FaRoute} color="cyber.500" boxSize={4} />
+                  <Heading size="xs" color={textColor}>
+                    Path Finder
+                  </Heading>
+                </Flex>
+                <Icon
+                  as={isPathFinderOpen ? FaChevronLeft : FaChevronRight}
+                  color={mutedColor}
+                  boxSize={3}
+                  transform={isPathFinderOpen ? "rotate(90deg)" : "rotate(0deg)"}
+                  transition="transform 0.2s"
+                />
+              </Flex>
+            </CardHeader>
+            <Collapse in={isPathFinderOpen} animateOpacity>
+              <CardBody pt={0}>
+                <PathFinder />
+              </CardBody>
+            </Collapse>
+          </Card>
+        )}
+
+        {/* Attack Paths Section */}
+        {!isCollapsed && (
+          <Card
+            bg={cardBg}
+            backdropFilter="blur(10px)"
+            border="1px solid"
+            borderColor={borderColor}
+            borderRadius="xl"
+            transition="all 0.2s"
+            _hover={{ transform: 'translateY(-2px)', shadow: 'lg' }}
+          >
+            <CardHeader pb={2} cursor="pointer" onClick={toggleAttackPaths}>
+              <Flex align="center" justify="space-between">
+                <Flex align="center" gap={2}>
+                  <Icon as={FaCrosshairs} color="danger.500" boxSize={4} />
+                  <Heading size="xs" color={textColor}>
+                    Attack Paths
+                  </Heading>
+                </Flex>
+                <Icon
+                  as={isAttackPathsOpen ? FaChevronLeft : FaChevronRight}
+                  color={mutedColor}
+                  boxSize={3}
+                  transform={isAttackPathsOpen ? "rotate(90deg)" : "rotate(0deg)"}
+                  transition="transform 0.2s"
+                />
+              </Flex>
+            </CardHeader>
+            <Collapse in={isAttackPathsOpen} animateOpacity>
+              <CardBody pt={0}>
+                <AttackPaths />
+              </CardBody>
+            </Collapse>
+          </Card>
+        )}
+
         {/* Quick Actions Section */}
         {!isCollapsed && (
           <Card
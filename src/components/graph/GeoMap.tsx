@@ -1,4 +1,4 @@
-import React, { useEffect, useState, useRef, useCallback } from 'react';
+import React, { useEffect, useState, useRef, useCallback, useMemo } from 'react';
 import { MapContainer, TileLayer, Marker, Polyline, useMap } from 'react-leaflet';
 import { Icon, DivIcon, LatLngBounds } from 'leaflet';
 import 'leaflet/dist/leaflet.css';
@@ -23,6 +23,9 @@ import {
 } from '@chakra-ui/react';
 import { getIconPath } from '@/lib/iconUtils';
 import { useTimeline } from '@/contexts/TimelineContext';
+import { NodeFocusRequest, useGraphData } from '@/contexts/GraphDataContext';
+import type { CytoscapeElement } from '@/lib/graphElements';
+import { hasTimestamp, parseTimestamp } from '@/lib/timeUtils';
 
 // Define the structure for a node with geographic coordinates
 interface GraphNode {
@@ -33,6 +36,8 @@ interface GraphNode {
   icon: string;
   type?: string;
   timestamp?: number | string; // Add timestamp for time-based filtering
+  valid_from?: number; // Lifetime, see timeUtils
+  valid_to?: number;
 }
 
 // Define the structure for a relationship between nodes
@@ -43,13 +48,61 @@ interface GraphRelationship {
   type: string;
   label?: string;
   timestamp?: number | string; // Add timestamp for time-based filtering
+  valid_from?: number; // Lifetime, see timeUtils
+  valid_to?: number;
 }
 
 // Define regions for coordinate generation
 type Region = 'global' | 'us' | 'eu' | 'africa' | 'asia';
 
+// A node of /api/graph-data as a map node; null when it has no coordinates
+const toGeoNode = (el: any): GraphNode | null => {
+  const lat = parseFloat(el.data?.latitude ?? el.data?.lat);
+  const lon = parseFloat(el.data?.longitude ?? el.data?.lon);
+  if (isNaN(lat) || isNaN(lon)) return null;
+  const nodeType = el.data?.type || 'unknown';
+  const { timestamp, valid_from, valid_to } = el.data ?? {};
+  return {
+    id: String(el.data?.id),
+    label: el.data?.label || `Node ${el.data?.id}`,
+    type: nodeType,
+    latitude: lat,
+    longitude: lon,
+    icon: getIconPath(nodeType),
+    timestamp,
+    valid_from,
+    valid_to,
+  };
+};
+
+const toGeoRelationship = (el: any): GraphRelationship => ({
+  id: String(el.data?.id),
+  source: String(el.data?.source),
+  target: String(el.data?.target),
+  type: el.data?.type || 'default',
+  label: el.data?.label,
+  timestamp: el.data?.timestamp,
+  valid_from: el.data?.valid_from,
+  valid_to: el.data?.valid_to,
+});
+
+// The nodes of `elements` that have coordinates, and the relationships between them
+const toGeoData = (elements: CytoscapeElement[]) => {
+  const nodes = elements
+    .filter(el => el.group === 'nodes')
+    .map(toGeoNode)
+    .filter((node): node is GraphNode => node !== null);
+  const nodeIds = new Set(nodes.map(node => node.id));
+  const relationships = elements
+    .filter(el => el.group === 'edges')
+    .map(toGeoRelationship)
+    .filter(rel => nodeIds.has(rel.source) && nodeIds.has(rel.target));
+  return { nodes, relationships };
+};
+
 // Component to handle map resizing and centering
-const MapController: React.FC<{ nodes: GraphNode[]; isActive?: boolean }> = ({ nodes, isActive }) => {
+// With `keepView`, node changes don't re-center the map (later pages, merged elements, live updates)
+const MapController: React.FC<{ nodes: GraphNode[]; isActive?: boolean; keepView?: boolean }> = ({ nodes, isActive, keepView = false }) => {
   const map = useMap();
   const [hasInitialized, setHasInitialized] = useState(false);
   const [lastNodeCount, setLastNodeCount] = useState(0);
@@ -78,6 +131,10 @@ const MapController: React.FC<{ nodes: GraphNode[]; isActive?: boolean }> = ({ n
   useEffect(() => {
     // Only center if nodes count changed significantly or first time
     if (!hasInitialized || Math.abs(nodes.length - lastNodeCount) > 0) {
+      if (hasInitialized && keepView) {
+        setLastNodeCount(nodes.length);
+        return;
+      }
       console.log('MapController: Initial setup or nodes changed');
       // Invalidate map size when component mounts or updates
       const timer = setTimeout(() => {
@@ -90,7 +147,7 @@ const MapController: React.FC<{ nodes: GraphNode[]; isActive?: boolean }> = ({ n
 
       return () => clearTimeout(timer);
     }
-  }, [map, nodes, hasInitialized, lastNodeCount, centerMapOnNodes]);
+  }, [map, nodes, hasInitialized, lastNodeCount, centerMapOnNodes, keepView]);
 
   // Handle window resize - only invalidate size, don't re-center
   useEffect(() => {
@@ -142,6 +199,45 @@ const MapController: React.FC<{ nodes: GraphNode[]; isActive?: boolean }> = ({ n
   return null;
 };
 
+// Zoom a focused node is shown at, unless the map is zoomed in further
+const FOCUS_ZOOM = 10;
+
+// Pans to the selected nodes that are on the map (fits them when there are several) when
+// the selection changes, or when the tab is shown again, since a hidden map can't pan
+const SelectionFocus: React.FC<{
+  nodes: GraphNode[];
+  focusRequest: NodeFocusRequest | null;
+  isActive?: boolean;
+}> = ({ nodes, focusRequest, isActive }) => {
+  const map = useMap();
+  const handledFocusRef = useRef<number | null>(null);
+  const focusKey = nodes.map(node => `${node.id}@${node.latitude},${node.longitude}`).join('|');
+  const nodesRef = useRef(nodes);
+  nodesRef.current = nodes;
+
+  useEffect(() => {
+    if (!isActive || nodesRef.current.length === 0) return;
+    const timer = setTimeout(() => {
+      const focused = nodesRef.current;
+      if (focused.length === 1) {
+        // A node asked to be focused on (e.g. from the entity search) is zoomed to as well
+        if (focusRequest?.nodeId === focused[0].id && handledFocusRef.current !== focusRequest.at) {
+          handledFocusRef.current = focusRequest.at;
+          map.setView([focused[0].latitude, focused[0].longitude], Math.max(map.getZoom(), FOCUS_ZOOM), { animate: true });
+          return;
+        }
+        map.panTo([focused[0].latitude, focused[0].longitude], { animate: true });
+        return;
+      }
+      const bounds = new LatLngBounds(focused.map(node => [node.latitude, node.longitude] as [number, number]));
+      if (bounds.isValid()) map.fitBounds(bounds, { padding: [40, 40], maxZoom: map.getZoom() });
+    }, 150); // After MapController's size refresh
+    return () => clearTimeout(timer);
+  }, [map, focusKey, focusRequest, isActive]);
+
+  return null;
+};
+
 // Create a fallback icon function that returns a div icon with the node type
 const createFallbackIcon = (nodeType: string = 'unknown') => {
   const normalizedType = nodeType.toLowerCase().trim();
@@ -292,22 +388,36 @@ interface GeoMapProps {
 }
 
 const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
-  // Get timeline context for time-based filtering
+  // Get timeline context; a new window fits the map to the nodes again
   const { startTime, endTime } = useTimeline();
-
-  // Original data (unfiltered)
-  const [allNodes, setAllNodes] = useState<GraphNode[]>([]);
-  const [allRelationships, setAllRelationships] = useState<GraphRelationship[]>([]);
-
-  // Filtered data (displayed on map)
-  const [filteredNodes, setFilteredNodes] = useState<GraphNode[]>([]);
-  const [filteredRelationships, setFilteredRelationships] = useState<GraphRelationship[]>([]);
-  const [isLoading, setIsLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  // The shared graph data (see GraphDataContext), already filtered to the time window
+  const {
+    elements, visibleElements, lastChange, loading: isLoading, error, selectedNodeIds, selectedEdgeIds, selectNodes,
+    focusRequest,
+  } = useGraphData();
+
+  // Sample nodes generated while the graph has no geographic data
+  const [sampleData, setSampleData] = useState<{ nodes: GraphNode[]; relationships: GraphRelationship[] } | null>(null);
+
+  // Original data (unfiltered) and the data alive in the time window (displayed on map)
+  const allNodes = useMemo(() => toGeoData(elements).nodes, [elements]);
+  const visibleData = useMemo(() => toGeoData(visibleElements), [visibleElements]);
+  const showSample = allNodes.length === 0 && sampleData !== null;
+  const filteredNodes = showSample ? sampleData.nodes : visibleData.nodes;
+  const filteredRelationships = showSample ? sampleData.relationships : visibleData.relationships;
+  const selectedIds = useMemo(() => new Set(selectedNodeIds), [selectedNodeIds]);
+  const selectedEdges = useMemo(() => new Set(selectedEdgeIds), [selectedEdgeIds]);
+  const selectedNodes = useMemo(
+    () => (showSample ? [] : filteredNodes.filter(node => selectedIds.has(node.id))),
+    [showSample, filteredNodes, selectedIds]
+  );
   const [selectedRegion, setSelectedRegion] = useState<Region>('global');
   const { isOpen, onOpen, onClose } = useDisclosure();
   const mapRef = useRef<L.Map | null>(null);
   const [mapKey, setMapKey] = useState(0);
+  // Set while the shown nodes follow additions to the loaded graph, so the map stays where
+  // the user put it; a new graph or time window fits the map to the nodes again
+  const [keepView, setKeepView] = useState(false);
 
   // Tooltip state
   const [tooltip, setTooltip] = useState<{
@@ -391,45 +501,25 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
     return { x, y };
   }, []);
 
-  // Helper function to parse timestamp
-  const parseTimestamp = (timestamp: number | string | undefined): number => {
-    if (!timestamp) return 0;
-    if (typeof timestamp === 'number') return timestamp;
-    return new Date(timestamp).getTime();
-  };
-
-  // Filter nodes and relationships based on the time range
   useEffect(() => {
-    // Only filter if we have data and valid time range
-    if (allNodes.length === 0 || !startTime || !endTime || startTime >= endTime) {
-      return;
-    }
-
-    // Filter nodes based on time range
-    const timeFilteredNodes = allNodes.filter(node => {
-      if (!node.timestamp) return true; // Include nodes without timestamp
-      const nodeTime = parseTimestamp(node.timestamp);
-      return nodeTime >= startTime && nodeTime <= endTime;
-    });
+    setKeepView(lastChange !== 'load');
+  }, [elements, lastChange]);
 
-    // Filter relationships based on time range
-    const timeFilteredRelationships = allRelationships.filter(rel => {
-      if (!rel.timestamp) return true; // Include relationships without timestamp
-      const relTime = parseTimestamp(rel.timestamp);
-      return relTime >= startTime && relTime <= endTime;
-    });
-
-    // Also filter relationships to only include those where both nodes are visible
-    const visibleNodeIds = new Set(timeFilteredNodes.map(n => n.id));
-    const finalFilteredRelationships = timeFilteredRelationships.filter(rel =>
-      visibleNodeIds.has(rel.source) && visibleNodeIds.has(rel.target)
-    );
+  useEffect(() => {
+    setKeepView(false);
+  }, [startTime, endTime]);
 
-    setFilteredNodes(timeFilteredNodes);
-    setFilteredRelationships(finalFilteredRelationships);
+  // Offer sample nodes when the loaded graph has no geographic data
+  useEffect(() => {
+    if (!isLoading && !error && elements.length > 0 && allNodes.length === 0 && !sampleData) {
+      console.log('GeoMap: no nodes with geographic data found');
+      onOpen();
+    }
+  }, [isLoading, error, elements.length, allNodes.length]);
 
-    console.log(`GeoMap: Filtered to ${timeFilteredNodes.length} nodes and ${finalFilteredRelationships.length} relationships for time range ${new Date(startTime).toISOString()} - ${new Date(endTime).toISOString()}`);
-  }, [allNodes, allRelationships, startTime, endTime]);
+  useEffect(() => {
+    console.log(`GeoMap: ${filteredNodes.length} nodes and ${filteredRelationships.length} relationships with coordinates for time range ${new Date(startTime).toISOString()} - ${new Date(endTime).toISOString()}`);
+  }, [filteredNodes.length, filteredRelationships.length]);
 
   // Generate coordinates based on selected region using land-based coordinates
   const generateRegionalCoords = (region: Region) => {
@@ -492,37 +582,9 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
     console.log(`Generated ${sampleNodes.length} sample nodes in the ${selectedRegion} region`);
     console.log(`Generated ${sampleRelationships.length} sample relationships`);
 
-    // Store in both all and filtered state
-    setAllNodes(sampleNodes);
-    setAllRelationships(sampleRelationships);
-    setFilteredNodes(sampleNodes);
-    setFilteredRelationships(sampleRelationships);
-    onClose();
-  };
-
-  // Process nodes and apply coordinates based on selected region
-  const processNodesWithRegion = () => {
-    if (allNodes.length === 0) {
-      // If there are no nodes without coordinates but also no nodes with coordinates,
-      // generate sample nodes
-      generateSampleNodes();
-      return;
-    }
-
-    const processedNodes = [...allNodes];
-
-    // Add coordinates to nodes without them
-    processedNodes.forEach(node => {
-      if (!node.latitude || !node.longitude) {
-        const coords = generateRegionalCoords(selectedRegion);
-        node.latitude = coords.latitude;
-        node.longitude = coords.longitude;
-      }
-    });
-
-    console.log(`Processed ${processedNodes.length} nodes with missing coordinates using ${selectedRegion} region`);
-    setAllNodes(processedNodes);
-    setFilteredNodes(processedNodes);
+    // Shown until the loaded graph has geographic data
+    setSampleData({ nodes: sampleNodes, relationships: sampleRelationships });
+    setKeepView(false);
     onClose();
   };
 
@@ -539,122 +601,6 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
     }
   }, [isActive, allNodes.length, isLoading, error]);
 
-  // Fetch data from API - only once on mount
-  useEffect(() => {
-    let isMounted = true;
-
-    const fetchData = async () => {
-      // Prevent multiple simultaneous fetches
-      if (isLoading) {
-        console.log('GeoMap: Already loading, skipping fetch');
-        return;
-      }
-
-      setIsLoading(true);
-      setError(null);
-
-      try {
-        // Use the same Neo4j dataset as the Graph Topology view
-        console.log('GeoMap: fetching data from /api/graph-data');
-        const response = await fetch('/api/graph-data?all=true');
-
-        if (!response.ok) {
-          const errorText = await response.text();
-          console.error('API error response:', errorText);
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
-
-        const data = await response.json();
-        console.log('GeoMap: received graph data:', data);
-
-        // Check if component is still mounted
-        if (!isMounted) return;
-
-        const elements = Array.isArray(data.elements) ? data.elements : [];
-        const nodesWithCoords: GraphNode[] = [];
-        const nodeMap = new Map<string, GraphNode>();
-
-        elements.forEach((el: any) => {
-          if (el.group === 'nodes') {
-            const lat = parseFloat(el.data?.latitude ?? el.data?.lat);
-            const lon = parseFloat(el.data?.longitude ?? el.data?.lon);
-            const nodeType = el.data?.type || 'unknown';
-            const icon = getIconPath(nodeType);
-            const timestamp = el.data?.timestamp;
-
-            if (!isNaN(lat) && !isNaN(lon)) {
-              const node: GraphNode = {
-                id: String(el.data?.id),
-                label: el.data?.label || `Node ${el.data?.id}`,
-                type: nodeType,
-                latitude: lat,
-                longitude: lon,
-                icon,
-                timestamp,
-              };
-              nodesWithCoords.push(node);
-              nodeMap.set(node.id, node);
-            }
-          }
-        });
-
-        if (nodesWithCoords.length === 0) {
-          console.log('GeoMap: no nodes with geographic data found');
-          if (isMounted) {
-            setAllNodes([]);
-            setFilteredNodes([]);
-            setIsLoading(false);
-            onOpen();
-          }
-          return;
-        }
-
-        const relationships: GraphRelationship[] = [];
-        elements.forEach((el: any) => {
-          if (el.group === 'edges') {
-            const source = String(el.data?.source);
-            const target = String(el.data?.target);
-            if (nodeMap.has(source) && nodeMap.has(target)) {
-              relationships.push({
-                id: String(el.data?.id),
-                source,
-                target,
-                type: el.data?.type || 'default',
-                label: el.data?.label,
-                timestamp: el.data?.timestamp,
-              });
-            }
-          }
-        });
-
-        console.log(`GeoMap: found ${nodesWithCoords.length} nodes and ${relationships.length} relationships with coordinates`);
-
-        if (isMounted) {
-          setAllNodes(nodesWithCoords);
-          setFilteredNodes(nodesWithCoords);
-          setAllRelationships(relationships);
-          setFilteredRelationships(relationships);
-          setIsLoading(false);
-        }
-      } catch (e: any) {
-        console.error('GeoMap: failed to fetch graph data:', e);
-        if (isMounted) {
-          setError(e.message || 'An unknown error occurred');
-          setIsLoading(false);
-        }
-      }
-    };
-
-    // Only fetch if we don't have data yet and we're not already loading
-    if (allNodes.length === 0 && !error && !isLoading) {
-      fetchData();
-    }
-
-    return () => {
-      isMounted = false;
-    };
-  }, []); // Empty dependency array - only run once on mount
-
   // Find a node by ID
   const findNodeById = (id: string): GraphNode | undefined => {
     return filteredNodes.find(node => node.id === id);
@@ -673,7 +619,9 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
         [targetNode.latitude, targetNode.longitude]
       ];
 
-      const color = getRelationshipColor(rel.type);
+      // Relationships of the selected nodes stand out
+      const isSelected = !showSample && selectedEdges.has(rel.id);
+      const color = isSelected ? '#3182ce' : getRelationshipColor(rel.type);
 
       return (
         <Polyline
@@ -681,9 +629,9 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
           positions={positions}
           pathOptions={{
             color: color,
-            weight: 2,
-            opacity: 0.7,
-            dashArray: rel.type === 'default' ? '5, 5' : undefined
+            weight: isSelected ? 4 : 2,
+            opacity: isSelected ? 1 : 0.7,
+            dashArray: rel.type === 'default' && !isSelected ? '5, 5' : undefined
           }}
           eventHandlers={{
             mouseover: (e) => {
@@ -806,7 +754,8 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
         maxBoundsViscosity={1.0}
       >
         {/* Map Controller for resizing and centering */}
-        <MapController nodes={filteredNodes} isActive={isActive} />
+        <MapController nodes={filteredNodes} isActive={isActive} keepView={keepView} />
+        <SelectionFocus nodes={selectedNodes} focusRequest={focusRequest} isActive={isActive} />
 
         <TileLayer
           url="https://{s}.tile.openstreetmap.org/{z}/{x}/{y}.png"
@@ -831,8 +780,10 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
               iconSize: [32, 32],
               iconAnchor: [16, 16],
               popupAnchor: [0, -16],
-              // Add error handling for missing images
-              className: 'leaflet-marker-icon-with-fallback'
+              // Add error handling for missing images; the selected node stands out
+              className: selectedIds.has(node.id)
+                ? 'leaflet-marker-icon-with-fallback leaflet-marker-selected'
+                : 'leaflet-marker-icon-with-fallback'
             });
           } catch (e) {
             console.warn(`Failed to create icon for node ${node.id} (type: ${node.type}), using fallback`, e);
@@ -863,7 +814,7 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
                   const content = [
                     node.type && `Type: ${node.type}`,
                     `Lat: ${node.latitude.toFixed(4)}, Lon: ${node.longitude.toFixed(4)}`,
-                    node.timestamp && `Time: ${new Date(parseTimestamp(node.timestamp)).toLocaleString()}`,
+                    hasTimestamp(node.timestamp) ? `Time: ${new Date(parseTimestamp(node.timestamp) ?? 0).toLocaleString()}` : 'Time: always present',
                     `Icon: ${node.icon.split('/').pop()}`
                   ].filter(Boolean).join(' | ');
 
@@ -877,6 +828,10 @@ const GeoMap: React.FC<GeoMapProps> = ({ isActive = false }) => {
                 },
                 mouseout: () => {
                   setTooltip(prev => ({ ...prev, visible: false }));
+                },
+                // Select the node (in every view); sample nodes aren't part of the graph
+                click: () => {
+                  if (!showSample) selectNodes([node.id]);
                 }
               }}
             />
@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import { Box, VStack, HStack, Text, Button, Select, Switch, FormControl, FormLabel, CloseButton, Tag } from '@chakra-ui/react';
+import {
+  AlgorithmElement,
+  GRAPH_ALGORITHMS,
+  GraphAlgorithm,
+  GraphAlgorithmResult,
+  buildAdjacency,
+  groupColor,
+  groupName,
+  runGraphAlgorithm,
+} from '@/lib/graphAlgorithms';
+
+// How a view shows the result of the last run
+export interface GraphAlgorithmView {
+  result: GraphAlgorithmResult;
+  sizeNodes: boolean;     // Centralities: node size follows the score
+  colorNodes: boolean;    // Score ramp for centralities, one color per group for partitions
+  groupByResult: boolean; // Partitions: group nodes by community / component instead of type
+}
+
+interface GraphAlgorithmsPanelProps {
+  getElements: () => AlgorithmElement[]; // The subgraph the view currently shows
+  onChange: (view: GraphAlgorithmView | null) => void;
+  onClose: () => void;
+}
+
+const TOP_ENTRIES = 5;
+
+// Runs a centrality, community detection or connected components on the subgraph loaded
+// in a graph view, lists the top nodes or largest groups, and lets the view size, color
+// or group its nodes by the result
+const GraphAlgorithmsPanel: React.FC<GraphAlgorithmsPanelProps> = ({ getElements, onChange, onClose }) => {
+  const [algorithm, setAlgorithm] = useState<GraphAlgorithm>('degree');
+  const [result, setResult] = useState<GraphAlgorithmResult | null>(null);
+  const [labels, setLabels] = useState<Map<string, string>>(new Map());
+  const [sizeNodes, setSizeNodes] = useState<boolean>(true);
+  const [colorNodes, setColorNodes] = useState<boolean>(true);
+  const [groupByResult, setGroupByResult] = useState<boolean>(false);
+
+  // Memoised so a new onChange from the parent re-sends the same view rather than a copy
+  const view = useMemo<GraphAlgorithmView | null>(
+    () => result ? { result, sizeNodes, colorNodes, groupByResult: groupByResult && result.kind === 'partition' } : null,
+    [result, sizeNodes, colorNodes, groupByResult]
+  );
+
+  useEffect(() => {
+    onChange(view);
+  }, [view, onChange]);
+
+  const run = () => {
+    const elements = getElements();
+    setLabels(new Map(elements
+      .filter(el => el.group === 'nodes')
+      .map(el => [String(el.data.id), String(el.data.label ?? el.data.id)])));
+    setResult(runGraphAlgorithm(algorithm, buildAdjacency(elements)));
+  };
+
+  const clear = () => {
+    setResult(null);
+    setGroupByResult(false);
+  };
+
+  const nodeCount = result ? Object.keys(result.values).length : 0;
+
+  const topNodes = result && result.kind === 'centrality'
+    ? Object.entries(result.values).sort((a, b) => b[1] - a[1]).slice(0, TOP_ENTRIES)
+    : [];
+
+  const groupSizes = result && result.kind === 'partition'
+    ? Object.values(result.values).reduce((sizes, group) => {
+        sizes[group] = (sizes[group] ?? 0) + 1;
+        return sizes;
+      }, [] as number[])
+    : [];
+
+  const formatScore = (value: number) => (result?.algorithm === 'degree' ? String(value) : value.toFixed(result?.algorithm === 'pagerank' ? 4 : 1));
+
+  return (
+    <Box
+      bg="rgba(255, 255, 255, 0.95)"
+      backdropFilter="blur(10px)"
+      p={3}
+      borderRadius="xl"
+      boxShadow="lg"
+      border="1px solid"
+      borderColor="gray.200"
+      width="260px"
+      fontSize="sm"
+    >
+      <VStack spacing={3} align="stretch">
+        <HStack justify="space-between">
+          <Text fontSize="sm" fontWeight="semibold">Graph algorithms</Text>
+          <CloseButton size="sm" onClick={onClose} />
+        </HStack>
+
+        <HStack>
+          <Select size="sm" value={algorithm} onChange={e => setAlgorithm(e.target.value as GraphAlgorithm)}>
+            {GRAPH_ALGORITHMS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </Select>
+          <Button size="sm" colorScheme="brand" onClick={run}>Run</Button>
+        </HStack>
+
+        {result && (
+          <>
+            <Text fontSize="xs" color="gray.500">
+              {GRAPH_ALGORITHMS.find(option => option.value === result.algorithm)!.label} on {nodeCount} node{nodeCount === 1 ? '' : 's'}
+              {result.kind === 'partition' && ` · ${result.groupCount} group${result.groupCount === 1 ? '' : 's'}`}
+              {result.sampled && ' · sampled'}
+            </Text>
+
+            <VStack spacing={1} align="stretch" maxHeight="160px" overflowY="auto">
+              {topNodes.map(([id, value]) => (
+                <HStack key={id} justify="space-between">
+                  <Text fontSize="xs" noOfLines={1}>{labels.get(id) ?? id}</Text>
+                  <Tag size="sm">{formatScore(value)}</Tag>
+                </HStack>
+              ))}
+              {groupSizes.slice(0, TOP_ENTRIES).map((size, group) => (
+                <HStack key={group} justify="space-between">
+                  <HStack spacing={2}>
+                    <Box width="10px" height="10px" borderRadius="full" bg={groupColor(group)} />
+                    <Text fontSize="xs">{groupName(result, group)}</Text>
+                  </HStack>
+                  <Tag size="sm">{size} node{size === 1 ? '' : 's'}</Tag>
+                </HStack>
+              ))}
+              {groupSizes.length > TOP_ENTRIES && (
+                <Text fontSize="xs" color="gray.500">and {groupSizes.length - TOP_ENTRIES} smaller groups</Text>
+              )}
+            </VStack>
+
+            {result.kind === 'centrality' && (
+              <FormControl display="flex" alignItems="center">
+                <Switch id="algorithm-size" size="sm" isChecked={sizeNodes} onChange={e => setSizeNodes(e.target.checked)} />
+                <FormLabel htmlFor="algorithm-size" fontSize="xs" ml={2} mb={0}>Size nodes by score</FormLabel>
+              </FormControl>
+            )}
+            <FormControl display="flex" alignItems="center">
+              <Switch id="algorithm-color" size="sm" isChecked={colorNodes} onChange={e => setColorNodes(e.target.checked)} />
+              <FormLabel htmlFor="algorithm-color" fontSize="xs" ml={2} mb={0}>
+                {result.kind === 'centrality' ? 'Color nodes by score' : 'Color nodes by group'}
+              </FormLabel>
+            </FormControl>
+            {result.kind === 'partition' && (
+              <FormControl display="flex" alignItems="center">
+                <Switch id="algorithm-group" size="sm" isChecked={groupByResult} onChange={e => setGroupByResult(e.target.checked)} />
+                <FormLabel htmlFor="algorithm-group" fontSize="xs" ml={2} mb={0}>
+                  Group by {result.algorithm === 'louvain' ? 'community' : 'component'} instead of type
+                </FormLabel>
+              </FormControl>
+            )}
+
+            <Button size="xs" variant="ghost" onClick={clear}>Clear result</Button>
+          </>
+        )}
+      </VStack>
+    </Box>
+  );
+};
+
+export default GraphAlgorithmsPanel;
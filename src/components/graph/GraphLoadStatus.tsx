@@ -0,0 +1,33 @@
+"use client";
+
+import React from 'react';
+import { HStack, Text, Button, Spinner } from '@chakra-ui/react';
+import type { GraphPagesProgress } from '@/contexts/GraphDataContext';
+
+interface GraphLoadStatusProps {
+  progress: GraphPagesProgress;
+  loadingMore: boolean;
+  onLoadMore: () => void;
+}
+
+// "Showing X of Y nodes" while the graph is only partly loaded; hidden once it's complete
+const GraphLoadStatus: React.FC<GraphLoadStatusProps> = ({ progress, loadingMore, onLoadMore }) => {
+  if (!progress.truncated && !loadingMore) return null;
+
+  return (
+    <HStack spacing={2} fontSize="xs" px={2} py={1} bg="orange.50" borderWidth="1px" borderColor="orange.200" borderRadius="md">
+      <Text color="orange.700">
+        Showing {progress.loadedCount.toLocaleString()} of {progress.totalCount.toLocaleString()} nodes
+      </Text>
+      {loadingMore ? (
+        <Spinner size="xs" color="orange.500" />
+      ) : (
+        <Button size="xs" variant="outline" colorScheme="orange" onClick={onLoadMore}>
+          Load more
+        </Button>
+      )}
+    </HStack>
+  );
+};
+
+export default GraphLoadStatus;
@@ -3,10 +3,21 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import CytoscapeComponent from 'react-cytoscapejs';
 import { Box, Spinner, Text, useToast, IconButton, Tooltip, HStack, Select, VStack, Switch, FormControl, FormLabel } from '@chakra-ui/react';
-import { FaCog, FaBolt, FaProjectDiagram, FaLayerGroup } from 'react-icons/fa';
+import { FaCog, FaBolt, FaProjectDiagram, FaLayerGroup, FaExclamationTriangle, FaChartPie } from 'react-icons/fa';
 import cytoscape from 'cytoscape'; // Import core cytoscape
-import { getIconPath } from '@/lib/iconUtils';
 import { useTimeline } from '@/contexts/TimelineContext';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+import { useGraphHighlight } from '@/contexts/GraphHighlightContext';
+import { useGraphData } from '@/contexts/GraphDataContext';
+import { RiskTrend } from '@/components/dashboard/RiskSparkline';
+import GraphLoadStatus from '@/components/graph/GraphLoadStatus';
+import HiddenNodesStatus from '@/components/graph/HiddenNodesStatus';
+import { ExpansionOptions, useNodeExpansion } from '@/hooks/use-node-expansion';
+import NodeContextMenu, { NodeContextMenuTarget } from '@/components/graph/NodeContextMenu';
+import { placeNewNodes, ringPositions } from '@/lib/graphMerge';
+import type { CytoscapeElement } from '@/lib/graphElements';
+import GraphAlgorithmsPanel, { GraphAlgorithmView } from '@/components/graph/GraphAlgorithmsPanel';
+import { GraphAlgorithmResult, algorithmColor, groupName, relativeScore } from '@/lib/graphAlgorithms';
 
 // Import layout extensions
 import dagre from 'cytoscape-dagre';
@@ -29,9 +40,8 @@ cytoscape.use(coseBilkent);
 // }
 
 interface GraphVisualizationProps {
-  startTime: number; // Timestamp in milliseconds
+  startTime: number; // Window for neighbourhood expansion, in milliseconds
   endTime: number;   // Timestamp in milliseconds
-  onDataRangeChange?: (min: number, max: number) => void;
 }
 
 // Layout options with descriptions
@@ -120,34 +130,44 @@ function normalizeElements(elements: cytoscape.ElementDefinition[]) {
   }
 }
 
-const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endTime, onDataRangeChange }) => {
+const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endTime }) => {
   // Get timeline context for playing state
   const { isPlaying } = useTimeline();
-
-  // Default safe values
-  const safeCurrentTime = new Date('2023-12-31T23:59:59.999Z').getTime();
-  const safeStartTime = new Date('2023-12-30T00:00:00.000Z').getTime();
+  const { queryResult } = useGraphQuery();
+  const { highlight } = useGraphHighlight();
+  // The shared graph data (see GraphDataContext): loaded elements, the ones alive in the
+  // time window, and the selection
+  const {
+    elements: dataElements, visibleElements, lastChange, progress, loading, loadingMore, error,
+    loadMore, addElements, selectedNodeIds, selectedEdgeIds, selectNodes, clearSelection,
+    hiddenNodeIds, showHiddenNodes, pinnedNodeIds, focusRequest,
+  } = useGraphData();
+  const allElements = dataElements as cytoscape.ElementDefinition[]; // All loaded elements
+  const elements = visibleElements as cytoscape.ElementDefinition[]; // Elements filtered by time range
+  const originalElements = elements; // Ungrouped elements, for grouping
+  const { expand } = useNodeExpansion(startTime, endTime);
 
   // Initialize all state variables at the top
-  const [allElements, setAllElements] = useState<cytoscape.ElementDefinition[]>([]); // All elements from the database
-  const [elements, setElements] = useState<cytoscape.ElementDefinition[]>([]); // Elements filtered by time range
   const [currentElements, setCurrentElements] = useState<cytoscape.ElementDefinition[]>([]); // Elements currently displayed
-  const [loading, setLoading] = useState<boolean>(true);
-  const [error, setError] = useState<string | null>(null);
   const [animationEnabled, setAnimationEnabled] = useState<boolean>(true);
   const [transitionSpeed, setTransitionSpeed] = useState<number>(500); // Transition speed in ms
-  const [initialDataFetched, setInitialDataFetched] = useState<boolean>(false);
   const [isInitializing, setIsInitializing] = useState<boolean>(true); // Flag to prevent animations during initial load
-  const [lastFetchParams, setLastFetchParams] = useState<{ start: number, end: number } | null>(null);
-  const [dataFetchAttempted, setDataFetchAttempted] = useState<boolean>(false); // Flag to prevent multiple fetch attempts
   const [selectedLayout, setSelectedLayout] = useState<string>('breadthfirst'); // Current layout selection - default to breadthfirst for better initial overview
 
   // Node grouping state
   const [groupingEnabled, setGroupingEnabled] = useState<boolean>(false);
   const [expandedGroups, setExpandedGroups] = useState<Set<string>>(new Set());
-  const [originalElements, setOriginalElements] = useState<cytoscape.ElementDefinition[]>([]); // Store original ungrouped elements
   const [groupedElements, setGroupedElements] = useState<cytoscape.ElementDefinition[]>([]); // Store grouped elements
 
+  // Color nodes by their computed risk score instead of their type
+  const [riskColorsEnabled, setRiskColorsEnabled] = useState<boolean>(false);
+
+  // Graph algorithms panel, how its last result is shown, and the partition nodes are
+  // grouped by instead of their type (read by the grouping callbacks)
+  const [algorithmsOpen, setAlgorithmsOpen] = useState<boolean>(false);
+  const [algorithmView, setAlgorithmView] = useState<GraphAlgorithmView | null>(null);
+  const groupingPartitionRef = useRef<GraphAlgorithmResult | null>(null);
+
   // Manual positioning state
   const [manualPositioningMode, setManualPositioningMode] = useState<boolean>(false);
   const [userHasDraggedNodes, setUserHasDraggedNodes] = useState<boolean>(false);
@@ -159,6 +179,9 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
   // Track user-initiated layout changes to prevent premature manual mode disabling
   const layoutChangeInProgressRef = useRef<boolean>(false);
 
+  // Right-click menu on a node
+  const [contextMenu, setContextMenu] = useState<NodeContextMenuTarget | null>(null);
+
   // Tooltip state
   const [tooltip, setTooltip] = useState<{
     visible: boolean;
@@ -166,6 +189,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     y: number;
     content: string;
     title: string;
+    riskUid?: string; // Asset whose risk trend is shown under the content
   }>({
     visible: false,
     x: 0,
@@ -177,7 +201,6 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
   // Initialize refs
   const cyRef = useRef<cytoscape.Core | null>(null); // Ref to store cytoscape instance
   const nodePositionsRef = useRef<Record<string, { x: number, y: number }>>({});
-  const onDataRangeChangeRef = useRef(onDataRangeChange); // Store callback in ref to prevent dependency loops
   const currentElementsRef = useRef<cytoscape.ElementDefinition[]>([]); // Ref to track current elements without causing re-renders
 
   // Initialize hooks
@@ -254,11 +277,6 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     return { x, y };
   }, []);
 
-  // Update the ref when the callback changes
-  useEffect(() => {
-    onDataRangeChangeRef.current = onDataRangeChange;
-  }, [onDataRangeChange]);
-
   // Keep the ref in sync with the state
   useEffect(() => {
     currentElementsRef.current = currentElements;
@@ -434,7 +452,15 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     }
   }, [isInitializing, animationEnabled, isPlaying, manualPositioningMode]);
 
-  // Node grouping functions
+  // Node grouping functions. Nodes are grouped by type, or by community / component
+  // when the graph algorithms panel groups by its result.
+  const groupKeyOf = useCallback((data: Record<string, any>): string => {
+    const partition = groupingPartitionRef.current;
+    if (!partition) return data.type || 'Unknown';
+    const group = partition.values[String(data.id)];
+    return group === undefined ? 'Not analysed' : groupName(partition, group);
+  }, []);
+
   const createGroupNode = useCallback((type: string, nodes: cytoscape.ElementDefinition[], count: number) => {
     const groupId = `group-${type}`;
     return {
@@ -458,10 +484,10 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     const nodes = elements.filter(el => el.group === 'nodes');
     const edges = elements.filter(el => el.group === 'edges');
 
-    // Group nodes by type
+    // Group nodes by type (or by the group of an algorithm's partition)
     const nodesByType = new Map<string, cytoscape.ElementDefinition[]>();
     nodes.forEach(node => {
-      const type = node.data.type || 'Unknown';
+      const type = groupKeyOf(node.data);
       if (!nodesByType.has(type)) {
         nodesByType.set(type, []);
       }
@@ -506,10 +532,11 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
       }
 
       // Create a consistent edge key
-      const edgeKey = `${effectiveSource}-${effectiveTarget}`;
-      const reverseKey = `${effectiveTarget}-${effectiveSource}`;
-      const key = edgeKey < reverseKey ? edgeKey : reverseKey;
-      const [source, target] = key.split('-');
+      // Group ids contain dashes, so keep the ends rather than splitting them out of the key
+      const [source, target] = effectiveSource < effectiveTarget
+        ? [effectiveSource, effectiveTarget]
+        : [effectiveTarget, effectiveSource];
+      const key = `${source}|${target}`;
 
       if (!groupEdges.has(key)) {
         groupEdges.set(key, {
@@ -549,7 +576,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
     console.log(`Created ${groupedElements.filter(el => el.group === 'nodes').length} nodes and ${groupedElements.filter(el => el.group === 'edges').length} edges in grouped elements`);
     return groupedElements;
-  }, [createGroupNode]);
+  }, [createGroupNode, groupKeyOf]);
 
   // Create mixed elements for scenarios where some groups are expanded and others are collapsed
   const createMixedGroupedElements = useCallback((elements: cytoscape.ElementDefinition[], expandedGroupTypes: Set<string>) => {
@@ -558,10 +585,10 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     const nodes = elements.filter(el => el.group === 'nodes');
     const edges = elements.filter(el => el.group === 'edges');
 
-    // Group nodes by type
+    // Group nodes by type (or by the group of an algorithm's partition)
     const nodesByType = new Map<string, cytoscape.ElementDefinition[]>();
     nodes.forEach(node => {
-      const type = node.data.type || 'Unknown';
+      const type = groupKeyOf(node.data);
       if (!nodesByType.has(type)) {
         nodesByType.set(type, []);
       }
@@ -625,10 +652,11 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
       }
 
       // At least one is a group, create aggregated edge
-      const edgeKey = `${effectiveSource}-${effectiveTarget}`;
-      const reverseKey = `${effectiveTarget}-${effectiveSource}`;
-      const key = edgeKey < reverseKey ? edgeKey : reverseKey;
-      const [source, target] = key.split('-');
+      // Group ids contain dashes, so keep the ends rather than splitting them out of the key
+      const [source, target] = effectiveSource < effectiveTarget
+        ? [effectiveSource, effectiveTarget]
+        : [effectiveTarget, effectiveSource];
+      const key = `${source}|${target}`;
 
       if (!effectiveEdges.has(key)) {
         effectiveEdges.set(key, {
@@ -668,7 +696,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
     console.log(`Created mixed elements: ${mixedElements.filter(el => el.group === 'nodes').length} nodes and ${mixedElements.filter(el => el.group === 'edges').length} edges`);
     return mixedElements;
-  }, [createGroupNode]);
+  }, [createGroupNode, groupKeyOf]);
 
   // Store and apply node positions - MOVED UP to fix reference error
   const storeNodePositions = useCallback(() => {
@@ -748,7 +776,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
     // Find all nodes of this type in original elements
     const nodesToExpand = originalElements.filter(el =>
-      el.group === 'nodes' && el.data.type === groupType
+      el.group === 'nodes' && groupKeyOf(el.data) === groupType
     );
 
     if (nodesToExpand.length === 0) {
@@ -865,7 +893,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         // Re-add the group node if it was removed
         if (!cy.getElementById(groupId).length) {
           const originalNodes = originalElements.filter(el =>
-            el.group === 'nodes' && el.data.type === groupType
+            el.group === 'nodes' && groupKeyOf(el.data) === groupType
           );
           const groupNode = createGroupNode(groupType, originalNodes, originalNodes.length);
           const addedGroup = cy.add(groupNode);
@@ -875,7 +903,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         console.error('Error restoring group after failed expansion:', restoreError);
       }
     }
-  }, [originalElements, animationEnabled, isPlaying, selectedLayout, createGroupNode, manualPositioningMode, expandedGroups, createMixedGroupedElements, applyStoredPositions]);
+  }, [originalElements, animationEnabled, isPlaying, selectedLayout, createGroupNode, groupKeyOf, manualPositioningMode, expandedGroups, createMixedGroupedElements, applyStoredPositions]);
 
   const collapseGroup = useCallback((groupType: string) => {
     const cy = cyRef.current;
@@ -883,7 +911,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
     // Find all nodes of this type currently in the graph
     const nodesToCollapse = cy.nodes().filter(node =>
-      node.data('type') === groupType && !node.data('isGroup')
+      groupKeyOf(node.data()) === groupType && !node.data('isGroup')
     );
 
     if (nodesToCollapse.length === 0) {
@@ -913,7 +941,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
       // Create and add the group node
       const originalNodes = originalElements.filter(el =>
-        el.group === 'nodes' && el.data.type === groupType
+        el.group === 'nodes' && groupKeyOf(el.data) === groupType
       );
       const groupNode = createGroupNode(groupType, originalNodes, originalNodes.length);
 
@@ -994,7 +1022,40 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         return newSet;
       });
     }
-  }, [originalElements, createGroupNode, createGroupedElements, animationEnabled, isPlaying, selectedLayout, manualPositioningMode, expandedGroups, createMixedGroupedElements, applyStoredPositions]);
+  }, [originalElements, createGroupNode, createGroupedElements, groupKeyOf, animationEnabled, isPlaying, selectedLayout, manualPositioningMode, expandedGroups, createMixedGroupedElements, applyStoredPositions]);
+
+  // Show the grouped elements in place of the displayed ones and lay them out again
+  const applyGrouping = useCallback(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
+
+    const grouped = createGroupedElements(originalElements);
+    setGroupedElements(grouped);
+
+    // Clear current graph and add grouped elements
+    cy.elements().remove();
+    cy.add(normalizeElements(grouped));
+
+    // Reset expanded groups
+    setExpandedGroups(new Set());
+
+    // Apply layout (only if not in manual positioning mode)
+    if (!manualPositioningMode) {
+      setTimeout(() => {
+        if (cy && !cy.destroyed()) {
+          console.log('Applying layout after enabling grouping');
+          const layout = cy.layout({
+            ...getLayoutConfig(selectedLayout),
+            animate: animationEnabled && isPlaying,
+            animationDuration: animationEnabled && isPlaying ? 800 : 0
+          });
+          layout.run();
+        }
+      }, 100);
+    } else {
+      console.log('Skipping layout after enabling grouping (manual positioning mode)');
+    }
+  }, [originalElements, createGroupedElements, selectedLayout, animationEnabled, isPlaying, manualPositioningMode]);
 
   // Toggle grouping function
   const toggleGrouping = useCallback(() => {
@@ -1006,32 +1067,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
     if (newGroupingState) {
       // Enable grouping - create grouped elements
-      const grouped = createGroupedElements(originalElements);
-      setGroupedElements(grouped);
-
-      // Clear current graph and add grouped elements
-      cy.elements().remove();
-      cy.add(normalizeElements(grouped));
-
-      // Reset expanded groups
-      setExpandedGroups(new Set());
-
-      // Apply layout (only if not in manual positioning mode)
-      if (!manualPositioningMode) {
-        setTimeout(() => {
-          if (cy && !cy.destroyed()) {
-            console.log('Applying layout after enabling grouping');
-            const layout = cy.layout({
-              ...getLayoutConfig(selectedLayout),
-              animate: animationEnabled && isPlaying,
-              animationDuration: animationEnabled && isPlaying ? 800 : 0
-            });
-            layout.run();
-          }
-        }, 100);
-      } else {
-        console.log('Skipping layout after enabling grouping (manual positioning mode)');
-      }
+      applyGrouping();
     } else {
       // Disable grouping - restore original elements
       cy.elements().remove();
@@ -1057,7 +1093,23 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         console.log('Skipping layout after disabling grouping (manual positioning mode)');
       }
     }
-  }, [groupingEnabled, originalElements, createGroupedElements, selectedLayout, animationEnabled, isPlaying, manualPositioningMode]);
+  }, [groupingEnabled, originalElements, applyGrouping, selectedLayout, animationEnabled, isPlaying, manualPositioningMode]);
+
+  // Show a result of the graph algorithms panel. Grouping by a partition regroups the
+  // graph, switching grouping on if needed; dropping it goes back to grouping by type.
+  // The handler only stores the view so the panel gets a callback that never changes.
+  const handleAlgorithmView = useCallback((view: GraphAlgorithmView | null) => {
+    setAlgorithmView(view);
+  }, []);
+
+  useEffect(() => {
+    const partition = algorithmView?.groupByResult ? algorithmView.result : null;
+    if (partition === groupingPartitionRef.current) return;
+    groupingPartitionRef.current = partition;
+    if (!groupingEnabled && !partition) return;
+    setGroupingEnabled(true);
+    applyGrouping();
+  }, [algorithmView, groupingEnabled, applyGrouping]);
 
   // Update grouped elements when original elements change
   useEffect(() => {
@@ -1068,366 +1120,132 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
   }, [originalElements, groupingEnabled, createGroupedElements]);
 
   // This is a helper function NOT using hooks, so it's safe to define here
-  const validateTimeRange = (start: number, end: number) => {
-    // Basic validation
-    if (!start || !end || isNaN(start) || isNaN(end) ||
-        !Number.isFinite(start) || !Number.isFinite(end) ||
-        start <= 0 || end <= 0 || start >= end) {
-      return false;
-    }
-
-    // System clock validation
-    const startDate = new Date(start);
-    const endDate = new Date(end);
-    if (startDate.getFullYear() > 2024 || endDate.getFullYear() > 2024) {
-      return false;
-    }
-
-    return true;
-  };
-
-  // Fetch all graph data at once
-  const fetchAllData = useCallback(async () => {
-    // Prevent multiple simultaneous calls
-    if (dataFetchAttempted) {
-      console.log('Data fetch already attempted, skipping...');
-      return;
-    }
-
-    setDataFetchAttempted(true);
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Make the API request for all data
-      const url = `/api/graph-data?all=true`;
-      const response = await fetch(url);
-
-      // Handle non-OK responses
-      if (!response.ok) {
-        let errorMessage = `HTTP error! status: ${response.status}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.details) {
-            errorMessage = errorData.details;
-          } else if (errorData.error) {
-            errorMessage = errorData.error;
-          }
-          console.error("API error details:", errorData);
-        } catch (jsonError) {
-          console.warn("Could not parse error response as JSON:", jsonError);
-        }
-        throw new Error(errorMessage);
-      }
-
-      // Parse the JSON response
-      let data;
-      try {
-        data = await response.json();
-      } catch (jsonError: any) {
-        throw new Error(`Failed to parse response as JSON: ${jsonError.message}`);
-      }
-
-      console.log(`Fetched all graph data: ${data.elements?.length ?? 0} total elements`);
-
-      // Ensure data.elements is an array before setting state
-      if (!data.elements) {
-        console.warn("Response did not contain elements array:", data);
-        setAllElements([]);
-        setInitialDataFetched(false);
-      } else if (!Array.isArray(data.elements)) {
-        console.warn("Elements is not an array:", data.elements);
-        setAllElements([]);
-        setInitialDataFetched(false);
-      } else {
-        // Sort elements to ensure nodes come before edges
-        const sortedElements = [...data.elements].sort((a, b) => {
-          // Put nodes before edges
-          if (a.group === 'nodes' && b.group === 'edges') return -1;
-          if (a.group === 'edges' && b.group === 'nodes') return 1;
-          return 0;
-        });
-
-        // Add enhanced icon path for each node and store elements
-        const enhanced = sortedElements.map(el => {
-          if (el.group === 'nodes') {
-            // Use enhanced icon mapping with PNG format
-            const iconPath = getIconPath(el.data?.type);
-
-            // Add enhanced icon handling
-            return {
-              ...el,
-              data: {
-                ...el.data,
-                icon: iconPath,
-                // Store original type for debugging and fallback handling
-                originalType: el.data?.type,
-                // Add a fallback icon in case the main one fails to load
-                fallbackIcon: '/icons/unknown.png'
-              }
-            };
-          }
-          return el;
-        });
-        setAllElements(enhanced);
-        setOriginalElements(enhanced); // Store original elements for grouping
-        setInitialDataFetched(true);
-
-        // Clear any previous error state on successful data fetch
-        setError(null);
-
-        // Compute min/max timestamp from all elements
-        let minTimestamp = Infinity;
-        let maxTimestamp = -Infinity;
-        for (const el of sortedElements) {
-          if (el.data && el.data.timestamp) {
-            const ts = typeof el.data.timestamp === 'number' ? el.data.timestamp : new Date(el.data.timestamp).getTime();
-            if (!isNaN(ts)) {
-              if (ts < minTimestamp) minTimestamp = ts;
-              if (ts > maxTimestamp) maxTimestamp = ts;
-            }
-          }
-        }
-        // If no valid timestamps, use safe defaults
-        if (!isFinite(minTimestamp) || !isFinite(maxTimestamp)) {
-          minTimestamp = new Date('2023-12-30T00:00:00.000Z').getTime();
-          maxTimestamp = new Date('2023-12-31T23:59:59.999Z').getTime();
-        }
-        // Call the callback if provided
-        if (onDataRangeChangeRef.current) {
-          onDataRangeChangeRef.current(minTimestamp, maxTimestamp);
-        }
+  // Complete initialization once the first elements arrived, letting the initial layout run
+  useEffect(() => {
+    if (!isInitializing || loading || (allElements.length === 0 && !error)) return;
+    const timer = setTimeout(() => {
+      setIsInitializing(false);
+      console.log('GraphVisualization: Initialization completed');
+    }, 100);
+    return () => clearTimeout(timer);
+  }, [isInitializing, loading, allElements.length, error]);
 
-        // Set a timeout to complete initialization after data range is set
-        setTimeout(() => {
-          setIsInitializing(false);
-          console.log('GraphVisualization: Initialization completed');
-          // Note: Removed automatic layout application to prevent unwanted node movement
-        }, 100);
-      }
-    } catch (e: any) {
-      console.error("Failed to fetch all graph data:", e);
-      const errorMessage = e.message || "An unknown error occurred while fetching graph data.";
-      setError(errorMessage);
+  useEffect(() => {
+    if (error) {
       toast({
         title: "Error loading graph data",
-        description: errorMessage,
+        description: error,
         status: "error",
         duration: 9000,
         isClosable: true,
       });
-      setInitialDataFetched(false);
-      // Reset the flag on error so user can retry
-      setDataFetchAttempted(false);
-      setIsInitializing(false); // Also complete initialization on error
-    } finally {
-      setLoading(false);
     }
-  }, [toast, dataFetchAttempted]); // Include dataFetchAttempted in dependencies
+  }, [error]);
 
-  // Filter data locally based on time range
-  const filterDataByTimeRange = useCallback((start: number, end: number) => {
-    // Simple validation
-    if (!start || !end || start <= 0 || end <= 0 || start >= end) {
-      console.error(`filterDataByTimeRange called with invalid parameters: start=${start}, end=${end}`);
-      return;
-    }
-
-    // Don't refilter if parameters are the same
-    if (lastFetchParams && lastFetchParams.start === start && lastFetchParams.end === end) {
-      console.log("Skipping duplicate filter with same parameters");
-      return;
-    }
+  useEffect(() => {
+    if (queryResult) console.log(`GraphVisualization: Showing ${queryResult.elements.length} elements from saved query "${queryResult.title}"`);
+  }, [queryResult]);
 
-    // Store the parameters
-    setLastFetchParams({ start, end });
+  // Add elements that aren't loaded yet (an expanded neighbourhood, a path) to the graph.
+  // New nodes are placed on a ring around `anchorId` and nothing already shown moves, so
+  // manual positions are kept. Returns the number of nodes added.
+  const mergeIntoGraph = useCallback((extra: cytoscape.ElementDefinition[], anchorId: string): number => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return 0;
 
-    console.log(`Filtering data for time range: ${new Date(start).toISOString()} - ${new Date(end).toISOString()}`);
+    const newNodes = addElements(extra as CytoscapeElement[]).filter(el => el.group === 'nodes');
+    if (newNodes.length === 0) return 0;
 
-    try {
-      // First, filter nodes based on timestamp and ensure valid string IDs
-      const filteredNodes = allElements.filter(el => {
-        if (el.group !== 'nodes') return false;
-        if (!el.data || el.data.id == null || el.data.id === '') return false;
-        const timestamp = el.data.timestamp;
-        if (!timestamp) return true; // Include nodes without timestamp
-        const elementTime = typeof timestamp === 'number' ? timestamp : new Date(timestamp).getTime();
-        return elementTime >= start && elementTime <= end;
-      });
-
-      // Get the IDs of all filtered nodes (as strings)
-      const nodeIds = new Set(filteredNodes.map(node => String(node.data.id)));
+    const anchor = cy.getElementById(anchorId);
+    const center = anchor.length > 0 ? { ...anchor.position() } : { x: cy.width() / 2, y: cy.height() / 2 };
+    const positions = ringPositions(center, newNodes.length);
+    newNodes.forEach((el, index) => {
+      nodePositionsRef.current[String(el.data.id)] = positions[index];
+    });
+    return newNodes.length;
+  }, [addElements]);
+
+  // Merge a node's neighbourhood into the graph
+  const expandNode = useCallback(async (nodeId: string, options: ExpansionOptions) => {
+    const expanded = await expand(nodeId, options);
+    if (!expanded) return;
+
+    const added = mergeIntoGraph(expanded as cytoscape.ElementDefinition[], nodeId);
+    toast(added > 0 ? {
+      title: `Added ${added} node${added === 1 ? '' : 's'}`,
+      status: "success",
+      duration: 2000,
+      isClosable: true,
+    } : {
+      title: "Nothing to add",
+      description: "All neighbours are already in the graph.",
+      status: "info",
+      duration: 3000,
+      isClosable: true,
+    });
+  }, [expand, mergeIntoGraph, toast]);
 
-      // Then, filter edges where both source and target nodes are in the filtered set, and all IDs are valid
-      const filteredEdges = allElements.filter(el => {
-        if (el.group !== 'edges') return false;
-        if (!el.data || el.data.id == null || el.data.id === '' || el.data.source == null || el.data.target == null || el.data.source === '' || el.data.target === '') return false;
-        // Always convert to string for comparison
-        const sourceExists = nodeIds.has(String(el.data.source));
-        const targetExists = nodeIds.has(String(el.data.target));
-        if (!sourceExists || !targetExists) return false;
-        // Then check timestamp if it exists
-        const timestamp = el.data.timestamp;
-        if (!timestamp) return true; // Include edges without timestamp if nodes exist
-        const elementTime = typeof timestamp === 'number' ? timestamp : new Date(timestamp).getTime();
-        return elementTime >= start && elementTime <= end;
-      });
+  // Highlights can bring elements of their own (e.g. a path); add the missing ones
+  useEffect(() => {
+    if (!highlight?.elements || highlight.nodeIds.length === 0) return;
+    const cy = cyRef.current;
+    const anchorId = highlight.nodeIds.find(id => cy && !cy.destroyed() && cy.getElementById(id).length > 0);
+    mergeIntoGraph(highlight.elements as cytoscape.ElementDefinition[], anchorId ?? highlight.nodeIds[0]);
+  }, [highlight]);
 
-      // Combine nodes and edges, with nodes first to ensure proper rendering
-      const filteredElements = [...filteredNodes, ...filteredEdges];
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
 
-      console.log(`Filtered ${filteredElements.length} elements (${filteredNodes.length} nodes, ${filteredEdges.length} edges) from ${allElements.length} total elements`);
-      setElements(filteredElements);
+  // Emphasise the highlighted elements (e.g. an alert's matched subgraph) and fade the rest.
+  // Re-applied when the displayed elements change, since new elements start unstyled.
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
 
-      // Update original elements for grouping (filtered by time)
-      setOriginalElements(filteredElements);
-    } catch (error) {
-      console.error('Error filtering data:', error);
-      // In case of error, use empty array to avoid crashes
-      setElements([]);
-    }
-  }, [allElements, lastFetchParams]);
+    cy.elements().removeClass('highlighted faded');
+    if (!highlight) return;
 
-  // Fallback: fetch data for a specific time range if all data fetch fails
-  const fetchTimeRangeData = useCallback(async (start: number, end: number) => {
-    // Simple validation
-    if (!start || !end || start <= 0 || end <= 0 || start >= end) {
-      console.error(`fetchTimeRangeData called with invalid parameters: start=${start}, end=${end}`);
+    const nodeIds = new Set(highlight.nodeIds);
+    const edgeIds = new Set(highlight.edgeIds);
+    const matched = cy.elements().filter(el => (el.isNode() ? nodeIds.has(el.id()) : edgeIds.has(el.id())));
+    if (matched.empty()) {
+      console.log(`GraphVisualization: None of the elements of "${highlight.title}" are displayed`);
       return;
     }
+    matched.addClass('highlighted');
+    cy.elements().difference(matched).addClass('faded');
+  }, [highlight, currentElements]);
 
-    // Don't refetch if parameters are the same
-    if (lastFetchParams && lastFetchParams.start === start && lastFetchParams.end === end) {
-      console.log("Skipping duplicate fetch with same parameters");
-      return;
+  // Bring a new highlight into view
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed() || !highlight) return;
+    const matched = cy.elements('.highlighted');
+    if (!matched.empty()) {
+      cy.animate({ fit: { eles: matched, padding: 80 } }, { duration: 500 });
     }
+  }, [highlight]);
 
-    setLoading(true);
-    setError(null);
-
-    try {
-      // Store the fetch parameters
-      setLastFetchParams({ start, end });
-
-      // Make the API request
-      const url = `/api/graph-data?startTime=${start}&endTime=${end}`;
-      const response = await fetch(url);
+  // Size and color nodes by the graph algorithms panel's result (through the algoSize /
+  // algoColor data the stylesheet maps); group nodes take the color of their members
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
 
-      // Handle non-OK responses
-      if (!response.ok) {
-        let errorMessage = `HTTP error! status: ${response.status}`;
-        try {
-          const errorData = await response.json();
-          if (errorData.details) {
-            errorMessage = errorData.details;
-          } else if (errorData.error) {
-            errorMessage = errorData.error;
-          }
-          console.error("API error details:", errorData);
-        } catch (jsonError) {
-          console.warn("Could not parse error response as JSON:", jsonError);
+    cy.batch(() => {
+      cy.nodes().forEach(node => {
+        if (!algorithmView) {
+          node.removeData('algoSize algoColor');
+          return;
         }
-        throw new Error(errorMessage);
-      }
-
-      // Parse the JSON response
-      let data;
-      try {
-        data = await response.json();
-      } catch (jsonError: any) {
-        throw new Error(`Failed to parse response as JSON: ${jsonError.message}`);
-      }
-
-      console.log(`Fetched graph data for ${new Date(start).toISOString()} - ${new Date(end).toISOString()}:`, data.elements?.length ?? 0, "elements");
-
-      // Ensure data.elements is an array before setting state
-      if (!data.elements) {
-        console.warn("Response did not contain elements array:", data);
-        setElements([]);
-      } else if (!Array.isArray(data.elements)) {
-        console.warn("Elements is not an array:", data.elements);
-        setElements([]);
-      } else {
-        // Store all elements from the API with enhanced icon paths
-        const enhanced = data.elements.map((el: any) => {
-          if (el.group === 'nodes') {
-            // Use enhanced icon mapping with PNG format
-            const iconPath = getIconPath(el.data?.type);
-            return {
-              ...el,
-              data: {
-                ...el.data,
-                icon: iconPath,
-                // Store original type for debugging
-                originalType: el.data?.type
-              }
-            };
-          }
-          return el;
+        const { result } = algorithmView;
+        const memberId = node.data('isGroup') ? String(node.data('groupedNodes')?.[0]) : node.id();
+        node.data({
+          algoSize: 20 + 40 * relativeScore(result, node.id()),
+          algoColor: algorithmColor(result, memberId),
         });
-        setElements(enhanced);
-
-        // Initialize current elements if empty - defer to avoid state updates during render
-        setTimeout(() => {
-          if (currentElementsRef.current.length === 0) {
-            setCurrentElements(enhanced);
-            currentElementsRef.current = enhanced;
-          }
-        }, 0);
-      }
-    } catch (e: any) {
-      console.error("Failed to fetch graph data:", e);
-      const errorMessage = e.message || "An unknown error occurred while fetching graph data.";
-      setError(errorMessage);
-      toast({
-        title: "Error loading graph data",
-        description: errorMessage,
-        status: "error",
-        duration: 9000,
-        isClosable: true,
       });
-    } finally {
-      setLoading(false);
-    }
-  }, [toast, lastFetchParams, currentElements]); // Include dependencies
-
-  // Initial data fetch
-  useEffect(() => {
-    // Clear any previous error state when starting fresh
-    setError(null);
-    // Fetch all data once when component mounts
-    fetchAllData();
-  }, []); // Empty dependency array to run only once on mount
-
-  // Handle time range changes
-  useEffect(() => {
-    // If we haven't fetched initial data yet, skip filtering
-    if (!initialDataFetched) {
-      return;
-    }
-
-    // Allow filtering during initialization to populate elements for initial display
-    console.log(`GraphVisualization: Filtering data for time range: ${new Date(startTime).toISOString()} - ${new Date(endTime).toISOString()}`);
-
-
-    // If times are invalid, use safe defaults
-    let effectiveStart = startTime;
-    let effectiveEnd = endTime;
-
-    if (!validateTimeRange(startTime, endTime)) {
-      console.error(`GraphVisualization: Invalid time range: startTime=${startTime}, endTime=${endTime}`);
-      effectiveStart = safeStartTime;
-      effectiveEnd = safeCurrentTime;
-    }
-
-    // Ensure we're not using future dates
-    const currentTime = Date.now();
-    const safeStart = Math.min(effectiveStart, currentTime);
-    const safeEnd = Math.min(effectiveEnd, currentTime);
-
-    // Filter data locally with validated times
-    filterDataByTimeRange(safeStart, safeEnd);
-  }, [startTime, endTime, initialDataFetched, filterDataByTimeRange, safeStartTime, safeCurrentTime]);
+    });
+  }, [algorithmView, currentElements]);
 
   // Enhanced stylesheet (keep as is)
   const stylesheet: any[] = [
@@ -1526,6 +1344,49 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         'border-width': '2px'
       }
     },
+    // Risk colors: green (0) to red (100), bigger and thicker borders for riskier nodes;
+    // nodes without a score are greyed out
+    ...(riskColorsEnabled ? [
+      {
+        selector: 'node',
+        style: {
+          'background-color': '#bdc3c7',
+          'border-color': '#95a5a6',
+          'background-image-opacity': 0.4
+        }
+      },
+      {
+        selector: 'node[riskScore > 0]',
+        style: {
+          'background-color': 'mapData(riskScore, 0, 100, #2ecc71, #e74c3c)',
+          'border-color': 'mapData(riskScore, 0, 100, #27ae60, #c0392b)',
+          'border-width': 'mapData(riskScore, 0, 100, 2, 8)',
+          'width': 'mapData(riskScore, 0, 100, 30, 50)',
+          'height': 'mapData(riskScore, 0, 100, 30, 50)',
+          'background-image-opacity': 0.6
+        }
+      },
+    ] : []),
+    // Graph algorithm result: centrality sizes from 20 to 60, score or group colors
+    ...(algorithmView?.sizeNodes && algorithmView.result.kind === 'centrality' ? [
+      {
+        selector: 'node[algoSize]',
+        style: {
+          'width': 'data(algoSize)',
+          'height': 'data(algoSize)'
+        }
+      },
+    ] : []),
+    ...(algorithmView?.colorNodes ? [
+      {
+        selector: 'node[algoColor]',
+        style: {
+          'background-color': 'data(algoColor)',
+          'border-color': 'data(algoColor)',
+          'background-image-opacity': 0.5
+        }
+      },
+    ] : []),
     {
       selector: 'edge',
       style: {
@@ -1587,6 +1448,50 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
             'border-color': '#d35400',
             'border-width': 3
         }
+    },
+    {
+        selector: 'node.selected-node',
+        style: {
+            'border-width': 4,
+            'border-color': '#3182ce'
+        }
+    },
+    {
+        selector: 'node.pinned',
+        style: {
+            'border-width': 3,
+            'border-style': 'dashed',
+            'border-color': '#2d3748'
+        }
+    },
+    {
+        selector: 'edge.selected-edge',
+        style: {
+            'width': 3,
+            'line-color': '#3182ce',
+            'target-arrow-color': '#3182ce'
+        }
+    },
+    {
+        selector: 'node.highlighted',
+        style: {
+            'border-width': 4,
+            'border-color': '#e53e3e'
+        }
+    },
+    {
+        selector: 'edge.highlighted',
+        style: {
+            'width': 4,
+            'line-color': '#e53e3e',
+            'target-arrow-color': '#e53e3e'
+        }
+    },
+    {
+        selector: '.faded',
+        style: {
+            'opacity': 0.15
+        }
     }
   ];
 
@@ -1687,7 +1592,8 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
                 x,
                 y,
                 title: `${nodeData.label || nodeData.id}`,
-                content: `Type: ${nodeData.type || 'N/A'} | Risk: ${nodeData.riskLevel || 'N/A'} | Icon: ${iconInfo}`
+                content: `Type: ${nodeData.type || 'N/A'} | Risk: ${nodeData.riskLevel || 'N/A'}${typeof nodeData.riskScore === 'number' ? ` (${nodeData.riskScore})` : ''} | Icon: ${iconInfo}`,
+                riskUid: typeof nodeData.riskScore === 'number' && nodeData.uid ? nodeData.uid : undefined
               });
             }
           }
@@ -1791,13 +1697,37 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
               });
             }
           } else {
-            console.log('Regular node clicked, not a group node');
+            // Select the node (in every view)
+            selectNodes([node.id()]);
           }
         } catch (error) {
           console.error('Error handling node tap:', error);
         }
       });
 
+      // A tap on the background clears the selection
+      cy.on('tap', (event) => {
+        if (event.target === cy) clearSelection();
+      });
+
+      // Right click opens the expand menu
+      cy.on('cxttap', 'node', (event) => {
+        try {
+          const nodeData = event.target.data();
+          const originalEvent = event.originalEvent as MouseEvent | undefined;
+          if (nodeData.isGroup || !originalEvent) return;
+          setTooltip(prev => ({ ...prev, visible: false }));
+          setContextMenu({
+            nodeId: String(nodeData.id),
+            label: nodeData.label || nodeData.name || String(nodeData.id),
+            x: originalEvent.clientX,
+            y: originalEvent.clientY,
+          });
+        } catch (error) {
+          console.error('Error handling node right click:', error);
+        }
+      });
+
       // Fix for sticky drag behavior - handle mouseup globally
       const handleGlobalMouseUp = () => {
         try {
@@ -1957,8 +1887,8 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
             cy.off('grab', 'node');
             cy.off('drag', 'node');
             cy.off('dragfreeon', 'node');
-            cy.off('tap', 'node');
-            cy.off('tap', 'edge');
+            cy.off('tap');
+            cy.off('cxttap', 'node');
             cy.off('mouseover', 'node');
             cy.off('mouseout', 'node');
             cy.off('mouseover', 'edge');
@@ -1975,7 +1905,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
       console.error('Error setting up cytoscape events:', error);
       return () => {}; // Return empty cleanup function on error
     }
-  }, [toast, storeNodePositions, storeZoomPanState, calculateTooltipPosition, expandGroup, collapseGroup, enableManualPositioningMode]);
+  }, [toast, storeNodePositions, storeZoomPanState, calculateTooltipPosition, expandGroup, collapseGroup, enableManualPositioningMode, selectNodes, clearSelection]);
 
   // REDESIGNED: Clean separation of concerns to eliminate auto-refreshing issues
 
@@ -1993,22 +1923,94 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
     const elementsToAdd = targetElements.filter(el => !currentCyElements.getElementById(el.data.id).length);
     const elementsToRemove = currentCyElements.filter(cyEl => !targetElements.some(el => el.data.id === cyEl.id()));
 
-    if (elementsToAdd.length > 0 || elementsToRemove.length > 0) {
+    // Live mode: nodes that appear go next to a neighbour already shown, and changed data
+    // is applied to the drawn elements in place, so positions, zoom and pan are kept.
+    // Nodes merged from elsewhere (e.g. the node details panel) without a place are placed
+    // the same way
+    const isLive = lastChange === 'live';
+    if (isLive || lastChange === 'merge') {
+      const livePositions = placeNewNodes(
+        elementsToAdd.filter(el => el.group === 'nodes' && !nodePositionsRef.current[String(el.data.id)]),
+        elementsToAdd.filter(el => el.group === 'edges'),
+        id => {
+          const node = cy.getElementById(id);
+          return node.length > 0 ? { ...node.position() } : undefined;
+        },
+        { x: cy.width() / 2, y: cy.height() / 2 }
+      );
+      livePositions.forEach((position, id) => {
+        nodePositionsRef.current[id] = position;
+      });
+    }
+
+    if (elementsToAdd.length > 0 || elementsToRemove.length > 0 || isLive) {
       console.log(`Element update: +${elementsToAdd.length}, -${elementsToRemove.length}`);
 
-      // Batch all element changes together
+      // Batch all element changes together; nodes placed before (merged or live) keep their position
       cy.batch(() => {
         if (elementsToRemove.length > 0) {
           cy.remove(elementsToRemove);
         }
         if (elementsToAdd.length > 0) {
-          cy.add(normalizeElements(elementsToAdd));
+          cy.add(normalizeElements(elementsToAdd).map(el => {
+            const position = el.group === 'nodes' ? nodePositionsRef.current[String(el.data.id)] : undefined;
+            return position ? { ...el, position } : el;
+          }));
+        }
+        if (isLive && !groupingEnabled) {
+          targetElements.forEach(el => {
+            const drawn = cy.getElementById(String(el.data.id));
+            if (drawn.length > 0 && drawn.data() !== el.data) drawn.data(el.data);
+          });
         }
       });
 
       setCurrentElements(targetElements);
     }
-  }, [elements, groupedElements, groupingEnabled, expandedGroups, createMixedGroupedElements, normalizeElements, setCurrentElements, isInitializing]);
+  }, [elements, groupedElements, groupingEnabled, expandedGroups, createMixedGroupedElements, normalizeElements, setCurrentElements, isInitializing, lastChange]);
+
+  // Show the shared selection (nodes picked here, in another view or in a dashboard list)
+  // with their incident edges
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
+    const selected = new Set(selectedNodeIds);
+    const selectedEdges = new Set(selectedEdgeIds);
+    cy.batch(() => {
+      cy.elements().removeClass('selected-node selected-edge');
+      cy.nodes().filter(node => selected.has(node.id())).addClass('selected-node');
+      cy.edges().filter(edge => selectedEdges.has(edge.id())).addClass('selected-edge');
+    });
+  }, [selectedNodeIds, selectedEdgeIds, currentElements]);
+
+  // Center and zoom on the requested node once it's drawn (it may still be loading)
+  const handledFocusRef = useRef<number | null>(null);
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed() || !focusRequest || handledFocusRef.current === focusRequest.at) return;
+    const node = cy.getElementById(focusRequest.nodeId);
+    if (node.length === 0) return;
+    handledFocusRef.current = focusRequest.at;
+    cy.animate({ center: { eles: node }, zoom: Math.max(cy.zoom(), 1.5) }, { duration: 500 });
+  }, [focusRequest, currentElements]);
+
+  // Pinned nodes are locked, so layouts and dragging leave them where they are
+  useEffect(() => {
+    const cy = cyRef.current;
+    if (!cy || cy.destroyed()) return;
+    const pinned = new Set(pinnedNodeIds);
+    cy.batch(() => {
+      cy.nodes().forEach(node => {
+        if (pinned.has(node.id())) {
+          node.lock();
+          node.addClass('pinned');
+        } else {
+          node.unlock();
+          node.removeClass('pinned');
+        }
+      });
+    });
+  }, [pinnedNodeIds, currentElements]);
 
   // 2. Layout Application - Strict Control with Minimal Triggers
   useEffect(() => {
@@ -2089,6 +2091,7 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
           cy.off('drag', 'node');
           cy.off('free', 'node');
           cy.off('tap', 'node');
+          cy.off('cxttap', 'node');
           cy.off('tap', 'edge');
           cy.off('mouseover', 'node');
           cy.off('mouseout', 'node');
@@ -2323,7 +2326,30 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
 
   // Render the graph
   return (
-    <Box border="1px solid #eee" borderRadius="md" overflow="hidden" height="600px" width="100%" position="relative">
+    <Box
+      border="1px solid #eee"
+      borderRadius="md"
+      overflow="hidden"
+      height="600px"
+      width="100%"
+      position="relative"
+      onContextMenu={event => event.preventDefault()} // Right click on a node opens our own menu
+    >
+      {/* Partially loaded graph, hidden nodes */}
+      <VStack position="absolute" bottom="10px" left="10px" zIndex="1" spacing={2} align="flex-start">
+        {!queryResult && <GraphLoadStatus progress={progress} loadingMore={loadingMore} onLoadMore={loadMore} />}
+        <HiddenNodesStatus hiddenCount={hiddenNodeIds.length} onShowAll={showHiddenNodes} />
+      </VStack>
+
+      {/* Graph algorithms, kept mounted while hidden so its result stays shown */}
+      <Box position="absolute" top="10px" left="10px" zIndex="1" display={algorithmsOpen ? 'block' : 'none'}>
+        <GraphAlgorithmsPanel
+          getElements={() => originalElements}
+          onChange={handleAlgorithmView}
+          onClose={() => setAlgorithmsOpen(false)}
+        />
+      </Box>
+
       {/* Controls */}
       <Box
         position="absolute"
@@ -2427,6 +2453,50 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
             </FormControl>
           </HStack>
 
+          {/* Risk Colors Toggle */}
+          <HStack spacing={2}>
+            <Tooltip label="Color nodes by risk score" placement="left">
+              <IconButton
+                aria-label="Risk colors"
+                icon={<FaExclamationTriangle />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                opacity="0.8"
+                _hover={{ opacity: 1 }}
+              />
+            </Tooltip>
+            <FormControl display="flex" alignItems="center">
+              <Switch
+                id="risk-colors"
+                size="sm"
+                isChecked={riskColorsEnabled}
+                onChange={() => setRiskColorsEnabled(!riskColorsEnabled)}
+                colorScheme="red"
+              />
+              <FormLabel htmlFor="risk-colors" fontSize="xs" ml={2} mb={0} color="gray.600">
+                Risk
+              </FormLabel>
+            </FormControl>
+          </HStack>
+
+          {/* Graph Algorithms Panel Toggle */}
+          <HStack spacing={2}>
+            <Tooltip label="Centrality, communities and connected components" placement="left">
+              <IconButton
+                aria-label="Graph algorithms"
+                icon={<FaChartPie />}
+                size="sm"
+                colorScheme="teal"
+                variant={algorithmsOpen ? "solid" : "ghost"}
+                opacity="0.8"
+                _hover={{ opacity: 1 }}
+                onClick={() => setAlgorithmsOpen(!algorithmsOpen)}
+              />
+            </Tooltip>
+            <Text fontSize="xs" color="gray.600">Algorithms</Text>
+          </HStack>
+
           {/* Manual Positioning Mode Indicator and Reset */}
           {manualPositioningMode && (
             <HStack spacing={2}>
@@ -2562,8 +2632,19 @@ const GraphVisualization: React.FC<GraphVisualizationProps> = ({ startTime, endT
         >
           <Text fontWeight="bold" mb={1} lineHeight="1.2">{tooltip.title}</Text>
           <Text fontSize="xs" lineHeight="1.3" opacity={0.9}>{tooltip.content}</Text>
+          {tooltip.riskUid && <RiskTrend uid={tooltip.riskUid} />}
         </Box>
       )}
+
+      {contextMenu && (
+        <NodeContextMenu
+          target={contextMenu}
+          startTime={startTime}
+          endTime={endTime}
+          onExpand={expandNode}
+          onClose={closeContextMenu}
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,27 @@
+"use client";
+
+import React from 'react';
+import { HStack, Text, Button } from '@chakra-ui/react';
+
+interface HiddenNodesStatusProps {
+  hiddenCount: number;
+  onShowAll: () => void;
+}
+
+// "N nodes hidden" while nodes are hidden from the views (from the node details panel)
+const HiddenNodesStatus: React.FC<HiddenNodesStatusProps> = ({ hiddenCount, onShowAll }) => {
+  if (hiddenCount === 0) return null;
+
+  return (
+    <HStack spacing={2} fontSize="xs" px={2} py={1} bg="gray.50" borderWidth="1px" borderColor="gray.200" borderRadius="md">
+      <Text color="gray.700">
+        {hiddenCount.toLocaleString()} node{hiddenCount === 1 ? '' : 's'} hidden
+      </Text>
+      <Button size="xs" variant="outline" onClick={onShowAll}>
+        Show all
+      </Button>
+    </HStack>
+  );
+};
+
+export default HiddenNodesStatus;
@@ -0,0 +1,155 @@
+"use client";
+
+import React, { useEffect, useRef, useState } from 'react';
+import { Box, VStack, Button, Text, Spinner, Divider, useOutsideClick } from '@chakra-ui/react';
+import type { RelationshipTypeCount } from '@/lib/neighbourhood';
+import { ExpansionOptions, neighbourhoodParams } from '@/hooks/use-node-expansion';
+import { PathEndpointRole, usePathFinder } from '@/contexts/PathFinderContext';
+import { useAttackPaths } from '@/contexts/AttackPathContext';
+import type { AttackTagRole } from '@/lib/attackPaths';
+
+export interface NodeContextMenuTarget {
+  nodeId: string;
+  label: string;
+  x: number; // Viewport coordinates of the right click
+  y: number;
+}
+
+interface NodeContextMenuProps {
+  target: NodeContextMenuTarget;
+  startTime?: number;
+  endTime?: number;
+  onExpand: (nodeId: string, options: ExpansionOptions) => void;
+  onClose: () => void;
+}
+
+// Right-click menu on a node: expand its neighbourhood by 1 or 2 hops, or along a single
+// relationship type (listed with their counts within the time window), use the node as
+// an end of the path finder, or tag it for attack-path analysis
+const NodeContextMenu: React.FC<NodeContextMenuProps> = ({ target, startTime, endTime, onExpand, onClose }) => {
+  const ref = useRef<HTMLDivElement>(null);
+  const [types, setTypes] = useState<RelationshipTypeCount[] | null>(null);
+  const [typesError, setTypesError] = useState<string | null>(null);
+
+  const { setEndpoint } = usePathFinder();
+  const { isTagged, setTag } = useAttackPaths();
+
+  useOutsideClick({ ref, handler: onClose });
+
+  useEffect(() => {
+    let cancelled = false;
+    setTypes(null);
+    setTypesError(null);
+
+    const params = neighbourhoodParams(startTime, endTime);
+    fetch(`/api/nodes/${encodeURIComponent(target.nodeId)}/relationship-types?${params.toString()}`)
+      .then(async response => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+        if (!cancelled) setTypes(data.types);
+      })
+      .catch((e: any) => {
+        console.error("Failed to fetch relationship types:", e);
+        if (!cancelled) setTypesError(e.message || "Could not load relationship types");
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [target.nodeId, startTime, endTime]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const choose = (options: ExpansionOptions) => {
+    onClose();
+    onExpand(target.nodeId, options);
+  };
+
+  const pickEndpoint = (role: PathEndpointRole) => {
+    onClose();
+    setEndpoint(role, { id: target.nodeId, label: target.label });
+  };
+
+  const toggleTag = (role: AttackTagRole) => {
+    onClose();
+    setTag(target.nodeId, role, !isTagged(target.nodeId, role));
+  };
+
+  return (
+    <Box
+      ref={ref}
+      position="fixed"
+      left={`${target.x}px`}
+      top={`${target.y}px`}
+      zIndex={10000}
+      bg="white"
+      borderWidth="1px"
+      borderColor="gray.200"
+      borderRadius="md"
+      boxShadow="lg"
+      py={1}
+      minWidth="200px"
+      maxWidth="280px"
+      onContextMenu={event => event.preventDefault()}
+    >
+      <Text px={3} py={1} fontSize="xs" fontWeight="bold" color="gray.600" noOfLines={1}>
+        {target.label}
+      </Text>
+      <VStack spacing={0} align="stretch">
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => choose({ hops: 1 })}>
+          Expand 1 hop
+        </Button>
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => choose({ hops: 2 })}>
+          Expand 2 hops
+        </Button>
+        <Divider my={1} />
+        <Text px={3} py={1} fontSize="xs" color="gray.500">By relationship type</Text>
+        {!types && !typesError && (
+          <Box px={3} py={1}><Spinner size="xs" /></Box>
+        )}
+        {typesError && (
+          <Text px={3} py={1} fontSize="xs" color="red.500">{typesError}</Text>
+        )}
+        {types && types.length === 0 && (
+          <Text px={3} py={1} fontSize="xs" color="gray.500">No relationships in the time window</Text>
+        )}
+        {types && types.map(({ type, count }) => (
+          <Button
+            key={type}
+            size="sm"
+            variant="ghost"
+            justifyContent="space-between"
+            borderRadius="none"
+            fontWeight="normal"
+            onClick={() => choose({ hops: 1, types: [type] })}
+          >
+            <Text as="span" noOfLines={1}>{type}</Text>
+            <Text as="span" fontSize="xs" color="gray.500" ml={2}>{count}</Text>
+          </Button>
+        ))}
+        <Divider my={1} />
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => pickEndpoint('source')}>
+          Path from here
+        </Button>
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => pickEndpoint('target')}>
+          Path to here
+        </Button>
+        <Divider my={1} />
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => toggleTag('entryPoint')}>
+          {isTagged(target.nodeId, 'entryPoint') ? 'Remove entry point tag' : 'Tag as entry point'}
+        </Button>
+        <Button size="sm" variant="ghost" justifyContent="flex-start" borderRadius="none" onClick={() => toggleTag('crownJewel')}>
+          {isTagged(target.nodeId, 'crownJewel') ? 'Remove crown jewel tag' : 'Tag as crown jewel'}
+        </Button>
+      </VStack>
+    </Box>
+  );
+};
+
+export default NodeContextMenu;
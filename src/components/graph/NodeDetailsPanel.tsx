@@ -0,0 +1,360 @@
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef, useMemo } from 'react';
+import {
+  Box,
+  Flex,
+  HStack,
+  VStack,
+  Text,
+  Heading,
+  Tag,
+  Wrap,
+  IconButton,
+  Tooltip,
+  Spinner,
+  Input,
+  Progress,
+  Tabs,
+  TabList,
+  Tab,
+  TabPanels,
+  TabPanel,
+  Button,
+  useToast,
+} from '@chakra-ui/react';
+import { MdClose, MdContentCopy, MdUnfoldMore, MdVisibilityOff, MdPushPin, MdOutlinePushPin, MdTerminal } from 'react-icons/md';
+import type { NodeDetails } from '@/lib/nodeDetails';
+import type { RiskFactorName } from '@/lib/riskScoring';
+import { useGraphData } from '@/contexts/GraphDataContext';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+import { useLiveEvents } from '@/contexts/LiveUpdatesContext';
+import { useTimeline } from '@/contexts/TimelineContext';
+import { useNodeExpansion } from '@/hooks/use-node-expansion';
+
+const FACTOR_LABELS: Record<RiskFactorName, string> = {
+  vulnerabilities: 'Vulnerabilities',
+  threatProximity: 'Threat proximity',
+  centrality: 'Centrality',
+  alerts: 'Open alerts',
+};
+
+// Property groups of the Properties tab, in order; anything else goes under "Other"
+const PROPERTY_GROUPS: { title: string; keys: string[] }[] = [
+  { title: 'Identity', keys: ['uid', 'showname', 'name', 'type'] },
+  { title: 'Time', keys: ['timestamp', 'valid_from', 'valid_to'] },
+  { title: 'Risk', keys: ['riskScore', 'riskLevel', 'riskReason', 'riskFactors', 'riskScoredAt'] },
+  { title: 'Location', keys: ['latitude', 'longitude', 'lat', 'lon', 'country', 'city'] },
+  { title: 'Attack tags', keys: ['attackEntryPoint', 'crownJewel'] },
+];
+
+const TIME_KEYS = new Set(['timestamp', 'valid_from', 'valid_to', 'riskScoredAt']);
+
+const formatTime = (time: number | string) => new Date(time).toLocaleString();
+
+const formatValue = (key: string, value: any) => {
+  if (value === null || value === undefined) return 'null';
+  if (TIME_KEYS.has(key) && (typeof value === 'number' || !isNaN(Date.parse(value)))) return formatTime(value);
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const getRiskColorScheme = (score: number) => {
+  if (score > 75) return 'red';
+  if (score > 50) return 'orange';
+  return 'yellow';
+};
+
+const getSeverityColorScheme = (severity: string) => {
+  if (severity === 'High') return 'red';
+  if (severity === 'Medium') return 'orange';
+  return 'blue';
+};
+
+interface NodeDetailsPanelProps {
+  nodeId: string;
+  onClose: () => void;
+}
+
+// Docked panel showing everything about the selected node (from /api/nodes/[id]), with
+// actions on it. Kept up to date in live mode.
+const NodeDetailsPanel: React.FC<NodeDetailsPanelProps> = ({ nodeId, onClose }) => {
+  const [details, setDetails] = useState<NodeDetails | null>(null);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [error, setError] = useState<string | null>(null);
+  const [search, setSearch] = useState<string>('');
+  const requestRef = useRef<number>(0); // Bumped to drop the answer for a node no longer shown
+  const { startTime, endTime } = useTimeline();
+  const { selectNodes, addElements, hideNodes, pinnedNodeIds, togglePinned } = useGraphData();
+  const { openInQueryConsole } = useGraphQuery();
+  const { expand, expandingNodeId } = useNodeExpansion(startTime, endTime);
+  const toast = useToast();
+  const isPinned = pinnedNodeIds.includes(nodeId);
+
+  // `quiet` refreshes keep the current details on screen while loading
+  const fetchDetails = useCallback(async (quiet: boolean = false) => {
+    const request = ++requestRef.current;
+    if (!quiet) {
+      setLoading(true);
+      setDetails(null);
+    }
+    setError(null);
+    try {
+      const response = await fetch(`/api/nodes/${encodeURIComponent(nodeId)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+      if (request === requestRef.current) setDetails(data);
+    } catch (e: any) {
+      console.error("Failed to fetch node details:", e);
+      if (request === requestRef.current) setError(e.message || "An unknown error occurred while fetching the node details.");
+    } finally {
+      if (request === requestRef.current) setLoading(false);
+    }
+  }, [nodeId]);
+
+  useEffect(() => {
+    setSearch('');
+    fetchDetails();
+  }, [fetchDetails]);
+
+  // New alerts and risk scores may concern the node; graph changes only when they touch it
+  useLiveEvents(['graph', 'alerts', 'risk'], event => {
+    if (event.type === 'graph') {
+      const touches = [...event.added, ...event.updated].some(element => (
+        element.data.id === nodeId || element.data.source === nodeId || element.data.target === nodeId
+      ));
+      if (!touches && !event.removed.nodes.includes(nodeId) && event.removed.edges.length === 0) return;
+    }
+    fetchDetails(true);
+  });
+
+  const propertyGroups = useMemo(() => {
+    if (!details) return [];
+    const term = search.trim().toLowerCase();
+    const matches = ([key, value]: [string, any]) => (
+      !term || key.toLowerCase().includes(term) || formatValue(key, value).toLowerCase().includes(term)
+    );
+    const grouped = new Set(PROPERTY_GROUPS.flatMap(group => group.keys));
+    const entries = Object.entries(details.properties);
+    return [
+      ...PROPERTY_GROUPS.map(group => ({
+        title: group.title,
+        entries: entries.filter(([key]) => group.keys.includes(key)),
+      })),
+      { title: 'Other', entries: entries.filter(([key]) => !grouped.has(key)).sort(([a], [b]) => a.localeCompare(b)) },
+    ]
+      .map(group => ({ ...group, entries: group.entries.filter(matches) }))
+      .filter(group => group.entries.length > 0);
+  }, [details, search]);
+
+  const handleCopyId = async () => {
+    try {
+      await navigator.clipboard.writeText(nodeId);
+      toast({ title: "Node ID copied", status: "success", duration: 2000, isClosable: true });
+    } catch (e: any) {
+      console.error("Failed to copy node id:", e);
+      toast({ title: "Could not copy the node ID", description: e.message, status: "error", duration: 3000, isClosable: true });
+    }
+  };
+
+  const handleExpand = async () => {
+    const expanded = await expand(nodeId, { hops: 1 });
+    if (!expanded) return;
+
+    const added = addElements(expanded).filter(element => element.group === 'nodes').length;
+    toast(added > 0 ? {
+      title: `Added ${added} node${added === 1 ? '' : 's'}`,
+      status: "success",
+      duration: 2000,
+      isClosable: true,
+    } : {
+      title: "Nothing to add",
+      description: "All neighbours are already in the graph.",
+      status: "info",
+      duration: 3000,
+      isClosable: true,
+    });
+  };
+
+  const handleOpenInConsole = () => {
+    openInQueryConsole(`MATCH (n)-[r]-(m)\nWHERE id(n) = ${nodeId}\nRETURN n, r, m\nLIMIT 100`);
+  };
+
+  return (
+    <Flex direction="column" h="100%" borderWidth="1px" borderColor="gray.200" borderRadius="xl" bg="white" overflow="hidden">
+      <Box p={3} borderBottomWidth="1px" borderColor="gray.100">
+        <Flex justify="space-between" align="flex-start" gap={2}>
+          <Box minW={0}>
+            <Heading size="sm" isTruncated>{details?.label ?? `Node ${nodeId}`}</Heading>
+            <Wrap spacing={1} mt={1}>
+              {details?.labels.map(label => <Tag key={label} size="sm">{label}</Tag>)}
+              {details?.properties.type && <Tag size="sm" colorScheme="brand">{details.properties.type}</Tag>}
+            </Wrap>
+          </Box>
+          <IconButton aria-label="Close node details" icon={<MdClose />} size="xs" variant="ghost" onClick={onClose} />
+        </Flex>
+        <HStack spacing={1} mt={2}>
+          <Tooltip label="Copy node ID">
+            <IconButton aria-label="Copy node ID" icon={<MdContentCopy />} size="xs" variant="outline" onClick={handleCopyId} />
+          </Tooltip>
+          <Tooltip label="Expand neighbours">
+            <IconButton
+              aria-label="Expand neighbours"
+              icon={<MdUnfoldMore />}
+              size="xs"
+              variant="outline"
+              onClick={handleExpand}
+              isLoading={expandingNodeId === nodeId}
+            />
+          </Tooltip>
+          <Tooltip label="Hide from the graph">
+            <IconButton aria-label="Hide node" icon={<MdVisibilityOff />} size="xs" variant="outline" onClick={() => hideNodes([nodeId])} />
+          </Tooltip>
+          <Tooltip label={isPinned ? "Unpin" : "Pin in place"}>
+            <IconButton
+              aria-label={isPinned ? "Unpin node" : "Pin node"}
+              icon={isPinned ? <MdPushPin /> : <MdOutlinePushPin />}
+              size="xs"
+              variant={isPinned ? "solid" : "outline"}
+              colorScheme={isPinned ? "brand" : undefined}
+              onClick={() => togglePinned(nodeId)}
+            />
+          </Tooltip>
+          <Tooltip label="Open in query console">
+            <IconButton aria-label="Open in query console" icon={<MdTerminal />} size="xs" variant="outline" onClick={handleOpenInConsole} />
+          </Tooltip>
+        </HStack>
+      </Box>
+
+      {loading ? (
+        <Flex flex="1" align="center" justify="center">
+          <Spinner size="md" />
+        </Flex>
+      ) : error && !details ? (
+        <VStack flex="1" justify="center" p={4} spacing={2}>
+          <Text fontSize="sm" color="red.500" textAlign="center">{error}</Text>
+          <Button size="xs" onClick={() => fetchDetails()}>Retry</Button>
+        </VStack>
+      ) : details && (
+        <Tabs size="sm" variant="line" colorScheme="brand" display="flex" flexDirection="column" flex="1" minH={0} isLazy>
+          <TabList px={2}>
+            <Tab fontSize="xs">Properties</Tab>
+            <Tab fontSize="xs">Neighbours</Tab>
+            <Tab fontSize="xs">Alerts & Risk</Tab>
+            <Tab fontSize="xs">History</Tab>
+          </TabList>
+          <TabPanels flex="1" overflowY="auto">
+            <TabPanel p={3}>
+              <Input size="sm" placeholder="Search properties" value={search} onChange={e => setSearch(e.target.value)} mb={3} />
+              <VStack spacing={3} align="stretch">
+                {propertyGroups.map(group => (
+                  <Box key={group.title}>
+                    <Text fontSize="xs" fontWeight="bold" color="gray.500" textTransform="uppercase" mb={1}>{group.title}</Text>
+                    {group.entries.map(([key, value]) => (
+                      <Flex key={key} fontSize="xs" gap={2} py={0.5}>
+                        <Text fontWeight="semibold" minW="90px" flexShrink={0}>{key}</Text>
+                        <Text color="gray.700" wordBreak="break-all">{formatValue(key, value)}</Text>
+                      </Flex>
+                    ))}
+                  </Box>
+                ))}
+                {propertyGroups.length === 0 && <Text fontSize="xs" color="gray.500">No matching properties.</Text>}
+              </VStack>
+            </TabPanel>
+
+            <TabPanel p={3}>
+              <VStack spacing={3} align="stretch">
+                {details.neighbours.map(group => (
+                  <Box key={group.type}>
+                    <HStack justify="space-between" mb={1}>
+                      <Text fontSize="xs" fontWeight="bold">{group.type}</Text>
+                      <Tag size="sm">{group.count}</Tag>
+                    </HStack>
+                    {group.neighbours.map(neighbour => (
+                      <Flex
+                        key={neighbour.relationshipId}
+                        fontSize="xs"
+                        gap={2}
+                        py={0.5}
+                        px={1}
+                        borderRadius="md"
+                        cursor="pointer"
+                        _hover={{ bg: 'gray.50' }}
+                        onClick={() => selectNodes([neighbour.id])}
+                      >
+                        <Text color="gray.500">{neighbour.direction === 'out' ? '→' : '←'}</Text>
+                        <Text isTruncated flex="1">{neighbour.label}</Text>
+                        {neighbour.type && <Text color="gray.500">{neighbour.type}</Text>}
+                      </Flex>
+                    ))}
+                    {group.count > group.neighbours.length && (
+                      <Text fontSize="xs" color="gray.500">and {group.count - group.neighbours.length} more</Text>
+                    )}
+                  </Box>
+                ))}
+                {details.neighbours.length === 0 && <Text fontSize="xs" color="gray.500">No neighbours.</Text>}
+              </VStack>
+            </TabPanel>
+
+            <TabPanel p={3}>
+              <VStack spacing={4} align="stretch">
+                <Box>
+                  <Text fontSize="xs" fontWeight="bold" color="gray.500" textTransform="uppercase" mb={1}>Risk</Text>
+                  {details.risk ? (
+                    <VStack spacing={2} align="stretch">
+                      <HStack>
+                        <Tag colorScheme={getRiskColorScheme(details.risk.score)}>{details.risk.score}</Tag>
+                        {details.risk.level && <Text fontSize="xs">{details.risk.level}</Text>}
+                      </HStack>
+                      {details.risk.factors.map(factor => (
+                        <Box key={factor.factor}>
+                          <HStack justify="space-between" fontSize="xs">
+                            <Text fontWeight="semibold">{FACTOR_LABELS[factor.factor]}</Text>
+                            <Text>+{factor.points}</Text>
+                          </HStack>
+                          <Progress size="xs" value={factor.value * 100} colorScheme={getRiskColorScheme(factor.value * 100)} />
+                          <Text fontSize="xs" color="gray.500">{factor.detail}</Text>
+                        </Box>
+                      ))}
+                      {details.risk.factors.length === 0 && <Text fontSize="xs">No risk factors found.</Text>}
+                    </VStack>
+                  ) : (
+                    <Text fontSize="xs" color="gray.500">Not scored yet.</Text>
+                  )}
+                </Box>
+                <Box>
+                  <Text fontSize="xs" fontWeight="bold" color="gray.500" textTransform="uppercase" mb={1}>Alerts</Text>
+                  <VStack spacing={1} align="stretch">
+                    {details.alerts.map(alert => (
+                      <Flex key={alert.id} fontSize="xs" gap={2} align="center">
+                        <Tag size="sm" colorScheme={getSeverityColorScheme(alert.severity)}>{alert.severity}</Tag>
+                        <Text isTruncated flex="1">{alert.title}</Text>
+                        <Text color="gray.500">{alert.status}</Text>
+                      </Flex>
+                    ))}
+                    {details.alerts.length === 0 && <Text fontSize="xs" color="gray.500">No alerts involve this node.</Text>}
+                  </VStack>
+                </Box>
+              </VStack>
+            </TabPanel>
+
+            <TabPanel p={3}>
+              <VStack spacing={1} align="stretch">
+                {details.history.map((event, index) => (
+                  <Flex key={`${event.kind}-${event.relationshipId ?? ''}-${index}`} fontSize="xs" gap={2}>
+                    <Text color="gray.500" flexShrink={0}>{formatTime(event.time)}</Text>
+                    <Text wordBreak="break-word">{event.description}</Text>
+                  </Flex>
+                ))}
+                {details.history.length === 0 && <Text fontSize="xs" color="gray.500">No recorded times.</Text>}
+              </VStack>
+            </TabPanel>
+          </TabPanels>
+        </Tabs>
+      )}
+    </Flex>
+  );
+};
+
+export default NodeDetailsPanel;
@@ -22,10 +22,24 @@ import {
   FaBolt,
   FaLayerGroup,
   FaCog,
+  FaExclamationTriangle,
+  FaChartPie,
 } from 'react-icons/fa';
 import { SigmaContainer, useLoadGraph, useSigma, useRegisterEvents } from '@react-sigma/core';
 import "@react-sigma/core/lib/style.css";
 import Graph from 'graphology';
+import { hasTimestamp } from '@/lib/timeUtils';
+import { useGraphQuery } from '@/contexts/GraphQueryContext';
+import { useGraphHighlight } from '@/contexts/GraphHighlightContext';
+import { GraphDataChange, NodeFocusRequest, useGraphData } from '@/contexts/GraphDataContext';
+import GraphLoadStatus from '@/components/graph/GraphLoadStatus';
+import HiddenNodesStatus from '@/components/graph/HiddenNodesStatus';
+import NodeContextMenu, { NodeContextMenuTarget } from '@/components/graph/NodeContextMenu';
+import { ExpansionOptions, useNodeExpansion } from '@/hooks/use-node-expansion';
+import { placeNewNodes, ringPositions } from '@/lib/graphMerge';
+import type { CytoscapeElement } from '@/lib/graphElements';
+import GraphAlgorithmsPanel, { GraphAlgorithmView } from '@/components/graph/GraphAlgorithmsPanel';
+import { AlgorithmElement, GraphAlgorithmResult, algorithmColor, partitionPositions, relativeScore } from '@/lib/graphAlgorithms';
 
 // Try importing from the main sigma package - the rendering subpackage might not export correctly
 // We'll register the programs manually inside the component
@@ -95,9 +109,8 @@ interface GraphElement {
 }
 
 interface SigmaGraphVisualizationProps {
-  startTime: number;
+  startTime: number; // Window for neighbourhood expansion
   endTime: number;
-  onDataRangeChange: (min: number, max: number) => void;
 }
 
 interface TooltipState {
@@ -165,21 +178,113 @@ const SigmaInstanceTracker = React.forwardRef<any, {}>((props, ref) => {
 });
 SigmaInstanceTracker.displayName = 'SigmaInstanceTracker';
 
+// Centers and zooms on the requested node once it's drawn (it may still be loading)
+const NodeFocus: React.FC<{ request: NodeFocusRequest | null; visibleElements: GraphElement[] }> = ({ request, visibleElements }) => {
+  const sigma = useSigma();
+  const handledRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!request || handledRef.current === request.at || !sigma.getGraph().hasNode(request.nodeId)) return;
+    const timeoutId = setTimeout(() => { // After GraphController's refresh
+      const position = sigma.getNodeDisplayData(request.nodeId);
+      if (!position) return;
+      handledRef.current = request.at;
+      sigma.getCamera().animate({ x: position.x, y: position.y, ratio: 0.3 }, { duration: 500 });
+    }, 100);
+    return () => clearTimeout(timeoutId);
+  }, [sigma, request, visibleElements]);
+
+  return null;
+};
+
+// Risk colors: green (score 0) to red (100); unscored nodes are grey
+const UNSCORED_COLOR = '#bdc3c7';
+const riskColor = (score: unknown): string => {
+  if (typeof score !== 'number' || score <= 0) return UNSCORED_COLOR;
+  const t = Math.min(score, 100) / 100;
+  const mix = (from: number, to: number) => Math.round(from + (to - from) * t).toString(16).padStart(2, '0');
+  return `#${mix(0x2e, 0xe7)}${mix(0xcc, 0x4c)}${mix(0x71, 0x3c)}`;
+};
+
+// Node and edge reducers: optional risk coloring, sizes and colors from the graph
+// algorithms panel's result, the selected nodes and their incident edges, pinned nodes' labels, plus the
+// current GraphHighlight (e.g. an alert's matched subgraph) with everything else faded
+const GraphReducers: React.FC<{
+  colorByRisk: boolean;
+  algorithmView: GraphAlgorithmView | null;
+  selectedNodeIds: string[];
+  selectedEdgeIds: string[];
+  pinnedNodeIds: string[];
+}> = ({ colorByRisk, algorithmView, selectedNodeIds, selectedEdgeIds, pinnedNodeIds }) => {
+  const sigma = useSigma();
+  const { highlight } = useGraphHighlight();
+
+  useEffect(() => {
+    const selected = new Set(selectedNodeIds);
+    const selectedEdges = new Set(selectedEdgeIds);
+    const pinned = new Set(pinnedNodeIds);
+    const baseNode = (node: string, data: Record<string, any>) => {
+      const reduced: Record<string, any> = colorByRisk ? { ...data, color: riskColor(data.riskScore) } : { ...data };
+      if (algorithmView?.colorNodes) reduced.color = algorithmColor(algorithmView.result, node);
+      if (algorithmView?.sizeNodes && algorithmView.result.kind === 'centrality') {
+        reduced.size = 8 + 22 * relativeScore(algorithmView.result, node);
+      }
+      if (selected.has(node)) {
+        reduced.highlighted = true;
+        reduced.forceLabel = true;
+        reduced.zIndex = 2;
+      }
+      if (pinned.has(node)) reduced.forceLabel = true;
+      return reduced;
+    };
+    // Edges are keyed by graphology, so match on the element id kept in their attributes
+    const isSelectedEdge = (data: Record<string, any>) => selectedEdges.has(data.id);
+    const selectedEdge = (data: Record<string, any>) => ({ ...data, color: '#3182ce', size: 3, zIndex: 2 });
+
+    if (!highlight) {
+      sigma.setSetting('nodeReducer', (node, data) => baseNode(node, data));
+      sigma.setSetting('edgeReducer', (edge, data) => (isSelectedEdge(data) ? selectedEdge(data) : { ...data }));
+      return;
+    }
+
+    const nodeIds = new Set(highlight.nodeIds);
+    const edgeIds = new Set(highlight.edgeIds);
+    sigma.setSetting('nodeReducer', (node, data) => (
+      nodeIds.has(node) || selected.has(node)
+        ? { ...baseNode(node, data), highlighted: true, zIndex: 1 }
+        : { ...data, color: '#e2e2e2', label: '', zIndex: 0 }
+    ));
+    sigma.setSetting('edgeReducer', (edge, data) => {
+      if (edgeIds.has(data.id)) return { ...data, color: '#e53e3e', size: 4, zIndex: 1 };
+      return isSelectedEdge(data) ? selectedEdge(data) : { ...data, color: '#f0f0f0', zIndex: 0 };
+    });
+  }, [sigma, highlight, colorByRisk, algorithmView, selectedNodeIds, selectedEdgeIds, pinnedNodeIds]);
+
+  return null;
+};
+
 // Graph Controller Component
 const GraphController: React.FC<{
-  elements: GraphElement[];
-  startTime: number;
-  endTime: number;
+  elements: GraphElement[];        // Everything loaded, to tell new data from a new time window
+  visibleElements: GraphElement[]; // What is shown: alive in the timeline window
+  lastChange: GraphDataChange;
+  placedPositions: Map<string, { x: number; y: number }>; // Chosen for nodes merged next to shown ones
+  pinnedNodeIds: string[];         // Left where they are by layouts
   selectedLayout: string;
   hasManualPositions: boolean;
-  onDataRangeChange: (min: number, max: number) => void;
-}> = ({ elements, startTime, endTime, selectedLayout, hasManualPositions, onDataRangeChange }) => {
+}> = ({ elements, visibleElements, lastChange, placedPositions, pinnedNodeIds, selectedLayout, hasManualPositions }) => {
   const loadGraph = useLoadGraph();
   const sigma = useSigma();
   const [isLoading, setIsLoading] = useState(true);
   const [isInitialLoad, setIsInitialLoad] = useState(true);
   const renderCountRef = useRef(0);
   const graphRef = useRef<Graph | null>(null);
+  // Elements the layout was last computed for; when another page of data arrives it is
+  // computed again
+  const layoutElementsRef = useRef<GraphElement[] | null>(null);
+  // Read when a layout is applied; pinning alone doesn't rebuild the graph
+  const pinnedRef = useRef<Set<string>>(new Set());
+  pinnedRef.current = new Set(pinnedNodeIds);
 
   // Create a stable graph instance
   const graph = useMemo(() => {
@@ -189,16 +294,12 @@ const GraphController: React.FC<{
     return graphRef.current;
   }, []);
 
-  // Stable reference to data range callback to prevent infinite loops
-  const stableOnDataRangeChange = useCallback(onDataRangeChange, []);
-
   // Reduce console logging for performance
   const shouldLog = renderCountRef.current < 5;
   if (shouldLog) {
     console.log('GraphController: Rendered with props:', {
       elementsCount: elements.length,
-      startTime,
-      endTime,
+      visibleCount: visibleElements.length,
       selectedLayout,
       hasManualPositions,
       renderCount: ++renderCountRef.current
@@ -218,13 +319,18 @@ const GraphController: React.FC<{
       return;
     }
 
+    const place = (node: string, x: number, y: number) => {
+      if (pinnedRef.current.has(node)) return;
+      graph.setNodeAttribute(node, 'x', x);
+      graph.setNodeAttribute(node, 'y', y);
+    };
+
     switch (layoutType) {
       case 'circular':
         nodes.forEach((node, index) => {
           const angle = (2 * Math.PI * index) / nodeCount;
           const radius = Math.min(200, nodeCount * 8);
-          graph.setNodeAttribute(node, 'x', Math.cos(angle) * radius);
-          graph.setNodeAttribute(node, 'y', Math.sin(angle) * radius);
+          place(node, Math.cos(angle) * radius, Math.sin(angle) * radius);
         });
         break;
 
@@ -233,8 +339,7 @@ const GraphController: React.FC<{
         nodes.forEach((node, index) => {
           const row = Math.floor(index / cols);
           const col = index % cols;
-          graph.setNodeAttribute(node, 'x', col * 100 - (cols * 50));
-          graph.setNodeAttribute(node, 'y', row * 100 - (Math.ceil(nodeCount / cols) * 50));
+          place(node, col * 100 - (cols * 50), row * 100 - (Math.ceil(nodeCount / cols) * 50));
         });
         break;
 
@@ -245,36 +350,24 @@ const GraphController: React.FC<{
           const radius = Math.max(150, nodeCount * 6);
           const x = Math.cos(angle) * radius + (Math.random() - 0.5) * 50;
           const y = Math.sin(angle) * radius + (Math.random() - 0.5) * 50;
-          graph.setNodeAttribute(node, 'x', x);
-          graph.setNodeAttribute(node, 'y', y);
+          place(node, x, y);
         });
         break;
 
       default: // random
         nodes.forEach((node) => {
-          graph.setNodeAttribute(node, 'x', (Math.random() - 0.5) * 400);
-          graph.setNodeAttribute(node, 'y', (Math.random() - 0.5) * 400);
+          place(node, (Math.random() - 0.5) * 400, (Math.random() - 0.5) * 400);
         });
     }
 
     if (shouldLog) console.log(`Applied ${layoutType} layout to ${nodeCount} nodes`);
   }, [shouldLog]);
 
-  // FIXED: Memoize filtered elements to prevent unnecessary re-renders
-  const filteredElements = useMemo(() => {
-    return elements.filter(el => {
-      if (!el.data.timestamp) return true; // Include elements without timestamps
-      const timestamp = typeof el.data.timestamp === 'number' 
-        ? el.data.timestamp 
-        : new Date(el.data.timestamp).getTime();
-      return timestamp >= startTime && timestamp <= endTime;
-    });
-  }, [elements, startTime, endTime]);
-
   // Filter and update graph based on time range - FIXED: Stabilize dependencies
   useEffect(() => {
     // Skip updates if we're in manual positioning mode and this is just a time range change
-    if (hasManualPositions && !isInitialLoad) {
+    const elementsChanged = layoutElementsRef.current !== elements;
+    if (hasManualPositions && !isInitialLoad && !elementsChanged) {
       if (shouldLog) console.log('Skipping graph update - manual positioning mode active');
       return;
     }
@@ -291,13 +384,7 @@ const GraphController: React.FC<{
         if (shouldLog) {
           console.log('GraphController: Processing elements:', {
             totalElements: elements.length,
-            filteredElements: filteredElements.length,
-            timeRange: {
-              startTime,
-              endTime,
-              startTimeDate: new Date(startTime).toISOString(),
-              endTimeDate: new Date(endTime).toISOString()
-            }
+            visibleElements: visibleElements.length,
           });
 
           // Debug: Show sample element timestamps
@@ -306,29 +393,47 @@ const GraphController: React.FC<{
             console.log('GraphController: Sample element timestamps:', sampleElements.map(el => ({
               id: el.data.id,
               timestamp: el.data.timestamp,
-              timestampDate: el.data.timestamp ? new Date(el.data.timestamp).toISOString() : 'No timestamp'
+              timestampDate: hasTimestamp(el.data.timestamp) ? new Date(el.data.timestamp!).toISOString() : 'No timestamp (always present)'
             })));
           }
         }
 
+        // Nodes keep their position across rebuilds; only new ones are placed
+        const previousPositions = new Map<string, { x: number; y: number }>();
+        graph.forEachNode((node, attributes) => {
+          previousPositions.set(node, { x: attributes.x, y: attributes.y });
+        });
+
         // Clear existing graph
         graph.clear();
 
         // Add nodes
-        const nodes = filteredElements.filter(el => el.group === 'nodes');
-        const edges = filteredElements.filter(el => el.group === 'edges');
+        const nodes = visibleElements.filter(el => el.group === 'nodes');
+        const edges = visibleElements.filter(el => el.group === 'edges');
+
+        // Nodes that appear live or are merged from elsewhere (e.g. the node details
+        // panel) without a place go next to a neighbour already shown
+        const livePositions = elementsChanged && (lastChange === 'live' || lastChange === 'merge')
+          ? placeNewNodes(
+              nodes.filter(el => !previousPositions.has(el.data.id) && !placedPositions.has(el.data.id)),
+              edges,
+              id => previousPositions.get(id)
+            )
+          : new Map<string, { x: number; y: number }>();
+        const placedPosition = (id: string) => placedPositions.get(id) ?? livePositions.get(id);
 
         nodes.forEach(el => {
           if (!graph.hasNode(el.data.id)) {
             // FIXED: Remove the type property completely and use default circle nodes
             const { type, ...nodeDataWithoutType } = el.data;
-            
+            const position = previousPositions.get(el.data.id) ?? placedPosition(el.data.id);
+
             graph.addNode(el.data.id, {
               label: el.data.label || el.data.id,
               size: getNodeSize(type || 'default'),
               color: getNodeColor(type || 'default'),
-              x: (Math.random() - 0.5) * 400,
-              y: (Math.random() - 0.5) * 400,
+              x: position ? position.x : (Math.random() - 0.5) * 400,
+              y: position ? position.y : (Math.random() - 0.5) * 400,
               // Store original type in a custom attribute but don't use as node type
               originalType: type || 'default',
               // FIXED: Don't specify node type - let Sigma use its default renderer
@@ -352,33 +457,20 @@ const GraphController: React.FC<{
           }
         });
 
-        // Only apply layout on initial load or explicit layout changes
-        if (isInitialLoad) {
-          applyLayout(graph, selectedLayout, false);
+        // Only apply layout on initial load, new data or explicit layout changes. New data
+        // leaves the layout alone when nodes were moved by hand, arrive already placed (an
+        // expanded neighbourhood, live additions) or all have a place already (updates and
+        // removals)
+        const newNodesPlaced = nodes.some(el => !previousPositions.has(el.data.id) && placedPosition(el.data.id));
+        const allPlaced = nodes.every(el => previousPositions.has(el.data.id) || placedPosition(el.data.id));
+        const keepLayout = !isInitialLoad && (hasManualPositions || newNodesPlaced || allPlaced);
+        if (isInitialLoad || elementsChanged) {
+          applyLayout(graph, selectedLayout, keepLayout);
           setIsInitialLoad(false);
+          layoutElementsRef.current = elements;
           if (shouldLog) console.log(`Sigma.js: Initial load - applied ${selectedLayout} layout`);
         }
 
-        // Calculate data range for timeline (only once)
-        if (isInitialLoad && elements.length > 0) {
-          let minTimestamp = Infinity;
-          let maxTimestamp = -Infinity;
-
-          elements.forEach(el => {
-            if (el.data.timestamp) {
-              const ts = typeof el.data.timestamp === 'number'
-                ? el.data.timestamp
-                : new Date(el.data.timestamp).getTime();
-              if (ts < minTimestamp) minTimestamp = ts;
-              if (ts > maxTimestamp) maxTimestamp = ts;
-            }
-          });
-
-          if (isFinite(minTimestamp) && isFinite(maxTimestamp)) {
-            stableOnDataRangeChange(minTimestamp, maxTimestamp);
-          }
-        }
-
         // Load the graph
         loadGraph(graph);
 
@@ -405,7 +497,8 @@ const GraphController: React.FC<{
           if (isMounted && sigma) {
             try {
               sigma.refresh();
-              sigma.getCamera().setState({ x: 0, y: 0, ratio: 1 });
+              // Changes merged into the graph leave the camera where the user put it
+              if (!(elementsChanged && keepLayout)) sigma.getCamera().setState({ x: 0, y: 0, ratio: 1 });
             } catch (error) {
               console.warn('Error forcing Sigma refresh:', error);
             }
@@ -429,7 +522,7 @@ const GraphController: React.FC<{
         clearTimeout(timeoutId);
       }
     };
-  }, [filteredElements, selectedLayout, hasManualPositions, isInitialLoad, graph, loadGraph, applyLayout, stableOnDataRangeChange, sigma, elements.length, shouldLog]); // FIXED: Use memoized filteredElements
+  }, [visibleElements, selectedLayout, hasManualPositions, isInitialLoad, graph, loadGraph, applyLayout, sigma, elements, lastChange, placedPositions, shouldLog]);
 
   return null;
 };
@@ -438,7 +531,9 @@ const GraphController: React.FC<{
 const ManualPositioning: React.FC<{
   setTooltip: React.Dispatch<React.SetStateAction<TooltipState>>;
   onManualPositioning: (hasManualPositions: boolean) => void;
-}> = ({ setTooltip, onManualPositioning }) => {
+  onSelect: (nodeIds: string[]) => void;
+  onClearSelection: () => void;
+}> = ({ setTooltip, onManualPositioning, onSelect, onClearSelection }) => {
   const sigma = useSigma();
   const registerEvents = useRegisterEvents();
   const [isDragging, setIsDragging] = useState(false);
@@ -449,6 +544,10 @@ const ManualPositioning: React.FC<{
     registerEvents({
       // Node dragging events
       downNode: (event) => {
+        // Right button presses open the node menu instead
+        const original = event.event.original;
+        if ('button' in original && original.button !== 0) return;
+
         console.log(`Starting drag for node: ${event.node}`);
         setIsDragging(true);
         setDraggedNode(event.node);
@@ -497,12 +596,14 @@ const ManualPositioning: React.FC<{
         }
       },
 
-      // Global mouse up to handle edge cases
+      // Global mouse up to handle edge cases; a click on the background clears the selection
       clickStage: () => {
         if (isDragging) {
           setIsDragging(false);
           setDraggedNode(null);
           sigma.getCamera().enable();
+        } else {
+          onClearSelection();
         }
       },
 
@@ -530,15 +631,41 @@ const ManualPositioning: React.FC<{
         }
       },
 
-      // Node click for selection/grouping
+      // Node click selects the node (in every view)
       clickNode: (event) => {
         if (!isDragging) {
-          console.log('Node clicked:', event.node);
-          // Handle node click events here (e.g., for grouping)
+          onSelect([event.node]);
         }
       },
     });
-  }, [registerEvents, sigma, isDragging, draggedNode, setTooltip, onManualPositioning]);
+  }, [registerEvents, sigma, isDragging, draggedNode, setTooltip, onManualPositioning, onSelect, onClearSelection]);
+
+  return null;
+};
+
+// Opens the node menu on right click
+const NodeRightClick: React.FC<{
+  onOpen: (target: NodeContextMenuTarget) => void;
+}> = ({ onOpen }) => {
+  const sigma = useSigma();
+  const registerEvents = useRegisterEvents();
+
+  useEffect(() => {
+    registerEvents({
+      rightClickNode: (event) => {
+        const original = event.event.original;
+        if (!('clientX' in original)) return;
+        original.preventDefault();
+        event.preventSigmaDefault();
+        onOpen({
+          nodeId: event.node,
+          label: sigma.getGraph().getNodeAttribute(event.node, 'label') || event.node,
+          x: original.clientX,
+          y: original.clientY,
+        });
+      },
+    });
+  }, [registerEvents, sigma, onOpen]);
 
   return null;
 };
@@ -547,15 +674,18 @@ const ManualPositioning: React.FC<{
 const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
   startTime,
   endTime,
-  onDataRangeChange,
 }) => {
-  const [elements, setElements] = useState<GraphElement[]>([]);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
+  const [renderError, setRenderError] = useState<string | null>(null);
   const [selectedLayout, setSelectedLayout] = useState('random');
+  const [riskColorsEnabled, setRiskColorsEnabled] = useState(false);
   const [groupingEnabled, setGroupingEnabled] = useState(false);
   const [animationEnabled, setAnimationEnabled] = useState(true);
   const [hasManualPositions, setHasManualPositions] = useState(false);
+  // Graph algorithms panel, how its last result is shown, and the partition the nodes are
+  // laid out in clusters by
+  const [algorithmsOpen, setAlgorithmsOpen] = useState(false);
+  const [algorithmView, setAlgorithmView] = useState<GraphAlgorithmView | null>(null);
+  const clusteredByRef = useRef<GraphAlgorithmResult | null>(null);
   const [containerReady, setContainerReady] = useState(false);
   const [tooltip, setTooltip] = useState<TooltipState>({
     visible: false,
@@ -565,6 +695,21 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
     title: '',
   });
   const sigmaInstanceRef = useRef<any>(null);
+  const { queryResult } = useGraphQuery();
+  const { highlight } = useGraphHighlight();
+  const {
+    elements: dataElements, visibleElements: dataVisibleElements, lastChange, progress, loading, loadingMore,
+    error: dataError, loadMore, addElements, selectedNodeIds, selectedEdgeIds, selectNodes, clearSelection,
+    hiddenNodeIds, showHiddenNodes, pinnedNodeIds, focusRequest,
+  } = useGraphData();
+  const elements = dataElements as GraphElement[];
+  const visibleElements = dataVisibleElements as GraphElement[];
+  const error = dataError ?? renderError;
+  const { expand } = useNodeExpansion(startTime, endTime);
+  // Right-click menu on a node, and the positions chosen for nodes merged next to the
+  // shown ones (expanded neighbourhoods, paths) until they are drawn
+  const [contextMenu, setContextMenu] = useState<NodeContextMenuTarget | null>(null);
+  const placedPositionsRef = useRef<Map<string, { x: number; y: number }>>(new Map());
 
   const toast = useToast();
 
@@ -669,30 +814,96 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
     }
   }, [selectedLayout, containerReady]);
 
-  // Fetch data from API
+  // Positions chosen for the previous data don't apply to a new graph
   useEffect(() => {
-    const fetchData = async () => {
-      setLoading(true);
-      setError(null);
+    if (lastChange === 'load') placedPositionsRef.current.clear();
+  }, [elements, lastChange]);
 
-      try {
-        const response = await fetch('/api/graph-data?all=true');
-        if (!response.ok) {
-          throw new Error(`HTTP error! status: ${response.status}`);
-        }
+  useEffect(() => {
+    if (queryResult) console.log(`Sigma.js: Showing ${queryResult.elements.length} elements from saved query "${queryResult.title}"`);
+  }, [queryResult]);
+
+  // Add elements that aren't loaded yet (an expanded neighbourhood, a path) to the graph,
+  // placing new nodes on a ring around `anchorId`. Nodes already shown keep their
+  // positions. Returns the number of nodes added.
+  const mergeIntoGraph = useCallback((extra: GraphElement[], anchorId: string): number => {
+    const newNodes = addElements(extra as CytoscapeElement[]).filter(el => el.group === 'nodes');
+    if (newNodes.length === 0) return 0;
+
+    const graph = sigmaInstanceRef.current?.getGraph?.();
+    const center = graph && graph.hasNode(anchorId)
+      ? { x: graph.getNodeAttribute(anchorId, 'x'), y: graph.getNodeAttribute(anchorId, 'y') }
+      : { x: 0, y: 0 };
+    const positions = ringPositions(center, newNodes.length, 40);
+    newNodes.forEach((el, index) => placedPositionsRef.current.set(String(el.data.id), positions[index]));
+    return newNodes.length;
+  }, [addElements]);
+
+  // Merge a node's neighbourhood into the graph
+  const expandNode = useCallback(async (nodeId: string, options: ExpansionOptions) => {
+    const expanded = await expand(nodeId, options);
+    if (!expanded) return;
+
+    const added = mergeIntoGraph(expanded as GraphElement[], nodeId);
+    toast(added > 0 ? {
+      title: `Added ${added} node${added === 1 ? '' : 's'}`,
+      status: "success",
+      duration: 2000,
+      isClosable: true,
+    } : {
+      title: "Nothing to add",
+      description: "All neighbours are already in the graph.",
+      status: "info",
+      duration: 3000,
+      isClosable: true,
+    });
+  }, [expand, mergeIntoGraph, toast]);
 
-        const data = await response.json();
-        setElements(data.elements || []);
-        console.log(`Sigma.js: Fetched ${data.elements?.length || 0} elements`);
-      } catch (err: any) {
-        console.error('Error fetching graph data:', err);
-        setError(err.message || 'Failed to fetch graph data');
-      } finally {
-        setLoading(false);
-      }
-    };
+  // Highlights can bring elements of their own (e.g. a path); add the missing ones
+  useEffect(() => {
+    if (!highlight?.elements || highlight.nodeIds.length === 0) return;
+    const graph = sigmaInstanceRef.current?.getGraph?.();
+    const anchorId = highlight.nodeIds.find(id => graph && graph.hasNode(id));
+    mergeIntoGraph(highlight.elements as GraphElement[], anchorId ?? highlight.nodeIds[0]);
+  }, [highlight]);
+
+  const closeContextMenu = useCallback(() => setContextMenu(null), []);
+
+  // The nodes and edges the graph currently shows, for the graph algorithms panel
+  const getAlgorithmElements = useCallback((): AlgorithmElement[] => {
+    const graph = sigmaInstanceRef.current?.getGraph?.();
+    if (!graph) return [];
+    return [
+      ...graph.mapNodes((node: string, attributes: Record<string, any>) => ({ group: 'nodes', data: { id: node, label: attributes.label } })),
+      ...graph.mapEdges((edge: string, attributes: Record<string, any>, source: string, target: string) => ({
+        group: 'edges',
+        data: { id: attributes.id ?? edge, source, target },
+      })),
+    ];
+  }, []);
 
-    fetchData();
+  // Show a result of the graph algorithms panel. There are no group nodes in this view, so
+  // grouping by a partition lays the nodes out in one cluster per community / component
+  // (kept like manual positions); dropping it lets the layout run again.
+  const handleAlgorithmView = useCallback((view: GraphAlgorithmView | null) => {
+    setAlgorithmView(view);
+    const partition = view?.groupByResult ? view.result : null;
+    if (partition === clusteredByRef.current) return;
+    clusteredByRef.current = partition;
+    if (!partition) {
+      setHasManualPositions(false);
+      return;
+    }
+
+    const graph = sigmaInstanceRef.current?.getGraph?.();
+    if (!graph) return;
+    partitionPositions(partition, { x: 0, y: 0 }, 20).forEach((position, node) => {
+      if (!graph.hasNode(node)) return;
+      graph.setNodeAttribute(node, 'x', position.x);
+      graph.setNodeAttribute(node, 'y', position.y);
+    });
+    setHasManualPositions(true);
+    sigmaInstanceRef.current.getCamera().animatedReset();
   }, []);
 
   // Handle layout change
@@ -782,6 +993,7 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
       width="100%"
       position="relative"
       minHeight="600px"
+      onContextMenu={event => event.preventDefault()} // Right click on a node opens our own menu
     >
       {/* Loading state while container is not ready */}
       {!containerReady && (
@@ -804,6 +1016,15 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
         </Box>
       )}
 
+      {/* Graph algorithms, kept mounted while hidden so its result stays shown */}
+      <Box position="absolute" top="10px" left="10px" zIndex="1000" display={algorithmsOpen ? 'block' : 'none'}>
+        <GraphAlgorithmsPanel
+          getElements={getAlgorithmElements}
+          onChange={handleAlgorithmView}
+          onClose={() => setAlgorithmsOpen(false)}
+        />
+      </Box>
+
       {/* Controls */}
       <Box
         position="absolute"
@@ -875,6 +1096,50 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
             </FormControl>
           </HStack>
 
+          {/* Risk Colors Toggle */}
+          <HStack spacing={2}>
+            <Tooltip label="Color nodes by risk score" placement="left">
+              <IconButton
+                aria-label="Risk colors"
+                icon={<FaExclamationTriangle />}
+                size="sm"
+                colorScheme="red"
+                variant="ghost"
+                opacity="0.8"
+                _hover={{ opacity: 1 }}
+              />
+            </Tooltip>
+            <FormControl display="flex" alignItems="center">
+              <Switch
+                id="risk-colors"
+                size="sm"
+                isChecked={riskColorsEnabled}
+                onChange={() => setRiskColorsEnabled(!riskColorsEnabled)}
+                colorScheme="red"
+              />
+              <FormLabel htmlFor="risk-colors" fontSize="xs" ml={2} mb={0} color="gray.600">
+                Risk
+              </FormLabel>
+            </FormControl>
+          </HStack>
+
+          {/* Graph Algorithms Panel Toggle */}
+          <HStack spacing={2}>
+            <Tooltip label="Centrality, communities and connected components" placement="left">
+              <IconButton
+                aria-label="Graph algorithms"
+                icon={<FaChartPie />}
+                size="sm"
+                colorScheme="teal"
+                variant={algorithmsOpen ? "solid" : "ghost"}
+                opacity="0.8"
+                _hover={{ opacity: 1 }}
+                onClick={() => setAlgorithmsOpen(!algorithmsOpen)}
+              />
+            </Tooltip>
+            <Text fontSize="xs" color="gray.600">Algorithms</Text>
+          </HStack>
+
           {/* Reset Manual Positioning */}
           {hasManualPositions && (
             <HStack spacing={2} justify="center">
@@ -913,9 +1178,15 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
         </VStack>
       </Box>
 
+      {/* Partially loaded graph, hidden nodes */}
+      <VStack position="absolute" bottom="10px" left="10px" zIndex="1000" spacing={2} align="flex-start">
+        {!queryResult && <GraphLoadStatus progress={progress} loadingMore={loadingMore} onLoadMore={loadMore} />}
+        <HiddenNodesStatus hiddenCount={hiddenNodeIds.length} onShowAll={showHiddenNodes} />
+      </VStack>
+
       {/* FIXED: Simplified Sigma Container - avoid program registration issues */}
       {containerReady && (
-        <SigmaErrorBoundary onError={(error) => setError(error.message)}>
+        <SigmaErrorBoundary onError={(error) => setRenderError(error.message)}>
           <SigmaContainer
             style={{ height: '100%', width: '100%' }}
             settings={{
@@ -939,17 +1210,23 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
           >
             <GraphController
               elements={elements}
-              startTime={startTime}
-              endTime={endTime}
+              visibleElements={visibleElements}
+              lastChange={lastChange}
+              placedPositions={placedPositionsRef.current}
+              pinnedNodeIds={pinnedNodeIds}
               selectedLayout={selectedLayout}
               hasManualPositions={hasManualPositions}
-              onDataRangeChange={onDataRangeChange}
             />
             <ManualPositioning
               setTooltip={setTooltip}
               onManualPositioning={setHasManualPositions}
+              onSelect={selectNodes}
+              onClearSelection={clearSelection}
             />
+            <NodeRightClick onOpen={setContextMenu} />
+            <NodeFocus request={focusRequest} visibleElements={visibleElements} />
             <SigmaInstanceTracker ref={sigmaInstanceRef} />
+            <GraphReducers colorByRisk={riskColorsEnabled} algorithmView={algorithmView} selectedNodeIds={selectedNodeIds} selectedEdgeIds={selectedEdgeIds} pinnedNodeIds={pinnedNodeIds} />
           </SigmaContainer>
         </SigmaErrorBoundary>
       )}
@@ -978,6 +1255,16 @@ const SigmaGraphVisualization: React.FC<SigmaGraphVisualizationProps> = ({
           <Text fontSize="xs" lineHeight="1.3" opacity={0.9}>{tooltip.content}</Text>
         </Box>
       )}
+
+      {contextMenu && (
+        <NodeContextMenu
+          target={contextMenu}
+          startTime={startTime}
+          endTime={endTime}
+          onExpand={expandNode}
+          onClose={closeContextMenu}
+        />
+      )}
     </Box>
   );
 };
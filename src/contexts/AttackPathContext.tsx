@@ -0,0 +1,84 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import { useToast } from "@chakra-ui/react";
+import type { AttackTagRole, AttackTags } from "@/lib/attackPaths";
+
+// Nodes tagged as attack-path entry points and crown jewels. Tags are set from the node
+// menu of the graph views; the Attack Paths panel analyses the paths between them.
+
+interface AttackPathContextValue {
+  tags: AttackTags;
+  isTagged: (nodeId: string, role: AttackTagRole) => boolean;
+  setTag: (nodeId: string, role: AttackTagRole, tagged: boolean) => Promise<void>;
+  refreshTags: () => Promise<void>;
+}
+
+const NO_TAGS: AttackTags = { entryPoints: [], crownJewels: [] };
+
+const AttackPathContext = createContext<AttackPathContextValue | undefined>(undefined);
+
+export function useAttackPaths() {
+  const ctx = useContext(AttackPathContext);
+  if (!ctx) {
+    throw new Error("useAttackPaths must be used within an AttackPathProvider");
+  }
+  return ctx;
+}
+
+export const AttackPathProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [tags, setTags] = useState<AttackTags>(NO_TAGS);
+  const toast = useToast();
+
+  const refreshTags = useCallback(async () => {
+    try {
+      const response = await fetch('/api/attack-paths/tags');
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+      setTags(data);
+    } catch (e: any) {
+      console.error("Failed to fetch attack path tags:", e);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshTags();
+  }, [refreshTags]);
+
+  const isTagged = useCallback((nodeId: string, role: AttackTagRole) => {
+    const tagged = role === 'entryPoint' ? tags.entryPoints : tags.crownJewels;
+    return tagged.some(node => node.id === nodeId);
+  }, [tags]);
+
+  const setTag = useCallback(async (nodeId: string, role: AttackTagRole, tagged: boolean) => {
+    try {
+      const response = await fetch('/api/attack-paths/tags', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ nodeId, role, tagged }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+      setTags(data);
+    } catch (e: any) {
+      console.error("Failed to update attack path tag:", e);
+      toast({
+        title: "Error updating tag",
+        description: e.message || "An unknown error occurred while updating the tag.",
+        status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+    }
+  }, [toast]);
+
+  return (
+    <AttackPathContext.Provider value={{ tags, isTagged, setTag, refreshTags }}>
+      {children}
+    </AttackPathContext.Provider>
+  );
+};
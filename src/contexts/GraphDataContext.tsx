@@ -0,0 +1,312 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from "react";
+import type { CytoscapeElement } from "@/lib/graphElements";
+import type { GraphPage } from "@/lib/graphPages";
+import { getIconPath } from "@/lib/iconUtils";
+import { getTimestampBounds, isAliveInTimeWindow, lifetimeTimes, parseTimestamp } from "@/lib/timeUtils";
+import { applyElementChanges, mergeElements } from "@/lib/graphMerge";
+import { useTimeline } from "@/contexts/TimelineContext";
+import { useGraphQuery } from "@/contexts/GraphQueryContext";
+import { useLiveEvents } from "@/contexts/LiveUpdatesContext";
+
+// The graph data shared by the Cytoscape, Sigma and geo views: fetched once from
+// /api/graph-data (page by page), normalized, filtered to the timeline window, and kept
+// up to date by live mode. A saved query's result replaces the full graph while it's
+// shown. The selected nodes live here too: selecting in any view or dashboard list
+// (graphs, map, risk and alert lists) highlights the nodes and their incident edges in
+// all of them. So do the nodes hidden from the views and the nodes pinned in place, and
+// the node the views should bring into view (e.g. one picked in the entity search).
+//
+// The first page is shown as soon as it arrives and the next ones are fetched in the
+// background, up to BACKGROUND_PAGES per round; after that the views offer "Load more".
+
+export const GRAPH_PAGE_SIZE = 500;
+export const BACKGROUND_PAGES = 4;
+
+export interface GraphPagesProgress {
+  loadedCount: number;
+  totalCount: number;
+  truncated: boolean;
+}
+
+// What last changed the elements, so a view can tell whether to lay them out again:
+// 'load' replaced them (first page, reload, saved query), 'page' appended a page,
+// 'merge' added elements next to the shown ones (an expanded neighbourhood, a path) and
+// 'live' applied changes pushed in live mode. Merged and live nodes that no view placed
+// yet go next to a neighbour already shown.
+export type GraphDataChange = 'load' | 'page' | 'merge' | 'live';
+
+// A node to center and zoom on once a view draws it; `at` tells two requests for the
+// same node apart
+export interface NodeFocusRequest {
+  nodeId: string;
+  at: number;
+}
+
+interface GraphDataContextValue {
+  elements: CytoscapeElement[];        // Everything loaded
+  visibleElements: CytoscapeElement[]; // Alive in the timeline window and not hidden; edges only between visible nodes
+  lastChange: GraphDataChange;
+  progress: GraphPagesProgress;
+  loading: boolean;     // Waiting for the first page
+  loadingMore: boolean; // Fetching later pages
+  error: string | null;
+  reload: () => void;
+  loadMore: () => void;
+  addElements: (extra: CytoscapeElement[]) => CytoscapeElement[];
+  selectedNodeIds: string[];
+  selectedEdgeIds: string[]; // Loaded edges incident to a selected node
+  selectNodes: (nodeIds: string[]) => void;
+  clearSelection: () => void;
+  hiddenNodeIds: string[];
+  hideNodes: (nodeIds: string[]) => void;
+  showHiddenNodes: () => void;
+  pinnedNodeIds: string[]; // Kept in place by layouts
+  togglePinned: (nodeId: string) => void;
+  focusRequest: NodeFocusRequest | null;
+  focusNode: (nodeId: string) => void; // Also selects the node and shows it if it was hidden
+}
+
+const NO_PROGRESS: GraphPagesProgress = { loadedCount: 0, totalCount: 0, truncated: false };
+
+// Used for the timeline when nothing loaded is timed
+const DEFAULT_RANGE = {
+  min: new Date('2023-12-30T00:00:00.000Z').getTime(),
+  max: new Date('2023-12-31T23:59:59.999Z').getTime(),
+};
+
+const TIME_PROPERTIES = ['timestamp', 'valid_from', 'valid_to'];
+
+const elementKey = (element: CytoscapeElement) => `${element.group}:${element.data.id}`;
+
+/**
+ * An element as the views use it: times as epoch ms (unparseable ones are kept as they
+ * are, so they stay out of every window) and, for nodes, the icon of their type.
+ */
+export function normalizeElement(element: CytoscapeElement): CytoscapeElement {
+  const data: Record<string, any> = { ...element.data };
+  TIME_PROPERTIES.forEach(key => {
+    const time = parseTimestamp(data[key]);
+    if (time !== null) data[key] = time;
+  });
+  if (element.group === 'nodes') {
+    data.icon = getIconPath(data.type);
+    data.originalType = data.type;
+    data.fallbackIcon = '/icons/unknown.png';
+  }
+  return { ...element, data: data as CytoscapeElement['data'] };
+}
+
+const GraphDataContext = createContext<GraphDataContextValue | undefined>(undefined);
+
+export function useGraphData() {
+  const ctx = useContext(GraphDataContext);
+  if (!ctx) {
+    throw new Error("useGraphData must be used within a GraphDataProvider");
+  }
+  return ctx;
+}
+
+export const GraphDataProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { startTime, endTime, handleDataRangeChange } = useTimeline();
+  const { queryResult } = useGraphQuery();
+  const [elements, setElements] = useState<CytoscapeElement[]>([]);
+  const [lastChange, setLastChange] = useState<GraphDataChange>('load');
+  const [progress, setProgress] = useState<GraphPagesProgress>(NO_PROGRESS);
+  const [loading, setLoading] = useState<boolean>(true);
+  const [loadingMore, setLoadingMore] = useState<boolean>(false);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedNodeIds, setSelectedNodeIds] = useState<string[]>([]);
+  const [hiddenNodeIds, setHiddenNodeIds] = useState<string[]>([]);
+  const [pinnedNodeIds, setPinnedNodeIds] = useState<string[]>([]);
+  const [focusRequest, setFocusRequest] = useState<NodeFocusRequest | null>(null);
+  const elementsRef = useRef<CytoscapeElement[]>([]);
+  const cursorRef = useRef<string | null>(null);
+  const runRef = useRef<number>(0); // Bumped to abandon a round that is still loading
+  // Changes with the time window; only new data should report a new range
+  const handleDataRangeChangeRef = useRef(handleDataRangeChange);
+  handleDataRangeChangeRef.current = handleDataRangeChange;
+
+  const updateElements = useCallback((change: GraphDataChange, update: (previous: CytoscapeElement[]) => CytoscapeElement[]) => {
+    const next = update(elementsRef.current);
+    if (next === elementsRef.current) return;
+    elementsRef.current = next;
+    setElements(next);
+    setLastChange(change);
+  }, []);
+
+  const loadPages = useCallback(async (run: number, cursor: string | null) => {
+    const isReload = cursor === null;
+    if (isReload) setLoading(true); else setLoadingMore(true);
+    setError(null);
+
+    try {
+      for (let pageIndex = 0; pageIndex < BACKGROUND_PAGES; pageIndex++) {
+        const params = new URLSearchParams({ all: 'true', pageSize: String(GRAPH_PAGE_SIZE) });
+        if (cursor) params.set('cursor', cursor);
+        const response = await fetch(`/api/graph-data?${params.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+        }
+        if (run !== runRef.current) return;
+
+        const page = data as GraphPage;
+        const pageElements = page.elements.map(normalizeElement);
+        const isFirstPage = isReload && pageIndex === 0;
+        updateElements(isFirstPage ? 'load' : 'page', previous => {
+          if (isFirstPage) return pageElements;
+          // Elements merged or added live while the pages were loading come again in a later page
+          const keys = new Set(previous.map(elementKey));
+          return [...previous, ...pageElements.filter(element => !keys.has(elementKey(element)))];
+        });
+        setProgress({ loadedCount: page.loadedCount, totalCount: page.totalCount, truncated: page.truncated });
+        cursorRef.current = page.nextCursor;
+        cursor = page.nextCursor;
+
+        if (isFirstPage) {
+          // The rest of the round continues in the background
+          setLoading(false);
+          setLoadingMore(true);
+        }
+        if (!cursor) break;
+      }
+    } catch (e: any) {
+      if (run !== runRef.current) return;
+      console.error("Failed to fetch graph data:", e);
+      setError(e.message || "An unknown error occurred while fetching graph data.");
+    } finally {
+      if (run === runRef.current) {
+        setLoading(false);
+        setLoadingMore(false);
+      }
+    }
+  }, [updateElements]);
+
+  // Starts over from the first page, abandoning anything still loading
+  const reload = useCallback(() => {
+    const run = ++runRef.current;
+    cursorRef.current = null;
+    setProgress(NO_PROGRESS);
+    loadPages(run, null);
+  }, [loadPages]);
+
+  // Loads another round of pages after the ones shown
+  const loadMore = useCallback(() => {
+    if (!cursorRef.current || loadingMore || loading) return;
+    loadPages(runRef.current, cursorRef.current);
+  }, [loadPages, loadingMore, loading]);
+
+  // Show a saved query's result in place of the full graph, and go back to it when cleared
+  useEffect(() => {
+    if (queryResult) {
+      runRef.current++;
+      cursorRef.current = null;
+      setProgress(NO_PROGRESS);
+      setLoading(false);
+      setLoadingMore(false);
+      setError(null);
+      updateElements('load', () => queryResult.elements.map(normalizeElement));
+      return;
+    }
+    reload();
+  }, [queryResult, reload, updateElements]);
+
+  // Late responses are dropped after unmounting
+  useEffect(() => () => {
+    runRef.current++;
+  }, []);
+
+  // Adds the elements not loaded yet (an expanded neighbourhood, a path) and returns them.
+  // They stay when later pages arrive.
+  const addElements = useCallback((extra: CytoscapeElement[]): CytoscapeElement[] => {
+    const keys = new Set(elementsRef.current.map(elementKey));
+    const added = extra.filter(element => !keys.has(elementKey(element))).map(normalizeElement);
+    if (added.length > 0) updateElements('merge', previous => mergeElements(previous, added));
+    return added;
+  }, [updateElements]);
+
+  // Live mode. A saved query's result only follows updates and removals of what it shows.
+  useLiveEvents(['graph', 'reset'], event => {
+    if (event.type === 'reset') {
+      if (!queryResult) reload();
+      return;
+    }
+    if (event.type !== 'graph') return;
+    updateElements('live', previous => applyElementChanges(previous, {
+      added: queryResult ? [] : event.added.map(normalizeElement),
+      updated: event.updated.map(normalizeElement),
+      removed: event.removed,
+    }));
+    if (event.removed.nodes.length > 0) {
+      const removed = new Set(event.removed.nodes);
+      setSelectedNodeIds(previous => (previous.some(id => removed.has(id)) ? previous.filter(id => !removed.has(id)) : previous));
+    }
+  });
+
+  // Tell the timeline the range the loaded data spans
+  useEffect(() => {
+    if (elements.length === 0) return;
+    const bounds = getTimestampBounds(elements.flatMap(element => lifetimeTimes(element.data)));
+    const range = bounds ?? DEFAULT_RANGE;
+    handleDataRangeChangeRef.current(range.min, range.max);
+  }, [elements]);
+
+  const visibleElements = useMemo(() => {
+    const hidden = new Set(hiddenNodeIds);
+    const nodes = elements.filter(element => (
+      element.group === 'nodes' && !hidden.has(String(element.data.id)) && isAliveInTimeWindow(element.data, startTime, endTime)
+    ));
+    const nodeIds = new Set(nodes.map(node => String(node.data.id)));
+    const edges = elements.filter(element => {
+      if (element.group !== 'edges') return false;
+      const { source, target } = element.data as { source?: string; target?: string };
+      return nodeIds.has(String(source)) && nodeIds.has(String(target)) && isAliveInTimeWindow(element.data, startTime, endTime);
+    });
+    return [...nodes, ...edges];
+  }, [elements, hiddenNodeIds, startTime, endTime]);
+
+  const selectedEdgeIds = useMemo(() => {
+    if (selectedNodeIds.length === 0) return [];
+    const selected = new Set(selectedNodeIds);
+    return elements
+      .filter(element => {
+        if (element.group !== 'edges') return false;
+        const { source, target } = element.data as { source?: string; target?: string };
+        return selected.has(String(source)) || selected.has(String(target));
+      })
+      .map(element => String(element.data.id));
+  }, [elements, selectedNodeIds]);
+
+  const selectNodes = useCallback((nodeIds: string[]) => setSelectedNodeIds(nodeIds), []);
+  const clearSelection = useCallback(() => setSelectedNodeIds([]), []);
+
+  // Hidden nodes leave every view (and the selection) until they're shown again
+  const hideNodes = useCallback((nodeIds: string[]) => {
+    const hidden = new Set(nodeIds);
+    setHiddenNodeIds(previous => [...previous, ...nodeIds.filter(id => !previous.includes(id))]);
+    setSelectedNodeIds(previous => (previous.some(id => hidden.has(id)) ? previous.filter(id => !hidden.has(id)) : previous));
+  }, []);
+  const showHiddenNodes = useCallback(() => setHiddenNodeIds([]), []);
+
+  const togglePinned = useCallback((nodeId: string) => {
+    setPinnedNodeIds(previous => (previous.includes(nodeId) ? previous.filter(id => id !== nodeId) : [...previous, nodeId]));
+  }, []);
+
+  const focusNode = useCallback((nodeId: string) => {
+    setHiddenNodeIds(previous => (previous.includes(nodeId) ? previous.filter(id => id !== nodeId) : previous));
+    setSelectedNodeIds([nodeId]);
+    setFocusRequest({ nodeId, at: Date.now() });
+  }, []);
+
+  return (
+    <GraphDataContext.Provider value={{
+      elements, visibleElements, lastChange, progress, loading, loadingMore, error,
+      reload, loadMore, addElements, selectedNodeIds, selectedEdgeIds, selectNodes, clearSelection,
+      hiddenNodeIds, hideNodes, showHiddenNodes, pinnedNodeIds, togglePinned, focusRequest, focusNode,
+    }}>
+      {children}
+    </GraphDataContext.Provider>
+  );
+};
@@ -0,0 +1,50 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useState } from "react";
+import type { CytoscapeElement } from "@/lib/graphElements";
+
+// A set of elements the graph views emphasise (everything else is faded), e.g. the
+// subgraph matched by an alert. Ids are the element ids used by /api/graph-data.
+export interface GraphHighlight {
+  title: string;
+  nodeIds: string[];
+  edgeIds: string[];
+  // Elements the views add if they aren't loaded yet, e.g. a path through nodes beyond
+  // the pages fetched so far
+  elements?: CytoscapeElement[];
+}
+
+interface GraphHighlightContextValue {
+  highlight: GraphHighlight | null;
+  highlightElements: (highlight: GraphHighlight) => void;
+  clearHighlight: () => void;
+}
+
+const GraphHighlightContext = createContext<GraphHighlightContextValue | undefined>(undefined);
+
+export function useGraphHighlight() {
+  const ctx = useContext(GraphHighlightContext);
+  if (!ctx) {
+    throw new Error("useGraphHighlight must be used within a GraphHighlightProvider");
+  }
+  return ctx;
+}
+
+export const GraphHighlightProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // null while nothing is highlighted
+  const [highlight, setHighlight] = useState<GraphHighlight | null>(null);
+
+  const highlightElements = useCallback((next: GraphHighlight) => {
+    setHighlight(next);
+  }, []);
+
+  const clearHighlight = useCallback(() => {
+    setHighlight(null);
+  }, []);
+
+  return (
+    <GraphHighlightContext.Provider value={{ highlight, highlightElements, clearHighlight }}>
+      {children}
+    </GraphHighlightContext.Provider>
+  );
+};
@@ -0,0 +1,64 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useState } from "react";
+
+// Result of a saved query that the graph views show instead of their default
+// /api/graph-data fetch. Elements have the same shape as /api/graph-data's.
+export interface GraphQueryResult {
+  queryId: string;
+  title: string;
+  elements: any[];
+  recordCount: number;
+  truncated: boolean;
+  droppedEdges: number;
+}
+
+// A query handed to the query console from elsewhere (e.g. the node details panel);
+// `at` tells two drafts of the same query apart
+export interface QueryConsoleDraft {
+  query: string;
+  at: number;
+}
+
+interface GraphQueryContextValue {
+  queryResult: GraphQueryResult | null;
+  showQueryResult: (result: GraphQueryResult) => void;
+  clearQueryResult: () => void;
+  consoleDraft: QueryConsoleDraft | null;
+  openInQueryConsole: (query: string) => void;
+}
+
+const GraphQueryContext = createContext<GraphQueryContextValue | undefined>(undefined);
+
+export function useGraphQuery() {
+  const ctx = useContext(GraphQueryContext);
+  if (!ctx) {
+    throw new Error("useGraphQuery must be used within a GraphQueryProvider");
+  }
+  return ctx;
+}
+
+export const GraphQueryProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  // null while the views show the regular graph
+  const [queryResult, setQueryResult] = useState<GraphQueryResult | null>(null);
+
+  const showQueryResult = useCallback((result: GraphQueryResult) => {
+    console.log(`GraphQueryProvider: Showing ${result.elements.length} elements from "${result.title}"`);
+    setQueryResult(result);
+  }, []);
+
+  const clearQueryResult = useCallback(() => {
+    setQueryResult(null);
+  }, []);
+
+  const [consoleDraft, setConsoleDraft] = useState<QueryConsoleDraft | null>(null);
+  const openInQueryConsole = useCallback((query: string) => {
+    setConsoleDraft({ query, at: Date.now() });
+  }, []);
+
+  return (
+    <GraphQueryContext.Provider value={{ queryResult, showQueryResult, clearQueryResult, consoleDraft, openInQueryConsole }}>
+      {children}
+    </GraphQueryContext.Provider>
+  );
+};
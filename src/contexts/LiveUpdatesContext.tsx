@@ -0,0 +1,110 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useRef, useState } from "react";
+import type { LiveEvent } from "@/lib/liveUpdates";
+
+// Live mode: while it's on, the dashboard listens to /api/live and components react to
+// what gets written to the graph (see lib/liveUpdates.ts). Pausing closes the stream;
+// resuming picks it up after the last event received, so nothing is missed.
+
+export type LiveStatus = 'connecting' | 'open' | 'paused' | 'error';
+
+type LiveEventListener = (event: LiveEvent) => void;
+
+interface LiveUpdatesContextValue {
+  isLive: boolean;
+  status: LiveStatus;
+  lastEventAt: string | null;
+  toggleLive: () => void;
+  subscribe: (listener: LiveEventListener) => () => void;
+}
+
+const LIVE_EVENT_TYPES: LiveEvent['type'][] = ['graph', 'reset', 'alerts', 'risk'];
+
+const LiveUpdatesContext = createContext<LiveUpdatesContextValue | undefined>(undefined);
+
+export function useLiveUpdates() {
+  const ctx = useContext(LiveUpdatesContext);
+  if (!ctx) {
+    throw new Error("useLiveUpdates must be used within a LiveUpdatesProvider");
+  }
+  return ctx;
+}
+
+/**
+ * Calls `listener` with the live events of the given types. The listener may change on
+ * every render; the subscription is kept.
+ */
+export function useLiveEvents(types: LiveEvent['type'][], listener: LiveEventListener) {
+  const { subscribe } = useLiveUpdates();
+  const listenerRef = useRef(listener);
+  listenerRef.current = listener;
+  const typesKey = types.join(',');
+
+  useEffect(() => subscribe(event => {
+    if (typesKey.split(',').includes(event.type)) listenerRef.current(event);
+  }), [subscribe, typesKey]);
+}
+
+export const LiveUpdatesProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [isLive, setIsLive] = useState<boolean>(true);
+  const [status, setStatus] = useState<LiveStatus>('connecting');
+  const [lastEventAt, setLastEventAt] = useState<string | null>(null);
+  const listenersRef = useRef<Set<LiveEventListener>>(new Set());
+  const lastEventIdRef = useRef<string | null>(null); // Where to resume after a pause
+
+  useEffect(() => {
+    if (!isLive) {
+      setStatus('paused');
+      return;
+    }
+
+    setStatus('connecting');
+    const since = lastEventIdRef.current;
+    const source = new EventSource(since ? `/api/live?since=${encodeURIComponent(since)}` : '/api/live');
+
+    const handleEvent = (message: MessageEvent<string>) => {
+      if (message.lastEventId) lastEventIdRef.current = message.lastEventId;
+      setLastEventAt(new Date().toISOString());
+      let event: LiveEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (e) {
+        console.error("Failed to parse live event:", e);
+        return;
+      }
+      listenersRef.current.forEach(listener => {
+        try {
+          listener(event);
+        } catch (e) {
+          console.error("Live event listener failed:", e);
+        }
+      });
+    };
+
+    LIVE_EVENT_TYPES.forEach(type => source.addEventListener(type, handleEvent as EventListener));
+    source.onopen = () => setStatus('open');
+    // EventSource reconnects by itself (sending Last-Event-ID) unless the server refused
+    source.onerror = () => setStatus(source.readyState === EventSource.CLOSED ? 'error' : 'connecting');
+
+    return () => {
+      LIVE_EVENT_TYPES.forEach(type => source.removeEventListener(type, handleEvent as EventListener));
+      source.close();
+    };
+  }, [isLive]);
+
+  const toggleLive = useCallback(() => setIsLive(live => !live), []);
+
+  const subscribe = useCallback((listener: LiveEventListener) => {
+    listenersRef.current.add(listener);
+    return () => {
+      listenersRef.current.delete(listener);
+    };
+  }, []);
+
+  return (
+    <LiveUpdatesContext.Provider value={{ isLive, status, lastEventAt, toggleLive, subscribe }}>
+      {children}
+    </LiveUpdatesContext.Provider>
+  );
+};
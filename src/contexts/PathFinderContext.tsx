@@ -0,0 +1,49 @@
+"use client";
+
+import React, { createContext, useCallback, useContext, useState } from "react";
+
+// The two nodes the path finder looks for paths between. They're picked from the node
+// menu of the graph views and used by the Path Finder panel.
+export interface PathEndpoint {
+  id: string; // Element id, as used by /api/graph-data
+  label: string;
+}
+
+export type PathEndpointRole = 'source' | 'target';
+
+interface PathFinderContextValue {
+  source: PathEndpoint | null;
+  target: PathEndpoint | null;
+  setEndpoint: (role: PathEndpointRole, endpoint: PathEndpoint) => void;
+  clearEndpoints: () => void;
+}
+
+const PathFinderContext = createContext<PathFinderContextValue | undefined>(undefined);
+
+export function usePathFinder() {
+  const ctx = useContext(PathFinderContext);
+  if (!ctx) {
+    throw new Error("usePathFinder must be used within a PathFinderProvider");
+  }
+  return ctx;
+}
+
+export const PathFinderProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [source, setSource] = useState<PathEndpoint | null>(null);
+  const [target, setTarget] = useState<PathEndpoint | null>(null);
+
+  const setEndpoint = useCallback((role: PathEndpointRole, endpoint: PathEndpoint) => {
+    if (role === 'source') setSource(endpoint); else setTarget(endpoint);
+  }, []);
+
+  const clearEndpoints = useCallback(() => {
+    setSource(null);
+    setTarget(null);
+  }, []);
+
+  return (
+    <PathFinderContext.Provider value={{ source, target, setEndpoint, clearEndpoints }}>
+      {children}
+    </PathFinderContext.Provider>
+  );
+};
@@ -49,17 +49,7 @@ export const TimelineProvider: React.FC<{ children: React.ReactNode }> = ({ chil
       return;
     }
 
-    const startDate = new Date(start);
-    const endDate = new Date(end);
-    if (startDate.getFullYear() > 2024 || endDate.getFullYear() > 2024) {
-      console.warn(`TimelineProvider: Detected future dates, using safe fallback`);
-      const safeCurrentTime = new Date('2023-12-31T23:59:59.999Z').getTime();
-      const safeStartTime = new Date('2023-12-30T00:00:00.000Z').getTime();
-      setStartTime(safeStartTime);
-      setEndTime(safeCurrentTime);
-      return;
-    }
-
+    // Future dates are clamped to the current time below
     const currentTime = Date.now();
     const safeStart = Math.min(start, currentTime);
     const safeEnd = Math.min(end, currentTime);
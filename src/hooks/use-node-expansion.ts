@@ -0,0 +1,72 @@
+"use client";
+
+import { useState, useCallback } from 'react';
+import { useToast } from '@chakra-ui/react';
+import type { CytoscapeElement } from '@/lib/graphElements';
+import type { ExpansionResult } from '@/lib/neighbourhood';
+
+// Fetches the neighbourhood of a node from /api/nodes/[id]/neighbors for the "expand
+// node" interaction. The views merge the returned elements into the ones they show.
+
+export interface ExpansionOptions {
+  hops: number;
+  types?: string[]; // Relationship types to follow; all when empty
+}
+
+// The query string shared by the neighbourhood endpoints, with the optional time window
+export function neighbourhoodParams(startTime?: number, endTime?: number, options?: ExpansionOptions): URLSearchParams {
+  const params = new URLSearchParams();
+  if (options) {
+    params.set('hops', String(options.hops));
+    (options.types ?? []).forEach(type => params.append('type', type));
+  }
+  if (startTime && endTime && startTime < endTime) {
+    params.set('startTime', String(startTime));
+    params.set('endTime', String(endTime));
+  }
+  return params;
+}
+
+export function useNodeExpansion(startTime?: number, endTime?: number) {
+  const [expandingNodeId, setExpandingNodeId] = useState<string | null>(null);
+  const toast = useToast();
+
+  // The elements around the node, or null when the request failed (a toast says why)
+  const expand = useCallback(async (nodeId: string, options: ExpansionOptions): Promise<CytoscapeElement[] | null> => {
+    setExpandingNodeId(nodeId);
+    try {
+      const params = neighbourhoodParams(startTime, endTime, options);
+      const response = await fetch(`/api/nodes/${encodeURIComponent(nodeId)}/neighbors?${params.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+      }
+
+      const result = data as ExpansionResult;
+      if (result.truncated) {
+        toast({
+          title: "Neighbourhood truncated",
+          description: `Only part of the neighbourhood was loaded (${result.nodeCount} nodes). Expand fewer hops or a single relationship type to see the rest.`,
+          status: "warning",
+          duration: 5000,
+          isClosable: true,
+        });
+      }
+      return result.elements;
+    } catch (e: any) {
+      console.error("Failed to expand node:", e);
+      toast({
+        title: "Error expanding node",
+        description: e.message || "An unknown error occurred while expanding the node.",
+        status: "error",
+        duration: 9000,
+        isClosable: true,
+      });
+      return null;
+    } finally {
+      setExpandingNodeId(null);
+    }
+  }, [startTime, endTime, toast]);
+
+  return { expand, expandingNodeId };
+}
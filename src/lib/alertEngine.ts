@@ -0,0 +1,186 @@
+import { Session } from 'neo4j-driver';
+import { ALERT_RULES, AlertRule, AlertSeverity, AlertStatus, renderTemplate } from '@/lib/alertRules';
+import { CytoscapeElement, collectElements, toPlainValue } from '@/lib/graphElements';
+import { publishLiveEvent } from '@/lib/liveUpdates';
+
+// Evaluates the alert rules against the graph and stores the findings as (:Alert) nodes.
+// An alert keeps the time it was first and last matched, and the ids of the matched
+// nodes and relationships (the same ids the graph views use), so its subgraph can be
+// highlighted. Triage state (status, assignee, audit trail) is handled in alertTriage.ts;
+// re-matching an alert never changes it.
+
+// Cap on findings per rule, so one noisy rule can't flood the alert list
+const MAX_MATCHES_PER_RULE = 500;
+
+export interface Alert {
+  id: string;
+  ruleId: string;
+  dedupKey: string;
+  title: string;
+  severity: AlertSeverity;
+  status: AlertStatus;
+  assignee: string | null;
+  firstSeen: string;
+  lastSeen: string;
+  resolvedAt: string | null;
+  matchedNodeIds: string[];
+  matchedEdgeIds: string[];
+}
+
+export interface AlertFilters {
+  status?: AlertStatus;
+  severity?: AlertSeverity;
+  assignee?: string | null; // null: unassigned alerts only
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  matches: number;
+  error?: string;
+}
+
+export interface AlertEvaluationSummary {
+  evaluatedAt: string;
+  rules: RuleEvaluation[];
+  created: number;
+  updated: number;
+}
+
+interface Finding {
+  ruleId: string;
+  dedupKey: string;
+  title: string;
+  severity: AlertSeverity;
+  matchedNodeIds: string[];
+  matchedEdgeIds: string[];
+}
+
+export function toAlert(props: Record<string, any>): Alert {
+  return {
+    id: props.id,
+    ruleId: props.rule_id,
+    dedupKey: props.dedup_key,
+    title: props.title,
+    severity: props.severity,
+    status: props.status ?? 'new',
+    assignee: props.assignee ?? null,
+    firstSeen: props.first_seen,
+    lastSeen: props.last_seen,
+    resolvedAt: props.resolved_at ?? null,
+    matchedNodeIds: props.matched_node_ids ?? [],
+    matchedEdgeIds: props.matched_edge_ids ?? [],
+  };
+}
+
+async function findMatches(session: Session, rule: AlertRule): Promise<Finding[]> {
+  const result = await session.executeRead(tx => tx.run(rule.query, rule.params ? rule.params() : {}));
+  if (result.records.length > MAX_MATCHES_PER_RULE) {
+    console.warn(`Alert rule ${rule.id} matched ${result.records.length} times; keeping the first ${MAX_MATCHES_PER_RULE}`);
+  }
+
+  return result.records.slice(0, MAX_MATCHES_PER_RULE).map(record => {
+    const nodes = new Map<string, CytoscapeElement>();
+    const edges = new Map<string, CytoscapeElement>();
+    collectElements(record.get('matched'), nodes, edges);
+
+    const values: Record<string, any> = {};
+    record.keys.forEach(key => {
+      if (key !== 'matched') values[key as string] = toPlainValue(record.get(key));
+    });
+
+    return {
+      ruleId: rule.id,
+      dedupKey: `${rule.id}:${renderTemplate(rule.dedupKey, values)}`,
+      title: renderTemplate(rule.titleTemplate, values),
+      severity: rule.severity,
+      matchedNodeIds: [...nodes.keys()],
+      matchedEdgeIds: [...edges.keys()],
+    };
+  });
+}
+
+/**
+ * Runs every rule and upserts an alert per finding. A rule that fails (e.g. a Cypher
+ * error) is reported in the summary and doesn't stop the other rules.
+ */
+export async function evaluateAlertRules(session: Session, rules: AlertRule[] = ALERT_RULES): Promise<AlertEvaluationSummary> {
+  const evaluatedAt = new Date().toISOString();
+  const evaluations: RuleEvaluation[] = [];
+  const findings = new Map<string, Finding>();
+
+  for (const rule of rules) {
+    try {
+      const matches = await findMatches(session, rule);
+      matches.forEach(finding => {
+        if (!findings.has(finding.dedupKey)) findings.set(finding.dedupKey, finding);
+      });
+      evaluations.push({ ruleId: rule.id, matches: matches.length });
+    } catch (error: any) {
+      console.error(`Alert rule ${rule.id} failed:`, error);
+      evaluations.push({ ruleId: rule.id, matches: 0, error: error.message });
+    }
+  }
+
+  let created = 0;
+  if (findings.size > 0) {
+    const result = await session.executeWrite(tx => tx.run(
+      `UNWIND $findings AS finding
+       MERGE (a:Alert {dedup_key: finding.dedupKey})
+       ON CREATE SET a.id = randomUUID(), a.first_seen = $now, a.status = 'new', a._created = true
+       // Flagged on create rather than compared on first_seen, which two runs can share
+       WITH a, finding, coalesce(a._created, false) AS isNew
+       REMOVE a._created
+       // Start the audit trail of new alerts
+       FOREACH (_ IN CASE WHEN isNew THEN [1] ELSE [] END |
+         CREATE (a)-[:HAS_EVENT]->(:AlertEvent {
+           id: randomUUID(), alert_id: a.id, type: 'created', at: $now,
+           text: 'Raised by rule ' + finding.ruleId
+         })
+       )
+       SET a.rule_id = finding.ruleId,
+           a.title = finding.title,
+           a.severity = finding.severity,
+           a.last_seen = $now,
+           a.matched_node_ids = finding.matchedNodeIds,
+           a.matched_edge_ids = finding.matchedEdgeIds
+       RETURN collect(CASE WHEN isNew THEN properties(a) END) AS newAlerts`,
+      { findings: [...findings.values()], now: evaluatedAt }
+    ));
+    const newAlerts: Alert[] = result.records[0].get('newAlerts').map(toAlert);
+    created = newAlerts.length;
+    if (created > 0) await publishLiveEvent(session, { type: 'alerts', alerts: newAlerts });
+  }
+
+  console.log(`Evaluated ${rules.length} alert rules: ${created} new alerts, ${findings.size - created} updated`);
+  return { evaluatedAt, rules: evaluations, created, updated: findings.size - created };
+}
+
+// Most recently matched alerts first. Filters left undefined match every alert.
+export async function listAlerts(session: Session, filters: AlertFilters = {}, limit: number = 50): Promise<Alert[]> {
+  const conditions: string[] = [];
+  if (filters.status) conditions.push(`coalesce(a.status, 'new') = $status`);
+  if (filters.severity) conditions.push('a.severity = $severity');
+  if (filters.assignee === null) conditions.push('a.assignee IS NULL');
+  else if (filters.assignee !== undefined) conditions.push('a.assignee = $assignee');
+
+  const result = await session.run(
+    `MATCH (a:Alert)
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     RETURN properties(a) AS alert
+     ORDER BY a.last_seen DESC
+     LIMIT toInteger($limit)`,
+    { ...filters, limit }
+  );
+  return result.records.map(record => toAlert(record.get('alert')));
+}
+
+// Everyone alerts are assigned to, for the assignee filter
+export async function listAlertAssignees(session: Session): Promise<string[]> {
+  const result = await session.run(
+    `MATCH (a:Alert)
+     WHERE a.assignee IS NOT NULL
+     RETURN DISTINCT a.assignee AS assignee
+     ORDER BY assignee`
+  );
+  return result.records.map(record => record.get('assignee'));
+}
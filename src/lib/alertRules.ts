@@ -0,0 +1,101 @@
+import { notSystemNode } from '@/lib/graphLabels';
+
+// Detection rules for the alerts engine. Each rule is a read-only Cypher pattern that
+// returns one row per finding:
+//   - `matched`: the nodes, relationships and/or paths that make up the finding
+//   - any other columns: values for the title and dedup key templates
+// Templates reference columns as {{column}}. Findings with the same rule and rendered
+// dedup key are the same alert, so re-evaluating a rule updates rather than duplicates.
+
+export type AlertSeverity = 'High' | 'Medium' | 'Low';
+
+// Triage states of an alert (see alertTriage.ts). Rules always raise alerts as 'new'.
+export const ALERT_STATUSES = ['new', 'acknowledged', 'in-progress', 'resolved', 'false-positive'] as const;
+export type AlertStatus = typeof ALERT_STATUSES[number];
+
+export interface AlertRule {
+  id: string;
+  name: string;
+  severity: AlertSeverity;
+  titleTemplate: string;
+  dedupKey: string;
+  query: string;
+  // Query parameters, computed at evaluation time (e.g. time windows relative to now)
+  params?: () => Record<string, any>;
+}
+
+// Node types that count as assets for the asset-centric rules
+const ASSET_TYPES = ['Server', 'Workstation', 'Application', 'Database'];
+
+// Edge-burst rule thresholds
+const BURST_MIN_EDGES = 10;
+const BURST_WINDOW_MS = 60 * 60 * 1000;
+
+export const ALERT_RULES: AlertRule[] = [
+  {
+    id: 'workstation-threat-actor',
+    name: 'Workstation connected to a threat actor',
+    severity: 'High',
+    titleTemplate: 'Workstation {{workstation}} is connected to threat actor {{actor}}',
+    dedupKey: '{{workstationUid}}:{{actorUid}}',
+    query: `
+      MATCH (w {type: 'Workstation'}), (t {type: 'ThreatActor'})
+      MATCH p = shortestPath((w)-[*..3]-(t))
+      RETURN p AS matched,
+             coalesce(w.showname, w.uid) AS workstation, w.uid AS workstationUid,
+             coalesce(t.showname, t.uid) AS actor, t.uid AS actorUid`,
+  },
+  {
+    id: 'malware-on-asset',
+    name: 'Malware linked to an asset',
+    severity: 'High',
+    titleTemplate: 'Malware {{malware}} is linked to {{assetType}} {{asset}}',
+    dedupKey: '{{malwareUid}}:{{assetUid}}',
+    query: `
+      MATCH (m {type: 'Malware'})-[r]-(a)
+      WHERE a.type IN $assetTypes
+      RETURN [m, r, a] AS matched,
+             coalesce(m.showname, m.uid) AS malware, m.uid AS malwareUid,
+             a.type AS assetType, coalesce(a.showname, a.uid) AS asset, a.uid AS assetUid`,
+    params: () => ({ assetTypes: ASSET_TYPES }),
+  },
+  {
+    id: 'unpatched-critical-vulnerability',
+    name: 'Unpatched critical vulnerability',
+    severity: 'Medium',
+    titleTemplate: 'Critical vulnerability {{vulnerability}} affects {{asset}}',
+    dedupKey: '{{vulnerabilityUid}}:{{assetUid}}',
+    query: `
+      MATCH (v {type: 'Vulnerability'})-[r:AFFECTS]->(a)
+      WHERE toLower(toString(v.severity)) = 'critical' AND coalesce(r.patched, false) = false
+      RETURN [v, r, a] AS matched,
+             coalesce(v.cve, v.showname, v.uid) AS vulnerability, v.uid AS vulnerabilityUid,
+             coalesce(a.showname, a.uid) AS asset, a.uid AS assetUid`,
+  },
+  {
+    id: 'edge-burst',
+    name: 'Burst of new connections',
+    severity: 'Medium',
+    titleTemplate: '{{node}} gained {{edgeCount}} new connections within an hour',
+    dedupKey: '{{uid}}',
+    query: `
+      MATCH (n)-[r]-(m)
+      WHERE r.timestamp >= $since AND ${notSystemNode('n')}
+      WITH n, collect(DISTINCT r) AS rels, collect(DISTINCT m) AS peers
+      WHERE size(rels) > $minEdges
+      RETURN [n] + peers + rels AS matched,
+             coalesce(n.showname, n.uid) AS node, n.uid AS uid, size(rels) AS edgeCount`,
+    params: () => ({
+      minEdges: BURST_MIN_EDGES,
+      since: Date.now() - BURST_WINDOW_MS, // Epoch ms, like stored timestamps
+    }),
+  },
+];
+
+// Fills {{column}} placeholders from a result row. Missing values render as '?'.
+export function renderTemplate(template: string, values: Record<string, any>): string {
+  return template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, column) => {
+    const value = values[column];
+    return value === null || value === undefined ? '?' : String(value);
+  });
+}
@@ -0,0 +1,128 @@
+import { Session } from 'neo4j-driver';
+import { z } from 'zod';
+import { ALERT_STATUSES, AlertStatus } from '@/lib/alertRules';
+import { Alert, toAlert } from '@/lib/alertEngine';
+
+// Alert triage: status changes, assignment and comments. Every change is recorded as an
+// (:AlertEvent) linked to its alert with [:HAS_EVENT], which makes up the audit trail.
+
+export type AlertEventType = 'created' | 'status' | 'assignee' | 'comment';
+
+export interface AlertEvent {
+  id: string;
+  alertId: string;
+  type: AlertEventType;
+  author: string | null;
+  at: string;
+  from: string | null;  // Previous status / assignee
+  to: string | null;    // New status / assignee
+  text: string | null;  // Comment text, or a note for 'created'
+}
+
+// Statuses that close an alert
+const CLOSED_STATUSES: AlertStatus[] = ['resolved', 'false-positive'];
+
+const authorSchema = z.string().trim().min(1).max(100).optional();
+
+export const alertUpdateSchema = z.object({
+  status: z.enum(ALERT_STATUSES).optional(),
+  // Empty string or null unassigns
+  assignee: z.string().trim().max(100).nullable().optional()
+    .transform(value => (value === '' ? null : value)),
+  author: authorSchema,
+}).refine(update => update.status !== undefined || update.assignee !== undefined, {
+  message: 'Nothing to update: provide status and/or assignee',
+});
+
+export const alertCommentSchema = z.object({
+  text: z.string().trim().min(1, 'Comment must not be empty').max(5000),
+  author: authorSchema,
+});
+
+export type AlertUpdate = z.infer<typeof alertUpdateSchema>;
+export type AlertComment = z.infer<typeof alertCommentSchema>;
+
+function toAlertEvent(props: Record<string, any>): AlertEvent {
+  return {
+    id: props.id,
+    alertId: props.alert_id,
+    type: props.type,
+    author: props.author ?? null,
+    at: props.at,
+    from: props.from_value ?? null,
+    to: props.to_value ?? null,
+    text: props.text ?? null,
+  };
+}
+
+export async function getAlert(session: Session, id: string): Promise<Alert | null> {
+  const result = await session.run('MATCH (a:Alert {id: $id}) RETURN properties(a) AS alert', { id });
+  return result.records.length > 0 ? toAlert(result.records[0].get('alert')) : null;
+}
+
+// Audit trail of an alert, oldest first
+export async function getAlertEvents(session: Session, id: string): Promise<AlertEvent[]> {
+  const result = await session.run(
+    `MATCH (:Alert {id: $id})-[:HAS_EVENT]->(e:AlertEvent)
+     RETURN properties(e) AS event
+     ORDER BY e.at, e.type = 'created' DESC`,
+    { id }
+  );
+  return result.records.map(record => toAlertEvent(record.get('event')));
+}
+
+/**
+ * Applies a status and/or assignee change and records an event for each field that
+ * actually changed. Closing an alert stamps resolved_at; reopening clears it.
+ * Returns null if the alert doesn't exist.
+ */
+export async function updateAlert(session: Session, id: string, update: AlertUpdate): Promise<Alert | null> {
+  const alert = await getAlert(session, id);
+  if (!alert) return null;
+
+  const now = new Date().toISOString();
+  const events: Record<string, any>[] = [];
+  const changes: Record<string, any> = {};
+
+  if (update.status !== undefined && update.status !== alert.status) {
+    changes.status = update.status;
+    changes.resolved_at = CLOSED_STATUSES.includes(update.status) ? now : null;
+    events.push({ type: 'status', from: alert.status, to: update.status });
+  }
+  if (update.assignee !== undefined && update.assignee !== alert.assignee) {
+    changes.assignee = update.assignee;
+    events.push({ type: 'assignee', from: alert.assignee, to: update.assignee });
+  }
+  if (events.length === 0) return alert;
+
+  const result = await session.executeWrite(tx => tx.run(
+    `MATCH (a:Alert {id: $id})
+     SET a += $changes, a.updated_at = $now
+     WITH a
+     UNWIND $events AS eventData
+     CREATE (a)-[:HAS_EVENT]->(:AlertEvent {
+       id: randomUUID(), alert_id: a.id, type: eventData.type, author: $author, at: $now,
+       from_value: eventData.from, to_value: eventData.to
+     })
+     WITH DISTINCT a
+     RETURN properties(a) AS alert`,
+    { id, changes, events, author: update.author ?? null, now }
+  ));
+  console.log(`Alert ${id} updated:`, changes);
+  return toAlert(result.records[0].get('alert'));
+}
+
+// Returns the new comment event, or null if the alert doesn't exist
+export async function addAlertComment(session: Session, id: string, comment: AlertComment): Promise<AlertEvent | null> {
+  const now = new Date().toISOString();
+  const result = await session.executeWrite(tx => tx.run(
+    `MATCH (a:Alert {id: $id})
+     SET a.updated_at = $now
+     CREATE (a)-[:HAS_EVENT]->(e:AlertEvent {
+       id: randomUUID(), alert_id: a.id, type: 'comment', author: $author, at: $now, text: $text
+     })
+     RETURN properties(e) AS event`,
+    { id, text: comment.text, author: comment.author ?? null, now }
+  ));
+  return result.records.length > 0 ? toAlertEvent(result.records[0].get('event')) : null;
+}
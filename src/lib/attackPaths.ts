@@ -0,0 +1,232 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { z } from 'zod';
+import { notSystemNode } from '@/lib/graphLabels';
+import { CytoscapeElement } from '@/lib/graphElements';
+import { FoundPath, MAX_K, PathRequest, PathResult, PathSearchLimitError, findPaths } from '@/lib/paths';
+import { UNKNOWN_CVSS, VULNERABILITY_TYPES, readCvss } from '@/lib/riskScoring';
+import { TimeWindow, aliveFilter, optionalWindowParams } from '@/lib/temporal';
+import { emptyGraphChanges, publishGraphChanges } from '@/lib/liveUpdates';
+
+// Attack-path analysis: ranked paths from nodes tagged as entry points (e.g. an
+// itot-externalentry) to nodes tagged as crown jewels (e.g. a SCADA server or PLC).
+//
+// Paths run through assets only; vulnerability nodes (CVE, CVSS, ...) weigh the assets
+// they hang off instead of being hops themselves. Each asset between the two ends is
+// easier to get through the worse its vulnerabilities are:
+//   ease = 0.5 + 0.5 * maxCvss / 10   (0.5 for an asset without known vulnerabilities)
+// and a path scores 100 * the product of the ease of its intermediate assets. A direct
+// link scores 100; every extra hop costs, more so through well-patched assets.
+// A longer path through vulnerable assets can outscore a shorter one through patched
+// assets, so a generous number of the shortest paths of each pair is ranked, not just a few.
+// Tags are stored on the nodes as attackEntryPoint / crownJewel.
+
+export type AttackTagRole = 'entryPoint' | 'crownJewel';
+
+const TAG_PROPERTIES: Record<AttackTagRole, string> = {
+  entryPoint: 'attackEntryPoint',
+  crownJewel: 'crownJewel',
+};
+
+export const attackTagSchema = z.object({
+  nodeId: z.string().regex(/^\d+$/, 'nodeId must be a node id'),
+  role: z.enum(['entryPoint', 'crownJewel']),
+  tagged: z.boolean(),
+});
+
+export type AttackTagUpdate = z.infer<typeof attackTagSchema>;
+
+export interface TaggedNode {
+  id: string;
+  name: string;
+  type: string | null;
+}
+
+export interface AttackTags {
+  entryPoints: TaggedNode[];
+  crownJewels: TaggedNode[];
+}
+
+export interface AttackPathHop {
+  nodeId: string;
+  name: string;
+  maxCvss: number | null; // Worst vulnerability on an intermediate asset; null for the ends or none known
+}
+
+export interface AttackPath extends FoundPath {
+  score: number; // 0-100, higher is easier for an attacker
+  entryPoint: string;
+  crownJewel: string;
+  hops: AttackPathHop[];
+}
+
+export interface AttackPathAnalysis {
+  computedAt: string;
+  tags: AttackTags;
+  paths: AttackPath[];          // Highest score first
+  elements: CytoscapeElement[]; // Nodes and relationships of the returned paths
+  truncatedPairs: boolean;      // More than MAX_ATTACK_PAIRS entry/jewel pairs were tagged
+  limitedPairs: number;         // Pairs with too many paths to enumerate; only their shortest path was ranked
+  skippedPairs: number;         // Pairs left out because the analysis ran out of time
+}
+
+export const DEFAULT_ATTACK_PATH_LIMIT = 10;
+export const MAX_ATTACK_PATH_LIMIT = 50;
+export const DEFAULT_ATTACK_PATH_LENGTH = 6;
+export const MAX_ATTACK_PATH_LENGTH = 10;
+
+// Candidate paths ranked per entry point / crown jewel pair, and pairs per analysis. Each
+// search is bounded by the path finder's expansion cap and timeout.
+const PATHS_PER_PAIR = MAX_K;
+const MAX_ATTACK_PAIRS = 100;
+
+// Time the searches of one analysis may take together; pairs not reached by then are skipped
+const ANALYSIS_TIMEOUT_MS = 30000;
+// Below this, the time left isn't worth starting another search
+const MIN_SEARCH_TIME_MS = 1000;
+
+// Cypher condition: the node is a vulnerability rather than an asset (mirrors riskScoring).
+// The types are inlined since it's also used inside the path finder's queries.
+const isVulnerabilityNode = (variable: string) =>
+  `(replace(replace(replace(toLower(coalesce(${variable}.type, '')), ' ', ''), '_', ''), '-', '') IN ${JSON.stringify(VULNERABILITY_TYPES)}
+    OR toLower(coalesce(${variable}.icon, '')) CONTAINS 'itot-cve'
+    OR toLower(coalesce(${variable}.icon, '')) CONTAINS 'itot-cvss')`;
+
+// Tagged nodes alive in the window (all of them without one)
+export async function getAttackTags(session: Session, window: TimeWindow | null = null): Promise<AttackTags> {
+  const alive = aliveFilter(window);
+  const result = await session.run(
+    `MATCH (n)
+     WHERE (n.attackEntryPoint = true OR n.crownJewel = true) AND ${notSystemNode('n')}${alive('n')}
+     RETURN toString(id(n)) AS id, coalesce(n.showname, n.uid, toString(id(n))) AS name, n.type AS type,
+            coalesce(n.attackEntryPoint, false) AS entryPoint, coalesce(n.crownJewel, false) AS crownJewel
+     ORDER BY name`,
+    optionalWindowParams(window)
+  );
+  const tags: AttackTags = { entryPoints: [], crownJewels: [] };
+  result.records.forEach(record => {
+    const node: TaggedNode = { id: record.get('id'), name: record.get('name'), type: record.get('type') };
+    if (record.get('entryPoint')) tags.entryPoints.push(node);
+    if (record.get('crownJewel')) tags.crownJewels.push(node);
+  });
+  return tags;
+}
+
+/**
+ * Tags or untags a node as an entry point or crown jewel. Returns false when the node
+ * doesn't exist.
+ */
+export async function setAttackTag(session: Session, update: AttackTagUpdate): Promise<boolean> {
+  const property = TAG_PROPERTIES[update.role];
+  const result = await session.executeWrite(tx => tx.run(
+    `MATCH (n) WHERE id(n) = $nodeId AND ${notSystemNode('n')}
+     ${update.tagged ? `SET n.${property} = true` : `REMOVE n.${property}`}
+     RETURN count(n) AS updated`,
+    { nodeId: neo4j.int(update.nodeId) }
+  ));
+  const updated = result.records[0].get('updated').toNumber() > 0;
+  if (updated) await publishGraphChanges(session, { ...emptyGraphChanges(), updatedNodes: [update.nodeId] });
+  return updated;
+}
+
+// Worst CVSS among the vulnerability neighbours of each node that has any
+async function worstCvssByNode(session: Session, nodeIds: string[]): Promise<Map<string, number>> {
+  const result = await session.run(
+    `UNWIND $nodeIds AS nodeId
+     MATCH (n)-[]-(v) WHERE id(n) = toInteger(nodeId) AND ${isVulnerabilityNode('v')}
+     RETURN nodeId,
+            collect(v {.type, .showname, .severity, .cvss_severity, .cvss, .cvss_score, .cvssScore, .base_score, .baseScore}) AS vulnerabilities`,
+    { nodeIds }
+  );
+  const worst = new Map<string, number>();
+  result.records.forEach(record => {
+    const scores = record.get('vulnerabilities').map((props: Record<string, any>) => readCvss(props) ?? UNKNOWN_CVSS);
+    worst.set(record.get('nodeId'), scores.reduce((max: number, score: number) => Math.max(max, score), 0));
+  });
+  return worst;
+}
+
+/**
+ * Enumerates paths from every tagged entry point to every tagged crown jewel through
+ * records alive in the window, and returns the `limit` easiest ones.
+ */
+export async function analyzeAttackPaths(
+  session: Session,
+  window: TimeWindow | null,
+  limit: number = DEFAULT_ATTACK_PATH_LIMIT,
+  maxLength: number = DEFAULT_ATTACK_PATH_LENGTH
+): Promise<AttackPathAnalysis> {
+  const computedAt = new Date().toISOString();
+  const tags = await getAttackTags(session, window);
+
+  const pairs = tags.entryPoints.flatMap(entry => tags.crownJewels
+    .filter(jewel => jewel.id !== entry.id)
+    .map(jewel => ({ entry, jewel })));
+  const truncatedPairs = pairs.length > MAX_ATTACK_PAIRS;
+
+  const candidates: { path: FoundPath; entry: TaggedNode; jewel: TaggedNode }[] = [];
+  const elements = new Map<string, CytoscapeElement>();
+  const options = { intermediateFilter: (variable: string) => `NOT ${isVulnerabilityNode(variable)}` };
+  const analysedPairs = pairs.slice(0, MAX_ATTACK_PAIRS);
+  const deadline = Date.now() + ANALYSIS_TIMEOUT_MS;
+  // Each search gets what is left of the analysis' time, so the deadline holds
+  const searchOptions = () => ({ ...options, timeoutMs: deadline - Date.now() });
+  let limitedPairs = 0;
+  let skippedPairs = 0;
+  for (const [index, { entry, jewel }] of analysedPairs.entries()) {
+    if (deadline - Date.now() < MIN_SEARCH_TIME_MS) {
+      skippedPairs = analysedPairs.length - index;
+      break;
+    }
+    const request: PathRequest = {
+      source: entry.id, target: jewel.id, mode: 'k-shortest', k: PATHS_PER_PAIR, maxLength, types: [], window,
+    };
+    let result: PathResult | null = null;
+    try {
+      result = await findPaths(session, request, searchOptions());
+    } catch (error) {
+      if (!(error instanceof PathSearchLimitError)) throw error;
+      limitedPairs++;
+      if (deadline - Date.now() >= MIN_SEARCH_TIME_MS) {
+        result = await findPaths(session, { ...request, mode: 'shortest' }, searchOptions()).catch(fallbackError => {
+          if (fallbackError instanceof PathSearchLimitError) return null;
+          throw fallbackError;
+        });
+      }
+    }
+    if (!result) continue;
+    result.paths.forEach(path => candidates.push({ path, entry, jewel }));
+    result.elements.forEach(element => elements.set(`${element.group}:${element.data.id}`, element));
+  }
+
+  const intermediateIds = Array.from(new Set(candidates.flatMap(({ path }) => path.nodeIds.slice(1, -1))));
+  const worstCvss = intermediateIds.length > 0
+    ? await worstCvssByNode(session, intermediateIds)
+    : new Map<string, number>();
+  const nameOf = (id: string) => String(elements.get(`nodes:${id}`)?.data.label ?? id);
+
+  const ranked: AttackPath[] = candidates.map(({ path, entry, jewel }) => {
+    const hops = path.nodeIds.map((nodeId, index) => {
+      const isEnd = index === 0 || index === path.nodeIds.length - 1;
+      return { nodeId, name: nameOf(nodeId), maxCvss: isEnd ? null : worstCvss.get(nodeId) ?? null };
+    });
+    const ease = hops.slice(1, -1).reduce((product, hop) => product * (0.5 + 0.5 * (hop.maxCvss ?? 0) / 10), 1);
+    return { ...path, score: Math.round(100 * ease), entryPoint: entry.name, crownJewel: jewel.name, hops };
+  });
+  ranked.sort((a, b) => b.score - a.score || a.length - b.length);
+  const paths = ranked.slice(0, limit);
+
+  // Only the elements of the paths returned
+  const kept = new Set(paths.flatMap(path => [
+    ...path.nodeIds.map(id => `nodes:${id}`),
+    ...path.edgeIds.map(id => `edges:${id}`),
+  ]));
+  return {
+    computedAt,
+    tags,
+    paths,
+    elements: [...kept].map(key => elements.get(key)!).filter(Boolean),
+    truncatedPairs,
+    limitedPairs,
+    skippedPairs,
+  };
+}
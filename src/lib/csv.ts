@@ -0,0 +1,122 @@
+// Minimal RFC 4180 CSV parser for spreadsheet exports: quoted fields, escaped
+// quotes (""), embedded newlines, CRLF line endings and a leading UTF-8 BOM.
+
+export interface CsvTable {
+  headers: string[];
+  rows: Record<string, string>[];
+  lines: number[];  // Line each row starts on (1-based), which skipped blank lines and quoted newlines move
+}
+
+export class CsvParseError extends Error {
+  constructor(message: string, public line: number) {
+    super(`line ${line}: ${message}`);
+    this.name = 'CsvParseError';
+  }
+}
+
+interface CsvRecord {
+  fields: string[];
+  line: number;  // Where the record starts
+}
+
+// Split CSV text into rows of raw fields
+function parseRecords(text: string, delimiter: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  let line = 1;
+  let recordLine = 1;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (text[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        if (char === '\n') line++;
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      if (field !== '') {
+        throw new CsvParseError('unexpected quote inside an unquoted field', line);
+      }
+      inQuotes = true;
+    } else if (char === delimiter) {
+      record.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      record.push(field);
+      records.push({ fields: record, line: recordLine });
+      record = [];
+      field = '';
+      line++;
+      recordLine = line;
+    } else {
+      field += char;
+    }
+  }
+
+  if (inQuotes) {
+    throw new CsvParseError('unterminated quoted field', line);
+  }
+  if (field !== '' || record.length > 0) {
+    record.push(field);
+    records.push({ fields: record, line: recordLine });
+  }
+
+  // Drop blank lines (e.g. trailing newlines from spreadsheet exports)
+  return records.filter(({ fields }) => !(fields.length === 1 && fields[0].trim() === ''));
+}
+
+// Spreadsheets in some locales export with semicolons - pick whichever the header uses more
+function detectDelimiter(headerLine: string): string {
+  const candidates = [',', ';', '\t'];
+  return candidates.reduce((best, candidate) =>
+    headerLine.split(candidate).length > headerLine.split(best).length ? candidate : best
+  , ',');
+}
+
+export function parseCsv(text: string): CsvTable {
+  const content = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(content.slice(0, content.search(/\r?\n|$/)));
+  const records = parseRecords(content, delimiter);
+
+  if (records.length === 0) {
+    return { headers: [], rows: [], lines: [] };
+  }
+
+  const headerLine = records[0].line;
+  const headers = records[0].fields.map(header => header.trim());
+  const seen = new Set<string>();
+  headers.forEach((header, index) => {
+    if (header === '') {
+      throw new CsvParseError(`column ${index + 1} has an empty header`, headerLine);
+    }
+    if (seen.has(header)) {
+      throw new CsvParseError(`duplicate column "${header}"`, headerLine);
+    }
+    seen.add(header);
+  });
+
+  const dataRecords = records.slice(1);
+  const rows = dataRecords.map(({ fields }) => {
+    const row: Record<string, string> = {};
+    headers.forEach((header, index) => {
+      row[header] = (fields[index] ?? '').trim();
+    });
+    return row;
+  });
+
+  return { headers, rows, lines: dataRecords.map(({ line }) => line) };
+}
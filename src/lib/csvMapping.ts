@@ -0,0 +1,197 @@
+import { CsvTable } from '@/lib/csv';
+import { Dataset, DatasetIssue } from '@/lib/datasetSchema';
+
+// Maps the columns of an assets CSV and a connections CSV onto the dataset format.
+// An empty string means "not mapped".
+
+export interface NodeColumnMapping {
+  uid: string;
+  type: string;
+  typeConstant: string;  // Used for every row when no type column is mapped
+  showname: string;      // Falls back to the uid when not mapped
+  timestamp: string;
+  latitude: string;
+  longitude: string;
+}
+
+export interface EdgeColumnMapping {
+  from: string;
+  to: string;
+  type: string;
+  typeConstant: string;  // Used for every row when no type column is mapped
+  timestamp: string;
+}
+
+// Header names we recognise when guessing a mapping (compared case-insensitively)
+const NODE_COLUMN_GUESSES: Record<Exclude<keyof NodeColumnMapping, 'typeConstant'>, string[]> = {
+  uid: ['uid', 'id', 'asset_id', 'assetid', 'node_id', 'key'],
+  type: ['type', 'asset_type', 'category', 'class', 'kind'],
+  showname: ['showname', 'name', 'hostname', 'label', 'display_name', 'title'],
+  timestamp: ['timestamp', 'first_seen', 'created', 'created_at', 'date', 'time'],
+  latitude: ['latitude', 'lat'],
+  longitude: ['longitude', 'lon', 'lng', 'long'],
+};
+
+const EDGE_COLUMN_GUESSES: Record<Exclude<keyof EdgeColumnMapping, 'typeConstant'>, string[]> = {
+  from: ['from', 'source', 'src', 'from_uid', 'source_id', 'start'],
+  to: ['to', 'target', 'dst', 'dest', 'to_uid', 'target_id', 'end'],
+  type: ['type', 'relationship', 'relation', 'rel_type', 'label'],
+  timestamp: ['timestamp', 'since', 'first_seen', 'created', 'date', 'time'],
+};
+
+function guessColumn(headers: string[], candidates: string[], taken: Set<string>): string {
+  const byLowerCase = new Map(headers.map(header => [header.toLowerCase(), header]));
+  for (const candidate of candidates) {
+    const header = byLowerCase.get(candidate);
+    if (header && !taken.has(header)) {
+      taken.add(header);
+      return header;
+    }
+  }
+  return '';
+}
+
+export function guessNodeMapping(headers: string[]): NodeColumnMapping {
+  const taken = new Set<string>();
+  return {
+    uid: guessColumn(headers, NODE_COLUMN_GUESSES.uid, taken),
+    type: guessColumn(headers, NODE_COLUMN_GUESSES.type, taken),
+    typeConstant: 'Asset',
+    showname: guessColumn(headers, NODE_COLUMN_GUESSES.showname, taken),
+    timestamp: guessColumn(headers, NODE_COLUMN_GUESSES.timestamp, taken),
+    latitude: guessColumn(headers, NODE_COLUMN_GUESSES.latitude, taken),
+    longitude: guessColumn(headers, NODE_COLUMN_GUESSES.longitude, taken),
+  };
+}
+
+export function guessEdgeMapping(headers: string[]): EdgeColumnMapping {
+  const taken = new Set<string>();
+  return {
+    from: guessColumn(headers, EDGE_COLUMN_GUESSES.from, taken),
+    to: guessColumn(headers, EDGE_COLUMN_GUESSES.to, taken),
+    type: guessColumn(headers, EDGE_COLUMN_GUESSES.type, taken),
+    typeConstant: 'CONNECTED_TO',
+    timestamp: guessColumn(headers, EDGE_COLUMN_GUESSES.timestamp, taken),
+  };
+}
+
+// Problems with the mapping itself, before any row is looked at
+export function checkMapping(nodeMapping: NodeColumnMapping, edgeMapping: EdgeColumnMapping | null): string[] {
+  const problems: string[] = [];
+  if (!nodeMapping.uid) problems.push('Choose the assets column that holds the uid.');
+  if (!nodeMapping.type && !nodeMapping.typeConstant.trim()) problems.push('Choose a type column or enter a fixed node type.');
+  if (!!nodeMapping.latitude !== !!nodeMapping.longitude) problems.push('Map both latitude and longitude, or neither.');
+  if (edgeMapping) {
+    if (!edgeMapping.from || !edgeMapping.to) problems.push('Choose the connections columns for "from" and "to".');
+    if (!edgeMapping.type && !edgeMapping.typeConstant.trim()) problems.push('Choose a type column or enter a fixed edge type.');
+  }
+  return problems;
+}
+
+// Every column that isn't mapped to a dataset field becomes a property; empty cells are left out
+function remainingProperties(row: Record<string, string>, mappedColumns: Set<string>): Record<string, string> {
+  const properties: Record<string, string> = {};
+  Object.entries(row).forEach(([column, value]) => {
+    if (!mappedColumns.has(column) && value !== '') {
+      properties[column] = value;
+    }
+  });
+  return properties;
+}
+
+// CSV line each dataset node and edge was read from
+export interface CsvSourceLines {
+  nodes: number[];
+  edges: number[];
+}
+
+/**
+ * Adds the CSV line of the offending row to issues about nodes[i] or edges[i], so
+ * problems found by the dataset validation point back into the spreadsheet.
+ */
+export function withCsvLines(issues: DatasetIssue[], lines: CsvSourceLines): DatasetIssue[] {
+  return issues.map(issue => {
+    const match = issue.path.match(/^(nodes|edges)\[(\d+)\]/);
+    if (!match) return issue;
+    const kind = match[1] as keyof CsvSourceLines;
+    const line = lines[kind][Number(match[2])];
+    if (line === undefined) return issue;
+    const file = kind === 'nodes' ? 'assets' : 'connections';
+    return { ...issue, message: `${issue.message} (${file} CSV line ${line})` };
+  });
+}
+
+/**
+ * Turns the mapped CSV rows into a dataset for the regular validate/upload routes.
+ * Row problems the dataset validation can't see (non-numeric coordinates) are returned
+ * as issues; everything else - empty uids, unknown endpoints, bad timestamps - is left
+ * to the normal validation. `lines` maps dataset indexes back to CSV lines (see withCsvLines).
+ */
+export function buildDatasetFromCsv(
+  nodesCsv: CsvTable,
+  nodeMapping: NodeColumnMapping,
+  edgesCsv: CsvTable | null,
+  edgeMapping: EdgeColumnMapping | null
+): { dataset: Dataset; issues: DatasetIssue[]; lines: CsvSourceLines } {
+  const issues: DatasetIssue[] = [];
+
+  const nodeColumns = new Set(
+    [nodeMapping.uid, nodeMapping.type, nodeMapping.showname, nodeMapping.timestamp, nodeMapping.latitude, nodeMapping.longitude]
+      .filter(Boolean)
+  );
+
+  const nodes = nodesCsv.rows.map((row, index) => {
+    const uid = row[nodeMapping.uid] ?? '';
+    const properties: Record<string, string | number> = remainingProperties(row, nodeColumns);
+
+    if (nodeMapping.timestamp && row[nodeMapping.timestamp]) {
+      properties.timestamp = row[nodeMapping.timestamp];
+    }
+
+    if (nodeMapping.latitude && nodeMapping.longitude) {
+      const latitude = row[nodeMapping.latitude];
+      const longitude = row[nodeMapping.longitude];
+      if (latitude !== '' || longitude !== '') {
+        const lat = Number(latitude);
+        const lon = Number(longitude);
+        if (latitude === '' || isNaN(lat) || lat < -90 || lat > 90) {
+          issues.push({ path: `nodes[${index}].properties.latitude`, message: `invalid latitude "${latitude}"` });
+        } else if (longitude === '' || isNaN(lon) || lon < -180 || lon > 180) {
+          issues.push({ path: `nodes[${index}].properties.longitude`, message: `invalid longitude "${longitude}"` });
+        } else {
+          properties.latitude = lat;
+          properties.longitude = lon;
+        }
+      }
+    }
+
+    return {
+      uid,
+      type: (nodeMapping.type ? row[nodeMapping.type] : '') || nodeMapping.typeConstant.trim(),
+      showname: (nodeMapping.showname ? row[nodeMapping.showname] : '') || uid,
+      properties,
+    };
+  });
+
+  const edgeColumns = new Set(
+    edgeMapping ? [edgeMapping.from, edgeMapping.to, edgeMapping.type, edgeMapping.timestamp].filter(Boolean) : []
+  );
+
+  const edges = edgesCsv && edgeMapping
+    ? edgesCsv.rows.map(row => {
+        const properties: Record<string, string> = remainingProperties(row, edgeColumns);
+        if (edgeMapping.timestamp && row[edgeMapping.timestamp]) {
+          properties.timestamp = row[edgeMapping.timestamp];
+        }
+        return {
+          from: row[edgeMapping.from] ?? '',
+          to: row[edgeMapping.to] ?? '',
+          type: (edgeMapping.type ? row[edgeMapping.type] : '') || edgeMapping.typeConstant.trim(),
+          properties,
+        };
+      })
+    : [];
+
+  const lines = { nodes: nodesCsv.lines, edges: edgesCsv && edgeMapping ? edgesCsv.lines : [] };
+  return { dataset: { nodes, edges }, issues: withCsvLines(issues, lines), lines };
+}
@@ -0,0 +1,56 @@
+// Pre-flight check for user-supplied Cypher. Queries also run in READ sessions, which
+// make Neo4j itself refuse writes; this check just rejects them earlier with a message
+// that names the offending clause.
+
+// Clauses that modify data or schema, or run work outside the read transaction
+const WRITE_CLAUSES: { pattern: RegExp; clause: string }[] = [
+  { pattern: /\bCREATE\b/i, clause: 'CREATE' },
+  { pattern: /\bMERGE\b/i, clause: 'MERGE' },
+  { pattern: /\bDELETE\b/i, clause: 'DELETE' },
+  { pattern: /\bSET\b/i, clause: 'SET' },
+  { pattern: /\bREMOVE\b/i, clause: 'REMOVE' },
+  { pattern: /\bDROP\b/i, clause: 'DROP' },
+  { pattern: /\bFOREACH\b/i, clause: 'FOREACH' },
+  { pattern: /\bLOAD\s+CSV\b/i, clause: 'LOAD CSV' },
+  { pattern: /\bIN\s+TRANSACTIONS\b/i, clause: 'CALL { ... } IN TRANSACTIONS' },
+  { pattern: /\bTERMINATE\b/i, clause: 'TERMINATE' },
+  { pattern: /\bALTER\b/i, clause: 'ALTER' },
+  { pattern: /\bGRANT\b|\bDENY\b|\bREVOKE\b/i, clause: 'GRANT/DENY/REVOKE' },
+];
+
+// Procedures that write, or that run other (possibly writing) Cypher
+const WRITE_PROCEDURES = /\bCALL\s+((?:apoc\.(?:create|merge|refactor|periodic|nodes\.delete|cypher\.(?:doIt|run(?:Write|Many|Schema|File)))|db\.(?:create|index\.fulltext\.create|clearQueryCaches)|dbms\.|gds\.[\w.]*\.(?:write|mutate))[\w.]*)/i;
+
+// Comments, string literals and backtick-quoted names, in one alternation so the query
+// is scanned left to right and whichever opens first wins: `'http://host'` is a string,
+// and the `'` in `// it's` is part of a comment. An unclosed comment runs to the end.
+const LITERALS = /\/\*[\s\S]*?(?:\*\/|$)|\/\/[^\n]*|'(?:[^'\\]|\\.)*'|"(?:[^"\\]|\\.)*"|`(?:[^`]|``)*`/g;
+
+// Blanks out comments, string literals and backtick-quoted names, so that keywords
+// inside e.g. `WHERE n.name = 'SET'` or `n.\`create\`` aren't mistaken for clauses
+function stripLiterals(query: string): string {
+  return query.replace(LITERALS, literal => (literal.startsWith('/') ? ' ' : "''"));
+}
+
+/**
+ * Returns why `query` can't run in the read-only console, or null if it looks read-only.
+ * Multiple statements are rejected as well, since the driver runs only a single one.
+ */
+export function findWriteClause(query: string): string | null {
+  const stripped = stripLiterals(query);
+
+  if (/;\s*\S/.test(stripped)) {
+    return 'Only a single statement can be run at a time';
+  }
+  const procedure = stripped.match(WRITE_PROCEDURES);
+  if (procedure) {
+    return `Procedure ${procedure[1]} is not allowed in read-only queries`;
+  }
+  // Property keys (`n.set`), labels and types (`:Set`) and parameters (`$delete`) aren't clauses
+  const clauses = stripped.replace(/[.:$]\s*[A-Za-z_]\w*/g, '.x');
+  const write = WRITE_CLAUSES.find(({ pattern }) => pattern.test(clauses));
+  if (write) {
+    return `${write.clause} is not allowed in read-only queries`;
+  }
+  return null;
+}
@@ -0,0 +1,398 @@
+import neo4j, { ManagedTransaction, Session } from 'neo4j-driver';
+import { EdgeData, ImportOptions, NodeData } from '@/lib/datasetSchema';
+import { IMPORT_LABEL, UID_INDEX, notSystemNode } from '@/lib/graphLabels';
+import { VALID_FROM_PROPERTIES, VALID_TO_PROPERTIES, parseTimestamp } from '@/lib/timeUtils';
+import { toEpochInteger } from '@/lib/temporal';
+import { GraphChanges, addGraphChanges, emptyGraphChanges, publishGraphChanges, publishLiveEvent } from '@/lib/liveUpdates';
+
+// Records written per transaction. Large enough to keep round trips down,
+// small enough that a 200k-node import never builds one huge transaction.
+export const IMPORT_BATCH_SIZE = 1000;
+
+export interface ImportCounts {
+  created: number;
+  updated: number;
+  unchanged: number;
+  skipped: number; // Existing records left untouched in append-only mode, or edges with missing endpoints
+}
+
+export interface ImportTotals {
+  nodes: ImportCounts;
+  edges: ImportCounts;
+  changes: GraphChanges; // What was written, for live mode
+}
+
+// Everything a batch needs besides its records
+export interface ImportContext {
+  options: ImportOptions;
+  useApoc: boolean;
+  importTimeISO: string; // Used by the import-time timestamp policy
+}
+
+export const emptyCounts = (): ImportCounts => ({ created: 0, updated: 0, unchanged: 0, skipped: 0 });
+
+export function addCounts(target: ImportCounts, source: ImportCounts): ImportCounts {
+  target.created += source.created;
+  target.updated += source.updated;
+  target.unchanged += source.unchanged;
+  target.skipped += source.skipped;
+  return target;
+}
+
+// Fill in a record's `timestamp` according to the upload's timestamp policy, and its
+// lifetime (see temporal.ts). An explicit `timestamp` always wins; all stored times are
+// normalised to epoch ms so the time-window queries can compare them. A record with a
+// timestamp but no lifetime of its own lives for that instant only; records left
+// without either are "always present".
+function applyTemporalModel(
+  props: Record<string, any>,
+  options: ImportOptions,
+  importTime: number,
+  isNew: boolean
+): Record<string, any> {
+  let timestamp = parseTimestamp(props.timestamp);
+  if (timestamp === null) {
+    switch (options.timestampPolicy) {
+      case 'property':
+        timestamp = parseTimestamp(props[options.timestampProperty!]);
+        break;
+      case 'import-time':
+        // Only new records are stamped, so re-uploads don't move existing records in time
+        timestamp = isNew ? importTime : null;
+        break;
+    }
+  }
+
+  const firstTime = (names: string[]) =>
+    names.map(name => parseTimestamp(props[name])).find(time => time !== null) ?? null;
+  const validFrom = firstTime(VALID_FROM_PROPERTIES);
+  const validTo = firstTime(VALID_TO_PROPERTIES);
+
+  const result = { ...props };
+  if (timestamp !== null) result.timestamp = toEpochInteger(timestamp);
+  if (validFrom !== null || validTo !== null) {
+    if (validFrom !== null) result.valid_from = toEpochInteger(validFrom);
+    if (validTo !== null) result.valid_to = toEpochInteger(validTo);
+  } else if (timestamp !== null) {
+    result.valid_from = toEpochInteger(timestamp);
+    result.valid_to = toEpochInteger(timestamp);
+  }
+  return result;
+}
+
+// Convert Neo4j values into plain JS values so they can be compared with uploaded JSON
+function toComparable(value: any): any {
+  if (neo4j.isInt(value)) {
+    return value.toNumber();
+  }
+  if (Array.isArray(value)) {
+    return value.map(toComparable);
+  }
+  return value ?? null;
+}
+
+// An existing record is unchanged when every uploaded property already has the same value
+function propertiesMatch(existing: Record<string, any>, incoming: Record<string, any>): boolean {
+  return Object.keys(incoming).every(key =>
+    JSON.stringify(toComparable(existing[key])) === JSON.stringify(toComparable(incoming[key]))
+  );
+}
+
+// Identity of an edge for merge purposes
+const edgeIdentity = (edge: { fromUid: string; toUid: string; type: string; key: string | null }) =>
+  `${edge.fromUid}|${edge.toUid}|${edge.type}|${edge.key ?? ''}`;
+
+/**
+ * Checks once per import whether APOC is installed. Batches run inside transactions,
+ * where a failed APOC call would abort the whole transaction, so the branch has to be
+ * chosen up front instead of by catching the error.
+ */
+export async function detectApoc(session: Session): Promise<boolean> {
+  try {
+    await session.run('RETURN apoc.version() AS version');
+    return true;
+  } catch (error) {
+    console.warn("APOC not available, falling back to generic Entity label and RELATED_TO type", error);
+    return false;
+  }
+}
+
+/**
+ * Creates the index on the uid of imported nodes if it doesn't exist yet, first giving
+ * IMPORT_LABEL to nodes imported before every node carried it. Without the index each
+ * record of an import would scan the whole graph for its uid. Call before importing or
+ * looking up uids.
+ */
+export async function ensureUidIndex(session: Session): Promise<void> {
+  const existing = await session.run(
+    'SHOW INDEXES YIELD name WHERE name = $name RETURN count(*) AS count',
+    { name: UID_INDEX }
+  );
+  if (existing.records[0].get('count').toNumber() > 0) return;
+
+  await session.run(
+    `MATCH (n)
+     WHERE n.uid IS NOT NULL AND NOT n:${IMPORT_LABEL} AND ${notSystemNode('n')}
+     CALL { WITH n SET n:${IMPORT_LABEL} } IN TRANSACTIONS OF 10000 ROWS`
+  );
+  await session.run(`CREATE INDEX ${UID_INDEX} IF NOT EXISTS FOR (n:${IMPORT_LABEL}) ON (n.uid)`);
+  await session.run('CALL db.awaitIndex($name, 300)', { name: UID_INDEX });
+  console.log(`Created the ${UID_INDEX} index`);
+}
+
+// Delete the imported graph (replace mode). Bookkeeping nodes such as import jobs and the
+// user's own saved queries are kept, but stored queries that came with the old dataset go,
+// and so do alerts (with their audit trails), whose matched element ids would point at
+// deleted nodes.
+// The delete is batched so large graphs don't need one giant transaction.
+export async function clearGraph(session: Session): Promise<void> {
+  await session.run(
+    `MATCH (n)
+     WHERE ${notSystemNode('n')}
+     CALL { WITH n DETACH DELETE n } IN TRANSACTIONS OF 10000 ROWS`
+  );
+  await session.run(`MATCH (q:StoredQuery {source: 'dataset'}) DELETE q`);
+  await session.run(`MATCH (a:Alert) OPTIONAL MATCH (a)-[:HAS_EVENT]->(e:AlertEvent) DETACH DELETE a, e`);
+  await publishLiveEvent(session, { type: 'reset' });
+}
+
+async function importNodeBatch(
+  tx: ManagedTransaction,
+  nodes: NodeData[],
+  context: ImportContext
+): Promise<{ counts: ImportCounts; changes: GraphChanges }> {
+  const { options, useApoc, importTimeISO } = context;
+  const counts = emptyCounts();
+  const changes = emptyGraphChanges();
+  if (nodes.length === 0) return { counts, changes };
+
+  const incomingNodes = nodes.map(node => ({
+    uid: node.uid,
+    type: node.type,
+    properties: {
+      ...node.properties,
+      uid: node.uid,
+      type: node.type,
+      showname: node.showname,
+      icon: node.icon || null,
+    } as Record<string, any>
+  }));
+
+  // Look up the nodes that already exist so each record can be classified.
+  // In replace mode this finds nodes written by earlier batches of the same import.
+  const existingNodes = new Map<string, Record<string, any>>();
+  const existingResult = await tx.run(
+    `UNWIND $uids AS uid
+     MATCH (n:${IMPORT_LABEL} {uid: uid})
+     RETURN uid, properties(n) AS properties`,
+    { uids: incomingNodes.map(node => node.uid) }
+  );
+  existingResult.records.forEach(record => {
+    existingNodes.set(record.get('uid'), record.get('properties'));
+  });
+
+  const nodesToWrite: { uid: string; type: string; properties: Record<string, any>; isNew: boolean }[] = [];
+  incomingNodes.forEach(node => {
+    const existing = existingNodes.get(node.uid);
+    const properties = applyTemporalModel(node.properties, options, Date.parse(importTimeISO), !existing);
+    if (!existing) {
+      counts.created++;
+      nodesToWrite.push({ ...node, properties, isNew: true });
+      // Later duplicates of this uid in the same batch compare against what we're about to write
+      existingNodes.set(node.uid, properties);
+    } else if (propertiesMatch(existing, properties)) {
+      counts.unchanged++;
+    } else if (options.mode === 'append-only') {
+      counts.skipped++;
+    } else {
+      counts.updated++;
+      nodesToWrite.push({ ...node, properties, isNew: false });
+    }
+  });
+
+  if (nodesToWrite.length === 0) return { counts, changes };
+
+  let writeResult;
+  if (useApoc) {
+    // Preferred method for dynamic labels
+    const createNodesQueryWithApoc = `
+      UNWIND $nodes AS nodeData
+      MERGE (n:${IMPORT_LABEL} {uid: nodeData.uid})
+      WITH n, nodeData
+      CALL apoc.create.addLabels(n, [nodeData.type]) YIELD node
+      SET node += nodeData.properties
+      RETURN toString(id(node)) AS id, nodeData.isNew AS isNew
+    `;
+    writeResult = await tx.run(createNodesQueryWithApoc, { nodes: nodesToWrite });
+  } else {
+    // Fallback if APOC is not available - the generic Entity label only
+    const createNodesQueryFallback = `
+      UNWIND $nodes AS nodeData
+      MERGE (n:${IMPORT_LABEL} {uid: nodeData.uid})
+      SET n += nodeData.properties
+      RETURN toString(id(n)) AS id, nodeData.isNew AS isNew
+    `;
+    writeResult = await tx.run(createNodesQueryFallback, { nodes: nodesToWrite });
+  }
+
+  writeResult.records.forEach(record => {
+    (record.get('isNew') ? changes.addedNodes : changes.updatedNodes).push(record.get('id'));
+  });
+  return { counts, changes };
+}
+
+async function importEdgeBatch(
+  tx: ManagedTransaction,
+  edges: EdgeData[],
+  context: ImportContext
+): Promise<{ counts: ImportCounts; changes: GraphChanges }> {
+  const { options, useApoc, importTimeISO } = context;
+  const counts = emptyCounts();
+  const changes = emptyGraphChanges();
+  if (edges.length === 0) return { counts, changes };
+
+  // Collapse duplicate edges within the batch so merge doesn't create them twice
+  const edgesByIdentity = new Map<string, { fromUid: string; toUid: string; type: string; key: string | null; properties: Record<string, any> }>();
+  edges.forEach(edge => {
+    const key = edge.key ?? (edge.properties.key != null ? String(edge.properties.key) : null);
+    const record = {
+      fromUid: edge.from,
+      toUid: edge.to,
+      type: edge.type,
+      key,
+      properties: {
+        ...edge.properties,
+        ...(key !== null ? { key } : {}),
+      }
+    };
+    edgesByIdentity.set(edgeIdentity(record), record);
+  });
+  const incomingEdges = [...edgesByIdentity.values()].map((edge, index) => ({ ...edge, index }));
+
+  // Match existing relationships by endpoints, type (native or stored by the fallback) and key
+  const existingEdges = new Map<number, { relId: number; properties: Record<string, any> }>();
+  const existingResult = await tx.run(
+    `UNWIND $edges AS edgeData
+     MATCH (fromNode:${IMPORT_LABEL} {uid: edgeData.fromUid})-[r]->(toNode:${IMPORT_LABEL} {uid: edgeData.toUid})
+     WHERE (type(r) = edgeData.type OR r.original_type = edgeData.type)
+       AND coalesce(r.key, '') = coalesce(edgeData.key, '')
+     RETURN edgeData.index AS index, id(r) AS relId, properties(r) AS properties`,
+    { edges: incomingEdges }
+  );
+  existingResult.records.forEach(record => {
+    const index = toComparable(record.get('index'));
+    if (!existingEdges.has(index)) {
+      existingEdges.set(index, {
+        relId: toComparable(record.get('relId')),
+        properties: record.get('properties'),
+      });
+    }
+  });
+
+  const edgesToCreate: typeof incomingEdges = [];
+  const edgesToUpdate: { relId: number; properties: Record<string, any> }[] = [];
+  incomingEdges.forEach(edge => {
+    const existing = existingEdges.get(edge.index);
+    const properties = applyTemporalModel(edge.properties, options, Date.parse(importTimeISO), !existing);
+    if (!existing) {
+      edgesToCreate.push({ ...edge, properties });
+    } else if (propertiesMatch(existing.properties, properties)) {
+      counts.unchanged++;
+    } else if (options.mode === 'append-only') {
+      counts.skipped++;
+    } else {
+      counts.updated++;
+      edgesToUpdate.push({ relId: existing.relId, properties });
+    }
+  });
+
+  if (edgesToCreate.length > 0) {
+    let createResult;
+    if (useApoc) {
+      // Preferred method for dynamic relationship types
+      const createEdgesQueryWithApoc = `
+        UNWIND $edges AS edgeData
+        MATCH (fromNode:${IMPORT_LABEL} {uid: edgeData.fromUid})
+        MATCH (toNode:${IMPORT_LABEL} {uid: edgeData.toUid})
+        CALL apoc.create.relationship(fromNode, edgeData.type, edgeData.properties, toNode) YIELD rel
+        RETURN toString(id(rel)) AS id
+      `;
+      createResult = await tx.run(createEdgesQueryWithApoc, { edges: edgesToCreate });
+    } else {
+      // Fallback if APOC is not available - use a generic RELATED_TO relationship type
+      // CREATE rather than MERGE: identity was already resolved above, and MERGE would
+      // collapse distinct edge types between the same pair of nodes
+      const createEdgesQueryFallback = `
+        UNWIND $edges AS edgeData
+        MATCH (fromNode:${IMPORT_LABEL} {uid: edgeData.fromUid})
+        MATCH (toNode:${IMPORT_LABEL} {uid: edgeData.toUid})
+        CREATE (fromNode)-[r:RELATED_TO]->(toNode)
+        SET r += edgeData.properties,
+            r.original_type = edgeData.type // Store the original type as a property
+        RETURN toString(id(r)) AS id
+      `;
+      createResult = await tx.run(createEdgesQueryFallback, { edges: edgesToCreate });
+    }
+
+    // Edges whose endpoints don't exist are dropped by the MATCH clauses
+    const created = createResult.records.length;
+    changes.addedEdges.push(...createResult.records.map(record => record.get('id')));
+    counts.created += created;
+    counts.skipped += edgesToCreate.length - created;
+  }
+
+  if (edgesToUpdate.length > 0) {
+    await tx.run(
+      `UNWIND $edges AS edgeData
+       MATCH ()-[r]->() WHERE id(r) = edgeData.relId
+       SET r += edgeData.properties`,
+      { edges: edgesToUpdate }
+    );
+    changes.updatedEdges.push(...edgesToUpdate.map(edge => String(edge.relId)));
+  }
+
+  return { counts, changes };
+}
+
+/**
+ * Writes one batch of records inside the given transaction: nodes first, so edges in
+ * the same batch can reference them. Callers run this through session.executeWrite,
+ * which retries transient failures and commits the batch atomically.
+ */
+export async function importRecordBatch(
+  tx: ManagedTransaction,
+  records: { nodes: NodeData[]; edges: EdgeData[] },
+  context: ImportContext
+): Promise<ImportTotals> {
+  const nodes = await importNodeBatch(tx, records.nodes, context);
+  const edges = await importEdgeBatch(tx, records.edges, context);
+  return { nodes: nodes.counts, edges: edges.counts, changes: addGraphChanges(nodes.changes, edges.changes) };
+}
+
+// Import a whole in-memory dataset, one transaction per batch. Each committed batch is
+// published to live mode.
+export async function importDataset(
+  session: Session,
+  dataset: { nodes: NodeData[]; edges: EdgeData[] },
+  context: ImportContext
+): Promise<ImportTotals> {
+  const totals: ImportTotals = { nodes: emptyCounts(), edges: emptyCounts(), changes: emptyGraphChanges() };
+
+  for (let i = 0; i < dataset.nodes.length; i += IMPORT_BATCH_SIZE) {
+    const batch = dataset.nodes.slice(i, i + IMPORT_BATCH_SIZE);
+    const result = await session.executeWrite(tx => importRecordBatch(tx, { nodes: batch, edges: [] }, context));
+    addCounts(totals.nodes, result.nodes);
+    addGraphChanges(totals.changes, result.changes);
+    await publishGraphChanges(session, result.changes);
+  }
+
+  for (let i = 0; i < dataset.edges.length; i += IMPORT_BATCH_SIZE) {
+    const batch = dataset.edges.slice(i, i + IMPORT_BATCH_SIZE);
+    const result = await session.executeWrite(tx => importRecordBatch(tx, { nodes: [], edges: batch }, context));
+    addCounts(totals.edges, result.edges);
+    addGraphChanges(totals.changes, result.changes);
+    await publishGraphChanges(session, result.changes);
+  }
+
+  return totals;
+}
@@ -0,0 +1,295 @@
+import { z } from 'zod';
+import type { Session } from 'neo4j-driver';
+import { IMPORT_LABEL, UID_INDEX, notSystemNode } from '@/lib/graphLabels';
+import { VALID_FROM_PROPERTIES, VALID_TO_PROPERTIES, parseTimestamp } from '@/lib/timeUtils';
+
+// Neo4j can only store primitives (or homogeneous arrays of primitives) as property values
+const primitiveValue = z.union([z.string(), z.number(), z.boolean(), z.null()]);
+const propertyValue = z.union([primitiveValue, z.array(primitiveValue)], {
+  errorMap: () => ({ message: 'property values must be a string, number, boolean, null or an array of those' }),
+});
+const properties = z.record(propertyValue);
+
+const nonEmptyString = (field: string) =>
+  z.string({ invalid_type_error: `${field} must be a string`, required_error: `${field} is required` })
+    .min(1, `${field} must not be empty`);
+
+export const nodeSchema = z.object({
+  uid: nonEmptyString('uid'),
+  type: nonEmptyString('type'),
+  showname: z.string({ invalid_type_error: 'showname must be a string', required_error: 'showname is required' }),
+  properties,
+  icon: z.string().optional(),
+});
+
+export const edgeSchema = z.object({
+  from: nonEmptyString('from'),
+  to: nonEmptyString('to'),
+  type: nonEmptyString('type'),
+  key: z.string().optional(),
+  properties,
+});
+
+export const storedQuerySchema = z.object({
+  query: nonEmptyString('query'),
+  lang: z.string(),
+  description: z.string().optional(),
+});
+
+export const datasetSchema = z.object({
+  nodes: z.array(nodeSchema, { required_error: 'nodes array is required' }),
+  edges: z.array(edgeSchema, { required_error: 'edges array is required' }),
+  storedQueries: z.array(storedQuerySchema).optional(),
+});
+
+export type NodeData = z.infer<typeof nodeSchema>;
+export type EdgeData = z.infer<typeof edgeSchema>;
+export type StoredQueryData = z.infer<typeof storedQuerySchema>;
+export type Dataset = z.infer<typeof datasetSchema>;
+
+// How an upload is applied to the data already in Neo4j:
+// - replace:     wipe the graph, then import everything
+// - merge:       upsert nodes by uid and edges by (from, to, type, key)
+// - append-only: only add records that don't exist yet, never touch existing ones
+export type ImportMode = 'replace' | 'merge' | 'append-only';
+
+export const IMPORT_MODES: ImportMode[] = ['replace', 'merge', 'append-only'];
+
+// What timestamp a record gets when it doesn't carry its own `timestamp` property:
+// - always-present: none, the record is visible in every time window
+// - import-time:    the time of the upload (new records only)
+// - property:       the value of another property, e.g. `first_seen` or `since`
+export type TimestampPolicy = 'always-present' | 'import-time' | 'property';
+
+export const TIMESTAMP_POLICIES: TimestampPolicy[] = ['always-present', 'import-time', 'property'];
+
+export interface ImportOptions {
+  mode: ImportMode;
+  timestampPolicy: TimestampPolicy;
+  timestampProperty?: string; // Required when timestampPolicy is 'property'
+}
+
+// Read and check the import options from the upload/validate query string
+export function parseImportOptions(searchParams: URLSearchParams): { options?: ImportOptions; error?: string } {
+  const mode = (searchParams.get('mode') || 'merge') as ImportMode;
+  const timestampPolicy = (searchParams.get('timestampPolicy') || 'always-present') as TimestampPolicy;
+  const timestampProperty = searchParams.get('timestampProperty')?.trim() || undefined;
+
+  if (!IMPORT_MODES.includes(mode)) {
+    return { error: `Invalid import mode "${mode}". Expected one of: ${IMPORT_MODES.join(', ')}.` };
+  }
+  if (!TIMESTAMP_POLICIES.includes(timestampPolicy)) {
+    return { error: `Invalid timestamp policy "${timestampPolicy}". Expected one of: ${TIMESTAMP_POLICIES.join(', ')}.` };
+  }
+  if (timestampPolicy === 'property' && !timestampProperty) {
+    return { error: 'The "property" timestamp policy requires a timestampProperty parameter.' };
+  }
+
+  return { options: { mode, timestampPolicy, timestampProperty } };
+}
+
+export interface DatasetIssue {
+  path: string;    // JSON path of the offending value, e.g. "edges[12].to"
+  message: string;
+}
+
+export interface DatasetValidationResult {
+  valid: boolean;
+  issues: DatasetIssue[];
+  dataset?: Dataset; // Only set when the shape is valid
+}
+
+// Render a zod path like ['edges', 12, 'to'] as "edges[12].to"
+export function formatIssuePath(path: (string | number)[]): string {
+  return path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${segment}` : segment;
+  }, '');
+}
+
+export function formatIssue(issue: DatasetIssue): string {
+  return issue.path ? `${issue.path}: ${issue.message}` : issue.message;
+}
+
+// `timestamp`, the lifetime properties and the policy's time-source property must parse
+// as dates when present, and a lifetime can't end before it starts
+function timestampIssues(recordPath: string, props: Record<string, unknown>, timestampProperty?: string): DatasetIssue[] {
+  const timeProperties = [...new Set(['timestamp', ...VALID_FROM_PROPERTIES, ...VALID_TO_PROPERTIES, ...(timestampProperty ? [timestampProperty] : [])])];
+
+  const issues = timeProperties.flatMap(name => {
+    const value = props[name];
+    return value != null && parseTimestamp(value) === null
+      ? [{ path: `${recordPath}.properties.${name}`, message: `unparseable timestamp "${value}"` }]
+      : [];
+  });
+
+  const firstTime = (names: string[]) => {
+    const name = names.find(candidate => parseTimestamp(props[candidate]) !== null);
+    return name ? { name, time: parseTimestamp(props[name])! } : null;
+  };
+  const validFrom = firstTime(VALID_FROM_PROPERTIES);
+  const validTo = firstTime(VALID_TO_PROPERTIES);
+  if (validFrom && validTo && validTo.time < validFrom.time) {
+    issues.push({ path: `${recordPath}.properties.${validTo.name}`, message: `ends before ${validFrom.name}` });
+  }
+  return issues;
+}
+
+/**
+ * Validates an uploaded dataset without touching the database.
+ * Checks the record shapes first, then cross-record rules: duplicate uids,
+ * edges pointing at unknown uids and unparseable timestamps.
+ * `knownUids` holds uids that already exist in Neo4j, so edges can reference them.
+ * `timestampProperty` is the property used as time source, checked like `timestamp`.
+ */
+export function validateDataset(
+  input: unknown,
+  knownUids: Set<string> = new Set(),
+  timestampProperty?: string
+): DatasetValidationResult {
+  const parsed = datasetSchema.safeParse(input);
+  if (!parsed.success) {
+    return {
+      valid: false,
+      issues: parsed.error.issues.map(issue => ({
+        path: formatIssuePath(issue.path),
+        message: issue.message,
+      })),
+    };
+  }
+
+  const dataset = parsed.data;
+  const issues: DatasetIssue[] = [];
+  const firstIndexByUid = new Map<string, number>();
+  const checkTimestamps = (recordPath: string, props: Record<string, unknown>) => {
+    issues.push(...timestampIssues(recordPath, props, timestampProperty));
+  };
+
+  dataset.nodes.forEach((node, index) => {
+    const firstIndex = firstIndexByUid.get(node.uid);
+    if (firstIndex !== undefined) {
+      issues.push({ path: `nodes[${index}].uid`, message: `duplicate uid "${node.uid}" (first defined at nodes[${firstIndex}])` });
+    } else {
+      firstIndexByUid.set(node.uid, index);
+    }
+    checkTimestamps(`nodes[${index}]`, node.properties);
+  });
+
+  dataset.edges.forEach((edge, index) => {
+    (['from', 'to'] as const).forEach(end => {
+      const uid = edge[end];
+      if (!firstIndexByUid.has(uid) && !knownUids.has(uid)) {
+        issues.push({ path: `edges[${index}].${end}`, message: `unknown uid "${uid}"` });
+      }
+    });
+    checkTimestamps(`edges[${index}]`, edge.properties);
+  });
+
+  return { valid: issues.length === 0, issues, dataset };
+}
+
+// uids referenced by edges but not defined in the dataset itself
+function getExternalEdgeUids(input: unknown): string[] {
+  const parsed = datasetSchema.safeParse(input);
+  if (!parsed.success) return [];
+  const defined = new Set(parsed.data.nodes.map(node => node.uid));
+  const external = new Set<string>();
+  parsed.data.edges.forEach(edge => {
+    if (!defined.has(edge.from)) external.add(edge.from);
+    if (!defined.has(edge.to)) external.add(edge.to);
+  });
+  return [...external];
+}
+
+/**
+ * The subset of `uids` that already exist as nodes in Neo4j. Only reads: once imports have
+ * created the UID_INDEX (see ensureUidIndex) the lookup goes through it, before that it
+ * scans the regular nodes.
+ */
+export async function findExistingUids(session: Session, uids: string[]): Promise<Set<string>> {
+  const existing = new Set<string>();
+  if (uids.length === 0) return existing;
+
+  const index = await session.run(
+    'SHOW INDEXES YIELD name WHERE name = $name RETURN count(*) AS count',
+    { name: UID_INDEX }
+  );
+  const result = await session.run(
+    index.records[0].get('count').toNumber() > 0
+      ? `UNWIND $uids AS uid
+         MATCH (n:${IMPORT_LABEL} {uid: uid})
+         RETURN DISTINCT uid`
+      : `MATCH (n)
+         WHERE n.uid IN $uids AND ${notSystemNode('n')}
+         RETURN DISTINCT n.uid AS uid`,
+    { uids }
+  );
+  result.records.forEach(record => existing.add(record.get('uid')));
+  return existing;
+}
+
+/**
+ * Same as validateDataset, but when the upload keeps existing data (merge / append-only)
+ * edges may point at nodes that are already in Neo4j, so those uids are looked up first.
+ */
+export async function validateDatasetForImport(session: Session, input: unknown, options: ImportOptions): Promise<DatasetValidationResult> {
+  const externalUids = options.mode === 'replace' ? [] : getExternalEdgeUids(input);
+  const knownUids = await findExistingUids(session, externalUids);
+
+  return validateDataset(input, knownUids, options.timestampPolicy === 'property' ? options.timestampProperty : undefined);
+}
+
+// One line of an NDJSON upload: a node (has `uid`), an edge (has `from`/`to`),
+// or a stored query (has `query`)
+export type NdjsonRecord =
+  | { kind: 'node'; node: NodeData }
+  | { kind: 'edge'; edge: EdgeData }
+  | { kind: 'storedQuery'; storedQuery: StoredQueryData }
+  | { kind: 'ignored' };
+
+/**
+ * Parses and validates a single NDJSON line. Issue paths are prefixed with the
+ * 1-based line number, e.g. "line 42.to". Blank lines are ignored.
+ * Cross-record checks (duplicate or unknown uids) aren't possible line by line:
+ * edges to missing nodes are reported as skipped by the import instead.
+ */
+export function parseNdjsonLine(line: string, lineNumber: number, timestampProperty?: string): { record?: NdjsonRecord; issues: DatasetIssue[] } {
+  const linePath = `line ${lineNumber}`;
+  if (line.trim() === '') {
+    return { record: { kind: 'ignored' }, issues: [] };
+  }
+
+  let value: any;
+  try {
+    value = JSON.parse(line);
+  } catch (error: any) {
+    return { issues: [{ path: linePath, message: `invalid JSON: ${error.message}` }] };
+  }
+
+  const toIssues = (error: z.ZodError) => error.issues.map(issue => ({
+    path: [linePath, formatIssuePath(issue.path)].filter(Boolean).join('.'),
+    message: issue.message,
+  }));
+
+  if (value && typeof value === 'object' && 'uid' in value) {
+    const parsed = nodeSchema.safeParse(value);
+    if (!parsed.success) return { issues: toIssues(parsed.error) };
+    const issues = timestampIssues(linePath, parsed.data.properties, timestampProperty);
+    return issues.length > 0 ? { issues } : { record: { kind: 'node', node: parsed.data }, issues };
+  }
+
+  if (value && typeof value === 'object' && 'from' in value && 'to' in value) {
+    const parsed = edgeSchema.safeParse(value);
+    if (!parsed.success) return { issues: toIssues(parsed.error) };
+    const issues = timestampIssues(linePath, parsed.data.properties, timestampProperty);
+    return issues.length > 0 ? { issues } : { record: { kind: 'edge', edge: parsed.data }, issues };
+  }
+
+  if (value && typeof value === 'object' && 'query' in value) {
+    const parsed = storedQuerySchema.safeParse(value);
+    if (!parsed.success) return { issues: toIssues(parsed.error) };
+    return { record: { kind: 'storedQuery', storedQuery: parsed.data }, issues: [] };
+  }
+
+  return { issues: [{ path: linePath, message: 'not a node (needs "uid") or an edge (needs "from" and "to")' }] };
+}
@@ -0,0 +1,209 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { SEARCH_LABEL, SEARCH_TEXT_PROPERTY, notSystemNode } from '@/lib/graphLabels';
+import { toPlainValue } from '@/lib/graphElements';
+import { TEMPORAL_PROPERTIES } from '@/lib/temporal';
+
+// Global entity search, backed by a Neo4j full-text index over the nodes' showname, uid,
+// type and a flattened copy of all their other property values (SEARCH_TEXT_PROPERTY).
+// Full-text indexes need a label and only index strings, so regular nodes are given
+// SEARCH_LABEL and the flattened text after every import (see postImport.ts); the first
+// search creates the index and backfills graphs imported before it existed.
+
+export const SEARCH_INDEX = 'entitySearch';
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 50;
+export const MAX_SEARCH_TEXT_LENGTH = 200;
+
+// Best matches counted into the type facets
+const FACET_CANDIDATES = 1000;
+
+// Nodes flattened per write when refreshing the search text
+const REFRESH_BATCH_SIZE = 1000;
+
+// Properties indexed on their own, and the scores, times and tags not worth searching
+const SKIPPED_PROPERTIES = new Set<string>([
+  'showname', 'uid', 'type', SEARCH_TEXT_PROPERTY, ...TEMPORAL_PROPERTIES,
+  'riskScore', 'riskLevel', 'riskReason', 'riskFactors', 'riskScoredAt', 'attackEntryPoint', 'crownJewel',
+]);
+
+export interface SearchRequest {
+  text: string;
+  types: string[]; // Only results of these types; all when empty
+  limit: number;
+}
+
+export interface SearchResult {
+  id: string; // As the graph views use it
+  label: string;
+  type: string;
+  uid: string | null;
+  score: number;
+  match: { key: string; value: string } | null; // Another property the text was found in
+}
+
+export interface SearchFacet {
+  type: string;
+  count: number;
+}
+
+export interface SearchResponse {
+  results: SearchResult[];
+  facets: SearchFacet[]; // Types among the best FACET_CANDIDATES matches, most frequent first
+}
+
+/**
+ * Reads `q` (the search text), repeated `type` and `limit` query parameters.
+ */
+export function parseSearchRequest(searchParams: URLSearchParams): { request?: SearchRequest; error?: string } {
+  const text = (searchParams.get('q') ?? '').trim();
+  if (!text) {
+    return { error: 'q is required.' };
+  }
+  if (text.length > MAX_SEARCH_TEXT_LENGTH) {
+    return { error: `q must be at most ${MAX_SEARCH_TEXT_LENGTH} characters.` };
+  }
+
+  const limitParam = searchParams.get('limit');
+  const limit = limitParam === null ? DEFAULT_SEARCH_LIMIT : Number(limitParam);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_SEARCH_LIMIT) {
+    return { error: `limit must be an integer between 1 and ${MAX_SEARCH_LIMIT}.` };
+  }
+
+  return { request: { text, types: searchParams.getAll('type'), limit } };
+}
+
+const searchTerms = (text: string) => text.toLowerCase().split(/\s+/).filter(Boolean);
+
+// Lucene query matching every term exactly, as a prefix or (from three characters on)
+// within one edit, in that order of preference
+export function toLuceneQuery(text: string): string {
+  return searchTerms(text)
+    .map(term => term.replace(/[+\-&|!(){}[\]^"~*?:\\/]/g, '\\$&'))
+    .map(term => (term.length >= 3 ? `(${term}^3 OR ${term}*^2 OR ${term}~1)` : `(${term}^3 OR ${term}*)`))
+    .join(' AND ');
+}
+
+const flattenValue = (value: any): string[] => {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.flatMap(flattenValue);
+  return typeof value === 'object' ? [] : [String(value)];
+};
+
+// The property values searched besides showname, uid and type
+export function buildSearchText(properties: Record<string, any>): string {
+  return Object.entries(properties)
+    .filter(([key]) => !SKIPPED_PROPERTIES.has(key))
+    .flatMap(([, value]) => flattenValue(value))
+    .join(' ');
+}
+
+/**
+ * Gives every regular node SEARCH_LABEL and an up to date SEARCH_TEXT_PROPERTY.
+ * Returns the number of nodes refreshed.
+ */
+export async function refreshSearchText(session: Session): Promise<number> {
+  let after = -1;
+  let refreshed = 0;
+  for (;;) {
+    const result = await session.run(
+      `MATCH (n)
+       WHERE id(n) > $after AND ${notSystemNode('n')}
+       RETURN id(n) AS id, properties(n) AS properties
+       ORDER BY id
+       LIMIT $batchSize`,
+      { after: neo4j.int(after), batchSize: neo4j.int(REFRESH_BATCH_SIZE) }
+    );
+    if (result.records.length === 0) return refreshed;
+
+    const rows = result.records.map(record => ({
+      id: record.get('id'),
+      text: buildSearchText(toPlainValue(record.get('properties'))),
+    }));
+    await session.run(
+      `UNWIND $rows AS row
+       MATCH (n) WHERE id(n) = row.id
+       SET n:${SEARCH_LABEL}, n.${SEARCH_TEXT_PROPERTY} = row.text`,
+      { rows }
+    );
+    refreshed += rows.length;
+    after = rows[rows.length - 1].id.toNumber();
+  }
+}
+
+/**
+ * Creates the full-text index if it doesn't exist yet, backfilling the search text of
+ * the nodes already in the graph, and waits for it to come online.
+ */
+export async function ensureSearchIndex(session: Session): Promise<void> {
+  const existing = await session.run(
+    'SHOW INDEXES YIELD name WHERE name = $name RETURN count(*) AS count',
+    { name: SEARCH_INDEX }
+  );
+  if (existing.records[0].get('count').toNumber() > 0) return;
+
+  const refreshed = await refreshSearchText(session);
+  await session.run(
+    `CREATE FULLTEXT INDEX ${SEARCH_INDEX} IF NOT EXISTS
+     FOR (n:${SEARCH_LABEL})
+     ON EACH [n.showname, n.uid, n.type, n.${SEARCH_TEXT_PROPERTY}]`
+  );
+  await session.run('CALL db.awaitIndex($name, 60)', { name: SEARCH_INDEX });
+  console.log(`Created the ${SEARCH_INDEX} full-text index over ${refreshed} nodes`);
+}
+
+const displayName = `coalesce(node.showname, node.uid, head([label IN labels(node) WHERE label <> '${SEARCH_LABEL}']), toString(id(node)))`;
+const typeOf = `coalesce(node.type, head([label IN labels(node) WHERE label <> '${SEARCH_LABEL}']), 'Unknown')`;
+
+// First of the flattened properties holding one of the terms, to show why a node matched
+function findMatch(properties: Record<string, any>, terms: string[]): SearchResult['match'] {
+  for (const [key, value] of Object.entries(properties)) {
+    if (SKIPPED_PROPERTIES.has(key)) continue;
+    const text = flattenValue(value).join(', ');
+    if (terms.some(term => text.toLowerCase().includes(term))) return { key, value: text };
+  }
+  return null;
+}
+
+export async function searchEntities(session: Session, request: SearchRequest): Promise<SearchResponse> {
+  const query = toLuceneQuery(request.text);
+  const terms = searchTerms(request.text);
+  const params = { index: SEARCH_INDEX, query, candidates: neo4j.int(FACET_CANDIDATES) };
+
+  const facetResult = await session.run(
+    `CALL db.index.fulltext.queryNodes($index, $query, {limit: $candidates}) YIELD node
+     WHERE ${notSystemNode('node')}
+     RETURN ${typeOf} AS type, count(*) AS count
+     ORDER BY count DESC, type`,
+    params
+  );
+  const facets = facetResult.records.map(record => ({
+    type: record.get('type'),
+    count: record.get('count').toNumber(),
+  }));
+
+  const result = await session.run(
+    `CALL db.index.fulltext.queryNodes($index, $query, {limit: $candidates}) YIELD node, score
+     WHERE ${notSystemNode('node')}
+     WITH node, score, ${typeOf} AS type
+     WHERE size($types) = 0 OR type IN $types
+     RETURN toString(id(node)) AS id, ${displayName} AS label, type, node.uid AS uid, score,
+            properties(node) AS properties
+     ORDER BY score DESC
+     LIMIT $limit`,
+    { ...params, types: request.types, limit: neo4j.int(request.limit) }
+  );
+  const results = result.records.map(record => {
+    const { [SEARCH_TEXT_PROPERTY]: searchText, ...properties } = toPlainValue(record.get('properties'));
+    return {
+      id: record.get('id'),
+      label: String(record.get('label')),
+      type: record.get('type'),
+      uid: record.get('uid') ?? null,
+      score: record.get('score'),
+      match: findMatch(properties, terms),
+    };
+  });
+
+  return { results, facets };
+}
@@ -0,0 +1,353 @@
+// Graph algorithms over an undirected adjacency map: degree, betweenness and PageRank
+// centrality, Louvain communities and connected components. Pure functions without
+// dependencies, so they run server side (risk scoring) as well as in the browser on the
+// subgraph a view has loaded.
+
+export type Adjacency = Map<string, Set<string>>;
+
+export type GraphAlgorithm = 'degree' | 'betweenness' | 'pagerank' | 'louvain' | 'components';
+
+// Centralities give every node a score; partitions put every node in a numbered group
+export type GraphAlgorithmKind = 'centrality' | 'partition';
+
+export const GRAPH_ALGORITHMS: { value: GraphAlgorithm; label: string; kind: GraphAlgorithmKind }[] = [
+  { value: 'degree', label: 'Degree centrality', kind: 'centrality' },
+  { value: 'betweenness', label: 'Betweenness centrality', kind: 'centrality' },
+  { value: 'pagerank', label: 'PageRank', kind: 'centrality' },
+  { value: 'louvain', label: 'Louvain communities', kind: 'partition' },
+  { value: 'components', label: 'Connected components', kind: 'partition' },
+];
+
+export interface GraphAlgorithmResult {
+  algorithm: GraphAlgorithm;
+  kind: GraphAlgorithmKind;
+  values: Record<string, number>; // Node id -> score, or group number (0 = largest group)
+  max: number;                    // Highest score, or number of groups - 1
+  groupCount: number;             // Partitions only; 0 for centralities
+  sampled: boolean;               // Betweenness was computed from a sample of sources
+}
+
+// Exact betweenness costs O(nodes * edges); larger graphs use a sample of source nodes
+export const MAX_EXACT_BETWEENNESS_NODES = 2000;
+export const BETWEENNESS_SAMPLE_SIZE = 200;
+
+// The parts of a Cytoscape-style element the algorithms look at
+export interface AlgorithmElement {
+  group?: string;
+  data: {
+    id?: string | number;
+    label?: string;
+    source?: string | number;
+    target?: string | number;
+    isGroup?: boolean;
+    isGrouped?: boolean;
+  };
+}
+
+/**
+ * Undirected adjacency of graph elements. Group nodes and aggregated edges of the
+ * grouped Cytoscape view are left out, and so are self-loops.
+ */
+export function buildAdjacency(elements: AlgorithmElement[]): Adjacency {
+  const adjacency: Adjacency = new Map();
+  elements.forEach(el => {
+    if (el.group === 'nodes' && el.data.id != null && !el.data.isGroup) adjacency.set(String(el.data.id), new Set());
+  });
+  elements.forEach(el => {
+    if (el.group !== 'edges' || el.data.isGrouped) return;
+    const source = String(el.data.source);
+    const target = String(el.data.target);
+    if (source === target || !adjacency.has(source) || !adjacency.has(target)) return;
+    adjacency.get(source)!.add(target);
+    adjacency.get(target)!.add(source);
+  });
+  return adjacency;
+}
+
+// Every node when the graph is small enough, an evenly spread sample otherwise
+export function betweennessSources(nodeIds: string[]): string[] {
+  if (nodeIds.length <= MAX_EXACT_BETWEENNESS_NODES) return nodeIds;
+  const step = Math.ceil(nodeIds.length / BETWEENNESS_SAMPLE_SIZE);
+  return nodeIds.filter((_, index) => index % step === 0);
+}
+
+/**
+ * Brandes' betweenness centrality on the undirected graph. With `sources` set, only
+ * shortest paths from those nodes are counted (an approximation for large graphs).
+ */
+export function betweenness(adjacency: Adjacency, sources: string[]): Map<string, number> {
+  const result = new Map<string, number>();
+  adjacency.forEach((_, id) => result.set(id, 0));
+
+  sources.forEach(source => {
+    const stack: string[] = [];
+    const predecessors = new Map<string, string[]>();
+    const paths = new Map<string, number>([[source, 1]]);
+    const distance = new Map<string, number>([[source, 0]]);
+    const queue = [source];
+    for (let head = 0; head < queue.length; head++) {
+      const v = queue[head];
+      stack.push(v);
+      adjacency.get(v)!.forEach(w => {
+        if (!distance.has(w)) {
+          distance.set(w, distance.get(v)! + 1);
+          queue.push(w);
+        }
+        if (distance.get(w) === distance.get(v)! + 1) {
+          paths.set(w, (paths.get(w) ?? 0) + paths.get(v)!);
+          if (!predecessors.has(w)) predecessors.set(w, []);
+          predecessors.get(w)!.push(v);
+        }
+      });
+    }
+
+    const dependency = new Map<string, number>();
+    while (stack.length > 0) {
+      const w = stack.pop()!;
+      (predecessors.get(w) ?? []).forEach(v => {
+        const share = (paths.get(v)! / paths.get(w)!) * (1 + (dependency.get(w) ?? 0));
+        dependency.set(v, (dependency.get(v) ?? 0) + share);
+      });
+      if (w !== source) result.set(w, result.get(w)! + (dependency.get(w) ?? 0));
+    }
+  });
+  return result;
+}
+
+/**
+ * PageRank by power iteration. Nodes without neighbours spread their rank evenly, so
+ * the ranks always sum to 1.
+ */
+export function pageRank(adjacency: Adjacency, damping = 0.85, maxIterations = 100, tolerance = 1e-6): Map<string, number> {
+  const ids = [...adjacency.keys()];
+  const count = ids.length;
+  let rank = new Map(ids.map(id => [id, 1 / count]));
+  if (count === 0) return rank;
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    const danglingRank = ids.reduce((sum, id) => sum + (adjacency.get(id)!.size === 0 ? rank.get(id)! : 0), 0);
+    const base = (1 - damping) / count + (damping * danglingRank) / count;
+    const next = new Map(ids.map(id => [id, base]));
+    ids.forEach(id => {
+      const neighbours = adjacency.get(id)!;
+      if (neighbours.size === 0) return;
+      const share = (damping * rank.get(id)!) / neighbours.size;
+      neighbours.forEach(neighbour => next.set(neighbour, next.get(neighbour)! + share));
+    });
+    const change = ids.reduce((sum, id) => sum + Math.abs(next.get(id)! - rank.get(id)!), 0);
+    rank = next;
+    if (change < tolerance) break;
+  }
+  return rank;
+}
+
+// Renumbers groups by size, largest first, so group 0 is always the biggest
+function numberBySize(groupOf: Map<string, string | number>): { values: Map<string, number>; groupCount: number } {
+  const sizes = new Map<string | number, number>();
+  groupOf.forEach(group => sizes.set(group, (sizes.get(group) ?? 0) + 1));
+  const order = [...sizes.entries()].sort((a, b) => b[1] - a[1]).map(([group]) => group);
+  const number = new Map(order.map((group, index) => [group, index]));
+  return { values: new Map([...groupOf].map(([id, group]) => [id, number.get(group)!])), groupCount: order.length };
+}
+
+// Connected components by breadth-first search
+export function connectedComponents(adjacency: Adjacency): { values: Map<string, number>; groupCount: number } {
+  const component = new Map<string, number>();
+  let next = 0;
+  adjacency.forEach((_, start) => {
+    if (component.has(start)) return;
+    component.set(start, next);
+    const queue = [start];
+    for (let head = 0; head < queue.length; head++) {
+      adjacency.get(queue[head])!.forEach(neighbour => {
+        if (!component.has(neighbour)) {
+          component.set(neighbour, next);
+          queue.push(neighbour);
+        }
+      });
+    }
+    next++;
+  });
+  return numberBySize(component);
+}
+
+/**
+ * Louvain community detection (modularity optimisation). Each pass moves nodes to the
+ * neighbouring community with the best modularity gain until nothing improves, then
+ * merges every community into a single node and repeats on that smaller graph.
+ */
+export function louvainCommunities(adjacency: Adjacency): { values: Map<string, number>; groupCount: number } {
+  // Weighted graph of the current level: node -> neighbour -> edge weight (self-loops count double)
+  let weights = new Map<string, Map<string, number>>();
+  adjacency.forEach((neighbours, id) => {
+    weights.set(id, new Map([...neighbours].map(neighbour => [neighbour, 1])));
+  });
+  // Community of every original node, through the levels
+  const membership = new Map<string, string>([...adjacency.keys()].map(id => [id, id]));
+
+  const totalWeight = [...weights.values()].reduce((sum, edges) => sum + [...edges.values()].reduce((a, b) => a + b, 0), 0) / 2;
+  if (totalWeight === 0) return numberBySize(membership);
+
+  for (let level = 0; level < 20; level++) {
+    const degree = new Map([...weights].map(([id, edges]) => [id, [...edges.values()].reduce((a, b) => a + b, 0)]));
+    const community = new Map([...weights.keys()].map(id => [id, id]));
+    const communityDegree = new Map(degree);
+
+    let moved = false;
+    for (let pass = 0; pass < 50; pass++) {
+      let improved = false;
+      weights.forEach((edges, id) => {
+        const current = community.get(id)!;
+        const nodeDegree = degree.get(id)!;
+
+        // Weight from the node to each neighbouring community
+        const linkWeights = new Map<string, number>();
+        edges.forEach((weight, neighbour) => {
+          if (neighbour === id) return;
+          const neighbourCommunity = community.get(neighbour)!;
+          linkWeights.set(neighbourCommunity, (linkWeights.get(neighbourCommunity) ?? 0) + weight);
+        });
+
+        communityDegree.set(current, communityDegree.get(current)! - nodeDegree);
+        const gain = (target: string) =>
+          (linkWeights.get(target) ?? 0) - (communityDegree.get(target)! * nodeDegree) / (2 * totalWeight);
+        let best = current;
+        let bestGain = gain(current);
+        linkWeights.forEach((_, target) => {
+          const targetGain = gain(target);
+          if (targetGain > bestGain + 1e-12) {
+            best = target;
+            bestGain = targetGain;
+          }
+        });
+        communityDegree.set(best, communityDegree.get(best)! + nodeDegree);
+
+        if (best !== current) {
+          community.set(id, best);
+          improved = true;
+          moved = true;
+        }
+      });
+      if (!improved) break;
+    }
+    if (!moved) break;
+
+    // Merge each community into one node for the next level
+    membership.forEach((node, id) => membership.set(id, community.get(node)!));
+    const merged = new Map<string, Map<string, number>>();
+    weights.forEach((edges, id) => {
+      const from = community.get(id)!;
+      if (!merged.has(from)) merged.set(from, new Map());
+      edges.forEach((weight, neighbour) => {
+        const to = community.get(neighbour)!;
+        merged.get(from)!.set(to, (merged.get(from)!.get(to) ?? 0) + weight);
+      });
+    });
+    weights = merged;
+  }
+
+  return numberBySize(membership);
+}
+
+export function runGraphAlgorithm(algorithm: GraphAlgorithm, adjacency: Adjacency): GraphAlgorithmResult {
+  const kind = GRAPH_ALGORITHMS.find(entry => entry.value === algorithm)!.kind;
+  let values: Map<string, number>;
+  let groupCount = 0;
+  let sampled = false;
+
+  switch (algorithm) {
+    case 'degree':
+      values = new Map([...adjacency].map(([id, neighbours]) => [id, neighbours.size]));
+      break;
+    case 'betweenness': {
+      const nodeIds = [...adjacency.keys()];
+      const sources = betweennessSources(nodeIds);
+      sampled = sources.length < nodeIds.length;
+      values = betweenness(adjacency, sources);
+      break;
+    }
+    case 'pagerank':
+      values = pageRank(adjacency);
+      break;
+    case 'louvain':
+      ({ values, groupCount } = louvainCommunities(adjacency));
+      break;
+    case 'components':
+      ({ values, groupCount } = connectedComponents(adjacency));
+      break;
+  }
+
+  return {
+    algorithm,
+    kind,
+    values: Object.fromEntries(values),
+    max: kind === 'partition' ? Math.max(0, groupCount - 1) : [...values.values()].reduce((max, value) => Math.max(max, value), 0),
+    groupCount,
+    sampled,
+  };
+}
+
+// Display name of a group of a partition, e.g. "Community 1" for the largest community
+export function groupName(result: GraphAlgorithmResult, group: number): string {
+  return `${result.algorithm === 'louvain' ? 'Community' : 'Component'} ${group + 1}`;
+}
+
+/**
+ * Positions that lay a partition out as clusters: each group's nodes on a small ring,
+ * the groups side by side on a large ring around `center`, largest group first. Nodes
+ * outside the partition aren't placed.
+ */
+export function partitionPositions(
+  result: GraphAlgorithmResult,
+  center: { x: number; y: number } = { x: 0, y: 0 },
+  spacing = 1
+): Map<string, { x: number; y: number }> {
+  const members: string[][] = Array.from({ length: result.groupCount }, () => []);
+  Object.entries(result.values).forEach(([id, group]) => members[group]?.push(id));
+
+  const radii = members.map(ids => (ids.length > 1 ? Math.max(1, ids.length / Math.PI) * spacing : 0));
+  const outerRadius = members.length > 1
+    ? radii.reduce((max, radius) => Math.max(max, radius), radii.reduce((sum, radius) => sum + 2 * (radius + spacing), 0) / (2 * Math.PI))
+    : 0;
+  const positions = new Map<string, { x: number; y: number }>();
+  members.forEach((ids, group) => {
+    const angle = (2 * Math.PI * group) / members.length;
+    const groupCenter = { x: center.x + outerRadius * Math.cos(angle), y: center.y + outerRadius * Math.sin(angle) };
+    ids.forEach((id, index) => {
+      const nodeAngle = (2 * Math.PI * index) / ids.length;
+      positions.set(id, {
+        x: groupCenter.x + radii[group] * Math.cos(nodeAngle),
+        y: groupCenter.y + radii[group] * Math.sin(nodeAngle),
+      });
+    });
+  });
+  return positions;
+}
+
+// Colors for groups of a partition; they repeat after the last one
+const GROUP_COLORS = [
+  '#3182ce', '#e53e3e', '#38a169', '#d69e2e', '#805ad5', '#dd6b20',
+  '#319795', '#d53f8c', '#718096', '#2b6cb0', '#9c4221', '#276749',
+];
+
+export const groupColor = (group: number): string => GROUP_COLORS[group % GROUP_COLORS.length];
+
+/**
+ * Display color of a node's result: its group's color for partitions, a light-to-dark
+ * blue ramp by score for centralities. Nodes without a result are grey.
+ */
+export function algorithmColor(result: GraphAlgorithmResult, nodeId: string): string {
+  const value = result.values[nodeId];
+  if (value === undefined) return '#cbd5e0';
+  if (result.kind === 'partition') return groupColor(value);
+  const t = result.max > 0 ? value / result.max : 0;
+  const mix = (from: number, to: number) => Math.round(from + (to - from) * t).toString(16).padStart(2, '0');
+  return `#${mix(0xbe, 0x1a)}${mix(0xe3, 0x36)}${mix(0xf8, 0x5d)}`;
+}
+
+// Score of a node relative to the highest one (0-1); 0 for partitions and unknown nodes
+export function relativeScore(result: GraphAlgorithmResult, nodeId: string): number {
+  const value = result.values[nodeId];
+  if (result.kind === 'partition' || value === undefined || result.max <= 0) return 0;
+  return value / result.max;
+}
@@ -0,0 +1,166 @@
+import neo4j, {
+  isDate, isDateTime, isDuration, isLocalDateTime, isLocalTime, isNode, isPath, isPoint, isRelationship, isTime,
+} from 'neo4j-driver';
+import { SEARCH_LABEL, SEARCH_TEXT_PROPERTY, SYSTEM_LABELS } from '@/lib/graphLabels';
+
+// Conversion of Neo4j query results into the Cytoscape-style elements the graph views
+// consume. Shared by /api/graph-data and the stored query runner.
+
+export interface NodeData {
+  id: string;
+  label: string;
+  timestamp?: number; // Ensure timestamp is potentially available
+  valid_from?: number;
+  valid_to?: number;
+  [key: string]: any;
+}
+
+export interface EdgeData {
+  id: string;
+  source: string;
+  target: string;
+  label?: string;
+  timestamp?: number; // Ensure timestamp is potentially available
+  valid_from?: number;
+  valid_to?: number;
+  [key: string]: any;
+}
+
+export interface CytoscapeElement {
+  data: NodeData | EdgeData;
+  group: 'nodes' | 'edges';
+}
+
+// Helper to convert Neo4j Integer to JS number if needed
+export function toNumber(value: any): number | null {
+  if (neo4j.isInt(value)) {
+    return value.toNumber();
+  }
+  if (typeof value === 'number') {
+    return value;
+  }
+  // Handle ISO string timestamps if stored that way
+  if (typeof value === 'string') {
+      const date = new Date(value);
+      if (!isNaN(date.getTime())) {
+          return date.getTime();
+      }
+  }
+  return null; // Or handle appropriately
+}
+
+// Stored times (timestamp, valid_from, valid_to) are Neo4j integers; like every other
+// property they reach the views as plain numbers. The search bookkeeping is left out.
+export function nodeToElement(node: any): CytoscapeElement {
+  const { [SEARCH_TEXT_PROPERTY]: searchText, ...nodeProps } = toPlainValue(node.properties);
+  const labels: string[] = (node.labels ?? []).filter((label: string) => label !== SEARCH_LABEL);
+  const timestamp = toNumber(nodeProps.timestamp); // Convert timestamp
+  return {
+    group: 'nodes',
+    data: {
+      id: node.identity.toString(),
+      label: nodeProps.showname || (labels.length > 0 ? labels[0] : 'Node'),
+      ...nodeProps,
+      timestamp: timestamp ?? undefined, // Add processed timestamp
+    },
+  };
+}
+
+export function relationshipToElement(rel: any): CytoscapeElement {
+  const relProps = toPlainValue(rel.properties);
+  const timestamp = toNumber(relProps.timestamp); // Convert timestamp
+  return {
+    group: 'edges',
+    data: {
+      id: rel.identity.toString(),
+      source: rel.start.toString(),
+      target: rel.end.toString(),
+      label: rel.type,
+      ...relProps,
+      timestamp: timestamp ?? undefined, // Add processed timestamp
+    },
+  };
+}
+
+/**
+ * JSON-friendly version of a returned value, for results shown as a table:
+ * integers become numbers, temporal values ISO strings, and graph objects are
+ * reduced to their ids, labels/types and properties.
+ */
+export function toPlainValue(value: any): any {
+  if (value === null || value === undefined) return null;
+  if (neo4j.isInt(value)) return value.toNumber();
+  if (isDate(value) || isDateTime(value) || isLocalDateTime(value) || isTime(value) ||
+      isLocalTime(value) || isDuration(value) || isPoint(value)) {
+    return value.toString();
+  }
+  if (isNode(value)) {
+    return { id: value.identity.toString(), labels: value.labels, properties: toPlainValue(value.properties) };
+  }
+  if (isRelationship(value)) {
+    return { id: value.identity.toString(), type: value.type, properties: toPlainValue(value.properties) };
+  }
+  if (isPath(value)) {
+    return { start: toPlainValue(value.start), end: toPlainValue(value.end), length: value.length };
+  }
+  if (Array.isArray(value)) return value.map(toPlainValue);
+  if (typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, toPlainValue(item)]));
+  }
+  return value;
+}
+
+/**
+ * Adds every node and relationship found in `value` to the maps, keyed by element id.
+ * Walks paths, lists and maps, so `RETURN p`, `RETURN collect(n)` or
+ * `RETURN {a: n, b: m}` all work. Anything else (scalars) is ignored, and so are
+ * system nodes such as stored queries.
+ */
+export function collectElements(
+  value: any,
+  nodes: Map<string, CytoscapeElement>,
+  edges: Map<string, CytoscapeElement>
+): void {
+  if (value === null || value === undefined) return;
+
+  if (isNode(value)) {
+    if (value.labels.some(label => SYSTEM_LABELS.includes(label))) return; // Bookkeeping nodes are never shown
+    const nodeId = value.identity.toString();
+    if (!nodes.has(nodeId)) nodes.set(nodeId, nodeToElement(value));
+  } else if (isRelationship(value)) {
+    const relId = value.identity.toString();
+    if (!edges.has(relId)) edges.set(relId, relationshipToElement(value));
+  } else if (isPath(value)) {
+    value.segments.forEach(segment => {
+      collectElements(segment.start, nodes, edges);
+      collectElements(segment.relationship, nodes, edges);
+      collectElements(segment.end, nodes, edges);
+    });
+    collectElements(value.start, nodes, edges); // Zero-length paths have no segments
+  } else if (Array.isArray(value)) {
+    value.forEach(item => collectElements(item, nodes, edges));
+  } else if (typeof value === 'object' && !neo4j.isInt(value)) {
+    Object.values(value).forEach(item => collectElements(item, nodes, edges));
+  }
+}
+
+/**
+ * Elements for an arbitrary result. Relationships whose end nodes weren't returned
+ * (e.g. `RETURN r`) are dropped, since the views can't draw an edge without its nodes.
+ */
+export function recordsToElements(records: any[]): { elements: CytoscapeElement[]; droppedEdges: number } {
+  const nodes = new Map<string, CytoscapeElement>();
+  const edges = new Map<string, CytoscapeElement>();
+  records.forEach(record => {
+    record.keys.forEach((key: string) => collectElements(record.get(key), nodes, edges));
+  });
+
+  const connectedEdges = [...edges.values()].filter(edge => {
+    const data = edge.data as EdgeData;
+    return nodes.has(data.source) && nodes.has(data.target);
+  });
+  return {
+    elements: [...nodes.values(), ...connectedEdges],
+    droppedEdges: edges.size - connectedEdges.length,
+  };
+}
@@ -0,0 +1,27 @@
+// Labels of the app's own bookkeeping nodes. They live in the same database as the
+// imported graph, but must never show up in the views or be wiped by a "replace" import.
+export const SYSTEM_LABELS = [
+  'ImportJob', 'StoredQuery', 'Alert', 'AlertEvent', 'RiskConfig', 'RiskSnapshot', 'KpiTile', 'LiveEvent', 'LiveEventCounter',
+  'Migration',
+];
+
+// Every imported node carries this label (next to its type label when APOC is installed),
+// so the uid lookups of imports go through the UID_INDEX on (:Entity {uid}). Imports create
+// the index (see ensureUidIndex in datasetImport.ts).
+export const IMPORT_LABEL = 'Entity';
+export const UID_INDEX = 'entity_uid';
+
+// Regular graph nodes also carry this label and a flattened copy of their property values,
+// both kept up to date for the entity search index (see entitySearch.ts). Neither is shown.
+export const SEARCH_LABEL = 'Searchable';
+export const SEARCH_TEXT_PROPERTY = 'searchText';
+
+// Cypher predicate matching regular graph nodes only, e.g. notSystemNode('n') -> "NOT n:ImportJob"
+export function notSystemNode(variable: string): string {
+  return SYSTEM_LABELS.map(label => `NOT ${variable}:${label}`).join(' AND ');
+}
+
+// The type a relationship was imported with; without APOC it's stored next to RELATED_TO
+export function relationshipTypeOf(variable: string): string {
+  return `coalesce(${variable}.original_type, type(${variable}))`;
+}
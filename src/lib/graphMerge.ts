@@ -0,0 +1,116 @@
+// Client-side helpers for merging extra elements, such as an expanded neighbourhood or
+// the changes pushed in live mode, into the elements a graph view already shows.
+
+interface ElementLike {
+  group?: string;
+  data: { id?: string | number; [key: string]: any };
+}
+
+/**
+ * `base` followed by the elements of `extra` whose ids it doesn't contain yet. Existing
+ * elements keep their data (and positions).
+ */
+export function mergeElements<T extends ElementLike>(base: T[], extra: T[]): T[] {
+  const ids = new Set(base.map(element => String(element.data.id)));
+  const added = extra.filter(element => {
+    const id = String(element.data.id);
+    if (ids.has(id)) return false;
+    ids.add(id);
+    return true;
+  });
+  return added.length > 0 ? [...base, ...added] : base;
+}
+
+/**
+ * Positions for `count` new nodes on a ring around `center`, so they can be placed next
+ * to the node they were expanded from without moving anything else. The ring grows with
+ * the number of nodes to keep them apart.
+ */
+export function ringPositions(center: { x: number; y: number }, count: number, minRadius = 80): { x: number; y: number }[] {
+  const radius = Math.max(minRadius, count * 12);
+  return Array.from({ length: count }, (_, index) => {
+    const angle = (2 * Math.PI * index) / Math.max(count, 1);
+    return { x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) };
+  });
+}
+
+// Changes pushed by live mode (the 'graph' events of /api/live)
+export interface ElementChanges<T> {
+  added: T[];
+  updated: T[];
+  removed: { nodes: string[]; edges: string[] };
+}
+
+/**
+ * `base` with `changes` applied: removed elements (and the edges of removed nodes) are
+ * dropped, updated elements get their new data but keep their positions, and added
+ * elements not shown yet are appended.
+ */
+export function applyElementChanges<T extends ElementLike>(base: T[], changes: ElementChanges<T>): T[] {
+  const removedNodes = new Set(changes.removed.nodes);
+  const removedEdges = new Set(changes.removed.edges);
+  const updated = new Map(changes.updated.map(element => [`${element.group}:${element.data.id}`, element]));
+
+  const kept = base
+    .filter(element => (element.group === 'nodes'
+      ? !removedNodes.has(String(element.data.id))
+      : !removedEdges.has(String(element.data.id))
+        && !removedNodes.has(String(element.data.source))
+        && !removedNodes.has(String(element.data.target))))
+    .map(element => {
+      const update = updated.get(`${element.group}:${element.data.id}`);
+      return update ? { ...element, data: update.data } : element;
+    });
+
+  const keys = new Set(kept.map(element => `${element.group}:${element.data.id}`));
+  const added = changes.added.filter(element => !keys.has(`${element.group}:${element.data.id}`));
+  return added.length > 0 || kept.length !== base.length || updated.size > 0 ? [...kept, ...added] : base;
+}
+
+/**
+ * Positions for nodes that appear while the graph is shown: each goes on a ring around a
+ * neighbour that already has a position (`positionOf`), or around `fallback` when it has
+ * none, so the rest of the layout stays put.
+ */
+export function placeNewNodes<T extends ElementLike>(
+  newNodes: T[],
+  edges: T[],
+  positionOf: (id: string) => { x: number; y: number } | undefined,
+  fallback: { x: number; y: number } = { x: 0, y: 0 }
+): Map<string, { x: number; y: number }> {
+  const anchors = new Map<string, string[]>(); // Anchor node id ('' for none) -> new node ids
+  newNodes.forEach(node => {
+    const id = String(node.data.id);
+    const neighbour = edges
+      .filter(edge => String(edge.data.source) === id || String(edge.data.target) === id)
+      .map(edge => String(String(edge.data.source) === id ? edge.data.target : edge.data.source))
+      .find(other => positionOf(other) !== undefined);
+    const anchor = neighbour ?? '';
+    anchors.set(anchor, [...(anchors.get(anchor) ?? []), id]);
+  });
+
+  const positions = new Map<string, { x: number; y: number }>();
+  anchors.forEach((ids, anchor) => {
+    const ring = ringPositions((anchor && positionOf(anchor)) || fallback, ids.length, 40);
+    ids.forEach((id, index) => positions.set(id, ring[index]));
+  });
+  return positions;
+}
+
+/** `changes` with the added nodes placed next to their neighbours (see placeNewNodes) */
+export function placeAddedNodes<T extends ElementLike>(
+  changes: ElementChanges<T>,
+  positionOf: (id: string) => { x: number; y: number } | undefined
+): ElementChanges<T & { position?: { x: number; y: number } }> {
+  const positions = placeNewNodes(
+    changes.added.filter(element => element.group === 'nodes'),
+    changes.added.filter(element => element.group === 'edges'),
+    positionOf
+  );
+  return {
+    ...changes,
+    added: changes.added.map(element => (element.group === 'nodes'
+      ? { ...element, position: positions.get(String(element.data.id)) }
+      : element)),
+  };
+}
@@ -0,0 +1,93 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { CytoscapeElement, collectElements } from '@/lib/graphElements';
+
+// Cursor pagination over the nodes matched by a filter, ordered by element id. A page
+// holds its nodes plus every relationship between them and the nodes of earlier pages,
+// so each relationship arrives exactly once: with the page of its later endpoint.
+// The cursor is opaque to clients; it's the id of the last node handed out so far.
+
+export const DEFAULT_GRAPH_PAGE_SIZE = 500;
+export const MAX_GRAPH_PAGE_SIZE = 5000;
+
+export interface GraphPageRequest {
+  after: number;    // Nodes with a larger id come next; -1 for the first page
+  pageSize: number;
+}
+
+export interface GraphPage {
+  elements: CytoscapeElement[];
+  nextCursor: string | null; // null on the last page
+  loadedCount: number;       // Nodes in this page and all earlier ones
+  totalCount: number;        // Nodes matching the filter
+  truncated: boolean;        // More pages follow
+}
+
+// Cypher condition on the node or relationship bound to the given variable
+export type GraphFilter = (variable: string) => string;
+
+/**
+ * Reads `cursor` and `pageSize` query parameters. Without a cursor the first page is
+ * returned; the page size defaults to DEFAULT_GRAPH_PAGE_SIZE.
+ */
+export function parseGraphPageRequest(searchParams: URLSearchParams): { page?: GraphPageRequest; error?: string } {
+  const cursor = searchParams.get('cursor');
+  if (cursor !== null && !/^\d+$/.test(cursor)) {
+    return { error: 'Invalid cursor. Pass back the nextCursor of the previous page.' };
+  }
+
+  const pageSizeParam = searchParams.get('pageSize');
+  const pageSize = pageSizeParam === null ? DEFAULT_GRAPH_PAGE_SIZE : Number(pageSizeParam);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_GRAPH_PAGE_SIZE) {
+    return { error: `pageSize must be an integer between 1 and ${MAX_GRAPH_PAGE_SIZE}.` };
+  }
+
+  return { page: { after: cursor === null ? -1 : Number(cursor), pageSize } };
+}
+
+export async function fetchGraphPage(
+  session: Session,
+  request: GraphPageRequest,
+  nodeFilter: GraphFilter,
+  relationshipFilter: GraphFilter,
+  params: Record<string, any> = {}
+): Promise<GraphPage> {
+  const pageParams = { ...params, after: neo4j.int(request.after), pageSize: neo4j.int(request.pageSize) };
+
+  const result = await session.run(
+    `MATCH (n)
+     WHERE id(n) > $after AND ${nodeFilter('n')}
+     WITH n ORDER BY id(n) LIMIT $pageSize
+     WITH collect(n) AS page
+     WITH page, CASE size(page) WHEN 0 THEN $after ELSE id(page[size(page) - 1]) END AS lastId
+     UNWIND page AS n
+     OPTIONAL MATCH (n)-[r]-(m)
+     WHERE id(m) <= lastId AND ${nodeFilter('m')} AND ${relationshipFilter('r')}
+     RETURN n, r, m, lastId`,
+    pageParams
+  );
+
+  const nodes = new Map<string, CytoscapeElement>();
+  const edges = new Map<string, CytoscapeElement>();
+  result.records.forEach(record => {
+    ['n', 'r', 'm'].forEach(key => collectElements(record.get(key), nodes, edges));
+  });
+  const lastId = result.records.length > 0 ? result.records[0].get('lastId') : pageParams.after;
+
+  const countResult = await session.run(
+    `MATCH (n)
+     WHERE ${nodeFilter('n')}
+     RETURN count(n) AS totalCount, count(CASE WHEN id(n) <= $lastId THEN 1 END) AS loadedCount`,
+    { ...params, lastId }
+  );
+  const totalCount = countResult.records[0].get('totalCount').toNumber();
+  const loadedCount = countResult.records[0].get('loadedCount').toNumber();
+  const truncated = loadedCount < totalCount;
+
+  return {
+    elements: [...nodes.values(), ...edges.values()],
+    nextCursor: truncated ? lastId.toString() : null,
+    loadedCount,
+    totalCount,
+    truncated,
+  };
+}
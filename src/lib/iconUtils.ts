@@ -177,7 +177,22 @@ function getTypeVariations(type: string): string[] {
     'cwe': ['itot-cwe'],
     'exploit': ['itot-exploit'],
     'vulnerability': ['itot-cve'],
-    'domain': ['itot-domain']
+    'domain': ['itot-domain'],
+
+    // STIX 2.1 object types (see lib/stix.ts)
+    'indicator': ['itot-reference'],
+    'identity': ['entity'],
+    'infrastructure': ['server'],
+    'attackpattern': ['itot-exploit'],
+    'campaign': ['threatactor'],
+    'intrusionset': ['threatactor'],
+    'tool': ['application'],
+    'courseofaction': ['itot-reference'],
+    'location': ['entity'],
+    'report': ['itot-reference'],
+    'domainname': ['itot-domain'],
+    'ipv4addr': ['itot-device'],
+    'ipv6addr': ['itot-device']
   };
 
   // Add mapped variations
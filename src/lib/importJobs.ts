@@ -0,0 +1,250 @@
+import { randomUUID } from 'crypto';
+import neo4j, { ManagedTransaction, Session } from 'neo4j-driver';
+import { DatasetIssue, EdgeData, ImportOptions, NodeData, StoredQueryData, parseNdjsonLine } from '@/lib/datasetSchema';
+import {
+  IMPORT_BATCH_SIZE, ImportContext, ImportCounts, addCounts, clearGraph, detectApoc, emptyCounts, ensureUidIndex, importRecordBatch
+} from '@/lib/datasetImport';
+import { saveDatasetQueries } from '@/lib/storedQueries';
+import { emptyGraphChanges, publishGraphChanges } from '@/lib/liveUpdates';
+
+// Streaming NDJSON imports are tracked as (:ImportJob) nodes. Progress is written in the
+// same transaction as each batch, so after a failure `linesProcessed` is exactly the
+// number of lines already imported and the client can resume from there.
+
+export type ImportJobStatus = 'running' | 'failed' | 'completed';
+
+export interface ImportJob {
+  id: string;
+  status: ImportJobStatus;
+  fileName: string;
+  totalBytes: number;
+  mode: ImportOptions['mode'];
+  timestampPolicy: ImportOptions['timestampPolicy'];
+  timestampProperty: string | null;
+  importTime: string;      // Used by the import-time policy, fixed for the whole job
+  linesProcessed: number;  // Lines committed so far - the offset to resume from
+  bytesProcessed: number;
+  nodes: ImportCounts;
+  edges: ImportCounts;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class ImportJobConflictError extends Error {
+  constructor(message: string, public job: ImportJob) {
+    super(message);
+    this.name = 'ImportJobConflictError';
+  }
+}
+
+export class ImportJobValidationError extends Error {
+  constructor(public issues: DatasetIssue[], public job: ImportJob) {
+    super(`Chunk contains ${issues.length} invalid record(s)`);
+    this.name = 'ImportJobValidationError';
+  }
+}
+
+const toNumber = (value: any): number => (neo4j.isInt(value) ? value.toNumber() : value ?? 0);
+
+// Counts are stored as JSON strings because Neo4j properties can't hold maps
+function toImportJob(props: Record<string, any>): ImportJob {
+  return {
+    id: props.id,
+    status: props.status,
+    fileName: props.fileName,
+    totalBytes: toNumber(props.totalBytes),
+    mode: props.mode,
+    timestampPolicy: props.timestampPolicy,
+    timestampProperty: props.timestampProperty ?? null,
+    importTime: props.importTime,
+    linesProcessed: toNumber(props.linesProcessed),
+    bytesProcessed: toNumber(props.bytesProcessed),
+    nodes: props.nodeCounts ? JSON.parse(props.nodeCounts) : emptyCounts(),
+    edges: props.edgeCounts ? JSON.parse(props.edgeCounts) : emptyCounts(),
+    error: props.error ?? null,
+    createdAt: props.createdAt,
+    updatedAt: props.updatedAt,
+  };
+}
+
+const jobOptions = (job: ImportJob): ImportOptions => ({
+  mode: job.mode,
+  timestampPolicy: job.timestampPolicy,
+  timestampProperty: job.timestampProperty ?? undefined,
+});
+
+export async function createImportJob(
+  session: Session,
+  params: { fileName: string; totalBytes: number; options: ImportOptions }
+): Promise<ImportJob> {
+  const { fileName, totalBytes, options } = params;
+
+  // A replace import wipes the graph once, up front - never again when resuming
+  if (options.mode === 'replace') {
+    await clearGraph(session);
+  }
+
+  const now = new Date().toISOString();
+  const result = await session.run(
+    `CREATE (j:ImportJob {
+       id: $id, status: 'running', fileName: $fileName, totalBytes: $totalBytes,
+       mode: $mode, timestampPolicy: $timestampPolicy, timestampProperty: $timestampProperty,
+       importTime: $now, linesProcessed: 0, bytesProcessed: 0,
+       nodeCounts: $counts, edgeCounts: $counts, error: null,
+       createdAt: $now, updatedAt: $now
+     })
+     RETURN properties(j) AS job`,
+    {
+      id: randomUUID(),
+      fileName,
+      totalBytes: neo4j.int(totalBytes),
+      mode: options.mode,
+      timestampPolicy: options.timestampPolicy,
+      timestampProperty: options.timestampProperty ?? null,
+      now,
+      counts: JSON.stringify(emptyCounts()),
+    }
+  );
+  return toImportJob(result.records[0].get('job'));
+}
+
+export async function getImportJob(session: Session | ManagedTransaction, id: string): Promise<ImportJob | null> {
+  const result = await session.run('MATCH (j:ImportJob {id: $id}) RETURN properties(j) AS job', { id });
+  return result.records.length > 0 ? toImportJob(result.records[0].get('job')) : null;
+}
+
+async function updateImportJob(session: Session, id: string, changes: Partial<Pick<ImportJob, 'status' | 'error'>>): Promise<ImportJob | null> {
+  const result = await session.run(
+    `MATCH (j:ImportJob {id: $id})
+     SET j += $changes, j.updatedAt = $now
+     RETURN properties(j) AS job`,
+    { id, changes, now: new Date().toISOString() }
+  );
+  return result.records.length > 0 ? toImportJob(result.records[0].get('job')) : null;
+}
+
+export const markImportJobFailed = (session: Session, id: string, error: string) =>
+  updateImportJob(session, id, { status: 'failed', error });
+
+/**
+ * Marks a running job as completed once it has processed all `totalLines` lines of the
+ * file, as counted by the client. The check and the update are one statement, so a
+ * chunk still being imported can't slip in between.
+ */
+export async function completeImportJob(session: Session, job: ImportJob, totalLines: number): Promise<ImportJob> {
+  if (job.status !== 'running') {
+    throw new ImportJobConflictError(`Import job is ${job.status}, not running`, job);
+  }
+  const result = await session.run(
+    `MATCH (j:ImportJob {id: $id})
+     WHERE j.status = 'running' AND j.linesProcessed = $totalLines
+     SET j.status = 'completed', j.error = null, j.updatedAt = $now
+     RETURN properties(j) AS job`,
+    { id: job.id, totalLines: neo4j.int(totalLines), now: new Date().toISOString() }
+  );
+  if (result.records.length > 0) {
+    return toImportJob(result.records[0].get('job'));
+  }
+
+  const latest = (await getImportJob(session, job.id)) ?? job;
+  throw new ImportJobConflictError(
+    latest.status !== 'running'
+      ? `Import job is ${latest.status}, not running`
+      : `The file has ${totalLines} lines but the job has only processed ${latest.linesProcessed}`,
+    latest
+  );
+}
+
+/**
+ * Imports a chunk of NDJSON lines starting at line `offset` (0-based) of the file.
+ * Lines before the job's `linesProcessed` were already committed and are skipped, so
+ * re-sending a chunk after a lost response is harmless. A gap is rejected.
+ * The chunk is validated as a whole before anything is written.
+ */
+export async function importNdjsonChunk(session: Session, job: ImportJob, lines: string[], offset: number): Promise<ImportJob> {
+  if (job.status === 'completed') {
+    throw new ImportJobConflictError('Import job is already completed', job);
+  }
+  if (offset > job.linesProcessed) {
+    throw new ImportJobConflictError(
+      `Chunk starts at line ${offset} but the job has only processed ${job.linesProcessed} lines`, job
+    );
+  }
+
+  const alreadyProcessed = job.linesProcessed - offset;
+  const pending = lines.slice(alreadyProcessed);
+  const firstLine = offset + alreadyProcessed;
+
+  // Validate the whole chunk first
+  const options = jobOptions(job);
+  const timestampProperty = options.timestampPolicy === 'property' ? options.timestampProperty : undefined;
+  const issues: DatasetIssue[] = [];
+  const parsed = pending.map((line, index) => {
+    const result = parseNdjsonLine(line, firstLine + index + 1, timestampProperty);
+    issues.push(...result.issues);
+    return result.record;
+  });
+  if (issues.length > 0) {
+    const failed = await markImportJobFailed(session, job.id, `Invalid records at ${issues[0].path}`);
+    throw new ImportJobValidationError(issues, failed ?? job);
+  }
+
+  await ensureUidIndex(session);
+  const context: ImportContext = {
+    options,
+    useApoc: await detectApoc(session),
+    importTimeISO: job.importTime,
+  };
+
+  let current = job;
+  for (let start = 0; start < pending.length; start += IMPORT_BATCH_SIZE) {
+    const batchLines = pending.slice(start, start + IMPORT_BATCH_SIZE);
+    const batchRecords = parsed.slice(start, start + IMPORT_BATCH_SIZE);
+    const nodes: NodeData[] = [];
+    const edges: EdgeData[] = [];
+    const storedQueries: StoredQueryData[] = [];
+    batchRecords.forEach(record => {
+      if (record?.kind === 'node') nodes.push(record.node);
+      if (record?.kind === 'edge') edges.push(record.edge);
+      if (record?.kind === 'storedQuery') storedQueries.push(record.storedQuery);
+    });
+    const expectedOffset = firstLine + start;
+    const bytes = batchLines.reduce((sum, line) => sum + Buffer.byteLength(line, 'utf8') + 1, 0);
+
+    let changes = emptyGraphChanges();
+    current = await session.executeWrite(async tx => {
+      // Re-read inside the transaction so a concurrent or retried request can't apply a batch twice
+      const latest = await getImportJob(tx, job.id);
+      if (!latest || latest.linesProcessed !== expectedOffset) {
+        throw new ImportJobConflictError(
+          `Import job moved to line ${latest?.linesProcessed} while importing line ${expectedOffset}`, latest ?? job
+        );
+      }
+
+      const counts = await importRecordBatch(tx, { nodes, edges }, context);
+      changes = counts.changes;
+      await saveDatasetQueries(tx, storedQueries);
+
+      const result = await tx.run(
+        `MATCH (j:ImportJob {id: $id})
+         SET j.status = 'running', j.error = null,
+             j.linesProcessed = $linesProcessed, j.bytesProcessed = $bytesProcessed,
+             j.nodeCounts = $nodeCounts, j.edgeCounts = $edgeCounts, j.updatedAt = $now
+         RETURN properties(j) AS job`,
+        {
+          id: job.id,
+          linesProcessed: neo4j.int(expectedOffset + batchLines.length),
+          bytesProcessed: neo4j.int(latest.bytesProcessed + bytes),
+          nodeCounts: JSON.stringify(addCounts({ ...latest.nodes }, counts.nodes)),
+          edgeCounts: JSON.stringify(addCounts({ ...latest.edges }, counts.edges)),
+          now: new Date().toISOString(),
+        }
+      );
+      return toImportJob(result.records[0].get('job'));
+    });
+    await publishGraphChanges(session, changes);
+  }
+
+  return current;
+}
@@ -0,0 +1,161 @@
+import { randomUUID } from 'crypto';
+import { Session } from 'neo4j-driver';
+import { z } from 'zod';
+import { findWriteClause } from '@/lib/cypherGuard';
+import { QUERY_TIMEOUT_MS } from '@/lib/queryRunner';
+import { KpiWindow } from '@/lib/kpis';
+import { windowParams } from '@/lib/temporal';
+
+// User-defined KPI tiles, shown in the executive summary after the built-in KPIs. A tile
+// is a read-only Cypher aggregate whose first column of the first row is the value; the
+// query may use $start and $end (ISO strings) of the selected time window, or
+// $startTime and $endTime (epoch ms, for comparing with stored record times). Tiles are
+// stored as (:KpiTile) nodes next to the graph.
+
+export const KPI_TILE_FORMATS = ['number', 'decimal', 'percent'] as const;
+export type KpiTileFormat = typeof KPI_TILE_FORMATS[number];
+
+// How a value compares to the tile's thresholds
+export type KpiTileLevel = 'ok' | 'warning' | 'critical';
+
+export const kpiTileSchema = z.object({
+  title: z.string().trim().min(1, 'Title must not be empty').max(60),
+  query: z.string().trim().min(1, 'Query must not be empty').max(5000)
+    .superRefine((query, ctx) => {
+      const writeClause = findWriteClause(query);
+      if (writeClause) ctx.addIssue({ code: z.ZodIssueCode.custom, message: writeClause });
+    }),
+  format: z.enum(KPI_TILE_FORMATS).default('number'),
+  // Values at or past a threshold get its color; past means above, or below when
+  // higherIsWorse is false
+  warning: z.number().nullable().optional(),
+  critical: z.number().nullable().optional(),
+  higherIsWorse: z.boolean().default(true),
+}).refine(tile => {
+  if (tile.warning == null || tile.critical == null) return true;
+  return tile.higherIsWorse ? tile.critical >= tile.warning : tile.critical <= tile.warning;
+}, {
+  message: 'The critical threshold must be past the warning threshold',
+  path: ['critical'],
+});
+
+export type KpiTileInput = z.infer<typeof kpiTileSchema>;
+
+export interface KpiTile {
+  id: string;
+  title: string;
+  query: string;
+  format: KpiTileFormat;
+  warning: number | null;
+  critical: number | null;
+  higherIsWorse: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface KpiTileValue {
+  value: number | null;
+  level: KpiTileLevel | null; // null without thresholds or value
+  error: string | null;       // Set when the query failed or didn't return a number
+}
+
+function toKpiTile(props: Record<string, any>): KpiTile {
+  return {
+    id: props.id,
+    title: props.title,
+    query: props.query,
+    format: props.format ?? 'number',
+    warning: props.warning ?? null,
+    critical: props.critical ?? null,
+    higherIsWorse: props.higherIsWorse ?? true,
+    createdAt: props.createdAt,
+    updatedAt: props.updatedAt,
+  };
+}
+
+const tileParams = (input: KpiTileInput) => ({
+  title: input.title,
+  query: input.query,
+  format: input.format,
+  warning: input.warning ?? null,
+  critical: input.critical ?? null,
+  higherIsWorse: input.higherIsWorse,
+});
+
+export async function listKpiTiles(session: Session): Promise<KpiTile[]> {
+  const result = await session.run(
+    `MATCH (t:KpiTile)
+     RETURN properties(t) AS tile
+     ORDER BY t.createdAt`
+  );
+  return result.records.map(record => toKpiTile(record.get('tile')));
+}
+
+export async function createKpiTile(session: Session, input: KpiTileInput): Promise<KpiTile> {
+  const now = new Date().toISOString();
+  const result = await session.run(
+    `CREATE (t:KpiTile {id: $id, createdAt: $now, updatedAt: $now})
+     SET t += $tile
+     RETURN properties(t) AS tile`,
+    { id: randomUUID(), tile: tileParams(input), now }
+  );
+  return toKpiTile(result.records[0].get('tile'));
+}
+
+export async function updateKpiTile(session: Session, id: string, input: KpiTileInput): Promise<KpiTile | null> {
+  const result = await session.run(
+    `MATCH (t:KpiTile {id: $id})
+     SET t += $tile, t.updatedAt = $now
+     RETURN properties(t) AS tile`,
+    { id, tile: tileParams(input), now: new Date().toISOString() }
+  );
+  return result.records.length > 0 ? toKpiTile(result.records[0].get('tile')) : null;
+}
+
+export async function deleteKpiTile(session: Session, id: string): Promise<boolean> {
+  const result = await session.run(
+    'MATCH (t:KpiTile {id: $id}) DELETE t RETURN count(*) AS deleted',
+    { id }
+  );
+  return result.records[0].get('deleted').toNumber() > 0;
+}
+
+function levelOf(tile: Pick<KpiTile, 'warning' | 'critical' | 'higherIsWorse'>, value: number): KpiTileLevel | null {
+  const reached = (threshold: number | null) =>
+    threshold !== null && (tile.higherIsWorse ? value >= threshold : value <= threshold);
+  if (tile.warning === null && tile.critical === null) return null;
+  if (reached(tile.critical)) return 'critical';
+  if (reached(tile.warning)) return 'warning';
+  return 'ok';
+}
+
+/**
+ * Runs a tile's query in a read transaction over `window`. Query failures are reported
+ * in the result rather than thrown, so one broken tile doesn't take down the others.
+ */
+export async function evaluateKpiTile(
+  session: Session,
+  tile: Pick<KpiTile, 'query' | 'warning' | 'critical' | 'higherIsWorse'>,
+  window: KpiWindow
+): Promise<KpiTileValue> {
+  try {
+    const result = await session.executeRead(tx => tx.run(tile.query, {
+      ...window,
+      ...windowParams(Date.parse(window.start), Date.parse(window.end)),
+    }), { timeout: QUERY_TIMEOUT_MS });
+    if (result.records.length === 0) {
+      return { value: null, level: null, error: 'The query returned no rows' };
+    }
+    const raw = result.records[0].get(0);
+    const value = raw === null ? null : typeof raw?.toNumber === 'function' ? raw.toNumber() : raw;
+    if (value === null) {
+      return { value: null, level: null, error: null };
+    }
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      return { value: null, level: null, error: 'The first column of the first row must be a number' };
+    }
+    return { value, level: levelOf(tile, value), error: null };
+  } catch (error: any) {
+    return { value: null, level: null, error: error.message };
+  }
+}
@@ -0,0 +1,180 @@
+import { Session } from 'neo4j-driver';
+import { notSystemNode } from '@/lib/graphLabels';
+import { GraphQueryResult, runGraphQuery } from '@/lib/queryRunner';
+import { HIGH_RISK_SCORE } from '@/lib/riskScoring';
+import { aliveInWindow, windowParams } from '@/lib/temporal';
+
+// Executive summary KPIs, computed over a time window and compared with the window of the
+// same length just before it. Each KPI has a count query and a drill-down query that
+// returns the underlying nodes for the graph views. Both take $start/$end as ISO strings
+// (the format alert times are stored in) and $startTime/$endTime as epoch ms for the
+// lifetimes of graph records (see temporal.ts).
+
+export const KPI_NAMES = ['activeThreats', 'highRiskAssets', 'alertsLast24h', 'resolvedIncidents'] as const;
+export type KpiName = typeof KPI_NAMES[number];
+
+export interface KpiWindow {
+  start: string;
+  end: string;
+}
+
+export interface KpiValue {
+  value: number;
+  previous: number; // Value over the previous window
+  delta: number;
+}
+
+export interface KpiReport {
+  window: KpiWindow;
+  previousWindow: KpiWindow;
+  kpis: Record<KpiName, KpiValue>;
+}
+
+interface KpiDefinition {
+  title: string;
+  count: string;     // Returns a single `value` column
+  drillDown: string; // Returns nodes/relationships
+}
+
+// Window used when the caller doesn't give one
+export const DEFAULT_KPI_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+const THREAT_TYPES = ['ThreatActor', 'IntrusionSet', 'Campaign', 'Malware'];
+
+const inWindow = (value: string) => `(${value} >= $start AND ${value} < $end)`;
+
+// Timed records alive during the window
+const timedAndAlive = (variable: string) =>
+  `((${variable}.valid_from IS NOT NULL OR ${variable}.valid_to IS NOT NULL) AND ${aliveInWindow(variable)})`;
+
+// A node is active in the window if it is alive in it, or one of its timed relationships
+// is. Untimed nodes are alive in every window, as in the graph views, so data uploaded
+// as "always present" counts in each window alike.
+const activeInWindow = (variable: string) =>
+  `(${aliveInWindow(variable)} OR size([(${variable})-[r]-() WHERE ${timedAndAlive('r')} | r]) > 0)`;
+
+// Nodes (and the relationships between them) matched by the alerts that pass `predicate`
+const alertSubgraph = (predicate: string) => `
+  MATCH (a:Alert) WHERE ${predicate}
+  WITH reduce(ids = [], list IN collect(a.matched_node_ids) | ids + list) AS nodeIds,
+       reduce(ids = [], list IN collect(a.matched_edge_ids) | ids + list) AS edgeIds
+  MATCH (n) WHERE toString(id(n)) IN nodeIds
+  OPTIONAL MATCH (n)-[r]-(m) WHERE toString(id(r)) IN edgeIds
+  RETURN n, r, m`;
+
+// Nodes that were High risk as of the end of the window, by the last scoring run before it
+// (see riskHistory.ts), so the previous window isn't judged by today's scores. None before
+// the first stored run.
+const HIGH_RISK_AT_END = `
+  OPTIONAL MATCH (s:RiskSnapshot) WHERE s.at <= $end
+  WITH s ORDER BY s.at DESC LIMIT 1
+  WITH coalesce(s.uids, []) AS uids, coalesce(s.scores, []) AS scores
+  WITH [i IN range(0, size(uids) - 1) WHERE scores[i] > $highRiskScore | uids[i]] AS highRiskUids
+  MATCH (n) WHERE n.uid IN highRiskUids AND ${notSystemNode('n')} AND ${activeInWindow('n')}`;
+
+const ALERTS_RAISED = inWindow('a.first_seen');
+const ALERTS_RESOLVED = `a.status = 'resolved' AND ${inWindow('a.resolved_at')}`;
+
+const KPI_DEFINITIONS: Record<KpiName, KpiDefinition> = {
+  activeThreats: {
+    title: 'Active threats',
+    count: `
+      MATCH (t) WHERE t.type IN $threatTypes AND ${activeInWindow('t')}
+      RETURN count(t) AS value`,
+    drillDown: `
+      MATCH (t) WHERE t.type IN $threatTypes AND ${activeInWindow('t')}
+      OPTIONAL MATCH (t)-[r]-(m) WHERE ${timedAndAlive('r')}
+      RETURN t, r, m`,
+  },
+  highRiskAssets: {
+    title: 'High-risk assets',
+    count: `${HIGH_RISK_AT_END}
+      RETURN count(n) AS value`,
+    drillDown: `${HIGH_RISK_AT_END}
+      RETURN n`,
+  },
+  alertsLast24h: {
+    title: 'Alerts raised',
+    count: `MATCH (a:Alert) WHERE ${ALERTS_RAISED} RETURN count(a) AS value`,
+    drillDown: alertSubgraph(ALERTS_RAISED),
+  },
+  resolvedIncidents: {
+    title: 'Resolved incidents',
+    count: `MATCH (a:Alert) WHERE ${ALERTS_RESOLVED} RETURN count(a) AS value`,
+    drillDown: alertSubgraph(ALERTS_RESOLVED),
+  },
+};
+
+export function isKpiName(value: string): value is KpiName {
+  return (KPI_NAMES as readonly string[]).includes(value);
+}
+
+export function kpiTitle(kpi: KpiName): string {
+  return KPI_DEFINITIONS[kpi].title;
+}
+
+// The last DEFAULT_KPI_WINDOW_MS up to now
+export function defaultKpiWindow(): KpiWindow {
+  const now = Date.now();
+  return { start: new Date(now - DEFAULT_KPI_WINDOW_MS).toISOString(), end: new Date(now).toISOString() };
+}
+
+/**
+ * Reads `start`/`end` query parameters (epoch milliseconds or ISO strings). Both missing
+ * means the last DEFAULT_KPI_WINDOW_MS up to now.
+ */
+export function parseKpiWindow(searchParams: URLSearchParams): { window?: KpiWindow; error?: string } {
+  const parse = (value: string | null) => {
+    if (value === null || value === '') return null;
+    const time = /^\d+$/.test(value) ? Number(value) : Date.parse(value);
+    return Number.isFinite(time) ? time : NaN;
+  };
+  const start = parse(searchParams.get('start'));
+  const end = parse(searchParams.get('end'));
+
+  if (start === null && end === null) {
+    return { window: defaultKpiWindow() };
+  }
+  if (start === null || end === null || Number.isNaN(start) || Number.isNaN(end)) {
+    return { error: 'Both start and end must be given, as epoch milliseconds or ISO dates.' };
+  }
+  if (start >= end) {
+    return { error: 'start must be before end.' };
+  }
+  return { window: { start: new Date(start).toISOString(), end: new Date(end).toISOString() } };
+}
+
+// The window of the same length that ends where `window` starts
+export function previousKpiWindow(window: KpiWindow): KpiWindow {
+  const length = Date.parse(window.end) - Date.parse(window.start);
+  return { start: new Date(Date.parse(window.start) - length).toISOString(), end: window.start };
+}
+
+// Parameters of the KPI queries for `window`
+const queryParams = (window: KpiWindow) => ({
+  ...window,
+  ...windowParams(Date.parse(window.start), Date.parse(window.end)),
+  threatTypes: THREAT_TYPES,
+  highRiskScore: HIGH_RISK_SCORE,
+});
+
+async function countKpi(session: Session, kpi: KpiName, window: KpiWindow): Promise<number> {
+  const result = await session.run(KPI_DEFINITIONS[kpi].count, queryParams(window));
+  return result.records[0].get('value').toNumber();
+}
+
+export async function computeKpis(session: Session, window: KpiWindow): Promise<KpiReport> {
+  const previousWindow = previousKpiWindow(window);
+  const kpis = {} as Record<KpiName, KpiValue>;
+  for (const kpi of KPI_NAMES) {
+    const value = await countKpi(session, kpi, window);
+    const previous = await countKpi(session, kpi, previousWindow);
+    kpis[kpi] = { value, previous, delta: value - previous };
+  }
+  return { window, previousWindow, kpis };
+}
+
+// The nodes behind a KPI value, in the shape the graph views take
+export async function drillDownKpi(session: Session, kpi: KpiName, window: KpiWindow): Promise<GraphQueryResult> {
+  return runGraphQuery(session, KPI_DEFINITIONS[kpi].drillDown, queryParams(window));
+}
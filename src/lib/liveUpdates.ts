@@ -0,0 +1,189 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { CytoscapeElement, collectElements } from '@/lib/graphElements';
+import type { Alert } from '@/lib/alertEngine';
+
+// Change feed behind live mode (/api/live). Code that writes to the graph publishes what
+// it changed once its transaction has committed. Events are stored in Neo4j as numbered
+// (:LiveEvent) nodes, so every server instance sees them: each open stream polls for the
+// events after the last one it sent, and the most recent ones are kept so a client that
+// reconnects (or resumes after pausing) can catch up on what it missed.
+//
+// Numbers come from a single (:LiveEventCounter) node, whose lock is held until the
+// publishing transaction commits, so events become visible in the order of their numbers.
+// Graph events store only the ids of what changed; the elements are read when streamed.
+// Writes made directly in Neo4j aren't seen.
+
+// Ids (as the graph views use them) of the records written by one transaction
+export interface GraphChanges {
+  addedNodes: string[];
+  updatedNodes: string[];
+  removedNodes: string[];
+  addedEdges: string[];
+  updatedEdges: string[];
+  removedEdges: string[];
+}
+
+export type LiveEvent =
+  // Elements added, elements whose properties changed, and ids of removed elements
+  | { type: 'graph'; added: CytoscapeElement[]; updated: CytoscapeElement[]; removed: { nodes: string[]; edges: string[] } }
+  // The graph was cleared or replaced wholesale (or too much was missed): load it again
+  | { type: 'reset' }
+  | { type: 'alerts'; alerts: Alert[] } // Newly raised alerts
+  | { type: 'risk'; computedAt: string }; // Risk scores were recomputed
+
+export interface NumberedLiveEvent {
+  id: number;
+  event: LiveEvent;
+}
+
+// What is stored: graph events keep the ids of what changed
+type StoredLiveEvent = Exclude<LiveEvent, { type: 'graph' }> | { type: 'graph'; changes: GraphChanges };
+
+// Events kept for clients catching up
+const HISTORY_SIZE = 500;
+
+// Events read per poll
+const LIVE_EVENT_BATCH_SIZE = 100;
+
+// Graph events over this many ids are published as a reset instead
+const MAX_GRAPH_EVENT_IDS = 5000;
+
+const COUNTER_CONSTRAINT = 'live_event_counter';
+const EVENT_ID_INDEX = 'live_event_id';
+
+// Whether this process has made sure of the counter's constraint and the event id index.
+// On globalThis so dev hot reloads don't repeat the check.
+const globalForLive = globalThis as typeof globalThis & { liveEventCounterReady?: boolean };
+
+export const emptyGraphChanges = (): GraphChanges => ({
+  addedNodes: [], updatedNodes: [], removedNodes: [], addedEdges: [], updatedEdges: [], removedEdges: [],
+});
+
+export function addGraphChanges(target: GraphChanges, source: GraphChanges): GraphChanges {
+  (Object.keys(target) as (keyof GraphChanges)[]).forEach(key => target[key].push(...source[key]));
+  return target;
+}
+
+// The constraint keeps two instances publishing their first event at once from creating
+// two counters; the index makes the polls and the trimming of old events index seeks
+async function ensureLiveEventCounter(session: Session): Promise<void> {
+  if (globalForLive.liveEventCounterReady) return;
+  await session.run(
+    `CREATE CONSTRAINT ${COUNTER_CONSTRAINT} IF NOT EXISTS FOR (c:LiveEventCounter) REQUIRE c.name IS UNIQUE`
+  );
+  await session.run(`CREATE INDEX ${EVENT_ID_INDEX} IF NOT EXISTS FOR (e:LiveEvent) ON (e.id)`);
+  globalForLive.liveEventCounterReady = true;
+}
+
+// Stores the next event and drops those no longer kept. A failure is logged and never
+// fails the write being published.
+async function storeLiveEvent(session: Session, event: StoredLiveEvent): Promise<void> {
+  try {
+    await ensureLiveEventCounter(session);
+    await session.executeWrite(tx => tx.run(
+      `MERGE (c:LiveEventCounter {name: 'live'})
+       SET c.last = coalesce(c.last, 0) + 1
+       CREATE (:LiveEvent {id: c.last, type: $type, payload: $payload, at: $now})
+       WITH c.last - $keep AS oldest
+       MATCH (old:LiveEvent) WHERE old.id <= oldest
+       DELETE old`,
+      { type: event.type, payload: JSON.stringify(event), now: new Date().toISOString(), keep: neo4j.int(HISTORY_SIZE) }
+    ));
+  } catch (error) {
+    console.error('Failed to publish live event:', error);
+  }
+}
+
+export const publishLiveEvent = (session: Session, event: Exclude<LiveEvent, { type: 'graph' }>) =>
+  storeLiveEvent(session, event);
+
+/**
+ * Publishes `changes` as a graph event. Called after the writing transaction committed;
+ * changes too large to stream are published as a reset.
+ */
+export async function publishGraphChanges(session: Session, changes: GraphChanges): Promise<void> {
+  const total = Object.values(changes).reduce((sum, ids) => sum + ids.length, 0);
+  if (total === 0) return;
+  await storeLiveEvent(session, total > MAX_GRAPH_EVENT_IDS ? { type: 'reset' } : { type: 'graph', changes });
+}
+
+// The current elements behind the ids of a graph event; those deleted since are left out
+async function readGraphEvent(session: Session, changes: GraphChanges): Promise<LiveEvent> {
+  const nodeIds = [...changes.addedNodes, ...changes.updatedNodes];
+  const edgeIds = [...changes.addedEdges, ...changes.updatedEdges];
+  const result = await session.run(
+    `CALL {
+       UNWIND $nodeIds AS nodeId
+       MATCH (n) WHERE id(n) = toInteger(nodeId)
+       RETURN collect(n) AS nodes
+     }
+     CALL {
+       UNWIND $edgeIds AS edgeId
+       MATCH ()-[r]->() WHERE id(r) = toInteger(edgeId)
+       RETURN collect(r) AS relationships
+     }
+     RETURN nodes, relationships`,
+    { nodeIds, edgeIds }
+  );
+  const nodes = new Map<string, CytoscapeElement>();
+  const edges = new Map<string, CytoscapeElement>();
+  result.records.forEach(record => {
+    collectElements(record.get('nodes'), nodes, edges);
+    collectElements(record.get('relationships'), nodes, edges);
+  });
+
+  const added = new Set([...changes.addedNodes.map(id => `nodes:${id}`), ...changes.addedEdges.map(id => `edges:${id}`)]);
+  const elements = [...nodes.values(), ...edges.values()];
+  return {
+    type: 'graph',
+    added: elements.filter(element => added.has(`${element.group}:${element.data.id}`)),
+    updated: elements.filter(element => !added.has(`${element.group}:${element.data.id}`)),
+    removed: { nodes: changes.removedNodes, edges: changes.removedEdges },
+  };
+}
+
+/**
+ * The events after `sinceId`, at most LIVE_EVENT_BATCH_SIZE of them, and the id to pass
+ * next time. Without `sinceId` nothing is returned and the feed is followed from its
+ * latest event on; when events after `sinceId` are no longer kept, a single reset is.
+ */
+export async function readLiveEvents(
+  session: Session,
+  sinceId: number | null
+): Promise<{ events: NumberedLiveEvent[]; lastId: number; more: boolean }> {
+  const bounds = await session.run(
+    `OPTIONAL MATCH (c:LiveEventCounter {name: 'live'})
+     CALL {
+       OPTIONAL MATCH (e:LiveEvent) WHERE e.id IS NOT NULL
+       RETURN e.id AS oldest
+       ORDER BY oldest
+       LIMIT 1
+     }
+     RETURN coalesce(c.last, 0) AS last, oldest`
+  );
+  const last = bounds.records[0].get('last').toNumber();
+  const oldest = bounds.records[0].get('oldest')?.toNumber() ?? last + 1;
+
+  if (sinceId === null || sinceId >= last) {
+    return { events: [], lastId: sinceId === null ? last : sinceId, more: false };
+  }
+  if (sinceId < oldest - 1) {
+    return { events: [{ id: last, event: { type: 'reset' } }], lastId: last, more: false };
+  }
+
+  const result = await session.run(
+    `MATCH (e:LiveEvent) WHERE e.id > $sinceId
+     RETURN e.id AS id, e.payload AS payload
+     ORDER BY id
+     LIMIT $limit`,
+    { sinceId: neo4j.int(sinceId), limit: neo4j.int(LIVE_EVENT_BATCH_SIZE) }
+  );
+  const events: NumberedLiveEvent[] = [];
+  for (const record of result.records) {
+    const stored: StoredLiveEvent = JSON.parse(record.get('payload'));
+    const event = stored.type === 'graph' ? await readGraphEvent(session, stored.changes) : stored;
+    events.push({ id: record.get('id').toNumber(), event });
+  }
+  const lastId = events.length > 0 ? events[events.length - 1].id : sinceId;
+  return { events, lastId, more: lastId < last };
+}
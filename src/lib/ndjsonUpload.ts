@@ -0,0 +1,137 @@
+// Client side of the streaming NDJSON import: reads the file as a stream, so a
+// 200k-record export never has to fit in one string, and sends it to the
+// import-jobs API in chunks of whole lines.
+
+import type { ImportJob } from '@/lib/importJobs';
+import type { DatasetIssue } from '@/lib/datasetSchema';
+
+const CHUNK_MAX_LINES = 5000;
+const CHUNK_MAX_BYTES = 2 * 1024 * 1024;
+
+export class NdjsonImportError extends Error {
+  constructor(message: string, public job?: ImportJob, public issues: DatasetIssue[] = []) {
+    super(message);
+    this.name = 'NdjsonImportError';
+  }
+}
+
+export const isNdjsonFile = (file: File) => /\.(ndjson|jsonl)$/i.test(file.name);
+
+// Remember which job belongs to which file so an interrupted import can be resumed
+const resumeKey = (file: File) => `ndjson-import:${file.name}:${file.size}:${file.lastModified}`;
+
+export const getResumableJobId = (file: File) => window.localStorage.getItem(resumeKey(file));
+export const rememberJob = (file: File, jobId: string) => window.localStorage.setItem(resumeKey(file), jobId);
+export const forgetJob = (file: File) => window.localStorage.removeItem(resumeKey(file));
+
+async function readJson(response: Response) {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+}
+
+export async function fetchImportJob(jobId: string): Promise<ImportJob | null> {
+  const response = await fetch(`/api/import-jobs/${jobId}`);
+  if (response.status === 404) return null;
+  const result = await readJson(response);
+  if (!response.ok) {
+    throw new NdjsonImportError(result.details || result.error || 'Failed to fetch import job');
+  }
+  return result.job;
+}
+
+export async function createImportJob(file: File, importQuery: string): Promise<ImportJob> {
+  const response = await fetch(`/api/import-jobs?${importQuery}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ fileName: file.name, totalBytes: file.size }),
+  });
+  const result = await readJson(response);
+  if (!response.ok) {
+    throw new NdjsonImportError(result.details || result.error || 'Failed to create import job');
+  }
+  return result.job;
+}
+
+// Yields the file's lines one at a time, decoding UTF-8 across chunk boundaries
+async function* readLines(file: File): AsyncGenerator<string> {
+  const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+  let buffer = '';
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buffer += value;
+    let newline = buffer.indexOf('\n');
+    while (newline !== -1) {
+      yield buffer.slice(0, newline).replace(/\r$/, '');
+      buffer = buffer.slice(newline + 1);
+      newline = buffer.indexOf('\n');
+    }
+  }
+  if (buffer !== '') {
+    yield buffer.replace(/\r$/, '');
+  }
+}
+
+async function sendChunk(jobId: string, offset: number, lines: string[]): Promise<ImportJob> {
+  const response = await fetch(`/api/import-jobs/${jobId}/chunks?offset=${offset}`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+    },
+    body: lines.join('\n'),
+  });
+  const result = await readJson(response);
+  if (!response.ok) {
+    throw new NdjsonImportError(result.details || result.error || 'Failed to import chunk', result.job, result.issues);
+  }
+  return result.job;
+}
+
+/**
+ * Streams `file` into the given job, starting after the lines the job has already
+ * processed. `onProgress` is called with the updated job after every chunk.
+ */
+export async function runNdjsonImport(
+  file: File,
+  job: ImportJob,
+  onProgress: (job: ImportJob) => void
+): Promise<ImportJob> {
+  let current = job;
+  let lineNumber = 0;
+  let chunk: string[] = [];
+  let chunkBytes = 0;
+  let chunkOffset = job.linesProcessed;
+
+  const flush = async () => {
+    if (chunk.length === 0) return;
+    current = await sendChunk(job.id, chunkOffset, chunk);
+    onProgress(current);
+    chunkOffset += chunk.length;
+    chunk = [];
+    chunkBytes = 0;
+  };
+
+  for await (const line of readLines(file)) {
+    // Skip what an earlier, interrupted run already imported
+    if (lineNumber++ < job.linesProcessed) continue;
+
+    chunk.push(line);
+    chunkBytes += line.length + 1;
+    if (chunk.length >= CHUNK_MAX_LINES || chunkBytes >= CHUNK_MAX_BYTES) {
+      await flush();
+    }
+  }
+  await flush();
+
+  const response = await fetch(`/api/import-jobs/${job.id}/complete?lines=${lineNumber}`, { method: 'POST' });
+  const result = await readJson(response);
+  if (!response.ok) {
+    throw new NdjsonImportError(result.details || result.error || 'Failed to complete import job', result.job ?? current);
+  }
+  return result.job;
+}
@@ -0,0 +1,113 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { notSystemNode, relationshipTypeOf } from '@/lib/graphLabels';
+import { CytoscapeElement, recordsToElements } from '@/lib/graphElements';
+import { TimeWindow, aliveFilter, optionalWindowParams, parseTimeWindow } from '@/lib/temporal';
+
+// Neighbourhood expansion for the "expand node" interaction: the nodes within a few
+// hops of a node, optionally only along some relationship types and only through records
+// alive in a time window. Node ids are the element ids of /api/graph-data.
+
+export const MAX_EXPANSION_HOPS = 3;
+
+// Cap on the paths read per expansion, so expanding a hub can't flood the views
+export const MAX_EXPANSION_PATHS = 2000;
+
+export interface ExpansionRequest {
+  hops: number;
+  types: string[];           // Relationship types to follow; empty means all
+  window: TimeWindow | null;
+}
+
+export interface ExpansionResult {
+  elements: CytoscapeElement[];
+  nodeCount: number;
+  truncated: boolean; // More than MAX_EXPANSION_PATHS paths matched
+}
+
+export interface RelationshipTypeCount {
+  type: string;
+  count: number;
+}
+
+export const isNodeId = (value: string) => /^\d+$/.test(value);
+
+/**
+ * Reads `hops` (default 1), repeated `type` and the optional `startTime`/`endTime`
+ * window from the query string.
+ */
+export function parseExpansionRequest(searchParams: URLSearchParams): { request?: ExpansionRequest; error?: string } {
+  const hopsParam = searchParams.get('hops');
+  const hops = hopsParam === null ? 1 : Number(hopsParam);
+  if (!Number.isInteger(hops) || hops < 1 || hops > MAX_EXPANSION_HOPS) {
+    return { error: `hops must be an integer between 1 and ${MAX_EXPANSION_HOPS}.` };
+  }
+
+  const { window, error } = parseTimeWindow(searchParams);
+  if (error) return { error };
+
+  const types = searchParams.getAll('type').map(type => type.trim()).filter(Boolean);
+  return { request: { hops, types, window } };
+}
+
+export async function nodeExists(session: Session, nodeId: string): Promise<boolean> {
+  const result = await session.run(
+    `MATCH (n) WHERE id(n) = $nodeId AND ${notSystemNode('n')} RETURN count(n) AS found`,
+    { nodeId: neo4j.int(nodeId) }
+  );
+  return result.records[0].get('found').toNumber() > 0;
+}
+
+/**
+ * The paths of up to `request.hops` relationships starting at the node, as graph
+ * elements. The start node is always included, even without neighbours (so a node found
+ * elsewhere can be loaded this way). Returns null when the node doesn't exist.
+ */
+export async function expandNode(session: Session, nodeId: string, request: ExpansionRequest): Promise<ExpansionResult | null> {
+  if (!(await nodeExists(session, nodeId))) return null;
+
+  const alive = aliveFilter(request.window);
+  const result = await session.run(
+    `MATCH (start) WHERE id(start) = $nodeId
+     OPTIONAL MATCH p = (start)-[rels*1..${request.hops}]-(m)
+     WHERE all(r IN rels WHERE (size($types) = 0 OR ${relationshipTypeOf('r')} IN $types)${alive('r')})
+       AND all(x IN nodes(p) WHERE ${notSystemNode('x')}${alive('x')})
+     RETURN start, p
+     LIMIT $limit`,
+    {
+      nodeId: neo4j.int(nodeId),
+      types: request.types,
+      limit: neo4j.int(MAX_EXPANSION_PATHS + 1),
+      ...optionalWindowParams(request.window),
+    }
+  );
+
+  const truncated = result.records.length > MAX_EXPANSION_PATHS;
+  const { elements } = recordsToElements(result.records.slice(0, MAX_EXPANSION_PATHS));
+  return {
+    elements,
+    nodeCount: elements.filter(element => element.group === 'nodes').length,
+    truncated,
+  };
+}
+
+/**
+ * Relationship types around the node with how many relationships of each it has, most
+ * common first. Returns null when the node doesn't exist.
+ */
+export async function relationshipTypesAround(
+  session: Session,
+  nodeId: string,
+  window: TimeWindow | null
+): Promise<RelationshipTypeCount[] | null> {
+  if (!(await nodeExists(session, nodeId))) return null;
+
+  const alive = aliveFilter(window);
+  const result = await session.run(
+    `MATCH (start)-[r]-(m)
+     WHERE id(start) = $nodeId AND ${notSystemNode('m')}${alive('r')}${alive('m')}
+     RETURN ${relationshipTypeOf('r')} AS type, count(r) AS count
+     ORDER BY count DESC, type`,
+    { nodeId: neo4j.int(nodeId), ...optionalWindowParams(window) }
+  );
+  return result.records.map(record => ({ type: record.get('type'), count: record.get('count').toNumber() }));
+}
@@ -1,4 +1,4 @@
-import neo4j from 'neo4j-driver';
+import neo4j, { SessionMode } from 'neo4j-driver';
 
 // Placeholder for environment variables - these should be set in Vercel
 const NEO4J_URI = process.env.NEO4J_URI || 'neo4j+s://your-neo4j-uri.databases.neo4j.io'; // Replace with default or leave empty
@@ -52,7 +52,8 @@ function getDriver() {
   return driver;
 }
 
-export async function getSession() {
+// Pass neo4j.session.READ for sessions that must not modify the graph (e.g. user-supplied queries)
+export async function getSession(accessMode: SessionMode = neo4j.session.WRITE) {
   const currentDriver = getDriver();
   if (!currentDriver) {
     throw new Error('Neo4j driver is not initialized.');
@@ -64,7 +65,7 @@ export async function getSession() {
 
     // Use database name from environment variable if available
     const database = process.env.NEO4J_DATABASE || 'neo4j';
-    return currentDriver.session({ database });
+    return currentDriver.session({ database, defaultAccessMode: accessMode });
   } catch (error) {
     console.error('Failed to create Neo4j session:', error);
     throw new Error('Could not establish a valid Neo4j session. Please check your connection details.');
@@ -0,0 +1,154 @@
+import neo4j, { Session } from 'neo4j-driver';
+import { IMPORT_LABEL, SEARCH_LABEL, SEARCH_TEXT_PROPERTY, notSystemNode, relationshipTypeOf } from '@/lib/graphLabels';
+import { toNumber, toPlainValue } from '@/lib/graphElements';
+import { Alert, toAlert } from '@/lib/alertEngine';
+import type { RiskFactor, RiskLevel } from '@/lib/riskScoring';
+import { TEMPORAL_PROPERTIES } from '@/lib/temporal';
+
+// Everything the node details panel shows about one node: its properties, neighbours by
+// relationship type, the alerts that matched it, its risk breakdown and the times it
+// and its relationships were recorded at. Node ids are the element ids of /api/graph-data.
+
+// Neighbours listed per relationship type; the count covers all of them
+export const MAX_NEIGHBOURS_PER_TYPE = 25;
+
+export const MAX_RELATED_ALERTS = 20;
+
+// Dated relationships listed in the history, most recent first
+export const MAX_HISTORY_RELATIONSHIPS = 100;
+
+export interface NodeNeighbour {
+  id: string;
+  label: string;
+  type: string | null;
+  direction: 'out' | 'in'; // Seen from the node
+  relationshipId: string;
+}
+
+export interface NeighbourGroup {
+  type: string;  // Relationship type
+  count: number;
+  neighbours: NodeNeighbour[];
+}
+
+export interface NodeHistoryEvent {
+  time: number; // Epoch ms
+  kind: 'timestamp' | 'valid_from' | 'valid_to' | 'relationship';
+  description: string;
+  relationshipId?: string;
+}
+
+export interface NodeRisk {
+  score: number;
+  level: RiskLevel | null;
+  reason: string;
+  factors: RiskFactor[];
+}
+
+export interface NodeDetails {
+  id: string;
+  label: string;
+  labels: string[];
+  properties: Record<string, any>;
+  neighbours: NeighbourGroup[];
+  alerts: Alert[];
+  risk: NodeRisk | null; // Not scored yet
+  history: NodeHistoryEvent[];
+}
+
+const NODE_TIME_DESCRIPTIONS: Record<(typeof TEMPORAL_PROPERTIES)[number], string> = {
+  timestamp: 'Recorded',
+  valid_from: 'First seen',
+  valid_to: 'Last seen',
+};
+
+const displayName = (variable: string) => `coalesce(${variable}.showname, ${variable}.uid, head(labels(${variable})), toString(id(${variable})))`;
+
+/**
+ * Details of a node, or null when it doesn't exist (or is one of the app's own
+ * bookkeeping nodes).
+ */
+export async function getNodeDetails(session: Session, nodeId: string): Promise<NodeDetails | null> {
+  const id = neo4j.int(nodeId);
+  const nodeResult = await session.run(
+    `MATCH (n) WHERE id(n) = $nodeId AND ${notSystemNode('n')}
+     RETURN n, ${displayName('n')} AS label`,
+    { nodeId: id }
+  );
+  if (nodeResult.records.length === 0) return null;
+  const node = nodeResult.records[0].get('n');
+  const { [SEARCH_TEXT_PROPERTY]: searchText, ...properties }: Record<string, any> = toPlainValue(node.properties);
+
+  const neighbourResult = await session.run(
+    `MATCH (n)-[r]-(m)
+     WHERE id(n) = $nodeId AND ${notSystemNode('m')}
+     WITH ${relationshipTypeOf('r')} AS type, r, m,
+          CASE WHEN startNode(r) = m AND endNode(r) <> m THEN 'in' ELSE 'out' END AS direction
+     ORDER BY ${displayName('m')}
+     RETURN type, count(r) AS count,
+            collect({id: toString(id(m)), label: ${displayName('m')}, type: m.type, direction: direction,
+                     relationshipId: toString(id(r))})[0..$maxPerType] AS neighbours
+     ORDER BY count DESC, type`,
+    { nodeId: id, maxPerType: neo4j.int(MAX_NEIGHBOURS_PER_TYPE) }
+  );
+  const neighbours: NeighbourGroup[] = neighbourResult.records.map(record => ({
+    type: record.get('type'),
+    count: record.get('count').toNumber(),
+    neighbours: record.get('neighbours').map((neighbour: any) => ({ ...neighbour, type: neighbour.type ?? null })),
+  }));
+
+  const alertResult = await session.run(
+    `MATCH (a:Alert)
+     WHERE $nodeIdString IN a.matched_node_ids
+     RETURN properties(a) AS alert
+     ORDER BY a.last_seen DESC
+     LIMIT toInteger($limit)`,
+    { nodeIdString: nodeId, limit: MAX_RELATED_ALERTS }
+  );
+  const alerts = alertResult.records.map(record => toAlert(record.get('alert')));
+
+  // The node's own times, then its dated relationships
+  const history: NodeHistoryEvent[] = [];
+  TEMPORAL_PROPERTIES.forEach(key => {
+    const time = toNumber(node.properties[key]);
+    if (time !== null) history.push({ time, kind: key, description: NODE_TIME_DESCRIPTIONS[key] });
+  });
+  const historyResult = await session.run(
+    `MATCH (n)-[r]-(m)
+     WHERE id(n) = $nodeId AND ${notSystemNode('m')} AND coalesce(r.valid_from, r.timestamp) IS NOT NULL
+     RETURN coalesce(r.valid_from, r.timestamp) AS time, ${relationshipTypeOf('r')} AS type,
+            ${displayName('m')} AS other, startNode(r) = n AS outgoing, toString(id(r)) AS relationshipId
+     ORDER BY time DESC
+     LIMIT toInteger($limit)`,
+    { nodeId: id, limit: MAX_HISTORY_RELATIONSHIPS }
+  );
+  historyResult.records.forEach(record => {
+    const time = toNumber(record.get('time'));
+    if (time === null) return;
+    history.push({
+      time,
+      kind: 'relationship',
+      description: record.get('outgoing') ? `${record.get('type')} → ${record.get('other')}` : `${record.get('type')} ← ${record.get('other')}`,
+      relationshipId: record.get('relationshipId'),
+    });
+  });
+  history.sort((a, b) => b.time - a.time);
+
+  const risk: NodeRisk | null = properties.riskScore == null ? null : {
+    score: Number(properties.riskScore),
+    level: properties.riskLevel ?? null,
+    reason: properties.riskReason ?? '',
+    factors: properties.riskFactors ? JSON.parse(properties.riskFactors) : [],
+  };
+
+  return {
+    id: nodeId,
+    label: nodeResult.records[0].get('label'),
+    labels: node.labels.filter((label: string) => label !== SEARCH_LABEL && label !== IMPORT_LABEL),
+    properties,
+    neighbours,
+    alerts,
+    risk,
+    history,
+  };
+}
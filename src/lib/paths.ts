@@ -0,0 +1,216 @@
+import neo4j, { ManagedTransaction, Path, Session } from 'neo4j-driver';
+import { notSystemNode, relationshipTypeOf } from '@/lib/graphLabels';
+import { CytoscapeElement, collectElements } from '@/lib/graphElements';
+import { isNodeId, nodeExists } from '@/lib/neighbourhood';
+import { QUERY_TIMEOUT_MS } from '@/lib/queryRunner';
+import { TimeWindow, aliveFilter, optionalWindowParams, parseTimeWindow } from '@/lib/temporal';
+
+// Paths between two entities ("how could this threat actor reach the SCADA server?"),
+// optionally only along some relationship types and only through records alive in a
+// time window. Relationships are followed in either direction.
+//
+// - shortest: one shortest path (Cypher shortestPath)
+// - all-shortest: every path of the shortest length (allShortestPaths)
+// - k-shortest: the k shortest simple paths, found by trying one length at a time from
+//   the shortest upwards, so longer paths are only enumerated when needed
+//
+// Searches run in one read transaction with the query console's timeout, and k-shortest
+// gives up after MAX_PATH_EXPANSIONS candidate paths; both end in a PathSearchLimitError.
+
+export const PATH_MODES = ['shortest', 'all-shortest', 'k-shortest'] as const;
+export type PathMode = typeof PATH_MODES[number];
+
+export const DEFAULT_MAX_PATH_LENGTH = 8;
+export const MAX_PATH_LENGTH = 15;
+export const DEFAULT_K = 3;
+export const MAX_K = 10;
+
+// Cap on all-shortest results, so a densely connected pair can't flood the views
+export const MAX_SHORTEST_PATHS = 100;
+
+// Candidate paths (of every length tried) a k-shortest search may enumerate
+export const MAX_PATH_EXPANSIONS = 10000;
+
+export class PathSearchLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PathSearchLimitError';
+  }
+}
+
+export interface PathRequest {
+  source: string;
+  target: string;
+  mode: PathMode;
+  k: number;                 // Paths to find in k-shortest mode
+  maxLength: number;         // Longest path considered, in relationships
+  types: string[];           // Relationship types to follow; empty means all
+  window: TimeWindow | null;
+}
+
+export interface FoundPath {
+  nodeIds: string[];  // From source to target
+  edgeIds: string[];
+  length: number;
+}
+
+export interface PathSearchOptions {
+  // Extra Cypher condition the nodes between source and target have to meet
+  intermediateFilter?: (variable: string) => string;
+  // Transaction timeout, to fit the search into a caller's own deadline (at most QUERY_TIMEOUT_MS)
+  timeoutMs?: number;
+}
+
+export interface PathResult {
+  elements: CytoscapeElement[]; // Every node and relationship on the paths
+  paths: FoundPath[];           // Shortest first; empty when the nodes aren't connected
+  truncated: boolean;           // all-shortest found more than MAX_SHORTEST_PATHS
+}
+
+function parseBoundedInteger(value: string | null, fallback: number, max: number, name: string): { value?: number; error?: string } {
+  const parsed = value === null ? fallback : Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    return { error: `${name} must be an integer between 1 and ${max}.` };
+  }
+  return { value: parsed };
+}
+
+/**
+ * Reads `source`, `target`, `mode` (default shortest), `k`, `maxLength`, repeated `type`
+ * and the optional `startTime`/`endTime` window from the query string.
+ */
+export function parsePathRequest(searchParams: URLSearchParams): { request?: PathRequest; error?: string } {
+  const source = searchParams.get('source') ?? '';
+  const target = searchParams.get('target') ?? '';
+  if (!isNodeId(source) || !isNodeId(target)) {
+    return { error: 'source and target must be node ids.' };
+  }
+  if (source === target) {
+    return { error: 'source and target must be different nodes.' };
+  }
+
+  const mode = (searchParams.get('mode') ?? 'shortest') as PathMode;
+  if (!PATH_MODES.includes(mode)) {
+    return { error: `Unknown mode "${mode}". Use one of: ${PATH_MODES.join(', ')}.` };
+  }
+
+  const k = parseBoundedInteger(searchParams.get('k'), DEFAULT_K, MAX_K, 'k');
+  if (k.error) return { error: k.error };
+  const maxLength = parseBoundedInteger(searchParams.get('maxLength'), DEFAULT_MAX_PATH_LENGTH, MAX_PATH_LENGTH, 'maxLength');
+  if (maxLength.error) return { error: maxLength.error };
+
+  const { window, error } = parseTimeWindow(searchParams);
+  if (error) return { error };
+
+  const types = searchParams.getAll('type').map(type => type.trim()).filter(Boolean);
+  return { request: { source, target, mode, k: k.value!, maxLength: maxLength.value!, types, window } };
+}
+
+// The relationship type, time window and intermediate node conditions every path has to meet
+function pathCondition(request: PathRequest, options: PathSearchOptions): string {
+  const alive = aliveFilter(request.window);
+  const intermediate = options.intermediateFilter
+    ? `\n    AND all(x IN nodes(p)[1..-1] WHERE ${options.intermediateFilter('x')})`
+    : '';
+  return `all(r IN relationships(p) WHERE (size($types) = 0 OR ${relationshipTypeOf('r')} IN $types)${alive('r')})
+    AND all(x IN nodes(p) WHERE ${notSystemNode('x')}${alive('x')})${intermediate}`;
+}
+
+function toFoundPath(path: Path): FoundPath {
+  return {
+    nodeIds: [path.start, ...path.segments.map(segment => segment.end)].map(node => node.identity.toString()),
+    edgeIds: path.segments.map(segment => segment.relationship.identity.toString()),
+    length: path.length,
+  };
+}
+
+async function shortestPaths(tx: ManagedTransaction, request: PathRequest, options: PathSearchOptions, params: Record<string, any>): Promise<Path[]> {
+  const finder = request.mode === 'shortest' ? 'shortestPath' : 'allShortestPaths';
+  const result = await tx.run(
+    `MATCH (s), (t) WHERE id(s) = $source AND id(t) = $target
+     MATCH p = ${finder}((s)-[*..${request.maxLength}]-(t))
+     WHERE ${pathCondition(request, options)}
+     RETURN p
+     LIMIT $limit`,
+    { ...params, limit: neo4j.int(MAX_SHORTEST_PATHS + 1) }
+  );
+  return result.records.map(record => record.get('p'));
+}
+
+// Candidate paths of each length are counted before the check for repeated nodes, since
+// those are what blow up on densely connected graphs
+async function kShortestPaths(tx: ManagedTransaction, request: PathRequest, options: PathSearchOptions, params: Record<string, any>): Promise<Path[]> {
+  const [shortest] = await shortestPaths(tx, { ...request, mode: 'shortest' }, options, params);
+  if (!shortest) return [];
+
+  const paths: Path[] = [];
+  let expanded = 0;
+  for (let length = shortest.length; length <= request.maxLength && paths.length < request.k; length++) {
+    const budget = MAX_PATH_EXPANSIONS - expanded;
+    const result = await tx.run(
+      `MATCH (s), (t) WHERE id(s) = $source AND id(t) = $target
+       MATCH p = (s)-[*${length}]-(t)
+       WHERE ${pathCondition(request, options)}
+       WITH p LIMIT $budget
+       WITH collect(p) AS candidates
+       RETURN size(candidates) AS expanded,
+              [p IN candidates WHERE all(x IN nodes(p) WHERE single(y IN nodes(p) WHERE y = x))][..$limit] AS paths`,
+      { ...params, budget: neo4j.int(budget), limit: neo4j.int(request.k - paths.length) }
+    );
+    const record = result.records[0];
+    paths.push(...(record.get('paths') as Path[]));
+    expanded += record.get('expanded').toNumber();
+
+    if (expanded >= MAX_PATH_EXPANSIONS && paths.length < request.k) {
+      throw new PathSearchLimitError(
+        `Gave up after ${MAX_PATH_EXPANSIONS} candidate paths of up to ${length} relationships with ${paths.length} of ${request.k} paths found. ` +
+        'Lower maxLength or k, or follow fewer relationship types.'
+      );
+    }
+  }
+  return paths;
+}
+
+const isTimeout = (error: any) => typeof error?.code === 'string' && error.code.startsWith('Neo.ClientError.Transaction.TransactionTimedOut');
+
+/**
+ * Paths from `request.source` to `request.target` as graph elements plus the node and
+ * relationship ids of each path. Returns null when either node doesn't exist, and throws
+ * a PathSearchLimitError when the search is cut off by the expansion cap or the timeout.
+ * `k` and `maxLength` are held to MAX_K and MAX_PATH_LENGTH whoever the caller is.
+ */
+export async function findPaths(session: Session, pathRequest: PathRequest, options: PathSearchOptions = {}): Promise<PathResult | null> {
+  const request = { ...pathRequest, k: Math.min(pathRequest.k, MAX_K), maxLength: Math.min(pathRequest.maxLength, MAX_PATH_LENGTH) };
+  const timeout = Math.min(options.timeoutMs ?? QUERY_TIMEOUT_MS, QUERY_TIMEOUT_MS);
+  if (!(await nodeExists(session, request.source)) || !(await nodeExists(session, request.target))) return null;
+
+  const params = {
+    source: neo4j.int(request.source),
+    target: neo4j.int(request.target),
+    types: request.types,
+    ...optionalWindowParams(request.window),
+  };
+  let found: Path[];
+  try {
+    found = await session.executeRead(
+      tx => (request.mode === 'k-shortest'
+        ? kShortestPaths(tx, request, options, params)
+        : shortestPaths(tx, request, options, params)),
+      { timeout }
+    );
+  } catch (error: any) {
+    if (isTimeout(error)) {
+      throw new PathSearchLimitError(
+        `Path search timed out after ${timeout / 1000} s. Lower maxLength or k, or follow fewer relationship types.`
+      );
+    }
+    throw error;
+  }
+
+  const truncated = found.length > MAX_SHORTEST_PATHS;
+  const paths = found.slice(0, MAX_SHORTEST_PATHS);
+  const nodes = new Map<string, CytoscapeElement>();
+  const edges = new Map<string, CytoscapeElement>();
+  paths.forEach(path => collectElements(path, nodes, edges));
+  return { elements: [...nodes.values(), ...edges.values()], paths: paths.map(toFoundPath), truncated };
+}
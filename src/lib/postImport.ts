@@ -0,0 +1,33 @@
+import { Session } from 'neo4j-driver';
+import { evaluateAlertRules } from '@/lib/alertEngine';
+import { computeRiskScores } from '@/lib/riskScoring';
+import { ensureTemporalModel } from '@/lib/temporal';
+import { refreshSearchText } from '@/lib/entitySearch';
+
+// Analyses re-run on freshly imported data. Failures are logged rather than failing the
+// import. Records from before the temporal model are migrated first (if no time-window
+// read has done so yet) so the rules see one timestamp format; alerts go before risk
+// because open alerts feed into the scores.
+// Last, the new and changed nodes are made searchable.
+export async function runPostImportAnalysis(session: Session): Promise<void> {
+  try {
+    await ensureTemporalModel(session);
+  } catch (error) {
+    console.error('Temporal migration after import failed:', error);
+  }
+  try {
+    await evaluateAlertRules(session);
+  } catch (error) {
+    console.error('Alert evaluation after import failed:', error);
+  }
+  try {
+    await computeRiskScores(session);
+  } catch (error) {
+    console.error('Risk scoring after import failed:', error);
+  }
+  try {
+    await refreshSearchText(session);
+  } catch (error) {
+    console.error('Search index refresh after import failed:', error);
+  }
+}
@@ -0,0 +1,61 @@
+import { Record as Neo4jRecord, Session } from 'neo4j-driver';
+import { CytoscapeElement, recordsToElements, toPlainValue } from '@/lib/graphElements';
+
+// Execution of user-supplied Cypher (saved queries and the query console). Callers pass a
+// session opened with neo4j.session.READ so the query can't modify the graph.
+
+// Cap on the records read from a result, so a careless query can't flood the views
+export const MAX_QUERY_RECORDS = 5000;
+
+// Transaction timeout enforced by the server
+export const QUERY_TIMEOUT_MS = 15000;
+
+export interface QueryTable {
+  columns: string[];
+  rows: any[][];
+}
+
+export interface GraphQueryResult {
+  elements: CytoscapeElement[];
+  recordCount: number;
+  truncated: boolean;    // The result had more than MAX_QUERY_RECORDS records
+  droppedEdges: number;  // Relationships returned without their end nodes
+  table?: QueryTable;    // Only set when the query returned no nodes or relationships
+}
+
+/**
+ * Runs a Cypher query in a read transaction and converts whatever nodes, relationships
+ * and paths it returns into graph elements. Queries that return only scalars (counts,
+ * property values) come back as a table instead.
+ * Reading stops after MAX_QUERY_RECORDS records; the rest of the result is discarded.
+ */
+export async function runGraphQuery(session: Session, query: string, params: Record<string, any> = {}): Promise<GraphQueryResult> {
+  let columns: string[] = [];
+  let records: Neo4jRecord[] = [];
+  let truncated = false;
+
+  await session.executeRead(async tx => {
+    // Reset in case the transaction is retried
+    records = [];
+    truncated = false;
+    const result = tx.run(query, params);
+    columns = await result.keys();
+    for await (const record of result) {
+      if (records.length >= MAX_QUERY_RECORDS) {
+        truncated = true;
+        break;
+      }
+      records.push(record);
+    }
+  }, { timeout: QUERY_TIMEOUT_MS });
+
+  const { elements, droppedEdges } = recordsToElements(records);
+  const queryResult: GraphQueryResult = { elements, recordCount: records.length, truncated, droppedEdges };
+  if (elements.length === 0 && records.length > 0) {
+    queryResult.table = {
+      columns,
+      rows: records.map(record => columns.map(column => toPlainValue(record.get(column)))),
+    };
+  }
+  return queryResult;
+}
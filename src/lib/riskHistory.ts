@@ -0,0 +1,92 @@
+import { Session } from 'neo4j-driver';
+
+// Risk score history. Every scoring run stores one (:RiskSnapshot) holding the scores of
+// that run as parallel `uids`/`scores` lists. Snapshots are keyed by node uid rather than
+// element id, so an asset keeps its history across "replace" imports. Assets missing from
+// a snapshot scored 0 in that run.
+
+// Snapshots kept; older ones are deleted as new ones are recorded
+export const MAX_RISK_SNAPSHOTS = 90;
+
+export interface RiskTrendPoint {
+  at: string;
+  score: number;
+}
+
+export interface RiskSeries {
+  uid: string;
+  name: string;
+  type: string | null;
+  riskScore: number | null; // Current score, null if the node no longer exists
+  points: RiskTrendPoint[];  // Oldest first
+}
+
+export async function recordRiskSnapshot(session: Session, at: string, scores: { uid: string; score: number }[]): Promise<void> {
+  const scored = scores.filter(entry => entry.score > 0);
+  await session.executeWrite(async tx => {
+    await tx.run(
+      `CREATE (:RiskSnapshot {id: randomUUID(), at: $at, uids: $uids, scores: $scores})`,
+      { at, uids: scored.map(entry => entry.uid), scores: scored.map(entry => entry.score) }
+    );
+    await tx.run(
+      `MATCH (s:RiskSnapshot)
+       WITH s ORDER BY s.at DESC
+       SKIP toInteger($keep)
+       DELETE s`,
+      { keep: MAX_RISK_SNAPSHOTS }
+    );
+  });
+}
+
+/**
+ * Score series of the given assets over the last `limit` snapshots, in the order of `uids`.
+ * Uids without any stored snapshot get an empty series.
+ */
+export async function getRiskSeries(session: Session, uids: string[], limit: number = MAX_RISK_SNAPSHOTS): Promise<RiskSeries[]> {
+  if (uids.length === 0) return [];
+
+  const pointResult = await session.run(
+    `MATCH (s:RiskSnapshot)
+     WITH s ORDER BY s.at DESC LIMIT toInteger($limit)
+     WITH s ORDER BY s.at
+     UNWIND $uids AS uid
+     WITH uid, s, [i IN range(0, size(s.uids) - 1) WHERE s.uids[i] = uid | s.scores[i]] AS hits
+     RETURN uid, collect({at: s.at, score: coalesce(hits[0], 0)}) AS points`,
+    { uids, limit }
+  );
+  const pointsByUid = new Map<string, RiskTrendPoint[]>();
+  pointResult.records.forEach(record => {
+    pointsByUid.set(record.get('uid'), record.get('points').map((point: any) => ({ at: point.at, score: Number(point.score) })));
+  });
+
+  const nodeResult = await session.run(
+    `MATCH (n) WHERE n.uid IN $uids
+     RETURN n.uid AS uid, coalesce(n.showname, n.uid) AS name, n.type AS type, n.riskScore AS riskScore`,
+    { uids }
+  );
+  const nodesByUid = new Map(nodeResult.records.map(record => [record.get('uid'), record]));
+
+  return uids.map(uid => {
+    const node = nodesByUid.get(uid);
+    return {
+      uid,
+      name: node?.get('name') ?? uid,
+      type: node?.get('type') ?? null,
+      riskScore: node?.get('riskScore') != null ? Number(node.get('riskScore')) : null,
+      points: pointsByUid.get(uid) ?? [],
+    };
+  });
+}
+
+// Series of the `top` currently highest-scored assets
+export async function getTopRiskSeries(session: Session, top: number, limit: number = MAX_RISK_SNAPSHOTS): Promise<RiskSeries[]> {
+  const result = await session.run(
+    `MATCH (n)
+     WHERE n.riskScore > 0 AND n.uid IS NOT NULL
+     RETURN n.uid AS uid
+     ORDER BY n.riskScore DESC
+     LIMIT toInteger($top)`,
+    { top }
+  );
+  return getRiskSeries(session, result.records.map(record => record.get('uid')), limit);
+}
@@ -0,0 +1,377 @@
+import { Session } from 'neo4j-driver';
+import { z } from 'zod';
+import { betweenness, betweennessSources } from '@/lib/graphAlgorithms';
+import { notSystemNode } from '@/lib/graphLabels';
+import { recordRiskSnapshot } from '@/lib/riskHistory';
+import { publishLiveEvent } from '@/lib/liveUpdates';
+
+// Graph-derived risk scores. Every asset node (anything that isn't itself a
+// vulnerability or a threat) gets a 0-100 score made of four factors, each valued 0-1:
+//   - vulnerabilities: highest CVSS among neighbouring vulnerability/CVE/CVSS nodes
+//   - threatProximity: hops to the nearest threat actor, intrusion set, campaign or malware
+//   - centrality: degree and betweenness, relative to the most central node
+//   - alerts: open alerts whose matched subgraph includes the node
+// score = 100 * sum(weight * value) / sum(weights). Scores are stored on the nodes as
+// riskScore/riskLevel/riskReason/riskFactors, so the graph views can color by them, and
+// each run is recorded as a snapshot for the trend charts (see riskHistory.ts).
+
+export type RiskFactorName = 'vulnerabilities' | 'threatProximity' | 'centrality' | 'alerts';
+export type RiskLevel = 'High' | 'Medium' | 'Low';
+
+export const riskWeightsSchema = z.object({
+  vulnerabilities: z.number().min(0).max(100),
+  threatProximity: z.number().min(0).max(100),
+  centrality: z.number().min(0).max(100),
+  alerts: z.number().min(0).max(100),
+}).refine(weights => Object.values(weights).some(weight => weight > 0), {
+  message: 'At least one weight must be greater than 0',
+});
+
+export type RiskWeights = z.infer<typeof riskWeightsSchema>;
+
+export const DEFAULT_RISK_WEIGHTS: RiskWeights = {
+  vulnerabilities: 35,
+  threatProximity: 30,
+  centrality: 15,
+  alerts: 20,
+};
+
+export interface RiskFactor {
+  factor: RiskFactorName;
+  value: number;   // 0-1
+  points: number;  // Contribution to the 0-100 score
+  detail: string;
+}
+
+export interface RiskScoringSummary {
+  computedAt: string;
+  scoredNodes: number;
+  weights: RiskWeights;
+  betweennessSampled: boolean;
+}
+
+// Node types (lowercased `type`) that are risk sources rather than assets
+export const VULNERABILITY_TYPES = ['vulnerability', 'cve', 'cvss', 'cvssseverity'];
+const THREAT_TYPES = ['threatactor', 'intrusionset', 'campaign', 'malware'];
+
+// CVSS assumed from a textual severity when no numeric score is present
+const SEVERITY_CVSS: Record<string, number> = { critical: 9.5, high: 7.5, medium: 5, low: 2.5 };
+export const UNKNOWN_CVSS = 5;
+
+// Value of the threat factor by distance in hops
+const THREAT_PROXIMITY: Record<number, number> = { 1: 1, 2: 0.6, 3: 0.3 };
+
+const ALERT_SEVERITY_VALUE: Record<string, number> = { High: 1, Medium: 0.6, Low: 0.3 };
+
+const WRITE_BATCH_SIZE = 1000;
+
+// Scores above this are High
+export const HIGH_RISK_SCORE = 75;
+
+export function riskLevelForScore(score: number): RiskLevel | null {
+  if (score > HIGH_RISK_SCORE) return 'High';
+  if (score > 50) return 'Medium';
+  if (score > 0) return 'Low';
+  return null;
+}
+
+interface ScoringNode {
+  id: string;
+  uid: string | null;
+  name: string;
+  kind: 'asset' | 'vulnerability' | 'threat';
+  cvss: number | null; // Own CVSS of vulnerability nodes, if known
+  cveId: string | null;
+}
+
+const lowerType = (props: Record<string, any>) => String(props.type ?? '').toLowerCase().replace(/[^a-z]/g, '');
+
+function nodeKind(props: Record<string, any>): ScoringNode['kind'] {
+  const type = lowerType(props);
+  const icon = String(props.icon ?? '').toLowerCase();
+  if (VULNERABILITY_TYPES.includes(type) || icon.includes('itot-cve') || icon.includes('itot-cvss')) return 'vulnerability';
+  if (THREAT_TYPES.includes(type)) return 'threat';
+  return 'asset';
+}
+
+// Numeric CVSS from the usual property names, a textual severity, or (for CVSS nodes) the name
+export function readCvss(props: Record<string, any>): number | null {
+  for (const key of ['cvss', 'cvss_score', 'cvssScore', 'base_score', 'baseScore']) {
+    const value = Number(props[key]);
+    if (props[key] != null && Number.isFinite(value) && value >= 0 && value <= 10) return value;
+  }
+  const severity = String(props.severity ?? props.cvss_severity ?? '').toLowerCase();
+  if (SEVERITY_CVSS[severity] !== undefined) return SEVERITY_CVSS[severity];
+  if (lowerType(props).startsWith('cvss')) {
+    const value = Number(props.showname);
+    if (Number.isFinite(value) && value >= 0 && value <= 10) return value;
+  }
+  return null;
+}
+
+// Distance in hops (up to 3) from every node to the nearest threat node, and that threat
+function threatDistances(adjacency: Map<string, Set<string>>, nodes: Map<string, ScoringNode>) {
+  const nearest = new Map<string, { hops: number; threat: string }>();
+  let frontier: string[] = [];
+  nodes.forEach(node => {
+    if (node.kind === 'threat') {
+      nearest.set(node.id, { hops: 0, threat: node.name });
+      frontier.push(node.id);
+    }
+  });
+  for (let hops = 1; hops <= 3 && frontier.length > 0; hops++) {
+    const next: string[] = [];
+    frontier.forEach(id => {
+      const threat = nearest.get(id)!.threat;
+      adjacency.get(id)!.forEach(neighbour => {
+        if (!nearest.has(neighbour)) {
+          nearest.set(neighbour, { hops, threat });
+          next.push(neighbour);
+        }
+      });
+    });
+    frontier = next;
+  }
+  return nearest;
+}
+
+export async function getRiskWeights(session: Session): Promise<RiskWeights> {
+  const result = await session.run(`MATCH (c:RiskConfig {id: 'default'}) RETURN c.weights AS weights`);
+  if (result.records.length === 0 || !result.records[0].get('weights')) return DEFAULT_RISK_WEIGHTS;
+  const parsed = riskWeightsSchema.safeParse(JSON.parse(result.records[0].get('weights')));
+  return parsed.success ? parsed.data : DEFAULT_RISK_WEIGHTS;
+}
+
+export async function saveRiskWeights(session: Session, weights: RiskWeights): Promise<RiskWeights> {
+  await session.run(
+    `MERGE (c:RiskConfig {id: 'default'})
+     SET c.weights = $weights, c.updated_at = $now`,
+    { weights: JSON.stringify(weights), now: new Date().toISOString() }
+  );
+  return weights;
+}
+
+/**
+ * Scores every asset node with the stored weights and writes the results to the nodes.
+ * Vulnerability and threat nodes are risk sources and get no score.
+ */
+export async function computeRiskScores(session: Session): Promise<RiskScoringSummary> {
+  const weights = await getRiskWeights(session);
+  const computedAt = new Date().toISOString();
+
+  // --- Load the graph ---
+  const nodeResult = await session.run(
+    `MATCH (n)
+     WHERE ${notSystemNode('n')}
+     RETURN toString(id(n)) AS id,
+            n {.type, .icon, .showname, .uid, .cve, .severity, .cvss_severity,
+               .cvss, .cvss_score, .cvssScore, .base_score, .baseScore} AS props`
+  );
+  const nodes = new Map<string, ScoringNode>();
+  const adjacency = new Map<string, Set<string>>();
+  nodeResult.records.forEach(record => {
+    const id: string = record.get('id');
+    const props = record.get('props');
+    const kind = nodeKind(props);
+    nodes.set(id, {
+      id,
+      uid: props.uid ?? null,
+      name: props.showname || props.uid || id,
+      kind,
+      cvss: kind === 'vulnerability' ? readCvss(props) : null,
+      cveId: props.cve ?? (lowerType(props) === 'cve' ? props.showname ?? null : null),
+    });
+    adjacency.set(id, new Set());
+  });
+
+  const edgeResult = await session.run(
+    `MATCH (a)-[r]->(b)
+     WHERE ${notSystemNode('a')} AND ${notSystemNode('b')}
+     RETURN toString(id(a)) AS source, toString(id(b)) AS target`
+  );
+  edgeResult.records.forEach(record => {
+    const source: string = record.get('source');
+    const target: string = record.get('target');
+    if (source === target || !adjacency.has(source) || !adjacency.has(target)) return;
+    adjacency.get(source)!.add(target);
+    adjacency.get(target)!.add(source);
+  });
+
+  const alertResult = await session.run(
+    `MATCH (a:Alert)
+     WHERE NOT coalesce(a.status, 'new') IN ['resolved', 'false-positive']
+     RETURN a.severity AS severity, a.matched_node_ids AS nodeIds`
+  );
+  const openAlerts = new Map<string, string[]>(); // node id -> severities of its open alerts
+  alertResult.records.forEach(record => {
+    (record.get('nodeIds') ?? []).forEach((nodeId: string) => {
+      if (!openAlerts.has(nodeId)) openAlerts.set(nodeId, []);
+      openAlerts.get(nodeId)!.push(record.get('severity'));
+    });
+  });
+
+  // --- Graph measures ---
+  // A CVE without its own score takes the highest score of its CVSS neighbours
+  nodes.forEach(node => {
+    if (node.kind !== 'vulnerability' || node.cvss !== null) return;
+    const neighbourScores = [...adjacency.get(node.id)!]
+      .map(id => nodes.get(id)!)
+      .filter(neighbour => neighbour.kind === 'vulnerability' && neighbour.cvss !== null)
+      .map(neighbour => neighbour.cvss as number);
+    if (neighbourScores.length > 0) node.cvss = neighbourScores.reduce((max, score) => Math.max(max, score));
+  });
+
+  const threats = threatDistances(adjacency, nodes);
+
+  const nodeIds = [...nodes.keys()];
+  const sources = betweennessSources(nodeIds);
+  const betweennessSampled = sources.length < nodeIds.length;
+  const betweennessById = betweenness(adjacency, sources);
+  // Reduced rather than spread into Math.max, which overflows the stack on large graphs
+  const maxBetweenness = [...betweennessById.values()].reduce((max, value) => Math.max(max, value), 0);
+  const maxDegree = [...adjacency.values()].reduce((max, neighbours) => Math.max(max, neighbours.size), 0);
+
+  const totalWeight = Object.values(weights).reduce((sum, weight) => sum + weight, 0);
+  const points = (factor: RiskFactorName, value: number) => (100 * weights[factor] * value) / totalWeight;
+
+  // --- Score the assets ---
+  const scores: { id: string; uid: string | null; score: number; level: RiskLevel | null; reason: string; factors: string }[] = [];
+  nodes.forEach(node => {
+    if (node.kind !== 'asset') return;
+    const factors: RiskFactor[] = [];
+
+    const vulnerabilities = [...adjacency.get(node.id)!]
+      .map(id => nodes.get(id)!)
+      .filter(neighbour => neighbour.kind === 'vulnerability');
+    if (vulnerabilities.length > 0) {
+      const worst = vulnerabilities.reduce((a, b) => ((b.cvss ?? UNKNOWN_CVSS) > (a.cvss ?? UNKNOWN_CVSS) ? b : a));
+      const maxCvss = worst.cvss ?? UNKNOWN_CVSS;
+      const value = Math.min(1, maxCvss / 10 + 0.05 * (vulnerabilities.length - 1));
+      factors.push({
+        factor: 'vulnerabilities',
+        value,
+        points: points('vulnerabilities', value),
+        detail: `${vulnerabilities.length} vulnerabilit${vulnerabilities.length === 1 ? 'y' : 'ies'}, max CVSS ${maxCvss.toFixed(1)} (${worst.cveId ?? worst.name})`,
+      });
+    }
+
+    const threat = threats.get(node.id);
+    if (threat && THREAT_PROXIMITY[threat.hops]) {
+      const value = THREAT_PROXIMITY[threat.hops];
+      factors.push({
+        factor: 'threatProximity',
+        value,
+        points: points('threatProximity', value),
+        detail: `${threat.hops} hop${threat.hops === 1 ? '' : 's'} from ${threat.threat}`,
+      });
+    }
+
+    const degree = adjacency.get(node.id)!.size;
+    const nodeBetweenness = betweennessById.get(node.id) ?? 0;
+    if (degree > 0) {
+      const degreeValue = maxDegree > 0 ? degree / maxDegree : 0;
+      const betweennessValue = maxBetweenness > 0 ? nodeBetweenness / maxBetweenness : 0;
+      const value = 0.5 * degreeValue + 0.5 * betweennessValue;
+      factors.push({
+        factor: 'centrality',
+        value,
+        points: points('centrality', value),
+        detail: `degree ${degree}, betweenness ${Math.round(betweennessValue * 100)}% of the most central node`,
+      });
+    }
+
+    const alertSeverities = openAlerts.get(node.id) ?? [];
+    if (alertSeverities.length > 0) {
+      const value = Math.min(1, alertSeverities.reduce((sum, severity) => sum + (ALERT_SEVERITY_VALUE[severity] ?? 0.3), 0));
+      const high = alertSeverities.filter(severity => severity === 'High').length;
+      factors.push({
+        factor: 'alerts',
+        value,
+        points: points('alerts', value),
+        detail: `${alertSeverities.length} open alert${alertSeverities.length === 1 ? '' : 's'}${high > 0 ? ` (${high} High)` : ''}`,
+      });
+    }
+
+    const score = Math.round(factors.reduce((sum, factor) => sum + factor.points, 0));
+    const contributing = factors.filter(factor => factor.points >= 0.5).sort((a, b) => b.points - a.points);
+    scores.push({
+      id: node.id,
+      uid: node.uid,
+      score,
+      level: riskLevelForScore(score),
+      reason: contributing.length > 0
+        ? contributing.map(factor => `${factor.detail} (+${Math.round(factor.points)})`).join('; ')
+        : 'No risk factors found',
+      factors: JSON.stringify(factors.map(factor => ({ ...factor, points: Math.round(factor.points * 10) / 10 }))),
+    });
+  });
+
+  // --- Persist ---
+  for (let i = 0; i < scores.length; i += WRITE_BATCH_SIZE) {
+    const batch = scores.slice(i, i + WRITE_BATCH_SIZE);
+    await session.executeWrite(tx => tx.run(
+      `UNWIND $scores AS s
+       MATCH (n) WHERE id(n) = toInteger(s.id)
+       SET n.riskScore = s.score, n.riskLevel = s.level, n.riskReason = s.reason,
+           n.riskFactors = s.factors, n.riskScoredAt = $now`,
+      { scores: batch, now: computedAt }
+    ));
+  }
+
+  // Nodes scored by an earlier run but not by this one (no longer assets) would keep
+  // their old score; everything scored above carries this run's timestamp.
+  const staleResult = await session.run(
+    `MATCH (n)
+     WHERE n.riskScoredAt IS NOT NULL AND n.riskScoredAt <> $now AND ${notSystemNode('n')}
+     CALL { WITH n REMOVE n.riskScore, n.riskLevel, n.riskReason, n.riskFactors, n.riskScoredAt } IN TRANSACTIONS OF 10000 ROWS
+     RETURN count(n) AS cleared`,
+    { now: computedAt }
+  );
+  const cleared = staleResult.records[0].get('cleared').toNumber();
+  if (cleared > 0) console.log(`Cleared stale risk scores from ${cleared} nodes`);
+
+  // --- Record the run for the trend charts ---
+  await recordRiskSnapshot(
+    session,
+    computedAt,
+    scores.filter(entry => entry.uid !== null).map(entry => ({ uid: entry.uid as string, score: entry.score }))
+  );
+
+  console.log(`Risk scores computed for ${scores.length} nodes${betweennessSampled ? ' (sampled betweenness)' : ''}`);
+  await publishLiveEvent(session, { type: 'risk', computedAt });
+  return { computedAt, scoredNodes: scores.length, weights, betweennessSampled };
+}
+
+export interface RiskItem {
+  id: string;
+  uid: string | null;
+  name: string;
+  type: string | null;
+  riskScore: number;
+  riskLevel: RiskLevel | null;
+  reason: string;
+  factors: RiskFactor[];
+}
+
+// Highest-scored nodes first
+export async function listRiskiestNodes(session: Session, limit: number = 20): Promise<RiskItem[]> {
+  const result = await session.run(
+    `MATCH (n)
+     WHERE n.riskScore > 0 AND ${notSystemNode('n')}
+     RETURN toString(id(n)) AS id, n.uid AS uid, coalesce(n.showname, n.uid) AS name, n.type AS type,
+            n.riskScore AS riskScore, n.riskLevel AS riskLevel, n.riskReason AS reason, n.riskFactors AS factors
+     ORDER BY n.riskScore DESC
+     LIMIT toInteger($limit)`,
+    { limit }
+  );
+  return result.records.map(record => ({
+    id: record.get('id'),
+    uid: record.get('uid'),
+    name: record.get('name') ?? record.get('id'),
+    type: record.get('type'),
+    riskScore: Number(record.get('riskScore')),
+    riskLevel: record.get('riskLevel'),
+    reason: record.get('reason') ?? '',
+    factors: record.get('factors') ? JSON.parse(record.get('factors')) : [],
+  }));
+}
@@ -0,0 +1,440 @@
+import { createHash, randomUUID } from 'crypto';
+import { z } from 'zod';
+import { Dataset, DatasetIssue, EdgeData, NodeData, formatIssuePath } from '@/lib/datasetSchema';
+import { SEARCH_TEXT_PROPERTY } from '@/lib/graphLabels';
+
+// Conversion between STIX 2.1 bundles and the dashboard's dataset format.
+//
+// Import: every STIX object except marking definitions becomes a node whose uid is the
+// STIX id. Relationships, sightings and embedded `*_ref(s)` properties become edges.
+// Nested values (external_references, kill_chain_phases, ...) can't be stored as Neo4j
+// properties, so they are kept as JSON strings and listed in `stix_json_properties`.
+//
+// Export: STIX-imported nodes are written back as they came in; any other node is exported
+// as the closest SDO type with its properties as `x_` custom properties.
+
+const stixObjectSchema = z.object({
+  type: z.string({ required_error: 'type is required' }).regex(/^[a-z0-9-]+$/, 'type must be a lowercase STIX type'),
+  id: z.string({ required_error: 'id is required' }).regex(/^[a-z0-9-]+--[0-9a-f-]{36}$/, 'id must look like "<type>--<uuid>"'),
+}).passthrough();
+
+const stixBundleSchema = z.object({
+  type: z.literal('bundle', { errorMap: () => ({ message: 'type must be "bundle"' }) }),
+  id: z.string().optional(),
+  objects: z.array(z.unknown(), { required_error: 'objects array is required' }),
+});
+
+type StixObject = z.infer<typeof stixObjectSchema>;
+
+export interface StixImportResult {
+  dataset?: Dataset;
+  issues: DatasetIssue[];    // The bundle can't be imported at all
+  warnings: string[];        // Objects or references that were left out
+}
+
+// Objects that describe other objects rather than being part of the graph
+const IGNORED_TYPES = new Set(['marking-definition', 'language-content', 'extension-definition']);
+const IGNORED_REF_PROPERTIES = new Set(['object_marking_refs']);
+
+// Node types for the SDOs we know; each one has an icon via iconUtils
+const NODE_TYPE_BY_STIX_TYPE: Record<string, string> = {
+  'indicator': 'Indicator',
+  'malware': 'Malware',
+  'threat-actor': 'ThreatActor',
+  'vulnerability': 'Vulnerability',
+  'identity': 'Identity',
+  'infrastructure': 'Infrastructure',
+  'attack-pattern': 'AttackPattern',
+  'campaign': 'Campaign',
+  'intrusion-set': 'IntrusionSet',
+  'tool': 'Tool',
+  'course-of-action': 'CourseOfAction',
+  'location': 'Location',
+  'report': 'Report',
+};
+
+// Properties the importer stores on every node/edge; never exported as STIX properties.
+// valid_from/valid_to hold the lifetime in epoch ms (an indicator's own valid_from is
+// exported again as a STIX timestamp). The search text is derived from the others.
+const INTERNAL_PROPERTIES = new Set([
+  'uid', 'type', 'showname', 'icon', 'timestamp', 'valid_from', 'valid_to',
+  'stix_type', 'stix_id', 'stix_ref', 'stix_json_properties', 'original_type', SEARCH_TEXT_PROPERTY,
+]);
+
+const pascalCase = (stixType: string) =>
+  stixType.split('-').map(part => part.charAt(0).toUpperCase() + part.slice(1)).join('');
+
+export const stixNodeType = (stixType: string) => NODE_TYPE_BY_STIX_TYPE[stixType] ?? pascalCase(stixType);
+
+// "attributed-to" <-> "ATTRIBUTED_TO"
+const toEdgeType = (relationshipType: string) => relationshipType.toUpperCase().replace(/-/g, '_');
+const toRelationshipType = (edgeType: string) => edgeType.toLowerCase().replace(/_/g, '-');
+
+// "created_by_ref" -> "CREATED_BY", "object_refs" -> "OBJECT"
+const refEdgeType = (refProperty: string) => refProperty.replace(/_refs?$/, '').toUpperCase();
+
+const isPrimitive = (value: unknown) =>
+  value === null || ['string', 'number', 'boolean'].includes(typeof value);
+
+// Neo4j arrays must be homogeneous lists of primitives
+const isStorableArray = (value: unknown[]) =>
+  value.every(isPrimitive) && new Set(value.map(item => typeof item)).size <= 1;
+
+// Pick the time the record shows up on the timeline
+const objectTimestamp = (object: Record<string, unknown>, ...keys: string[]) => {
+  for (const key of keys) {
+    if (typeof object[key] === 'string') return object[key] as string;
+  }
+  return undefined;
+};
+
+// The record's lifetime for the temporal model: from the first of `fromKeys` to the
+// first of `toKeys`, either end open when the object doesn't have one
+const objectLifetime = (object: Record<string, unknown>, fromKeys: string[], toKeys: string[]) => {
+  const validFrom = objectTimestamp(object, ...fromKeys);
+  const validTo = objectTimestamp(object, ...toKeys);
+  return { ...(validFrom ? { valid_from: validFrom } : {}), ...(validTo ? { valid_to: validTo } : {}) };
+};
+
+// Copies the object's own data into storable properties, skipping ids and references
+function toProperties(object: Record<string, unknown>, skip: string[]): Record<string, any> {
+  const properties: Record<string, any> = {};
+  const jsonProperties: string[] = [];
+
+  Object.entries(object).forEach(([key, value]) => {
+    if (skip.includes(key) || /_refs?$/.test(key) || value === undefined) return;
+    if (isPrimitive(value) || (Array.isArray(value) && isStorableArray(value))) {
+      properties[key] = value;
+    } else {
+      properties[key] = JSON.stringify(value);
+      jsonProperties.push(key);
+    }
+  });
+
+  if (jsonProperties.length > 0) {
+    properties.stix_json_properties = jsonProperties;
+  }
+  return properties;
+}
+
+// A bundle may carry several versions of one object; only the latest is imported
+function latestVersions(objects: StixObject[]): StixObject[] {
+  const byId = new Map<string, StixObject>();
+  objects.forEach(object => {
+    const existing = byId.get(object.id);
+    if (!existing || String(object.modified ?? '') > String(existing.modified ?? '')) {
+      byId.set(object.id, object);
+    }
+  });
+  return [...byId.values()];
+}
+
+const shownameFor = (object: StixObject) =>
+  [object.name, object.value, object.pattern].find(value => typeof value === 'string') as string | undefined ?? object.id;
+
+/**
+ * Converts a STIX 2.1 bundle into a dataset. Structural problems make the whole bundle
+ * invalid; unsupported objects are skipped with a warning. Edges may still point at
+ * objects outside the bundle - the caller decides whether those exist in the database.
+ */
+export function stixBundleToDataset(input: unknown): StixImportResult {
+  const bundle = stixBundleSchema.safeParse(input);
+  if (!bundle.success) {
+    return {
+      issues: bundle.error.issues.map(issue => ({ path: formatIssuePath(issue.path), message: issue.message })),
+      warnings: [],
+    };
+  }
+
+  const issues: DatasetIssue[] = [];
+  const warnings: string[] = [];
+  const objects: StixObject[] = [];
+  bundle.data.objects.forEach((raw, index) => {
+    const parsed = stixObjectSchema.safeParse(raw);
+    if (parsed.success) {
+      objects.push(parsed.data);
+    } else {
+      parsed.error.issues.forEach(issue => issues.push({
+        path: formatIssuePath(['objects', index, ...issue.path]),
+        message: issue.message,
+      }));
+    }
+  });
+  if (issues.length > 0) {
+    return { issues, warnings };
+  }
+
+  const nodes: NodeData[] = [];
+  const edges: EdgeData[] = [];
+
+  latestVersions(objects).forEach(object => {
+    if (IGNORED_TYPES.has(object.type)) return;
+
+    if (object.type === 'relationship') {
+      if (typeof object.source_ref !== 'string' || typeof object.target_ref !== 'string' || typeof object.relationship_type !== 'string') {
+        warnings.push(`${object.id}: relationship without source_ref, target_ref and relationship_type was skipped`);
+        return;
+      }
+      const properties = toProperties(object, ['type', 'id', 'spec_version', 'relationship_type']);
+      const timestamp = objectTimestamp(object, 'start_time', 'created', 'modified');
+      edges.push({
+        from: object.source_ref,
+        to: object.target_ref,
+        type: toEdgeType(object.relationship_type),
+        key: object.id,
+        properties: {
+          ...properties, stix_type: 'relationship', stix_id: object.id, ...(timestamp ? { timestamp } : {}),
+          ...objectLifetime(object, ['start_time', 'created'], ['stop_time']),
+        },
+      });
+      return;
+    }
+
+    if (object.type === 'sighting') {
+      const whereSighted = Array.isArray(object.where_sighted_refs) ? object.where_sighted_refs as string[] : [];
+      if (typeof object.sighting_of_ref !== 'string' || whereSighted.length === 0) {
+        warnings.push(`${object.id}: sighting without sighting_of_ref and where_sighted_refs was skipped`);
+        return;
+      }
+      const properties = toProperties(object, ['type', 'id', 'spec_version']);
+      const timestamp = objectTimestamp(object, 'first_seen', 'created', 'modified');
+      whereSighted.forEach(observer => edges.push({
+        from: observer,
+        to: object.sighting_of_ref as string,
+        type: 'SIGHTED',
+        key: object.id,
+        properties: {
+          ...properties, stix_type: 'sighting', stix_id: object.id, ...(timestamp ? { timestamp } : {}),
+          ...objectLifetime(object, ['first_seen', 'created'], ['last_seen']),
+        },
+      }));
+      return;
+    }
+
+    const properties = toProperties(object, ['type', 'id', 'spec_version']);
+    const timestamp = objectTimestamp(object, 'valid_from', 'created', 'modified');
+    const lifetime = objectLifetime(object, ['valid_from', 'first_seen', 'created'], ['valid_until', 'last_seen']);
+    nodes.push({
+      uid: object.id,
+      type: stixNodeType(object.type),
+      showname: shownameFor(object),
+      properties: { ...properties, stix_type: object.type, ...(timestamp ? { timestamp } : {}), ...lifetime },
+    });
+
+    // Embedded references, e.g. created_by_ref or a report's object_refs
+    Object.entries(object).forEach(([key, value]) => {
+      if (!/_refs?$/.test(key) || IGNORED_REF_PROPERTIES.has(key)) return;
+      const targets = Array.isArray(value) ? value : [value];
+      targets.filter((target): target is string => typeof target === 'string').forEach(target => edges.push({
+        from: object.id,
+        to: target,
+        type: refEdgeType(key),
+        properties: { stix_ref: key, ...(timestamp ? { timestamp } : {}), ...lifetime },
+      }));
+    });
+  });
+
+  return { dataset: { nodes, edges }, issues, warnings };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export interface GraphNodeRecord {
+  properties: Record<string, any>;
+}
+
+export interface GraphEdgeRecord {
+  from: string;   // uid of the start node
+  to: string;     // uid of the end node
+  type: string;
+  properties: Record<string, any>;
+}
+
+// Namespace for the deterministic ids of exported non-STIX records, so repeated
+// exports of the same graph produce the same ids
+const EXPORT_NAMESPACE = '6f1f5f83-0f5c-4c0e-9a8e-4d1b0f6a3c21';
+
+function uuidV5(name: string): string {
+  const namespace = Buffer.from(EXPORT_NAMESPACE.replace(/-/g, ''), 'hex');
+  const hash = createHash('sha1').update(namespace).update(name).digest();
+  hash[6] = (hash[6] & 0x0f) | 0x50;
+  hash[8] = (hash[8] & 0x3f) | 0x80;
+  const hex = hash.subarray(0, 16).toString('hex');
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Closest SDO type for nodes that didn't come from STIX
+function exportTypeFor(nodeType: string): string {
+  const normalized = nodeType.toLowerCase().replace(/[^a-z]/g, '');
+  if (['threatactor', 'threat', 'attacker', 'actor'].includes(normalized)) return 'threat-actor';
+  if (normalized === 'malware') return 'malware';
+  if (['vulnerability', 'cve'].includes(normalized)) return 'vulnerability';
+  if (['user', 'person', 'account', 'employee', 'identity', 'organization', 'entity'].includes(normalized)) return 'identity';
+  return 'infrastructure';
+}
+
+// STIX property names are limited to a-z, 0-9 and underscore
+const customPropertyName = (name: string) => `x_${name.toLowerCase().replace(/[^a-z0-9_]/g, '_')}`;
+
+const isStixId = (value: unknown, type?: string): value is string =>
+  typeof value === 'string' && /^[a-z0-9-]+--[0-9a-f-]{36}$/.test(value) && (!type || value.startsWith(`${type}--`));
+
+const toStixTimestamp = (value: unknown, fallback: string) => {
+  const time = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+  return time && !isNaN(time.getTime()) ? time.toISOString() : fallback;
+};
+
+// Properties of an imported STIX record, with JSON-encoded values decoded again
+function restoreProperties(properties: Record<string, any>, skip: string[] = []): Record<string, any> {
+  const jsonProperties: string[] = properties.stix_json_properties ?? [];
+  const restored: Record<string, any> = {};
+  Object.entries(properties).forEach(([key, value]) => {
+    if (INTERNAL_PROPERTIES.has(key) || skip.includes(key) || value === null) return;
+    if (jsonProperties.includes(key)) {
+      try {
+        restored[key] = JSON.parse(value);
+      } catch {
+        restored[key] = value;
+      }
+    } else {
+      restored[key] = value;
+    }
+  });
+  return restored;
+}
+
+function customProperties(properties: Record<string, any>, skip: string[] = []): Record<string, any> {
+  const custom: Record<string, any> = {};
+  Object.entries(properties).forEach(([key, value]) => {
+    if (INTERNAL_PROPERTIES.has(key) || skip.includes(key) || value === null) return;
+    custom[customPropertyName(key)] = value;
+  });
+  return custom;
+}
+
+/**
+ * Builds a STIX 2.1 bundle from graph records. Edges whose endpoints aren't part of
+ * `nodes` are left out, so a time-window subset still yields a self-contained bundle.
+ */
+export function graphToStixBundle(nodes: GraphNodeRecord[], edges: GraphEdgeRecord[]) {
+  const now = new Date().toISOString();
+  const objects: Record<string, any>[] = [];
+  const objectsByUid = new Map<string, Record<string, any>>();
+
+  nodes.forEach(({ properties }) => {
+    const uid = String(properties.uid ?? '');
+    if (!uid) return;
+    const created = toStixTimestamp(properties.created ?? properties.timestamp, now);
+    const common = { spec_version: '2.1', created, modified: toStixTimestamp(properties.modified, created) };
+
+    let object: Record<string, any>;
+    if (properties.stix_type && isStixId(uid, properties.stix_type)) {
+      object = { type: properties.stix_type, id: uid, ...common, ...restoreProperties(properties) };
+      if (properties.stix_type === 'indicator') {
+        object.valid_from = toStixTimestamp(properties.valid_from, created);
+      }
+    } else {
+      const type = exportTypeFor(String(properties.type ?? ''));
+      object = {
+        type,
+        id: `${type}--${uuidV5(`node:${uid}`)}`,
+        ...common,
+        name: properties.showname || uid,
+        ...(type === 'malware' ? { is_family: false } : {}),
+        ...customProperties(properties, ['created', 'modified', 'name']),
+        x_uid: uid,
+        x_type: properties.type,
+      };
+    }
+    objects.push(object);
+    objectsByUid.set(uid, object);
+  });
+
+  const sightings = new Map<string, Record<string, any>>();
+
+  edges.forEach(edge => {
+    const source = objectsByUid.get(edge.from);
+    const target = objectsByUid.get(edge.to);
+    if (!source || !target) return;
+    const { properties } = edge;
+
+    // Embedded references go back into the object they came from
+    if (typeof properties.stix_ref === 'string') {
+      const key = properties.stix_ref;
+      if (key.endsWith('_refs')) {
+        source[key] = [...new Set([...(source[key] ?? []), target.id])];
+      } else {
+        source[key] = target.id;
+      }
+      return;
+    }
+
+    if (properties.stix_type === 'sighting' && isStixId(properties.stix_id, 'sighting')) {
+      const sighting = sightings.get(properties.stix_id);
+      if (sighting) {
+        sighting.where_sighted_refs.push(source.id);
+      } else {
+        sightings.set(properties.stix_id, {
+          ...restoreProperties(properties, ['key']),
+          type: 'sighting',
+          spec_version: '2.1',
+          id: properties.stix_id,
+          created: toStixTimestamp(properties.created, now),
+          modified: toStixTimestamp(properties.modified ?? properties.created, now),
+          sighting_of_ref: target.id,
+          where_sighted_refs: [source.id],
+        });
+      }
+      return;
+    }
+
+    const edgeType = properties.original_type ?? edge.type;
+    const imported = properties.stix_type === 'relationship' && isStixId(properties.stix_id, 'relationship');
+    const created = toStixTimestamp(properties.created ?? properties.timestamp, now);
+    objects.push({
+      ...(imported ? restoreProperties(properties, ['key']) : customProperties(properties, ['created', 'modified'])),
+      type: 'relationship',
+      spec_version: '2.1',
+      id: imported ? properties.stix_id : `relationship--${uuidV5(`edge:${edge.from}|${edge.to}|${edgeType}|${properties.key ?? ''}`)}`,
+      created,
+      modified: toStixTimestamp(properties.modified, created),
+      relationship_type: toRelationshipType(edgeType),
+      source_ref: source.id,
+      target_ref: target.id,
+    });
+  });
+
+  return {
+    type: 'bundle',
+    id: `bundle--${randomUUID()}`,
+    objects: [...objects, ...sightings.values()],
+  };
+}
+
+/**
+ * Removes edges whose endpoints are neither in the dataset nor in `existingUids`.
+ * Bundles routinely reference objects they don't include (e.g. a `created_by_ref`
+ * identity), so these are reported as warnings instead of failing the import.
+ */
+export function dropDanglingEdges(dataset: Dataset, existingUids: Set<string>): { dataset: Dataset; warnings: string[] } {
+  const uids = new Set(dataset.nodes.map(node => node.uid));
+  const warnings: string[] = [];
+  const edges = dataset.edges.filter(edge => {
+    const missing = [edge.from, edge.to].filter(uid => !uids.has(uid) && !existingUids.has(uid));
+    if (missing.length > 0) {
+      const source = edge.key ?? `${edge.properties.stix_ref ?? edge.type} of ${edge.from}`;
+      warnings.push(`${source}: ${missing.join(', ')} is not in the bundle or the database, reference skipped`);
+      return false;
+    }
+    return true;
+  });
+  return { dataset: { ...dataset, edges }, warnings };
+}
+
+// uids referenced by edges but not defined in the dataset
+export function externalEdgeUids(dataset: Dataset): string[] {
+  const uids = new Set(dataset.nodes.map(node => node.uid));
+  return [...new Set(dataset.edges.flatMap(edge => [edge.from, edge.to]).filter(uid => !uids.has(uid)))];
+}
@@ -0,0 +1,101 @@
+import { randomUUID } from 'crypto';
+import { ManagedTransaction, Session } from 'neo4j-driver';
+import { StoredQueryData } from '@/lib/datasetSchema';
+
+// Saved queries are stored as (:StoredQuery) nodes next to the graph. Queries that ship
+// with a dataset (`storedQueries`) have source 'dataset' and are replaced together with
+// the data; queries created in the UI have source 'user' and are never touched by imports.
+
+export type StoredQuerySource = 'dataset' | 'user';
+
+export interface StoredQuery {
+  id: string;
+  query: string;
+  lang: string;
+  description: string | null;
+  source: StoredQuerySource;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Languages the runner can execute
+export const RUNNABLE_QUERY_LANGS = ['cypher'];
+
+function toStoredQuery(props: Record<string, any>): StoredQuery {
+  return {
+    id: props.id,
+    query: props.query,
+    lang: props.lang,
+    description: props.description ?? null,
+    source: props.source,
+    createdAt: props.createdAt,
+    updatedAt: props.updatedAt,
+  };
+}
+
+export async function listStoredQueries(session: Session): Promise<StoredQuery[]> {
+  const result = await session.run(
+    `MATCH (q:StoredQuery)
+     RETURN properties(q) AS query
+     ORDER BY q.source, coalesce(q.description, q.query)`
+  );
+  return result.records.map(record => toStoredQuery(record.get('query')));
+}
+
+export async function getStoredQuery(session: Session, id: string): Promise<StoredQuery | null> {
+  const result = await session.run('MATCH (q:StoredQuery {id: $id}) RETURN properties(q) AS query', { id });
+  return result.records.length > 0 ? toStoredQuery(result.records[0].get('query')) : null;
+}
+
+export async function createStoredQuery(session: Session, input: StoredQueryData): Promise<StoredQuery> {
+  const now = new Date().toISOString();
+  const result = await session.run(
+    `CREATE (q:StoredQuery {
+       id: $id, query: $query, lang: $lang, description: $description,
+       source: 'user', createdAt: $now, updatedAt: $now
+     })
+     RETURN properties(q) AS query`,
+    { id: randomUUID(), query: input.query, lang: input.lang, description: input.description ?? null, now }
+  );
+  return toStoredQuery(result.records[0].get('query'));
+}
+
+// Dataset queries can be edited too; they are still replaced by the next "replace" import
+export async function updateStoredQuery(session: Session, id: string, input: StoredQueryData): Promise<StoredQuery | null> {
+  const result = await session.run(
+    `MATCH (q:StoredQuery {id: $id})
+     SET q.query = $query, q.lang = $lang, q.description = $description, q.updatedAt = $now
+     RETURN properties(q) AS query`,
+    { id, query: input.query, lang: input.lang, description: input.description ?? null, now: new Date().toISOString() }
+  );
+  return result.records.length > 0 ? toStoredQuery(result.records[0].get('query')) : null;
+}
+
+export async function deleteStoredQuery(session: Session, id: string): Promise<boolean> {
+  const result = await session.run(
+    'MATCH (q:StoredQuery {id: $id}) DELETE q RETURN count(*) AS deleted',
+    { id }
+  );
+  return result.records[0].get('deleted').toNumber() > 0;
+}
+
+/**
+ * Saves the `storedQueries` of an uploaded dataset. A query already stored from an
+ * earlier upload (same text and language) is updated instead of duplicated.
+ * Returns the number of queries saved.
+ */
+export async function saveDatasetQueries(runner: Session | ManagedTransaction, queries: StoredQueryData[]): Promise<number> {
+  if (queries.length === 0) return 0;
+
+  await runner.run(
+    `UNWIND $queries AS queryData
+     MERGE (q:StoredQuery {source: 'dataset', query: queryData.query, lang: queryData.lang})
+     ON CREATE SET q.id = randomUUID(), q.createdAt = $now
+     SET q.description = queryData.description, q.updatedAt = $now`,
+    {
+      queries: queries.map(query => ({ query: query.query, lang: query.lang, description: query.description ?? null })),
+      now: new Date().toISOString(),
+    }
+  );
+  return queries.length;
+}
@@ -0,0 +1,160 @@
+import neo4j, { Integer, Session } from 'neo4j-driver';
+import { parseTimestamp } from '@/lib/timeUtils';
+
+// The temporal model shared by imports and the time-window queries.
+//
+// Every timed node and relationship carries `valid_from` and/or `valid_to`, stored like
+// `timestamp` as epoch milliseconds (Neo4j integers). A record is alive from valid_from
+// until valid_to; a missing bound is open, so a server first seen last year without a
+// valid_to is alive in every window since. Records with neither are untimed and belong
+// to every window, as before.
+
+// Properties holding epoch-ms times
+export const TEMPORAL_PROPERTIES = ['timestamp', 'valid_from', 'valid_to'] as const;
+
+export const toEpochInteger = (time: number): Integer => neo4j.int(Math.round(time));
+
+/**
+ * Cypher condition: `variable` is alive at some point in [$startTime, $endTime]
+ * (epoch ms parameters). Untimed records always are.
+ */
+export const aliveInWindow = (variable: string) =>
+  `((${variable}.valid_from IS NULL OR ${variable}.valid_from <= $endTime)
+    AND (${variable}.valid_to IS NULL OR ${variable}.valid_to >= $startTime))`;
+
+// Window parameters for aliveInWindow
+export const windowParams = (startTime: number, endTime: number) => ({
+  startTime: toEpochInteger(startTime),
+  endTime: toEpochInteger(endTime),
+});
+
+// Records converted per transaction by the migration
+const MIGRATION_BATCH_SIZE = 1000;
+
+// Marks a database whose records were migrated (see ensureTemporalModel)
+const TEMPORAL_MIGRATION = 'temporal-epoch-ms';
+
+// Whether this process has seen the migration done. On globalThis so dev hot reloads
+// don't check again.
+const globalForTemporal = globalThis as typeof globalThis & { temporalModelReady?: boolean };
+
+// Converts the string values of one property to epoch ms, a batch at a time. The strings
+// are parsed like uploads are (parseTimestamp); those that don't parse are left as they
+// are and counted, rather than failing the whole step.
+async function convertStringTimes(session: Session, pattern: string, property: string): Promise<{ changed: number; skipped: number }> {
+  let after = -1;
+  let changed = 0;
+  let skipped = 0;
+  for (;;) {
+    const result = await session.run(
+      `MATCH ${pattern}
+       WHERE id(x) > $after AND x.${property} = toString(x.${property})
+       RETURN id(x) AS id, x.${property} AS value
+       ORDER BY id
+       LIMIT $batchSize`,
+      { after: neo4j.int(after), batchSize: neo4j.int(MIGRATION_BATCH_SIZE) }
+    );
+    if (result.records.length === 0) return { changed, skipped };
+
+    const rows = result.records
+      .map(record => ({ id: record.get('id'), time: parseTimestamp(record.get('value')) }))
+      .filter(row => row.time !== null)
+      .map(row => ({ id: row.id, time: toEpochInteger(row.time as number) }));
+    if (rows.length > 0) {
+      await session.run(
+        `UNWIND $rows AS row
+         MATCH ${pattern} WHERE id(x) = row.id
+         SET x.${property} = row.time`,
+        { rows }
+      );
+    }
+    changed += rows.length;
+    skipped += result.records.length - rows.length;
+    after = result.records[result.records.length - 1].get('id').toNumber();
+  }
+}
+
+/**
+ * Brings records written before the temporal model up to date: string timestamps
+ * become epoch ms, and a timestamp-only record gets a zero-length lifetime at its
+ * timestamp, which keeps it in exactly the windows it used to appear in. Values that
+ * can't be parsed stay strings; such records remain untimed.
+ * Returns the number of records changed and of values skipped.
+ */
+export async function normalizeTemporalProperties(session: Session): Promise<{ changed: number; skipped: number }> {
+  let changed = 0;
+  let skipped = 0;
+  for (const pattern of ['(x)', '()-[x]->()']) {
+    for (const property of TEMPORAL_PROPERTIES) {
+      const converted = await convertStringTimes(session, pattern, property);
+      changed += converted.changed;
+      skipped += converted.skipped;
+    }
+    const result = await session.run(
+      `MATCH ${pattern}
+       WHERE x.timestamp IS NOT NULL AND x.timestamp <> toString(x.timestamp)
+         AND x.valid_from IS NULL AND x.valid_to IS NULL
+       CALL { WITH x SET x.valid_from = x.timestamp, x.valid_to = x.timestamp } IN TRANSACTIONS OF 10000 ROWS
+       RETURN count(x) AS changed`
+    );
+    changed += result.records[0].get('changed').toNumber();
+  }
+  return { changed, skipped };
+}
+
+/**
+ * Runs normalizeTemporalProperties once per database, before the first time-window read
+ * (the graph and geo data routes call it). Done databases are marked with a
+ * (:Migration) node, so later calls cost one lookup per process.
+ */
+export async function ensureTemporalModel(session: Session): Promise<void> {
+  if (globalForTemporal.temporalModelReady) return;
+
+  const existing = await session.run(
+    'MATCH (m:Migration {name: $name}) RETURN count(m) AS count',
+    { name: TEMPORAL_MIGRATION }
+  );
+  if (existing.records[0].get('count').toNumber() === 0) {
+    const { changed, skipped } = await normalizeTemporalProperties(session);
+    if (changed > 0) console.log(`Migrated ${changed} records to epoch-ms lifetimes`);
+    if (skipped > 0) console.warn(`Left ${skipped} unparseable time values as they were; those records stay untimed`);
+    await session.run(
+      'MERGE (m:Migration {name: $name}) ON CREATE SET m.at = $now',
+      { name: TEMPORAL_MIGRATION, now: new Date().toISOString() }
+    );
+  }
+  globalForTemporal.temporalModelReady = true;
+}
+
+export interface TimeWindow {
+  startTime: number; // Epoch ms
+  endTime: number;
+}
+
+/**
+ * Reads optional `startTime`/`endTime` query parameters (epoch ms, as used by
+ * /api/graph-data). Neither given means no time filter.
+ */
+export function parseTimeWindow(searchParams: URLSearchParams): { window: TimeWindow | null; error?: string } {
+  const startTimeStr = searchParams.get('startTime');
+  const endTimeStr = searchParams.get('endTime');
+  if (!startTimeStr && !endTimeStr) return { window: null };
+
+  const startTime = Number(startTimeStr);
+  const endTime = Number(endTimeStr);
+  if (!startTimeStr || !endTimeStr || !Number.isFinite(startTime) || !Number.isFinite(endTime) || startTime >= endTime) {
+    return { window: null, error: 'Invalid time range parameters' };
+  }
+  return { window: { startTime, endTime } };
+}
+
+/**
+ * Condition on a node or relationship for an optional window, to append to a WHERE
+ * clause: " AND <aliveInWindow>" with a window, nothing without. Pass windowParams too.
+ */
+export const aliveFilter = (window: TimeWindow | null) => (variable: string) =>
+  (window ? ` AND ${aliveInWindow(variable)}` : '');
+
+// windowParams for an optional window
+export const optionalWindowParams = (window: TimeWindow | null) =>
+  (window ? windowParams(window.startTime, window.endTime) : {});
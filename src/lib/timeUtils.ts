@@ -0,0 +1,73 @@
+// Shared timestamp helpers for the graph, Sigma and geo views.
+//
+// Records without a timestamp are "always present": they are visible in every
+// time window instead of being pinned to an arbitrary point in time. Timed records
+// live from `valid_from` to `valid_to` (see temporal.ts for the server side).
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Uploaded properties that set a record's lifetime bounds, in order of preference
+export const VALID_FROM_PROPERTIES = ['valid_from', 'first_seen'];
+export const VALID_TO_PROPERTIES = ['valid_to', 'last_seen'];
+
+// True when a record carries a timestamp at all (0 is a valid epoch value)
+export function hasTimestamp(value: unknown): boolean {
+  return value !== null && value !== undefined && value !== '';
+}
+
+// Convert a stored timestamp (epoch ms or date string) to epoch ms, or null if absent/unparseable
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? value : null;
+  }
+  if (typeof value === 'string' && value !== '') {
+    const time = new Date(value).getTime();
+    return isNaN(time) ? null : time;
+  }
+  return null;
+}
+
+// Untimed records are always in the window; records with an unparseable timestamp never are
+export function isWithinTimeWindow(value: unknown, start: number, end: number): boolean {
+  if (!hasTimestamp(value)) return true;
+  const time = parseTimestamp(value);
+  return time !== null && time >= start && time <= end;
+}
+
+/**
+ * Whether a record (element data or properties) is alive at some point in the window.
+ * Records from before the temporal model, with only a `timestamp`, live for that instant.
+ */
+export function isAliveInTimeWindow(data: Record<string, any>, start: number, end: number): boolean {
+  if (!hasTimestamp(data.valid_from) && !hasTimestamp(data.valid_to)) {
+    return isWithinTimeWindow(data.timestamp, start, end);
+  }
+  const validFrom = parseTimestamp(data.valid_from);
+  const validTo = parseTimestamp(data.valid_to);
+  return (validFrom === null || validFrom <= end) && (validTo === null || validTo >= start);
+}
+
+// The times a record spans, for getTimestampBounds
+export function lifetimeTimes(data: Record<string, any>): unknown[] {
+  return [data.valid_from, data.valid_to, data.timestamp];
+}
+
+/**
+ * Min/max over the timed values, ignoring untimed ones. Returns null when nothing is timed.
+ * A single instant (e.g. a whole upload stamped with the import time) is widened by an hour
+ * so the timeline still gets a usable range.
+ */
+export function getTimestampBounds(values: unknown[]): { min: number; max: number } | null {
+  let min = Infinity;
+  let max = -Infinity;
+  values.forEach(value => {
+    const time = parseTimestamp(value);
+    if (time === null) return;
+    if (time < min) min = time;
+    if (time > max) max = time;
+  });
+
+  if (!isFinite(min) || !isFinite(max)) return null;
+  if (min === max) min -= HOUR_MS;
+  return { min, max };
+}